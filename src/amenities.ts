@@ -0,0 +1,224 @@
+import { toNumberOrNull, toStringOrNull } from './providers/util.js';
+import {
+  FacilityAmenities,
+  RequirementChecks,
+  RequirementStatus,
+  VehicleRequirements
+} from './types.js';
+
+/** Heights above this are assumed to be given in centimetres. */
+const MAX_PLAUSIBLE_HEIGHT_METERS = 10;
+
+const CONNECTOR_ALIASES: Record<string, string> = {
+  type2: 'type2',
+  'type 2': 'type2',
+  mennekes: 'type2',
+  iec62196: 'type2',
+  ccs: 'ccs',
+  ccs2: 'ccs',
+  combo: 'ccs',
+  chademo: 'chademo',
+  schuko: 'schuko',
+  type1: 'type1',
+  'type 1': 'type1',
+  tesla: 'tesla'
+};
+
+const TRUE_VALUES = new Set(['true', 'yes', 'ja', '1']);
+const FALSE_VALUES = new Set(['false', 'no', 'nej', '0']);
+
+export function emptyAmenities(): FacilityAmenities {
+  return {
+    evChargers: null,
+    connectorTypes: [],
+    maxHeightMeters: null,
+    accessibleSpaces: null,
+    motorcycleSpaces: null,
+    bikeSpaces: null,
+    openingHours: null,
+    covered: null
+  };
+}
+
+function toBooleanOrNull(value: unknown): boolean | null {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  const text = toStringOrNull(value)?.trim().toLowerCase();
+  if (text === undefined || text === null) {
+    return null;
+  }
+  if (TRUE_VALUES.has(text)) {
+    return true;
+  }
+  return FALSE_VALUES.has(text) ? false : null;
+}
+
+function toCountOrNull(value: unknown): number | null {
+  const count = toNumberOrNull(value);
+  return count !== null && count >= 0 ? Math.floor(count) : null;
+}
+
+/**
+ * Maps connector names to canonical ids (`type2`, `ccs`, `chademo`, `schuko`, `type1`, `tesla`).
+ * @param value Array or comma/semicolon separated list of connector names.
+ * @returns Unique canonical connector ids; unrecognised names are kept lowercased.
+ */
+export function normalizeConnectorTypes(value: unknown): string[] {
+  const names = Array.isArray(value) ? value : (toStringOrNull(value)?.split(/[,;/]/) ?? []);
+  const types = new Set<string>();
+  for (const name of names) {
+    const key = toStringOrNull(name)?.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+    if (key) {
+      types.add(CONNECTOR_ALIASES[key] ?? CONNECTOR_ALIASES[key.replace(/ /g, '')] ?? key.replace(/ /g, ''));
+    }
+  }
+  return [...types];
+}
+
+function heightInMeters(value: unknown): number | null {
+  const height = toNumberOrNull(value);
+  if (height === null || height <= 0) {
+    return null;
+  }
+  return height > MAX_PLAUSIBLE_HEIGHT_METERS ? height / 100 : height;
+}
+
+function coveredFromType(value: unknown): boolean | null {
+  const type = toStringOrNull(value)?.toLowerCase();
+  if (!type) {
+    return null;
+  }
+  if (/garage|indoor|underground|multi.?stor|inomhus/.test(type)) {
+    return true;
+  }
+  return /surface|open|street|utomhus|mark/.test(type) ? false : null;
+}
+
+/**
+ * Reads amenity fields from a raw facility record, accepting camelCase and PascalCase keys.
+ * @param raw Upstream facility record or GeoJSON feature properties.
+ * @returns Normalized amenities; fields the record does not mention are null.
+ */
+export function normalizeAmenities(raw: Record<string, unknown>): FacilityAmenities {
+  const connectorTypes = normalizeConnectorTypes(raw.connectorTypes ?? raw.ConnectorTypes);
+  return {
+    evChargers: toCountOrNull(raw.evChargers ?? raw.EvChargers ?? raw.chargingPoints ?? raw.ChargingPoints),
+    connectorTypes,
+    maxHeightMeters: heightInMeters(raw.maxHeightMeters ?? raw.maxHeight ?? raw.MaxHeight ?? raw.heightLimit),
+    accessibleSpaces: toCountOrNull(
+      raw.accessibleSpaces ?? raw.AccessibleSpaces ?? raw.handicapSpaces ?? raw.HandicapSpaces
+    ),
+    motorcycleSpaces: toCountOrNull(raw.motorcycleSpaces ?? raw.MotorcycleSpaces),
+    bikeSpaces: toCountOrNull(raw.bikeSpaces ?? raw.BikeSpaces ?? raw.bicycleSpaces ?? raw.BicycleSpaces),
+    openingHours: toStringOrNull(raw.openingHours ?? raw.OpeningHours ?? raw.opening_hours),
+    covered:
+      toBooleanOrNull(raw.covered ?? raw.Covered ?? raw.indoor ?? raw.Indoor) ??
+      coveredFromType(raw.facilityType ?? raw.FacilityType ?? raw.type)
+  };
+}
+
+/**
+ * Fills amenity fields missing in `primary` from `secondary`, for facilities merged across providers.
+ * @param primary Amenities of the facility that is kept.
+ * @param secondary Amenities of the duplicate.
+ * @returns Combined amenities.
+ */
+export function mergeAmenities(primary: FacilityAmenities, secondary: FacilityAmenities): FacilityAmenities {
+  return {
+    evChargers: primary.evChargers ?? secondary.evChargers,
+    connectorTypes: primary.connectorTypes.length > 0 ? primary.connectorTypes : secondary.connectorTypes,
+    maxHeightMeters: primary.maxHeightMeters ?? secondary.maxHeightMeters,
+    accessibleSpaces: primary.accessibleSpaces ?? secondary.accessibleSpaces,
+    motorcycleSpaces: primary.motorcycleSpaces ?? secondary.motorcycleSpaces,
+    bikeSpaces: primary.bikeSpaces ?? secondary.bikeSpaces,
+    openingHours: primary.openingHours ?? secondary.openingHours,
+    covered: primary.covered ?? secondary.covered
+  };
+}
+
+function countStatus(count: number | null): RequirementStatus {
+  if (count === null) {
+    return 'unknown';
+  }
+  return count > 0 ? 'met' : 'unmet';
+}
+
+function evChargingStatus(amenities: FacilityAmenities): RequirementStatus {
+  if (amenities.connectorTypes.length > 0) {
+    return 'met';
+  }
+  return countStatus(amenities.evChargers);
+}
+
+function connectorStatus(amenities: FacilityAmenities, wanted: string[]): RequirementStatus {
+  if (amenities.evChargers === 0) {
+    return 'unmet';
+  }
+  if (amenities.connectorTypes.length === 0) {
+    return 'unknown';
+  }
+  return normalizeConnectorTypes(wanted).some((type) => amenities.connectorTypes.includes(type)) ? 'met' : 'unmet';
+}
+
+function heightStatus(amenities: FacilityAmenities, vehicleHeightMeters: number): RequirementStatus {
+  if (amenities.maxHeightMeters !== null) {
+    return amenities.maxHeightMeters >= vehicleHeightMeters ? 'met' : 'unmet';
+  }
+  // Open-air parking has no clearance limit.
+  return amenities.covered === false ? 'met' : 'unknown';
+}
+
+/**
+ * Checks each requested vehicle requirement against a facility's amenities.
+ * @param amenities Facility amenities.
+ * @param requirements Requested requirements; `false`/omitted flags are not checked.
+ * @returns Status per requested requirement, or null when nothing was requested.
+ */
+export function checkRequirements(
+  amenities: FacilityAmenities,
+  requirements: VehicleRequirements | undefined
+): RequirementChecks | null {
+  if (!requirements) {
+    return null;
+  }
+
+  const checks: RequirementChecks = {};
+  if (requirements.evCharging) {
+    checks.evCharging = evChargingStatus(amenities);
+  }
+  if (requirements.connectorTypes && requirements.connectorTypes.length > 0) {
+    checks.connectorTypes = connectorStatus(amenities, requirements.connectorTypes);
+  }
+  if (requirements.vehicleHeightMeters !== undefined) {
+    checks.vehicleHeightMeters = heightStatus(amenities, requirements.vehicleHeightMeters);
+  }
+  if (requirements.accessible) {
+    checks.accessible = countStatus(amenities.accessibleSpaces);
+  }
+  if (requirements.motorcycle) {
+    checks.motorcycle = countStatus(amenities.motorcycleSpaces);
+  }
+  if (requirements.bike) {
+    checks.bike = countStatus(amenities.bikeSpaces);
+  }
+  if (requirements.covered !== undefined) {
+    checks.covered =
+      amenities.covered === null ? 'unknown' : amenities.covered === requirements.covered ? 'met' : 'unmet';
+  }
+
+  return Object.keys(checks).length > 0 ? checks : null;
+}
+
+/**
+ * Decides whether a facility passes the requirement filter.
+ * @param checks Result of {@link checkRequirements}.
+ * @param strict When true, requirements the data cannot confirm also exclude the facility.
+ * @returns True when the facility should be kept.
+ */
+export function passesRequirements(checks: RequirementChecks | null, strict: boolean): boolean {
+  if (!checks) {
+    return true;
+  }
+  return Object.values(checks).every((status) => status === 'met' || (!strict && status === 'unknown'));
+}
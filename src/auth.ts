@@ -0,0 +1,85 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { ApiClient } from './types.js';
+
+/** Client name used for every caller when no API keys are configured. */
+export const ANONYMOUS_CLIENT = 'anonymous';
+
+type Headers = Record<string, string | string[] | undefined>;
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value, 'utf-8').digest();
+}
+
+function firstHeader(headers: Headers, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Parses `API_KEYS`: comma-separated `name:key` entries, optionally `name:key:requestsPerMinute`
+ * to override the default rate limit for that client.
+ * @param value Raw env value.
+ * @returns Configured clients.
+ */
+export function parseApiClients(value: string | undefined): ApiClient[] {
+  const clients: ApiClient[] = [];
+  const entries = (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+  entries.forEach((entry, index) => {
+    const [name, key, limit] = entry.split(':').map((part) => part.trim());
+    if (!name || !key) {
+      // The entry itself is not echoed: it may hold a key.
+      throw new Error(`Invalid API_KEYS entry #${index + 1}: expected name:key[:requestsPerMinute]`);
+    }
+    const requestsPerMinute = limit === undefined ? null : Number.parseInt(limit, 10);
+    if (requestsPerMinute !== null && !(requestsPerMinute > 0)) {
+      throw new Error(`Invalid rate limit for API client '${name}': expected a positive integer`);
+    }
+    if (clients.some((client) => client.name === name)) {
+      throw new Error(`Duplicate API client '${name}'`);
+    }
+    clients.push({ name, key, requestsPerMinute });
+  });
+  return clients;
+}
+
+/**
+ * Extracts the credential from `Authorization: Bearer <token>` (what Opal sends for the bearer
+ * token set at tool registration) or `X-API-Key`.
+ * @param headers Incoming request headers.
+ * @returns Presented credential, if any.
+ */
+export function credentialOf(headers: Headers): string | null {
+  const authorization = firstHeader(headers, 'authorization');
+  const bearer = authorization ? /^Bearer\s+(\S+)\s*$/i.exec(authorization) : null;
+  if (bearer) {
+    return bearer[1];
+  }
+  const apiKey = firstHeader(headers, 'x-api-key')?.trim();
+  return apiKey || null;
+}
+
+/**
+ * Finds the configured client a request authenticates as. Keys are compared through their
+ * SHA-256 digests in constant time, so response timing does not reveal key prefixes.
+ * @param headers Incoming request headers.
+ * @param clients Configured clients.
+ * @returns Matching client, or null when the credential is missing or unknown.
+ */
+export function authenticate(headers: Headers, clients: ApiClient[]): ApiClient | null {
+  const credential = credentialOf(headers);
+  if (credential === null) {
+    return null;
+  }
+  const presented = digest(credential);
+  let match: ApiClient | null = null;
+  for (const client of clients) {
+    // Check every client so the time taken does not depend on which one matched.
+    if (timingSafeEqual(presented, digest(client.key)) && match === null) {
+      match = client;
+    }
+  }
+  return match;
+}
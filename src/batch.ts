@@ -0,0 +1,108 @@
+import { BatchRecommendationResult, FacilityRecommendation } from './types.js';
+
+/** The part of an Ajv error object the split relies on. */
+interface ValidationError {
+  instancePath: string;
+}
+
+export interface SplitValidationErrors<E extends ValidationError> {
+  /** Errors in the batch envelope itself, which fail the whole call. */
+  batch: E[];
+  /** Errors per item index, with instance paths relative to the item. */
+  items: Map<number, E[]>;
+}
+
+/**
+ * Sorts batch validation errors into envelope errors and errors of individual items, so a bad
+ * item fails alone.
+ * @param errors Errors from validating the whole batch.
+ * @param itemsPath Instance path of the items array.
+ * @returns Envelope errors and item errors.
+ */
+export function splitValidationErrors<E extends ValidationError>(
+  errors: E[],
+  itemsPath: string
+): SplitValidationErrors<E> {
+  const batch: E[] = [];
+  const items = new Map<number, E[]>();
+  const pattern = new RegExp(`^${itemsPath}/(\\d+)(/.*)?$`);
+
+  for (const error of errors) {
+    const match = pattern.exec(error.instancePath);
+    if (!match) {
+      batch.push(error);
+      continue;
+    }
+    const index = Number(match[1]);
+    const itemErrors = items.get(index) ?? [];
+    itemErrors.push({ ...error, instancePath: match[2] ?? '' });
+    items.set(index, itemErrors);
+  }
+  return { batch, items };
+}
+
+/**
+ * Describes why a batch item failed, with the same messages the HTTP server uses for a failed
+ * call. Unexpected errors are reported generically.
+ * @param index Item index.
+ * @param error Error thrown for the item.
+ * @returns Failed item result.
+ */
+export function failedItem(index: number, error: unknown): BatchRecommendationResult {
+  const result = (message: string, details?: unknown): BatchRecommendationResult => ({
+    index,
+    status: 'error',
+    recommendations: [],
+    error: message,
+    ...(details !== undefined ? { details } : {})
+  });
+
+  if (error instanceof Error && error.message === 'Invalid input') {
+    return result(error.message, (error as Error & { details?: unknown }).details);
+  }
+  if (error instanceof Error && error.name === 'CircuitOpenError') {
+    return result('Upstream unavailable');
+  }
+  if (error instanceof Error && error.name === 'AbortError') {
+    return result('Request timed out');
+  }
+  return result('Internal server error');
+}
+
+/**
+ * Spaces claimed by earlier stops of a batch. Each stop takes one space at its top pick, so later
+ * stops see fewer free spaces there and the last spaces of a facility are not promised twice.
+ */
+export class SpaceReservations {
+  private readonly taken = new Map<string, number>();
+
+  /**
+   * Number of spaces already claimed at a facility.
+   * @param facilityId Facility id.
+   * @returns Claimed spaces.
+   */
+  reserved(facilityId: string): number {
+    return this.taken.get(facilityId) ?? 0;
+  }
+
+  /**
+   * Lowers a facility's free spaces by the spaces claimed there.
+   * @param facilityId Facility id.
+   * @param freeSpaces Free spaces reported upstream.
+   * @returns Free spaces left, never below zero; null when unknown.
+   */
+  remaining(facilityId: string, freeSpaces: number | null): number | null {
+    return freeSpaces === null ? null : Math.max(0, freeSpaces - this.reserved(facilityId));
+  }
+
+  /**
+   * Claims one space at the top recommendation of a stop.
+   * @param recommendations Ranked recommendations of the stop.
+   */
+  claimTop(recommendations: FacilityRecommendation[]): void {
+    const [top] = recommendations;
+    if (top) {
+      this.taken.set(top.id, this.reserved(top.id) + 1);
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import { BreakerState, BreakerStatus, ServiceConfig } from './types.js';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit. */
+  failureThreshold: number;
+  /** How long the circuit stays open before letting a probe through. */
+  resetTimeoutMs: number;
+  /** Concurrent probes allowed while half-open. */
+  halfOpenMaxCalls: number;
+}
+
+/**
+ * Summarises a failure for the unauthenticated health report: the error class and, for upstream
+ * error responses, the HTTP status. Messages are left out because they can carry response bodies.
+ * @param error Failure.
+ * @returns Summary such as `TimeoutError` or `Error: HTTP 503`.
+ */
+export function errorSummary(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return 'Error';
+  }
+  const status = (error as Error & { details?: { status?: unknown } }).details?.status;
+  return typeof status === 'number' ? `${error.name}: HTTP ${status}` : error.name;
+}
+
+/**
+ * Builds the error thrown when a call is rejected because the circuit is open.
+ * @param endpoint Endpoint the circuit guards.
+ * @returns Error named `CircuitOpenError`.
+ */
+export function circuitOpenError(endpoint: string): Error {
+  const error = new Error(`Circuit open for ${endpoint}`);
+  error.name = 'CircuitOpenError';
+  return error;
+}
+
+/**
+ * Closed/open/half-open circuit breaker for one upstream endpoint. After `failureThreshold`
+ * consecutive failures calls are rejected without touching the network until `resetTimeoutMs`
+ * has passed; then up to `halfOpenMaxCalls` probes decide whether to close or reopen it.
+ */
+export class CircuitBreaker {
+  readonly endpoint: string;
+  private readonly options: CircuitBreakerOptions;
+  private state: BreakerState = 'closed';
+  private consecutiveFailures = 0;
+  private probesInFlight = 0;
+  private openedAt: number | null = null;
+  private totalFailures = 0;
+  private totalSuccesses = 0;
+  private lastSuccessAt: number | null = null;
+  private lastFailureAt: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(endpoint: string, options: CircuitBreakerOptions) {
+    this.endpoint = endpoint;
+    this.options = options;
+  }
+
+  /**
+   * Asks to make a call. Every granted call must be followed by exactly one of
+   * {@link recordSuccess}, {@link recordFailure} or {@link release}.
+   * @param now Current time in epoch ms.
+   * @returns True when the call may go ahead.
+   */
+  tryAcquire(now: number = Date.now()): boolean {
+    if (this.state === 'open') {
+      if (this.openedAt !== null && now - this.openedAt < this.options.resetTimeoutMs) {
+        return false;
+      }
+      this.state = 'half_open';
+    }
+    if (this.state === 'half_open') {
+      if (this.probesInFlight >= this.options.halfOpenMaxCalls) {
+        return false;
+      }
+      this.probesInFlight += 1;
+    }
+    return true;
+  }
+
+  recordSuccess(now: number = Date.now()): void {
+    this.totalSuccesses += 1;
+    this.lastSuccessAt = now;
+    this.consecutiveFailures = 0;
+    this.probesInFlight = 0;
+    this.state = 'closed';
+    this.openedAt = null;
+  }
+
+  recordFailure(error: unknown, now: number = Date.now()): void {
+    this.totalFailures += 1;
+    this.lastFailureAt = now;
+    this.lastError = errorSummary(error);
+    this.consecutiveFailures += 1;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = now;
+      this.probesInFlight = 0;
+    }
+  }
+
+  /** Gives back a granted call that ended without an upstream verdict, e.g. because the caller aborted. */
+  release(): void {
+    if (this.state === 'half_open' && this.probesInFlight > 0) {
+      this.probesInFlight -= 1;
+    }
+  }
+
+  status(): BreakerStatus {
+    const iso = (ms: number | null) => (ms === null ? null : new Date(ms).toISOString());
+    return {
+      endpoint: this.endpoint,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalFailures: this.totalFailures,
+      totalSuccesses: this.totalSuccesses,
+      openedAt: iso(this.openedAt),
+      lastSuccessAt: iso(this.lastSuccessAt),
+      lastFailureAt: iso(this.lastFailureAt),
+      lastError: this.lastError
+    };
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/** Breakers are keyed by origin and path, so query strings such as API keys never become part of the key. */
+function endpointKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Returns the process-wide breaker for the endpoint a URL points at.
+ * @param url Request URL.
+ * @param config Service configuration with breaker thresholds.
+ * @returns Shared breaker.
+ */
+export function getBreaker(url: string, config: ServiceConfig): CircuitBreaker {
+  const key = endpointKey(url);
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = new CircuitBreaker(key, {
+      failureThreshold: config.breakerFailureThreshold,
+      resetTimeoutMs: config.breakerResetTimeoutMs,
+      halfOpenMaxCalls: config.breakerHalfOpenMaxCalls
+    });
+    breakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+export function listBreakerStatus(): BreakerStatus[] {
+  return [...breakers.values()].map((breaker) => breaker.status());
+}
@@ -0,0 +1,84 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { asRecord } from '../providers/util.js';
+import { CacheBackend, CacheEntry } from '../types.js';
+
+const SUFFIX = '.json';
+
+export function isCacheEntry(value: unknown): value is CacheEntry {
+  const record = asRecord(value);
+  return (
+    record !== null &&
+    'value' in record &&
+    typeof record.storedAt === 'number' &&
+    typeof record.expiresAt === 'number' &&
+    typeof record.staleUntil === 'number'
+  );
+}
+
+/**
+ * One JSON file per key in a directory. Survives restarts, so a new process can answer from the
+ * previous process's data while it revalidates. Writes go through a temp file and rename.
+ */
+export class FileCacheBackend implements CacheBackend {
+  readonly kind = 'file' as const;
+  private readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.dir, `${encodeURIComponent(key)}${SUFFIX}`);
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.fileFor(key), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    const entry: unknown = JSON.parse(content);
+    if (!isCacheEntry(entry)) {
+      throw new Error(`Cache file for '${key}' is malformed`);
+    }
+    if (entry.staleUntil <= Date.now()) {
+      await this.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const file = this.fileFor(key);
+    const tmpFile = `${file}.${process.pid}.tmp`;
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(tmpFile, JSON.stringify(entry), 'utf-8');
+    await fs.rename(tmpFile, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+
+  async keys(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.dir);
+      return files.filter((file) => file.endsWith(SUFFIX)).map((file) => decodeURIComponent(file.slice(0, -SUFFIX.length)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  close(): Promise<void> {
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,206 @@
+import { Logger, logger } from '../log.js';
+import { metrics } from '../metrics.js';
+import { CacheBackend, CacheEntry, ServiceConfig } from '../types.js';
+import { FileCacheBackend } from './file.js';
+import { MemoryCacheBackend } from './memory.js';
+import { RedisCacheBackend } from './redis.js';
+
+export interface CachedValue<T> {
+  value: T;
+  /** True when the value is past its TTL and a refresh is running in the background. */
+  stale: boolean;
+  /** When the value was loaded, in epoch milliseconds; changes whenever the value is replaced. */
+  storedAt: number;
+}
+
+export interface CacheKeyInfo {
+  key: string;
+  storedAt: string;
+  expiresAt: string;
+  staleUntil: string;
+  fresh: boolean;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * TTL cache with stale-while-revalidate on top of a pluggable backend. Fresh entries are served
+ * as is; entries past their TTL are served marked stale while one background load per key
+ * replaces them; misses load synchronously. Backend failures are logged and treated as misses so
+ * a broken cache never fails a request.
+ */
+export class Cache {
+  private readonly backend: CacheBackend;
+  private readonly log: Logger;
+  private readonly staleTtlMs: number;
+  private readonly inflight = new Map<string, Promise<unknown>>();
+
+  constructor(backend: CacheBackend, log: Logger, staleTtlMs: number) {
+    this.backend = backend;
+    this.log = log;
+    this.staleTtlMs = staleTtlMs;
+  }
+
+  get backendKind(): CacheBackend['kind'] {
+    return this.backend.kind;
+  }
+
+  private async read<T>(key: string): Promise<CacheEntry<T> | null> {
+    try {
+      return (await this.backend.get(key)) as CacheEntry<T> | null;
+    } catch (error) {
+      this.log.error('Cache read failed', { key, backend: this.backend.kind, error: errorMessage(error) });
+      return null;
+    }
+  }
+
+  /**
+   * Stores a value.
+   * @param key Cache key.
+   * @param value JSON-serializable value.
+   * @param ttlMs Time the value stays fresh.
+   * @returns Time the value was stored, in epoch milliseconds.
+   */
+  async set<T>(key: string, value: T, ttlMs: number): Promise<number> {
+    const now = Date.now();
+    const entry: CacheEntry<T> = {
+      value,
+      storedAt: now,
+      expiresAt: now + ttlMs,
+      staleUntil: now + ttlMs + this.staleTtlMs
+    };
+    try {
+      await this.backend.set(key, entry);
+    } catch (error) {
+      this.log.error('Cache write failed', { key, backend: this.backend.kind, error: errorMessage(error) });
+    }
+    return now;
+  }
+
+  private load<T>(key: string, ttlMs: number, loader: () => Promise<T>): Promise<{ value: T; storedAt: number }> {
+    const running = this.inflight.get(key);
+    if (running) {
+      return running as Promise<{ value: T; storedAt: number }>;
+    }
+
+    const promise = loader()
+      .then(async (value) => ({ value, storedAt: await this.set(key, value, ttlMs) }))
+      .finally(() => {
+        this.inflight.delete(key);
+      });
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Loads a value now and stores it, whether or not the cached one is still fresh. Joins a load
+   * of the same key that is already running.
+   * @param key Cache key.
+   * @param ttlMs Time the loaded value stays fresh.
+   * @param loader Loads the value from upstream.
+   * @returns The loaded value and when it was stored.
+   */
+  async refresh<T>(key: string, ttlMs: number, loader: () => Promise<T>): Promise<CachedValue<T>> {
+    return { ...(await this.load(key, ttlMs, loader)), stale: false };
+  }
+
+  /**
+   * Returns the cached value for a key, loading it on a miss and refreshing it in the background
+   * once it is past its TTL.
+   * @param key Cache key.
+   * @param ttlMs Time a loaded value stays fresh.
+   * @param loader Loads the value from upstream.
+   * @returns The value, whether it is stale and when it was stored.
+   */
+  async getOrLoad<T>(key: string, ttlMs: number, loader: () => Promise<T>): Promise<CachedValue<T>> {
+    const entry = await this.read<T>(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      metrics.cacheLookups.inc({ key, result: 'hit' });
+      return { value: entry.value, stale: false, storedAt: entry.storedAt };
+    }
+
+    if (entry) {
+      metrics.cacheLookups.inc({ key, result: 'stale' });
+      this.load(key, ttlMs, loader).catch((error) => {
+        this.log.warn('Failed to refresh cache entry', { key, error: errorMessage(error) });
+      });
+      return { value: entry.value, stale: true, storedAt: entry.storedAt };
+    }
+
+    metrics.cacheLookups.inc({ key, result: 'miss' });
+    return { ...(await this.load(key, ttlMs, loader)), stale: false };
+  }
+
+  /**
+   * Lists cached keys with their timestamps.
+   * @returns Key details, sorted by key.
+   */
+  async list(): Promise<CacheKeyInfo[]> {
+    const now = Date.now();
+    const infos: CacheKeyInfo[] = [];
+    for (const key of await this.backend.keys()) {
+      const entry = await this.read(key);
+      if (entry) {
+        infos.push({
+          key,
+          storedAt: new Date(entry.storedAt).toISOString(),
+          expiresAt: new Date(entry.expiresAt).toISOString(),
+          staleUntil: new Date(entry.staleUntil).toISOString(),
+          fresh: entry.expiresAt > now
+        });
+      }
+    }
+    return infos.sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Removes one key, or every key when none is given.
+   * @param key Key to remove.
+   * @returns Number of keys removed.
+   */
+  async clear(key?: string): Promise<number> {
+    const keys = key === undefined ? await this.backend.keys() : [key];
+    await Promise.all(keys.map((item) => this.backend.delete(item)));
+    return keys.length;
+  }
+
+  close(): Promise<void> {
+    return this.backend.close();
+  }
+}
+
+/**
+ * Creates the backend selected by `CACHE_BACKEND`.
+ * @param config Service configuration.
+ * @returns Cache backend.
+ */
+export function createCacheBackend(config: ServiceConfig): CacheBackend {
+  switch (config.cacheBackend) {
+    case 'file':
+      return new FileCacheBackend(config.cacheDir);
+    case 'redis':
+      if (!config.redisUrl) {
+        throw new Error('REDIS_URL is required for the redis cache backend');
+      }
+      return new RedisCacheBackend(config.redisUrl, config.cacheKeyPrefix, config.requestTimeoutMs);
+    default:
+      return new MemoryCacheBackend();
+  }
+}
+
+let sharedCache: Cache | undefined;
+
+/**
+ * Returns the process-wide cache for the given configuration. It outlives any one request, so it
+ * logs through the base logger rather than a request's.
+ * @param config Service configuration.
+ * @returns Shared cache.
+ */
+export function getCache(config: ServiceConfig): Cache {
+  if (!sharedCache) {
+    sharedCache = new Cache(createCacheBackend(config), logger, config.cacheStaleTtlMs);
+  }
+  return sharedCache;
+}
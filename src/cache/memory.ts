@@ -0,0 +1,34 @@
+import { CacheBackend, CacheEntry } from '../types.js';
+
+/** Process-local cache; lost on restart and not shared between replicas. */
+export class MemoryCacheBackend implements CacheBackend {
+  readonly kind = 'memory' as const;
+  private readonly entries = new Map<string, CacheEntry>();
+
+  get(key: string): Promise<CacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (entry && entry.staleUntil <= Date.now()) {
+      this.entries.delete(key);
+      return Promise.resolve(null);
+    }
+    return Promise.resolve(entry ?? null);
+  }
+
+  set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.set(key, entry);
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  keys(): Promise<string[]> {
+    return Promise.resolve([...this.entries.keys()]);
+  }
+
+  close(): Promise<void> {
+    return Promise.resolve();
+  }
+}
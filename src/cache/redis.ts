@@ -0,0 +1,242 @@
+import net from 'node:net';
+import tls from 'node:tls';
+import { CacheBackend, CacheEntry } from '../types.js';
+import { isCacheEntry } from './file.js';
+
+type RespValue = string | number | null | Error | RespValue[];
+
+interface PendingReply {
+  resolve(value: RespValue): void;
+  reject(error: Error): void;
+}
+
+const CRLF = '\r\n';
+
+function encodeCommand(args: string[]): string {
+  return `*${args.length}${CRLF}${args.map((arg) => `$${Buffer.byteLength(arg)}${CRLF}${arg}${CRLF}`).join('')}`;
+}
+
+/**
+ * Parses one RESP2 reply starting at `offset`.
+ * @returns The reply and the offset after it, or null when the buffer holds only part of it.
+ */
+function parseReply(buffer: Buffer, offset: number): { value: RespValue; next: number } | null {
+  const lineEnd = buffer.indexOf(CRLF, offset);
+  if (lineEnd === -1) {
+    return null;
+  }
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf-8', offset + 1, lineEnd);
+  const afterLine = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, next: afterLine };
+    case '-':
+      return { value: new Error(line), next: afterLine };
+    case ':':
+      return { value: Number(line), next: afterLine };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) {
+        return { value: null, next: afterLine };
+      }
+      if (buffer.length < afterLine + length + 2) {
+        return null;
+      }
+      return { value: buffer.toString('utf-8', afterLine, afterLine + length), next: afterLine + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) {
+        return { value: null, next: afterLine };
+      }
+      const items: RespValue[] = [];
+      let next = afterLine;
+      for (let i = 0; i < count; i += 1) {
+        const item = parseReply(buffer, next);
+        if (!item) {
+          return null;
+        }
+        items.push(item.value);
+        next = item.next;
+      }
+      return { value: items, next };
+    }
+    default:
+      throw new Error(`Unexpected RESP reply type '${type}'`);
+  }
+}
+
+/** A single pipelined connection speaking just enough RESP2 for the cache. */
+class RedisConnection {
+  private readonly url: URL;
+  private readonly timeoutMs: number;
+  private socket?: net.Socket;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingReply[] = [];
+
+  constructor(url: string, timeoutMs: number) {
+    this.url = new URL(url);
+    this.timeoutMs = timeoutMs;
+  }
+
+  private fail(error: Error): void {
+    const pending = this.pending;
+    this.pending = [];
+    this.buffer = Buffer.alloc(0);
+    this.socket?.destroy();
+    this.socket = undefined;
+    for (const reply of pending) {
+      reply.reject(error);
+    }
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    let offset = 0;
+    try {
+      for (;;) {
+        const parsed = parseReply(this.buffer, offset);
+        if (!parsed) {
+          break;
+        }
+        offset = parsed.next;
+        const reply = this.pending.shift();
+        if (parsed.value instanceof Error) {
+          reply?.reject(parsed.value);
+        } else {
+          reply?.resolve(parsed.value);
+        }
+      }
+    } catch (error) {
+      this.fail(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private connect(): net.Socket {
+    const host = this.url.hostname || '127.0.0.1';
+    const port = Number(this.url.port || 6379);
+    const socket =
+      this.url.protocol === 'rediss:' ? tls.connect({ host, port, servername: host }) : net.createConnection({ host, port });
+
+    // Events from a socket that has already been replaced must not fail the new one's commands.
+    socket.on('data', (chunk: Buffer) => {
+      if (this.socket === socket) {
+        this.onData(chunk);
+      }
+    });
+    socket.on('error', (error: Error) => {
+      if (this.socket === socket) {
+        this.fail(error);
+      }
+    });
+    socket.on('close', () => {
+      if (this.socket === socket) {
+        this.fail(new Error('Redis connection closed'));
+      }
+    });
+    this.socket = socket;
+
+    const password = decodeURIComponent(this.url.password);
+    if (password) {
+      const username = decodeURIComponent(this.url.username);
+      void this.send(username ? ['AUTH', username, password] : ['AUTH', password]).catch(() => undefined);
+    }
+    const db = this.url.pathname.replace(/^\//, '');
+    if (db) {
+      void this.send(['SELECT', db]).catch(() => undefined);
+    }
+    return socket;
+  }
+
+  private send(args: string[]): Promise<RespValue> {
+    const socket = this.socket ?? this.connect();
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  /**
+   * Sends a command, connecting first if needed. A reply that takes longer than the timeout
+   * drops the connection, since later replies could no longer be matched to their commands.
+   * @param args Command name and arguments.
+   * @returns The reply.
+   */
+  command(args: string[]): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.fail(new Error(`Redis command ${args[0]} timed out`));
+      }, this.timeoutMs);
+      this.send(args)
+        .then(resolve, reject)
+        .finally(() => clearTimeout(timer));
+    });
+  }
+
+  close(): void {
+    this.socket?.end();
+    this.socket = undefined;
+  }
+}
+
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/** Shares entries between replicas through any server speaking the Redis protocol. */
+export class RedisCacheBackend implements CacheBackend {
+  readonly kind = 'redis' as const;
+  private readonly connection: RedisConnection;
+  private readonly prefix: string;
+
+  constructor(url: string, prefix: string, timeoutMs: number) {
+    this.connection = new RedisConnection(url, timeoutMs);
+    this.prefix = prefix;
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const reply = await this.connection.command(['GET', `${this.prefix}${key}`]);
+    if (typeof reply !== 'string') {
+      return null;
+    }
+    const entry: unknown = JSON.parse(reply);
+    if (!isCacheEntry(entry)) {
+      throw new Error(`Cached value for '${key}' is malformed`);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const ttlMs = Math.max(1, Math.ceil(entry.staleUntil - Date.now()));
+    await this.connection.command(['SET', `${this.prefix}${key}`, JSON.stringify(entry), 'PX', String(ttlMs)]);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.connection.command(['DEL', `${this.prefix}${key}`]);
+  }
+
+  async keys(): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const reply = await this.connection.command(['SCAN', cursor, 'MATCH', `${escapeGlob(this.prefix)}*`, 'COUNT', '100']);
+      if (!Array.isArray(reply) || reply.length !== 2 || !Array.isArray(reply[1])) {
+        throw new Error('Unexpected SCAN reply');
+      }
+      cursor = String(reply[0]);
+      for (const key of reply[1]) {
+        keys.push(String(key).slice(this.prefix.length));
+      }
+    } while (cursor !== '0');
+    return keys;
+  }
+
+  close(): Promise<void> {
+    this.connection.close();
+    return Promise.resolve();
+  }
+}
@@ -1,39 +1,457 @@
-import { ServiceConfig } from './types.js';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import Ajv from 'ajv';
+import YAML from 'yaml';
+import { parseApiClients } from './auth.js';
+import { CoordinatePrecision, LOG_LEVELS } from './log.js';
+import { ApiClient, ServiceConfig } from './types.js';
 
-const DEFAULT_PORT = 3000;
-const DEFAULT_BASE_URL = 'https://api.stockholmparkering.se';
-const DEFAULT_FACILITIES_PATH = '/facilities';
-const DEFAULT_AVAILABILITY_PATH = '/availability';
-const DEFAULT_REQUEST_TIMEOUT = 3000;
-const DEFAULT_AVAILABILITY_TTL = 60 * 1000;
-const DEFAULT_FACILITIES_TTL = 24 * 60 * 60 * 1000;
-const DEFAULT_OVERALL_TIMEOUT = 8000;
+const OPAL_CLIENT_NAME = 'opal';
+const REDACTED = '[redacted]';
 
-function parseInteger(value: string | undefined, fallback: number): number {
-  if (!value) {
-    return fallback;
+/** Values used when neither the config file nor the environment sets a key. */
+export const DEFAULT_CONFIG: ServiceConfig = {
+  port: 3000,
+  configFile: null,
+  baseUrl: 'https://api.stockholmparkering.se',
+  facilitiesPath: '/facilities',
+  availabilityPath: '/availability',
+  requestTimeoutMs: 3000,
+  overallTimeoutMs: 8000,
+  availabilityTtlMs: 60 * 1000,
+  facilitiesTtlMs: 24 * 60 * 60 * 1000,
+  regulationsTtlMs: 24 * 60 * 60 * 1000,
+  upstreamMaxAttempts: 3,
+  upstreamRetryStatusCodes: [429, 500, 502, 503, 504],
+  upstreamRetryBaseDelayMs: 200,
+  upstreamMode: 'live',
+  upstreamFixturesDir: 'fixtures/upstream',
+  defaultRadiusMeters: 1500,
+  maxRadiusMeters: 5000,
+  defaultMaxResults: 5,
+  maxResultsLimit: 10,
+  historyFile: null,
+  historyRetentionDays: 28,
+  historySampleIntervalMs: 5 * 60 * 1000,
+  providers: ['stockholmParkering'],
+  dedupRadiusMeters: 30,
+  ltfBaseUrl: 'https://openparking.stockholm.se/LTF-Tolken/v1',
+  ltfApiKey: null,
+  ltfRegulation: 'ptillaten',
+  datexTableUrl: null,
+  datexStatusUrl: null,
+  geojsonFile: null,
+  regulationsFile: null,
+  ltfLookupRegulations: ['ptillaten', 'servicedagar'],
+  cacheBackend: 'memory',
+  cacheDir: '.cache',
+  redisUrl: null,
+  cacheKeyPrefix: 'sthlm-parking:',
+  cacheStaleTtlMs: 7 * 24 * 60 * 60 * 1000,
+  breakerFailureThreshold: 5,
+  breakerResetTimeoutMs: 30 * 1000,
+  breakerHalfOpenMaxCalls: 1,
+  tracingExporter: 'none',
+  tracingServiceName: 'stockholm-parking',
+  logLevel: 'info',
+  logCoordinatePrecision: 3,
+  apiClients: [],
+  rateLimitPerMinute: 60,
+  rateLimitBurst: 10,
+  geocoders: ['gazetteer'],
+  nominatimUrl: null,
+  geocodeMinConfidence: 0.5,
+  walkingGraphFile: null,
+  walkingSnapMeters: 150,
+  sessionAdapters: ['easypark', 'parkster'],
+  sessionsFile: null,
+  easyparkLinkTemplate: null,
+  parksterLinkTemplate: null,
+  availabilityMaxAgeMs: 30 * 60 * 1000,
+  subscriptionPollIntervalMs: 60 * 1000,
+  maxSubscriptions: 100,
+  webhookMaxAttempts: 5,
+  webhookRetryBaseDelayMs: 1000,
+  webhookAllowedHosts: []
+};
+
+type EnvKind = 'string' | 'lowercase' | 'integer' | 'number' | 'list' | 'integerList' | 'precision';
+
+/** Environment variable for each key that can be set from the environment. */
+const ENV_SETTINGS: Partial<Record<keyof ServiceConfig, { env: string; kind: EnvKind }>> = {
+  port: { env: 'PORT', kind: 'integer' },
+  baseUrl: { env: 'SP_BASE_URL', kind: 'string' },
+  facilitiesPath: { env: 'SP_FACILITIES_PATH', kind: 'string' },
+  availabilityPath: { env: 'SP_AVAILABILITY_PATH', kind: 'string' },
+  requestTimeoutMs: { env: 'REQUEST_TIMEOUT_MS', kind: 'integer' },
+  overallTimeoutMs: { env: 'OVERALL_TIMEOUT_MS', kind: 'integer' },
+  availabilityTtlMs: { env: 'AVAILABILITY_TTL_MS', kind: 'integer' },
+  facilitiesTtlMs: { env: 'FACILITIES_TTL_MS', kind: 'integer' },
+  regulationsTtlMs: { env: 'REGULATIONS_TTL_MS', kind: 'integer' },
+  upstreamMaxAttempts: { env: 'UPSTREAM_MAX_ATTEMPTS', kind: 'integer' },
+  upstreamRetryStatusCodes: { env: 'UPSTREAM_RETRY_STATUS_CODES', kind: 'integerList' },
+  upstreamRetryBaseDelayMs: { env: 'UPSTREAM_RETRY_BASE_DELAY_MS', kind: 'integer' },
+  upstreamMode: { env: 'UPSTREAM_MODE', kind: 'lowercase' },
+  upstreamFixturesDir: { env: 'UPSTREAM_FIXTURES_DIR', kind: 'string' },
+  defaultRadiusMeters: { env: 'DEFAULT_RADIUS_METERS', kind: 'integer' },
+  maxRadiusMeters: { env: 'MAX_RADIUS_METERS', kind: 'integer' },
+  defaultMaxResults: { env: 'DEFAULT_MAX_RESULTS', kind: 'integer' },
+  maxResultsLimit: { env: 'MAX_RESULTS_LIMIT', kind: 'integer' },
+  historyFile: { env: 'HISTORY_FILE', kind: 'string' },
+  historyRetentionDays: { env: 'HISTORY_RETENTION_DAYS', kind: 'integer' },
+  historySampleIntervalMs: { env: 'HISTORY_SAMPLE_INTERVAL_MS', kind: 'integer' },
+  providers: { env: 'PROVIDERS', kind: 'list' },
+  dedupRadiusMeters: { env: 'PROVIDER_DEDUP_METERS', kind: 'integer' },
+  ltfBaseUrl: { env: 'LTF_BASE_URL', kind: 'string' },
+  ltfApiKey: { env: 'LTF_API_KEY', kind: 'string' },
+  ltfRegulation: { env: 'LTF_REGULATION', kind: 'string' },
+  datexTableUrl: { env: 'DATEX_TABLE_URL', kind: 'string' },
+  datexStatusUrl: { env: 'DATEX_STATUS_URL', kind: 'string' },
+  geojsonFile: { env: 'GEOJSON_FILE', kind: 'string' },
+  regulationsFile: { env: 'REGULATIONS_FILE', kind: 'string' },
+  ltfLookupRegulations: { env: 'LTF_LOOKUP_REGULATIONS', kind: 'list' },
+  cacheBackend: { env: 'CACHE_BACKEND', kind: 'lowercase' },
+  cacheDir: { env: 'CACHE_DIR', kind: 'string' },
+  redisUrl: { env: 'REDIS_URL', kind: 'string' },
+  cacheKeyPrefix: { env: 'CACHE_KEY_PREFIX', kind: 'string' },
+  cacheStaleTtlMs: { env: 'CACHE_STALE_TTL_MS', kind: 'integer' },
+  breakerFailureThreshold: { env: 'BREAKER_FAILURE_THRESHOLD', kind: 'integer' },
+  breakerResetTimeoutMs: { env: 'BREAKER_RESET_TIMEOUT_MS', kind: 'integer' },
+  breakerHalfOpenMaxCalls: { env: 'BREAKER_HALF_OPEN_MAX_CALLS', kind: 'integer' },
+  tracingExporter: { env: 'TRACING_EXPORTER', kind: 'lowercase' },
+  tracingServiceName: { env: 'OTEL_SERVICE_NAME', kind: 'string' },
+  logLevel: { env: 'LOG_LEVEL', kind: 'lowercase' },
+  logCoordinatePrecision: { env: 'LOG_COORDINATE_PRECISION', kind: 'precision' },
+  rateLimitPerMinute: { env: 'RATE_LIMIT_PER_MINUTE', kind: 'integer' },
+  rateLimitBurst: { env: 'RATE_LIMIT_BURST', kind: 'integer' },
+  geocoders: { env: 'GEOCODERS', kind: 'list' },
+  nominatimUrl: { env: 'NOMINATIM_URL', kind: 'string' },
+  geocodeMinConfidence: { env: 'GEOCODE_MIN_CONFIDENCE', kind: 'number' },
+  walkingGraphFile: { env: 'WALKING_GRAPH_FILE', kind: 'string' },
+  walkingSnapMeters: { env: 'WALKING_SNAP_METERS', kind: 'integer' },
+  sessionAdapters: { env: 'SESSION_ADAPTERS', kind: 'list' },
+  sessionsFile: { env: 'SESSIONS_FILE', kind: 'string' },
+  easyparkLinkTemplate: { env: 'EASYPARK_LINK_TEMPLATE', kind: 'string' },
+  parksterLinkTemplate: { env: 'PARKSTER_LINK_TEMPLATE', kind: 'string' },
+  availabilityMaxAgeMs: { env: 'AVAILABILITY_MAX_AGE_MS', kind: 'integer' },
+  subscriptionPollIntervalMs: { env: 'SUBSCRIPTION_POLL_INTERVAL_MS', kind: 'integer' },
+  maxSubscriptions: { env: 'MAX_SUBSCRIPTIONS', kind: 'integer' },
+  webhookMaxAttempts: { env: 'WEBHOOK_MAX_ATTEMPTS', kind: 'integer' },
+  webhookRetryBaseDelayMs: { env: 'WEBHOOK_RETRY_BASE_DELAY_MS', kind: 'integer' },
+  webhookAllowedHosts: { env: 'WEBHOOK_ALLOWED_HOSTS', kind: 'list' }
+};
+
+const positiveInteger = { type: 'integer', minimum: 1 };
+const nonNegativeInteger = { type: 'integer', minimum: 0 };
+const nonEmptyString = { type: 'string', minLength: 1 };
+const optionalString = { type: ['string', 'null'], minLength: 1 };
+const url = { type: 'string', pattern: '^https?://' };
+const optionalUrl = { type: ['string', 'null'], pattern: '^https?://' };
+const stringList = { type: 'array', items: nonEmptyString };
+
+/** Schema for the merged configuration; the config file may only use these keys. */
+const configSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    port: { type: 'integer', minimum: 1, maximum: 65535 },
+    configFile: optionalString,
+    baseUrl: url,
+    facilitiesPath: { type: 'string', pattern: '^/' },
+    availabilityPath: { type: 'string', pattern: '^/' },
+    requestTimeoutMs: positiveInteger,
+    overallTimeoutMs: positiveInteger,
+    availabilityTtlMs: positiveInteger,
+    facilitiesTtlMs: positiveInteger,
+    regulationsTtlMs: positiveInteger,
+    upstreamMaxAttempts: { type: 'integer', minimum: 1, maximum: 10 },
+    upstreamRetryStatusCodes: { type: 'array', items: { type: 'integer', minimum: 400, maximum: 599 } },
+    upstreamRetryBaseDelayMs: nonNegativeInteger,
+    upstreamMode: { type: 'string', enum: ['live', 'record', 'replay'] },
+    upstreamFixturesDir: nonEmptyString,
+    defaultRadiusMeters: { type: 'integer', minimum: 100 },
+    maxRadiusMeters: { type: 'integer', minimum: 100, maximum: 50000 },
+    defaultMaxResults: positiveInteger,
+    maxResultsLimit: { type: 'integer', minimum: 1, maximum: 100 },
+    historyFile: optionalString,
+    historyRetentionDays: positiveInteger,
+    historySampleIntervalMs: nonNegativeInteger,
+    providers: { ...stringList, minItems: 1 },
+    dedupRadiusMeters: nonNegativeInteger,
+    ltfBaseUrl: url,
+    ltfApiKey: optionalString,
+    ltfRegulation: nonEmptyString,
+    datexTableUrl: optionalUrl,
+    datexStatusUrl: optionalUrl,
+    geojsonFile: optionalString,
+    regulationsFile: optionalString,
+    ltfLookupRegulations: stringList,
+    cacheBackend: { type: 'string', enum: ['memory', 'file', 'redis'] },
+    cacheDir: nonEmptyString,
+    redisUrl: { type: ['string', 'null'], pattern: '^rediss?://' },
+    cacheKeyPrefix: { type: 'string' },
+    cacheStaleTtlMs: nonNegativeInteger,
+    breakerFailureThreshold: positiveInteger,
+    breakerResetTimeoutMs: positiveInteger,
+    breakerHalfOpenMaxCalls: positiveInteger,
+    tracingExporter: { type: 'string', enum: ['none', 'otlp'] },
+    tracingServiceName: nonEmptyString,
+    logLevel: { type: 'string', enum: LOG_LEVELS },
+    logCoordinatePrecision: {
+      anyOf: [
+        { type: 'integer', minimum: 0, maximum: 6 },
+        { type: 'string', enum: ['redact', 'full'] }
+      ]
+    },
+    apiClients: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'key'],
+        additionalProperties: false,
+        properties: {
+          name: nonEmptyString,
+          key: nonEmptyString,
+          requestsPerMinute: { type: ['integer', 'null'], minimum: 1 }
+        }
+      }
+    },
+    rateLimitPerMinute: nonNegativeInteger,
+    rateLimitBurst: positiveInteger,
+    geocoders: stringList,
+    nominatimUrl: optionalUrl,
+    geocodeMinConfidence: { type: 'number', minimum: 0, maximum: 1 },
+    walkingGraphFile: optionalString,
+    walkingSnapMeters: { type: 'integer', minimum: 1, maximum: 1000 },
+    sessionAdapters: stringList,
+    sessionsFile: optionalString,
+    easyparkLinkTemplate: optionalString,
+    parksterLinkTemplate: optionalString,
+    availabilityMaxAgeMs: positiveInteger,
+    subscriptionPollIntervalMs: nonNegativeInteger,
+    maxSubscriptions: nonNegativeInteger,
+    webhookMaxAttempts: positiveInteger,
+    webhookRetryBaseDelayMs: nonNegativeInteger,
+    webhookAllowedHosts: stringList
+  }
+};
+
+const validateConfig = new Ajv({ allErrors: true, allowUnionTypes: true }).compile(configSchema);
+
+/**
+ * Builds the error thrown for an invalid configuration: one message listing every problem,
+ * with the individual problems in `details`.
+ * @param problems Problem descriptions.
+ * @returns Error named `ConfigError`.
+ */
+function configError(problems: string[]): Error {
+  const error = new Error(`Invalid configuration:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+  error.name = 'ConfigError';
+  (error as Error & { details?: unknown }).details = problems;
+  return error;
+}
+
+/** Names a key with its environment variable, e.g. `port (PORT)`. */
+function describeKey(key: string): string {
+  const env = ENV_SETTINGS[key as keyof ServiceConfig]?.env;
+  return env ? `${key} (${env})` : key;
+}
+
+function parseEnvValue(kind: EnvKind, raw: string): { value: unknown } | { error: string } {
+  const isInteger = (item: string) => /^-?\d+$/.test(item);
+  const items = raw
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+
+  switch (kind) {
+    case 'integer':
+      return isInteger(raw) ? { value: Number.parseInt(raw, 10) } : { error: `expected an integer, got '${raw}'` };
+    case 'number':
+      return Number.isFinite(Number(raw)) ? { value: Number(raw) } : { error: `expected a number, got '${raw}'` };
+    case 'list':
+      return { value: items };
+    case 'integerList':
+      return items.every(isInteger)
+        ? { value: items.map((item) => Number.parseInt(item, 10)) }
+        : { error: `expected comma-separated integers, got '${raw}'` };
+    case 'precision':
+      if (raw.toLowerCase() === 'redact' || raw.toLowerCase() === 'full') {
+        return { value: raw.toLowerCase() as CoordinatePrecision };
+      }
+      return isInteger(raw)
+        ? { value: Number.parseInt(raw, 10) }
+        : { error: `expected a number of decimals, 'redact' or 'full', got '${raw}'` };
+    case 'lowercase':
+      return { value: raw.toLowerCase() };
+    default:
+      return { value: raw };
+  }
+}
+
+/**
+ * Reads the settings present in the environment. Unset and blank variables are skipped.
+ * @param env Environment variables.
+ * @param problems Collects unparsable values.
+ * @returns Settings keyed by config key.
+ */
+function readEnv(env: NodeJS.ProcessEnv, problems: string[]): Partial<ServiceConfig> {
+  const values: Record<string, unknown> = {};
+  for (const [key, setting] of Object.entries(ENV_SETTINGS)) {
+    const raw = env[setting.env]?.trim();
+    if (!raw) {
+      continue;
+    }
+    const parsed = parseEnvValue(setting.kind, raw);
+    if ('error' in parsed) {
+      problems.push(`${setting.env}: ${parsed.error}`);
+    } else {
+      values[key] = parsed.value;
+    }
+  }
+
+  if (env.API_KEYS?.trim()) {
+    try {
+      values.apiClients = parseApiClients(env.API_KEYS);
+    } catch (error) {
+      problems.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return values as Partial<ServiceConfig>;
+}
+
+/**
+ * Reads a JSON or YAML config file, chosen by extension.
+ * @param file Path from `CONFIG_FILE`.
+ * @returns Settings keyed by config key.
+ */
+function readConfigFile(file: string): Record<string, unknown> {
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf-8');
+  } catch (error) {
+    throw configError([`CONFIG_FILE: cannot read '${file}': ${error instanceof Error ? error.message : String(error)}`]);
+  }
+
+  const extension = path.extname(file).toLowerCase();
+  let parsed: unknown;
+  try {
+    if (extension === '.json') {
+      parsed = JSON.parse(text);
+    } else if (extension === '.yaml' || extension === '.yml') {
+      parsed = YAML.parse(text);
+    } else {
+      throw new Error(`unsupported extension '${extension}', expected .json, .yaml or .yml`);
+    }
+  } catch (error) {
+    throw configError([`CONFIG_FILE: cannot parse '${file}': ${error instanceof Error ? error.message : String(error)}`]);
   }
-  const parsed = Number.parseInt(value, 10);
-  return Number.isFinite(parsed) ? parsed : fallback;
+
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw configError([`CONFIG_FILE: '${file}' must contain an object`]);
+  }
+  const values = parsed as Record<string, unknown>;
+  if (Array.isArray(values.apiClients)) {
+    values.apiClients = (values.apiClients as unknown[]).map((client) =>
+      client !== null && typeof client === 'object' ? { requestsPerMinute: null, ...client } : client
+    );
+  }
+  return values;
+}
+
+function schemaProblems(config: unknown): string[] {
+  if (validateConfig(config)) {
+    return [];
+  }
+  return (validateConfig.errors ?? [])
+    .filter((error) => error.keyword !== 'anyOf')
+    .map((error) => {
+      if (error.keyword === 'additionalProperties') {
+        const key = String((error.params as { additionalProperty?: unknown }).additionalProperty);
+        return `${key}: unknown setting`;
+      }
+      const [, key, ...rest] = error.instancePath.split('/');
+      const label = `${describeKey(key ?? '')}${rest.length > 0 ? `/${rest.join('/')}` : ''}`;
+      const allowed = (error.params as { allowedValues?: unknown[] }).allowedValues;
+      return `${label} ${error.message ?? 'is invalid'}${allowed ? `: ${allowed.join(', ')}` : ''}`;
+    });
 }
 
-export function loadConfig(): ServiceConfig {
-  const port = parseInteger(process.env.PORT, DEFAULT_PORT);
-  const requestTimeoutMs = parseInteger(process.env.REQUEST_TIMEOUT_MS, DEFAULT_REQUEST_TIMEOUT);
-  const overallTimeoutMs = DEFAULT_OVERALL_TIMEOUT;
+function crossFieldProblems(config: ServiceConfig): string[] {
+  const problems: string[] = [];
+  if (config.cacheBackend === 'redis' && !config.redisUrl) {
+    problems.push('redisUrl (REDIS_URL) is required for the redis cache backend');
+  }
+  if (config.defaultRadiusMeters > config.maxRadiusMeters) {
+    problems.push('defaultRadiusMeters (DEFAULT_RADIUS_METERS) must not exceed maxRadiusMeters (MAX_RADIUS_METERS)');
+  }
+  if (config.defaultMaxResults > config.maxResultsLimit) {
+    problems.push('defaultMaxResults (DEFAULT_MAX_RESULTS) must not exceed maxResultsLimit (MAX_RESULTS_LIMIT)');
+  }
+  if (config.geocoders.includes('nominatim') && !config.nominatimUrl) {
+    problems.push('nominatimUrl (NOMINATIM_URL) is required for the nominatim geocoder');
+  }
+  const names = config.apiClients.map((client) => client.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    problems.push(`apiClients: duplicate client '${duplicate}'`);
+  }
+  return problems;
+}
 
-  const baseUrl = process.env.SP_BASE_URL?.trim() || DEFAULT_BASE_URL;
-  const facilitiesPath = process.env.SP_FACILITIES_PATH?.trim() || DEFAULT_FACILITIES_PATH;
-  const availabilityPath = process.env.SP_AVAILABILITY_PATH?.trim() || DEFAULT_AVAILABILITY_PATH;
+function withOpalClient(clients: ApiClient[], token: string | undefined, problems: string[]): ApiClient[] {
+  if (!token) {
+    return clients;
+  }
+  if (clients.some((client) => client.name === OPAL_CLIENT_NAME)) {
+    problems.push(`OPAL_AUTH_TOKEN conflicts with the configured '${OPAL_CLIENT_NAME}' API client`);
+    return clients;
+  }
+  return [...clients, { name: OPAL_CLIENT_NAME, key: token, requestsPerMinute: null }];
+}
+
+/**
+ * Builds the service configuration from defaults, the optional `CONFIG_FILE` (JSON or YAML,
+ * using the camelCase keys of {@link ServiceConfig}) and environment variables, later sources
+ * winning. The result is validated as a whole; every problem is reported at once.
+ * @param env Environment variables.
+ * @returns Validated configuration.
+ * @throws Error named `ConfigError` listing every invalid setting.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServiceConfig {
+  const configFile = env.CONFIG_FILE?.trim() || null;
+  const fromFile = configFile ? readConfigFile(configFile) : {};
+
+  const problems: string[] = [];
+  const fromEnv = readEnv(env, problems);
+  const merged = { ...DEFAULT_CONFIG, ...fromFile, ...fromEnv, configFile } as ServiceConfig;
+
+  problems.push(...schemaProblems(merged));
+  if (problems.length === 0) {
+    merged.apiClients = withOpalClient(merged.apiClients, env.OPAL_AUTH_TOKEN?.trim(), problems);
+    problems.push(...crossFieldProblems(merged));
+  }
+  if (problems.length > 0) {
+    throw configError(problems);
+  }
+  return merged;
+}
+
+function redactUrlPassword(value: string): string {
+  return value.replace(/\/\/([^:@/]*):[^@/]*@/, `//$1:${REDACTED}@`);
+}
 
+/**
+ * Copies the configuration with secrets replaced, for the `/config` endpoint.
+ * @param config Effective configuration.
+ * @returns Configuration safe to show.
+ */
+export function redactConfig(config: ServiceConfig): ServiceConfig {
   return {
-    port,
-    baseUrl,
-    facilitiesPath,
-    availabilityPath,
-    requestTimeoutMs,
-    availabilityTtlMs: DEFAULT_AVAILABILITY_TTL,
-    facilitiesTtlMs: DEFAULT_FACILITIES_TTL,
-    overallTimeoutMs
+    ...config,
+    ltfApiKey: config.ltfApiKey ? REDACTED : null,
+    redisUrl: config.redisUrl ? redactUrlPassword(config.redisUrl) : null,
+    apiClients: config.apiClients.map((client) => ({ ...client, key: REDACTED }))
   };
 }
@@ -1,25 +1,32 @@
+import { promises as fs } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+import { SpanKind } from '@opentelemetry/api';
+import { circuitOpenError, getBreaker } from './breaker.js';
+import { CachedValue, getCache } from './cache/index.js';
+import { trackFeed } from './health.js';
+import { getHistoryStore } from './history.js';
 import { Logger } from './log.js';
+import { metrics } from './metrics.js';
+import { getEnabledProviders, mergeFacilities } from './providers/index.js';
+import { ltfUrl } from './providers/ltf.js';
+import { checkAvailability, checkFacilities, recordMalformed } from './quality.js';
+import { parseRegulationFeatures } from './regulations.js';
+import { SpatialIndex } from './spatial.js';
+import { recordSpanError, startSpan, withSpan } from './tracing.js';
+import { upstreamFetch } from './upstream.js';
 import {
   AvailabilityResult,
   FacilityAvailability,
   FacilityMetadata,
-  ServiceConfig
+  FeedName,
+  ProviderContext,
+  ServiceConfig,
+  StreetRegulation
 } from './types.js';
 
-interface CacheEntry<T> {
-  value: T;
-  expiresAt: number;
-}
-
-interface AvailabilityCacheEntry extends CacheEntry<Map<string, FacilityAvailability>> {
-  revalidatePromise?: Promise<Map<string, FacilityAvailability>>;
-}
-
-const facilityCache: { entry?: CacheEntry<FacilityMetadata[]> } = {};
-const availabilityCache: { entry?: AvailabilityCacheEntry } = {};
-
-const RETRY_STATUS_CODES = new Set([429, 500, 502, 503, 504]);
-const MAX_ATTEMPTS = 3;
+const FACILITIES_CACHE_KEY: FeedName = 'facilities';
+const AVAILABILITY_CACHE_KEY: FeedName = 'availability';
+const REGULATIONS_CACHE_KEY: FeedName = 'regulations';
 
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => {
@@ -27,82 +34,121 @@ function sleep(ms: number): Promise<void> {
   });
 }
 
-function buildUrl(baseUrl: string, path: string): string {
-  try {
-    const url = new URL(path, baseUrl);
-    return url.toString();
-  } catch (error) {
-    throw new Error(`Failed to construct URL from base '${baseUrl}' and path '${path}': ${String(error)}`);
-  }
-}
-
-function toNumberOrNull(value: unknown): number | null {
-  if (value === null || value === undefined) {
-    return null;
-  }
-  const num = Number(value);
-  return Number.isFinite(num) ? num : null;
-}
-
-function toStringOrNull(value: unknown): string | null {
-  if (value === null || value === undefined) {
-    return null;
-  }
-  const str = String(value);
-  return str.length > 0 ? str : null;
+/**
+ * Builds the error for an upstream error response, with the status in `details` so health reports
+ * can show it without the body.
+ * @param message Error message.
+ * @param status HTTP status.
+ * @returns Error.
+ */
+function upstreamStatusError(message: string, status: number): Error {
+  const error = new Error(message);
+  (error as Error & { details?: unknown }).details = { status };
+  return error;
 }
 
 async function fetchWithRetries<T>(
   url: string,
   config: ServiceConfig,
   log: Logger,
-  externalSignal?: AbortSignal
+  externalSignal?: AbortSignal,
+  responseType: 'json' | 'text' = 'json',
+  headers: Record<string, string> = {}
 ): Promise<T> {
+  const breaker = getBreaker(url, config);
+  const maxAttempts = config.upstreamMaxAttempts;
   let lastError: unknown;
 
-  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt += 1) {
+  for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+    if (!breaker.tryAcquire()) {
+      if (attempt === 1) {
+        // Fail fast; the cache keeps serving the last good data.
+        throw circuitOpenError(breaker.endpoint);
+      }
+      break;
+    }
+
+    if (attempt > 1) {
+      metrics.upstreamRetries.inc({ endpoint: breaker.endpoint });
+    }
+    // Spans, metrics and logs use the breaker endpoint (origin and path) so API keys and searched
+    // addresses in query strings stay out.
+    const span = startSpan(
+      'upstream request',
+      { 'http.request.method': 'GET', 'url.full': breaker.endpoint, 'upstream.attempt': attempt },
+      SpanKind.CLIENT
+    );
+    const stopTimer = metrics.upstreamDuration.startTimer({ endpoint: breaker.endpoint });
+    const finishAttempt = (outcome: string, error?: unknown) => {
+      stopTimer({ outcome });
+      if (error !== undefined) {
+        recordSpanError(span, error);
+      }
+      span.end();
+    };
+
     const timeoutSignal = AbortSignal.timeout(config.requestTimeoutMs);
     const signal = externalSignal
       ? AbortSignal.any([externalSignal, timeoutSignal])
       : timeoutSignal;
 
     try {
-      const response = await fetch(url, {
-        headers: { Accept: 'application/json' },
-        signal
-      });
+      const response = await upstreamFetch(
+        url,
+        {
+          headers: {
+            Accept: responseType === 'json' ? 'application/json' : 'application/xml, text/xml, */*',
+            ...headers
+          },
+          signal
+        },
+        config,
+        log
+      );
+
+      span.setAttribute('http.response.status_code', response.status);
 
       if (!response.ok) {
-        if (RETRY_STATUS_CODES.has(response.status) && attempt < MAX_ATTEMPTS) {
-          const delay = 200 * 2 ** (attempt - 1);
-          log.info('Retrying upstream request', {
+        if (config.upstreamRetryStatusCodes.includes(response.status) && attempt < maxAttempts) {
+          const statusError = upstreamStatusError(`Upstream responded with status ${response.status}`, response.status);
+          breaker.recordFailure(statusError);
+          finishAttempt('http_error', statusError);
+          const delay = config.upstreamRetryBaseDelayMs * 2 ** (attempt - 1);
+          log.warn('Retrying upstream request', {
             attempt,
             status: response.status,
-            url,
+            endpoint: breaker.endpoint,
             delay
           });
           await sleep(delay);
           continue;
         }
         const body = await response.text();
-        throw new Error(`Request failed with status ${response.status}: ${body}`);
+        throw upstreamStatusError(`Request failed with status ${response.status}: ${body}`, response.status);
       }
 
-      return (await response.json()) as T;
+      const body = (responseType === 'json' ? await response.json() : await response.text()) as T;
+      breaker.recordSuccess();
+      finishAttempt('ok');
+      return body;
     } catch (error) {
       if (signal.aborted && externalSignal?.aborted) {
+        breaker.release();
+        finishAttempt('aborted', error);
         throw externalSignal.reason instanceof Error
           ? externalSignal.reason
           : new Error(String(externalSignal.reason ?? 'Aborted'));
       }
+      breaker.recordFailure(error);
+      finishAttempt(signal.aborted ? 'timeout' : 'error', error);
       lastError = error;
-      if (attempt >= MAX_ATTEMPTS) {
+      if (attempt >= maxAttempts) {
         break;
       }
-      const delay = 200 * 2 ** (attempt - 1);
-      log.info('Retrying upstream request after error', {
+      const delay = config.upstreamRetryBaseDelayMs * 2 ** (attempt - 1);
+      log.warn('Retrying upstream request after error', {
         attempt,
-        url,
+        endpoint: breaker.endpoint,
         delay,
         error: error instanceof Error ? error.message : String(error)
       });
@@ -112,129 +158,204 @@ async function fetchWithRetries<T>(
 
   throw lastError instanceof Error
     ? lastError
-    : new Error(`Failed to fetch URL ${url}: ${String(lastError)}`);
+    : new Error(`Failed to fetch ${breaker.endpoint}: ${String(lastError)}`);
 }
 
-function normalizeFacilityMetadata(
-  raw: Record<string, unknown>,
-  config: ServiceConfig
-): FacilityMetadata | null {
-  const idValue = raw.id ?? raw.Id ?? raw.facilityId ?? raw.FacilityId;
-  const nameValue = raw.name ?? raw.Name ?? raw.siteName ?? raw.SiteName;
-  const latValue =
-    raw.lat ?? raw.latitude ?? raw.Latitude ?? raw.position?.['lat'] ?? raw.Position?.['Lat'];
-  const lonValue =
-    raw.lon ?? raw.longitude ?? raw.Longitude ?? raw.position?.['lon'] ?? raw.Position?.['Lon'];
-
-  if (!idValue || !nameValue || latValue === undefined || lonValue === undefined) {
-    return null;
-  }
-
-  const lat = Number(latValue);
-  const lon = Number(lonValue);
-
-  if (!Number.isFinite(lat) || !Number.isFinite(lon)) {
-    return null;
-  }
-
-  const capacity = toNumberOrNull(raw.capacity ?? raw.Capacity);
-  const tariffNote = toStringOrNull(raw.tariffNote ?? raw.TariffNote);
-  const zoneCode = toStringOrNull(raw.zoneCode ?? raw.ZoneCode);
-  const sourceUrl =
-    toStringOrNull(
-      raw.sourceUrl ?? raw.SourceUrl ?? raw.url ?? raw.Url ?? `${config.baseUrl}${config.facilitiesPath}`
-    ) ?? `${config.baseUrl}${config.facilitiesPath}`;
-
+/**
+ * Builds the context handed to provider adapters and geocoders: upstream fetches with retries,
+ * circuit breaking and tracing.
+ * @param config Service configuration.
+ * @param log Logger.
+ * @param signal Abort signal for upstream requests.
+ * @param providerId Provider the context is for; unreadable records it reports count against it.
+ * @returns Provider context.
+ */
+export function createProviderContext(
+  config: ServiceConfig,
+  log: Logger,
+  signal?: AbortSignal,
+  providerId?: string
+): ProviderContext {
   return {
-    id: String(idValue),
-    name: String(nameValue),
-    lat,
-    lon,
-    capacity,
-    tariffNote,
-    zoneCode,
-    sourceUrl
+    config,
+    log,
+    signal,
+    fetchJson: <T>(url: string, headers?: Record<string, string>) =>
+      fetchWithRetries<T>(url, config, log, signal, 'json', headers),
+    fetchText: (url: string) => fetchWithRetries<string>(url, config, log, signal, 'text'),
+    ...(providerId !== undefined
+      ? { reportMalformed: (feed, count) => recordMalformed(feed, providerId, count) }
+      : {})
   };
 }
 
-function normalizeAvailability(raw: Record<string, unknown>): FacilityAvailability | null {
-  const idValue = raw.id ?? raw.Id ?? raw.facilityId ?? raw.FacilityId;
-  if (!idValue) {
-    return null;
-  }
+/**
+ * Settles one call per provider, logging failures. Throws the first failure only when every
+ * provider failed, so a single broken feed does not take the others down with it.
+ */
+async function collectFromProviders<T>(
+  providerIds: string[],
+  calls: Promise<T>[],
+  operation: string,
+  log: Logger
+): Promise<T[]> {
+  const settled = await Promise.allSettled(calls);
+  const values: T[] = [];
+  let firstError: unknown;
+
+  settled.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      values.push(result.value);
+      return;
+    }
+    firstError ??= result.reason;
+    log.error(`Provider failed to ${operation}`, {
+      provider: providerIds[index],
+      error: result.reason instanceof Error ? result.reason.message : String(result.reason)
+    });
+  });
 
-  const freeSpaces = toNumberOrNull(raw.freeSpaces ?? raw.FreeSpaces ?? raw.vacant ?? raw.Vacant);
-  const capacity = toNumberOrNull(raw.capacity ?? raw.Capacity);
-  const lastUpdated = toStringOrNull(
-    raw.lastUpdated ?? raw.LastUpdated ?? raw.updatedAt ?? raw.UpdatedAt ?? raw.timestamp ?? raw.Timestamp
-  );
+  if (values.length === 0 && settled.length > 0) {
+    throw firstError instanceof Error ? firstError : new Error(String(firstError));
+  }
 
-  return {
-    id: String(idValue),
-    freeSpaces,
-    capacity,
-    lastUpdated
-  };
+  return values;
 }
 
-export async function getFacilities(
+async function loadFacilities(
   config: ServiceConfig,
   log: Logger,
   signal?: AbortSignal
 ): Promise<FacilityMetadata[]> {
-  const now = Date.now();
-  const cached = facilityCache.entry;
-  if (cached && cached.expiresAt > now) {
-    return cached.value;
-  }
-
-  const url = buildUrl(config.baseUrl, config.facilitiesPath);
-  const rawData = await fetchWithRetries<unknown>(url, config, log, signal);
+  const providers = getEnabledProviders(config);
+  const lists = await collectFromProviders(
+    providers.map((provider) => provider.id),
+    providers.map(async (provider) =>
+      checkFacilities(
+        provider.id,
+        await provider.fetchFacilities(createProviderContext(config, log, signal, provider.id)),
+        log
+      )
+    ),
+    'load facilities',
+    log
+  );
 
-  if (!Array.isArray(rawData)) {
-    throw new Error('Facilities response is not an array');
-  }
+  const facilities = mergeFacilities(lists, config.dedupRadiusMeters);
 
-  const facilities = rawData
-    .map((item) => (typeof item === 'object' && item !== null ? item : null))
-    .filter((item): item is Record<string, unknown> => item !== null)
-    .map((item) => normalizeFacilityMetadata(item, config))
-    .filter((item): item is FacilityMetadata => item !== null);
+  log.info('Loaded facilities metadata', {
+    count: facilities.length,
+    providers: providers.map((provider) => provider.id)
+  });
 
-  facilityCache.entry = {
-    value: facilities,
-    expiresAt: now + config.facilitiesTtlMs
-  };
+  return facilities;
+}
 
-  log.info('Loaded facilities metadata', { count: facilities.length });
+function getCachedFacilities(
+  config: ServiceConfig,
+  log: Logger,
+  signal?: AbortSignal
+): Promise<CachedValue<FacilityMetadata[]>> {
+  return withSpan('getFacilities', {}, async (span) => {
+    const cached = await getCache(config).getOrLoad(FACILITIES_CACHE_KEY, config.facilitiesTtlMs, () =>
+      trackFeed(FACILITIES_CACHE_KEY, () => loadFacilities(config, log, signal))
+    );
+    span.setAttributes({ 'cache.stale': cached.stale, 'facilities.count': cached.value.length });
+    return cached;
+  });
+}
 
-  return facilities;
+export async function getFacilities(
+  config: ServiceConfig,
+  log: Logger,
+  signal?: AbortSignal
+): Promise<FacilityMetadata[]> {
+  return (await getCachedFacilities(config, log, signal)).value;
 }
 
-async function refreshAvailability(
+let facilityIndex: { storedAt: number; index: SpatialIndex<FacilityMetadata> } | undefined;
+
+/**
+ * Returns a spatial index over the cached facilities. The index is built once per cached facility
+ * list and rebuilt when a refresh replaces it.
+ * @param config Service configuration.
+ * @param log Logger.
+ * @param signal Abort signal for a facilities load.
+ * @returns Index over the current facilities.
+ */
+export async function getFacilityIndex(
   config: ServiceConfig,
   log: Logger,
   signal?: AbortSignal
-): Promise<Map<string, FacilityAvailability>> {
-  const url = buildUrl(config.baseUrl, config.availabilityPath);
-  const rawData = await fetchWithRetries<unknown>(url, config, log, signal);
+): Promise<SpatialIndex<FacilityMetadata>> {
+  const cached = await getCachedFacilities(config, log, signal);
+  if (facilityIndex?.storedAt !== cached.storedAt) {
+    const startedAt = Date.now();
+    facilityIndex = { storedAt: cached.storedAt, index: new SpatialIndex(cached.value) };
+    log.debug('Built facility spatial index', { count: cached.value.length, durationMs: Date.now() - startedAt });
+  }
+  return facilityIndex.index;
+}
 
-  if (!Array.isArray(rawData)) {
-    throw new Error('Availability response is not an array');
+/**
+ * Looks up availability for a facility, falling back to the ids of duplicates merged into it.
+ * @param facility Facility metadata.
+ * @param availability Availability keyed by facility id.
+ * @returns Availability, if any provider reported it.
+ */
+export function lookupAvailability(
+  facility: FacilityMetadata,
+  availability: Map<string, FacilityAvailability>
+): FacilityAvailability | undefined {
+  const direct = availability.get(facility.id);
+  if (direct) {
+    return direct;
+  }
+  for (const aliasId of facility.aliasIds) {
+    const aliased = availability.get(aliasId);
+    if (aliased) {
+      return { ...aliased, id: facility.id };
+    }
   }
+  return undefined;
+}
+
+async function refreshAvailability(
+  config: ServiceConfig,
+  log: Logger,
+  signal?: AbortSignal
+): Promise<FacilityAvailability[]> {
+  const providers = getEnabledProviders(config).filter((provider) => provider.fetchAvailability !== undefined);
+  const lists = await collectFromProviders(
+    providers.map((provider) => provider.id),
+    providers.map(async (provider) =>
+      checkAvailability(
+        provider.id,
+        (await provider.fetchAvailability?.(createProviderContext(config, log, signal, provider.id))) ?? [],
+        config.availabilityMaxAgeMs,
+        log
+      )
+    ),
+    'load availability',
+    log
+  );
 
   const availability = new Map<string, FacilityAvailability>();
-  for (const item of rawData) {
-    if (typeof item !== 'object' || item === null) {
-      continue;
-    }
-    const normalized = normalizeAvailability(item as Record<string, unknown>);
-    if (normalized) {
-      availability.set(normalized.id, normalized);
+  for (const list of lists) {
+    for (const item of list) {
+      availability.set(item.id, item);
     }
   }
 
-  return availability;
+  getHistoryStore(config)
+    .record(availability)
+    .catch((error) => {
+      log.error('Failed to record availability history', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+
+  return [...availability.values()];
 }
 
 export async function getAvailability(
@@ -242,59 +363,84 @@ export async function getAvailability(
   log: Logger,
   signal?: AbortSignal
 ): Promise<AvailabilityResult> {
-  const now = Date.now();
-  const cached = availabilityCache.entry;
+  return withSpan('getAvailability', {}, async (span) => {
+    const cached = await getCache(config).getOrLoad(AVAILABILITY_CACHE_KEY, config.availabilityTtlMs, () =>
+      trackFeed(AVAILABILITY_CACHE_KEY, () => refreshAvailability(config, log, signal))
+    );
+    span.setAttributes({ 'cache.stale': cached.stale, 'availability.count': cached.value.length });
+    return {
+      data: new Map(cached.value.map((item) => [item.id, item])),
+      stale: cached.stale
+    };
+  });
+}
 
-  if (cached && cached.expiresAt > now) {
-    return { data: cached.value, stale: false };
+/**
+ * Loads availability from the providers now, even when the cached data is still fresh, and
+ * caches the result. The subscription poller uses it so watches see every provider update.
+ * @param config Service configuration.
+ * @param log Logger.
+ * @param signal Abort signal for upstream requests.
+ * @returns Availability keyed by facility id; never stale.
+ */
+export async function refreshAvailabilityNow(
+  config: ServiceConfig,
+  log: Logger,
+  signal?: AbortSignal
+): Promise<AvailabilityResult> {
+  const refreshed = await getCache(config).refresh(AVAILABILITY_CACHE_KEY, config.availabilityTtlMs, () =>
+    trackFeed(AVAILABILITY_CACHE_KEY, () => refreshAvailability(config, log, signal))
+  );
+  return {
+    data: new Map(refreshed.value.map((item) => [item.id, item])),
+    stale: false
+  };
+}
+
+async function loadRegulations(
+  config: ServiceConfig,
+  log: Logger,
+  signal?: AbortSignal
+): Promise<StreetRegulation[]> {
+  const regulations: StreetRegulation[] = [];
+
+  if (config.regulationsFile) {
+    const raw: unknown = JSON.parse(await fs.readFile(config.regulationsFile, 'utf-8'));
+    regulations.push(...parseRegulationFeatures(raw, 'ptillaten', pathToFileURL(config.regulationsFile).toString()));
   }
 
-  if (cached && cached.revalidatePromise) {
-    return { data: cached.value, stale: true };
+  if (config.ltfApiKey) {
+    const apiKey = config.ltfApiKey;
+    for (const regulation of config.ltfLookupRegulations) {
+      const raw = await fetchWithRetries<unknown>(ltfUrl(config.ltfBaseUrl, regulation, apiKey), config, log, signal);
+      regulations.push(...parseRegulationFeatures(raw, regulation, `${config.ltfBaseUrl}/${regulation}`));
+    }
   }
 
-  if (cached && cached.expiresAt <= now) {
-    const revalidatePromise = refreshAvailability(config, log, signal)
-      .then((data) => {
-        availabilityCache.entry = {
-          value: data,
-          expiresAt: Date.now() + config.availabilityTtlMs
-        };
-        return data;
-      })
-      .catch((error) => {
-        log.error('Failed to refresh availability', {
-          error: error instanceof Error ? error.message : String(error)
-        });
-        if (availabilityCache.entry) {
-          availabilityCache.entry.revalidatePromise = undefined;
-        }
-        return cached.value;
-      });
+  log.info('Loaded street regulations', { count: regulations.length });
 
-    availabilityCache.entry = {
-      value: cached.value,
-      expiresAt: cached.expiresAt,
-      revalidatePromise
-    };
+  return regulations;
+}
 
-    return { data: cached.value, stale: true };
+/**
+ * Loads street-parking regulations from `REGULATIONS_FILE` and, when an API key is configured,
+ * the LTF-Tolken regulation types in `LTF_LOOKUP_REGULATIONS`. Cached for `REGULATIONS_TTL_MS`.
+ * @param config Service configuration.
+ * @param log Logger.
+ * @param signal Abort signal for upstream requests.
+ * @returns Regulations from every configured source.
+ */
+export async function getRegulations(
+  config: ServiceConfig,
+  log: Logger,
+  signal?: AbortSignal
+): Promise<StreetRegulation[]> {
+  if (!config.regulationsFile && !config.ltfApiKey) {
+    throw new Error('Street regulation data is not configured');
   }
 
-  try {
-    const fresh = await refreshAvailability(config, log, signal);
-    availabilityCache.entry = {
-      value: fresh,
-      expiresAt: now + config.availabilityTtlMs
-    };
-    return { data: fresh, stale: false };
-  } catch (error) {
-    if (cached) {
-      log.error('Falling back to stale availability cache', {
-        error: error instanceof Error ? error.message : String(error)
-      });
-      return { data: cached.value, stale: true };
-    }
-    throw error;
-  }
+  const cached = await getCache(config).getOrLoad(REGULATIONS_CACHE_KEY, config.regulationsTtlMs, () =>
+    trackFeed(REGULATIONS_CACHE_KEY, () => loadRegulations(config, log, signal))
+  );
+  return cached.value;
 }
@@ -0,0 +1,71 @@
+import { asRecord } from './providers/util.js';
+import { ToolDefinition } from './types.js';
+
+export interface DiscoveryParameter {
+  name: string;
+  type: string;
+  description: string;
+  required: boolean;
+}
+
+export interface DiscoveryFunction {
+  name: string;
+  description: string;
+  parameters: DiscoveryParameter[];
+  endpoint: string;
+  http_method: 'POST';
+  input_schema: object;
+  output_schema: object;
+}
+
+export interface DiscoveryDocument {
+  name: string;
+  description: string;
+  functions: DiscoveryFunction[];
+}
+
+function schemaType(schema: Record<string, unknown> | null): string {
+  const type = schema?.type;
+  if (Array.isArray(type)) {
+    return String(type.find((candidate) => candidate !== 'null') ?? 'string');
+  }
+  return typeof type === 'string' ? type : 'object';
+}
+
+function describeParameters(inputSchema: object): DiscoveryParameter[] {
+  const schema = asRecord(inputSchema);
+  const properties = asRecord(schema?.properties) ?? {};
+  const required = Array.isArray(schema?.required) ? (schema.required as unknown[]) : [];
+
+  return Object.entries(properties).map(([name, raw]) => {
+    const property = asRecord(raw);
+    return {
+      name,
+      type: schemaType(property),
+      description: typeof property?.description === 'string' ? property.description : '',
+      required: required.includes(name)
+    };
+  });
+}
+
+/**
+ * Builds the Opal discovery document from the registered tool methods. Every method is served
+ * as `POST /<method name>`.
+ * @param definition Tool definition.
+ * @returns Discovery document.
+ */
+export function buildDiscoveryDocument(definition: ToolDefinition): DiscoveryDocument {
+  return {
+    name: definition.name,
+    description: definition.description,
+    functions: definition.methods.map((method) => ({
+      name: method.name,
+      description: method.description,
+      parameters: describeParameters(method.inputSchema),
+      endpoint: `/${method.name}`,
+      http_method: 'POST',
+      input_schema: method.inputSchema,
+      output_schema: method.outputSchema
+    }))
+  };
+}
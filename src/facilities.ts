@@ -0,0 +1,81 @@
+import { normalizePlaceName, similarity } from './geocoding/gazetteer.js';
+import { FacilityMetadata } from './types.js';
+
+/** Name similarity below which a facility is not returned by a search. */
+const MIN_MATCH_SCORE = 0.5;
+/** A query matching only some words of a name scores like whole-word containment at best. */
+const PARTIAL_NAME_FACTOR = 0.9;
+
+export interface FacilityMatch {
+  facility: FacilityMetadata;
+  score: number;
+}
+
+/**
+ * Finds a facility by id. Ids of duplicates merged into a facility resolve to that facility.
+ * @param facilities Merged facilities.
+ * @param id Facility id.
+ * @returns Facility, or undefined when the id is unknown.
+ */
+export function findFacility(facilities: FacilityMetadata[], id: string): FacilityMetadata | undefined {
+  return (
+    facilities.find((facility) => facility.id === id) ??
+    facilities.find((facility) => facility.aliasIds.includes(id))
+  );
+}
+
+/**
+ * Scores a name against a query, also comparing the query with each run of as many consecutive
+ * words of the name, so `hotorgt` still matches `P-hus Hötorget` despite the typo.
+ */
+function matchScore(query: string, name: string): number {
+  let best = similarity(query, name);
+  const words = name.split(' ');
+  const span = query.split(' ').length;
+  for (let start = 0; start + span <= words.length; start += 1) {
+    best = Math.max(best, similarity(query, words.slice(start, start + span).join(' ')) * PARTIAL_NAME_FACTOR);
+  }
+  return best;
+}
+
+/**
+ * Fuzzy name search ignoring case and diacritics, so `ostermalm` finds `Östermalmshallen`.
+ * @param facilities Facilities to search.
+ * @param query Name or part of a name.
+ * @param limit Largest number of matches returned.
+ * @returns Best matches first; ties by name.
+ */
+export function searchFacilities(facilities: FacilityMetadata[], query: string, limit: number): FacilityMatch[] {
+  const normalizedQuery = normalizePlaceName(query);
+  if (normalizedQuery.length === 0) {
+    return [];
+  }
+
+  return facilities
+    .map((facility) => ({ facility, score: matchScore(normalizedQuery, normalizePlaceName(facility.name)) }))
+    .filter(({ score }) => score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score || a.facility.name.localeCompare(b.facility.name, 'sv'))
+    .slice(0, limit)
+    .map(({ facility, score }) => ({ facility, score: Math.round(score * 100) / 100 }));
+}
+
+/**
+ * One page of facilities, optionally in one parking zone, in Swedish alphabetical order by name.
+ * @param facilities Facilities to list.
+ * @param zoneCode Zone to filter by, compared case-insensitively.
+ * @param offset Number of facilities to skip.
+ * @param limit Page size.
+ * @returns The page and the number of facilities across all pages.
+ */
+export function listFacilities(
+  facilities: FacilityMetadata[],
+  zoneCode: string | undefined,
+  offset: number,
+  limit: number
+): { total: number; facilities: FacilityMetadata[] } {
+  const zone = zoneCode?.trim().toLowerCase();
+  const matching = facilities
+    .filter((facility) => zone === undefined || facility.zoneCode?.toLowerCase() === zone)
+    .sort((a, b) => a.name.localeCompare(b.name, 'sv') || a.id.localeCompare(b.id));
+  return { total: matching.length, facilities: matching.slice(offset, offset + limit) };
+}
@@ -0,0 +1,104 @@
+import { IndexedHistoryRecord } from './history.js';
+import { toStockholmTime } from './time.js';
+import { AvailabilityForecast, FacilityAvailability } from './types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_SLOT_SAMPLES = 3;
+const CONFIDENT_SAMPLE_COUNT = 8;
+const RECENCY_HALF_LIFE_DAYS = 14;
+const LIVE_DECAY_MINUTES = 45;
+
+interface SlotEstimate {
+  mean: number;
+  stdDev: number;
+  capacity: number | null;
+  count: number;
+}
+
+function isWeekend(weekday: number): boolean {
+  return weekday >= 6;
+}
+
+function estimateSlot(records: IndexedHistoryRecord[], now: number): SlotEstimate | null {
+  if (records.length === 0) {
+    return null;
+  }
+
+  let weightSum = 0;
+  let weighted = 0;
+  for (const record of records) {
+    const ageDays = Math.max(0, now - record.observedAtMs) / DAY_MS;
+    const weight = 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS);
+    weightSum += weight;
+    weighted += weight * record.freeSpaces;
+  }
+  const mean = weighted / weightSum;
+
+  let variance = 0;
+  for (const record of records) {
+    const ageDays = Math.max(0, now - record.observedAtMs) / DAY_MS;
+    const weight = 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS);
+    variance += weight * (record.freeSpaces - mean) ** 2;
+  }
+
+  const capacities = records
+    .map((record) => record.capacity)
+    .filter((capacity): capacity is number => capacity !== null && capacity > 0);
+
+  return {
+    mean,
+    stdDev: Math.sqrt(variance / weightSum),
+    capacity: capacities.length > 0 ? Math.max(...capacities) : null,
+    count: records.length
+  };
+}
+
+/**
+ * Predicts free spaces at an arrival time from the facility's history for the same Stockholm
+ * weekday and hour (falling back to the same hour on the same kind of day), blended with the
+ * live reading when arrival is close.
+ * @param history Facility history, as returned by the history store.
+ * @param arrival Requested arrival time.
+ * @param now Reference time used for recency weighting and lead time.
+ * @param current Latest live availability for the facility, if any.
+ * @returns Forecast, or null when there is too little history for the slot; a live reading alone
+ * says nothing about a later arrival.
+ */
+export function forecastFreeSpaces(
+  history: IndexedHistoryRecord[],
+  arrival: Date,
+  now: Date,
+  current?: FacilityAvailability
+): AvailabilityForecast | null {
+  const local = toStockholmTime(arrival);
+  const hour = Math.floor(local.minuteOfDay / 60);
+  const sameHour = history.filter((record) => record.hour === hour);
+
+  let slotRecords = sameHour.filter((record) => record.weekday === local.weekday);
+  if (slotRecords.length < MIN_SLOT_SAMPLES) {
+    slotRecords = sameHour.filter((record) => isWeekend(record.weekday) === isWeekend(local.weekday));
+  }
+
+  const slot = slotRecords.length >= MIN_SLOT_SAMPLES ? estimateSlot(slotRecords, now.getTime()) : null;
+  if (!slot) {
+    return null;
+  }
+
+  const liveFree = current?.freeSpaces ?? null;
+  const leadMinutes = Math.max(0, (arrival.getTime() - now.getTime()) / 60000);
+  const liveWeight = liveFree === null ? 0 : Math.exp(-leadMinutes / LIVE_DECAY_MINUTES);
+
+  const scale = slot.capacity ?? current?.capacity ?? Math.max(slot.mean, 10);
+  const spread = Math.min(1, slot.stdDev / Math.max(scale, 1));
+  const historyConfidence = Math.min(1, slot.count / CONFIDENT_SAMPLE_COUNT) * (1 - spread);
+
+  const blended = liveWeight * (liveFree ?? 0) + (1 - liveWeight) * slot.mean;
+  const upperBound = current?.capacity ?? slot.capacity ?? Number.POSITIVE_INFINITY;
+  const predicted = Math.min(upperBound, Math.max(0, Math.round(blended)));
+
+  return {
+    predictedFreeSpaces: predicted,
+    confidence: Math.round((liveWeight + (1 - liveWeight) * historyConfidence) * 100) / 100,
+    sampleCount: slot.count
+  };
+}
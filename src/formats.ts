@@ -0,0 +1,232 @@
+import {
+  FacilityRecommendation,
+  FormattedRecommendations,
+  RecommendationFeatureCollection,
+  RecommendationSummary,
+  ResponseFormat,
+  SummaryLanguage
+} from './types.js';
+
+/** Where a search was centred, as the formats present it. */
+export interface SearchTarget {
+  lat: number;
+  lon: number;
+  /** Resolved address or place name; null when coordinates were given. */
+  label: string | null;
+  /** True for a route search, where the facilities lie along the way rather than around the target. */
+  route: boolean;
+}
+
+interface SummaryStrings {
+  locale: string;
+  heading(count: number, target: SearchTarget): string;
+  none: string;
+  distance(distance: string, walkMinutes: number): string;
+  spaces(freeSpaces: number, capacity: number | null): string;
+  noAvailability: string;
+  predicted(freeSpaces: number): string;
+  cost(amount: string): string;
+  tariff(note: string): string;
+  closed: string;
+  closesDuringStay: string;
+  stale: string;
+  outdated(age: string): string;
+  futureTimestamp: string;
+  exceedsCapacity: string;
+  /** Units for the age of an outdated count: minutes, hours and days. */
+  ageUnits: [string, string, string];
+}
+
+const STRINGS: Record<SummaryLanguage, SummaryStrings> = {
+  en: {
+    locale: 'en-GB',
+    heading: (count, target) =>
+      `Found ${count} parking ${count === 1 ? 'facility' : 'facilities'} ${
+        target.route ? 'along the route' : `near ${target.label ?? 'the destination'}`
+      }:`,
+    none: 'No parking facilities matched the search.',
+    distance: (distance, walkMinutes) => `${distance} away, about ${walkMinutes} min walk.`,
+    spaces: (freeSpaces, capacity) =>
+      capacity !== null
+        ? `${freeSpaces} of ${capacity} spaces free.`
+        : `${freeSpaces} ${freeSpaces === 1 ? 'space' : 'spaces'} free.`,
+    noAvailability: 'No live availability.',
+    predicted: (freeSpaces) => `About ${freeSpaces} expected free on arrival.`,
+    cost: (amount) => `About ${amount} SEK for the stay.`,
+    tariff: (note) => `Price: ${note}.`,
+    closed: 'Closed at arrival.',
+    closesDuringStay: 'Closes during the stay.',
+    stale: 'Availability could not be refreshed and may be out of date.',
+    outdated: (age) => `Free spaces last reported ${age} ago.`,
+    futureTimestamp: 'Free-space count has an unreliable timestamp.',
+    exceedsCapacity: 'Free-space count exceeds capacity and may be wrong.',
+    ageUnits: ['min', 'h', 'days']
+  },
+  sv: {
+    locale: 'sv-SE',
+    heading: (count, target) =>
+      `Hittade ${count} ${count === 1 ? 'parkering' : 'parkeringar'} ${
+        target.route ? 'längs rutten' : `nära ${target.label ?? 'målet'}`
+      }:`,
+    none: 'Inga parkeringar matchade sökningen.',
+    distance: (distance, walkMinutes) => `${distance} bort, cirka ${walkMinutes} min promenad.`,
+    spaces: (freeSpaces, capacity) =>
+      capacity !== null
+        ? `${freeSpaces} av ${capacity} platser lediga.`
+        : `${freeSpaces} ${freeSpaces === 1 ? 'ledig plats' : 'lediga platser'}.`,
+    noAvailability: 'Ingen aktuell uppgift om lediga platser.',
+    predicted: (freeSpaces) => `Cirka ${freeSpaces} väntas vara lediga vid ankomst.`,
+    cost: (amount) => `Cirka ${amount} kr för vistelsen.`,
+    tariff: (note) => `Pris: ${note}.`,
+    closed: 'Stängd vid ankomst.',
+    closesDuringStay: 'Stänger under vistelsen.',
+    stale: 'Lediga platser kunde inte uppdateras och kan vara inaktuella.',
+    outdated: (age) => `Lediga platser rapporterades senast för ${age} sedan.`,
+    futureTimestamp: 'Uppgiften om lediga platser har en opålitlig tidsstämpel.',
+    exceedsCapacity: 'Antalet lediga platser överstiger kapaciteten och kan vara fel.',
+    ageUnits: ['min', 'tim', 'dagar']
+  }
+};
+
+function formatNumber(value: number, locale: string, fractionDigits: number): string {
+  return new Intl.NumberFormat(locale, { maximumFractionDigits: fractionDigits }).format(value);
+}
+
+function formatDistance(meters: number, locale: string): string {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${formatNumber(meters / 1000, locale, 1)} km`;
+}
+
+function formatAge(minutes: number, [minuteUnit, hourUnit, dayUnit]: SummaryStrings['ageUnits']): string {
+  if (minutes < 60) {
+    return `${minutes} ${minuteUnit}`;
+  }
+  return minutes < 48 * 60 ? `${Math.round(minutes / 60)} ${hourUnit}` : `${Math.round(minutes / 1440)} ${dayUnit}`;
+}
+
+function describeFacility(
+  recommendation: FacilityRecommendation,
+  rank: number,
+  strings: SummaryStrings,
+  now: Date
+): string {
+  const distance = formatDistance(recommendation.distanceMeters, strings.locale);
+  const parts = [strings.distance(distance, recommendation.walkMinutes)];
+
+  parts.push(
+    recommendation.freeSpaces !== null
+      ? strings.spaces(recommendation.freeSpaces, recommendation.capacity)
+      : strings.noAvailability
+  );
+  if (recommendation.predictedFreeSpaces !== null) {
+    parts.push(strings.predicted(recommendation.predictedFreeSpaces));
+  }
+
+  if (recommendation.estimatedCostSek !== null) {
+    parts.push(strings.cost(formatNumber(recommendation.estimatedCostSek, strings.locale, 0)));
+  } else if (recommendation.tariffNote) {
+    parts.push(strings.tariff(recommendation.tariffNote.replace(/\.$/, '')));
+  }
+
+  if (recommendation.openStatus.status === 'closed') {
+    parts.push(strings.closed);
+  } else if (recommendation.openStatus.status === 'closes_during_stay') {
+    parts.push(strings.closesDuringStay);
+  }
+
+  // Caveats only matter when there is a count to doubt.
+  if (recommendation.freeSpaces !== null) {
+    if (recommendation.stale) {
+      parts.push(strings.stale);
+    }
+    if (recommendation.dataQuality.includes('availability_outdated') && recommendation.lastUpdated !== null) {
+      const minutes = Math.round((now.getTime() - Date.parse(recommendation.lastUpdated)) / 60000);
+      parts.push(strings.outdated(formatAge(minutes, strings.ageUnits)));
+    }
+    if (recommendation.dataQuality.includes('timestamp_in_future')) {
+      parts.push(strings.futureTimestamp);
+    }
+    if (recommendation.dataQuality.includes('exceeds_capacity')) {
+      parts.push(strings.exceedsCapacity);
+    }
+  }
+
+  return `${rank}. ${recommendation.name}: ${parts.join(' ')}`;
+}
+
+/**
+ * Turns recommendations into a GeoJSON FeatureCollection for map widgets.
+ * @param recommendations Ranked recommendations.
+ * @param target Search target, added as the first feature.
+ * @returns Destination point followed by one point per facility.
+ */
+export function toFeatureCollection(
+  recommendations: FacilityRecommendation[],
+  target: SearchTarget
+): RecommendationFeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [target.lon, target.lat] },
+        properties: { kind: 'destination', label: target.label }
+      },
+      ...recommendations.map((recommendation, index) => ({
+        type: 'Feature' as const,
+        id: recommendation.id,
+        geometry: { type: 'Point' as const, coordinates: [recommendation.lon, recommendation.lat] as [number, number] },
+        properties: { ...recommendation, kind: 'facility' as const, rank: index + 1 }
+      }))
+    ]
+  };
+}
+
+/**
+ * Writes recommendations as short text an assistant can relay: distance, walk time, free spaces,
+ * price and caveats about availability that may be wrong.
+ * @param recommendations Ranked recommendations.
+ * @param target Search target, named in the heading.
+ * @param language Language of the text.
+ * @param now Time the age of outdated counts is measured from.
+ * @returns Text and the ids of the facilities it mentions.
+ */
+export function summarizeRecommendations(
+  recommendations: FacilityRecommendation[],
+  target: SearchTarget,
+  language: SummaryLanguage,
+  now: Date = new Date()
+): RecommendationSummary {
+  const strings = STRINGS[language];
+  const text =
+    recommendations.length === 0
+      ? strings.none
+      : [
+          strings.heading(recommendations.length, target),
+          ...recommendations.map((recommendation, index) => describeFacility(recommendation, index + 1, strings, now))
+        ].join('\n');
+  return { language, text, facilityIds: recommendations.map((recommendation) => recommendation.id) };
+}
+
+/**
+ * Shapes recommendations in the requested response format.
+ * @param recommendations Ranked recommendations.
+ * @param format Requested format.
+ * @param target Search target.
+ * @param language Language of a `summary`.
+ * @returns The recommendations as given for `json`, otherwise the formatted result.
+ */
+export function formatRecommendations(
+  recommendations: FacilityRecommendation[],
+  format: ResponseFormat,
+  target: SearchTarget,
+  language: SummaryLanguage
+): FormattedRecommendations {
+  switch (format) {
+    case 'geojson':
+      return toFeatureCollection(recommendations, target);
+    case 'summary':
+      return summarizeRecommendations(recommendations, target, language);
+    default:
+      return recommendations;
+  }
+}
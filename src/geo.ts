@@ -1,3 +1,5 @@
+import { LatLon } from './types.js';
+
 const EARTH_RADIUS_METERS = 6371000;
 
 /**
@@ -36,3 +38,139 @@ export function estimateWalkMinutes(distanceMeters: number): number {
   const WALKING_SPEED_METERS_PER_MINUTE = 80;
   return Math.max(0, Math.ceil(distanceMeters / WALKING_SPEED_METERS_PER_MINUTE));
 }
+
+/**
+ * Calculates the shortest distance from a point to a path of connected segments.
+ * Uses a local equirectangular projection, which is accurate to well under a meter at city scale.
+ * @param lat Latitude of the point in decimal degrees.
+ * @param lon Longitude of the point in decimal degrees.
+ * @param path Ordered path vertices; a single vertex is treated as a point.
+ * @returns Distance in meters from the point to the nearest part of the path.
+ */
+export function distanceToPathMeters(lat: number, lon: number, path: LatLon[]): number {
+  if (path.length === 0) {
+    return Number.POSITIVE_INFINITY;
+  }
+  if (path.length === 1) {
+    return haversineDistanceMeters(lat, lon, path[0].lat, path[0].lon);
+  }
+
+  const metersPerDegreeLat = (Math.PI * EARTH_RADIUS_METERS) / 180;
+  const metersPerDegreeLon = metersPerDegreeLat * Math.cos((lat * Math.PI) / 180);
+  const project = (point: LatLon): [number, number] => [
+    (point.lon - lon) * metersPerDegreeLon,
+    (point.lat - lat) * metersPerDegreeLat
+  ];
+
+  let best = Number.POSITIVE_INFINITY;
+  for (let i = 1; i < path.length; i += 1) {
+    const [ax, ay] = project(path[i - 1]);
+    const [bx, by] = project(path[i]);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+    const distance = Math.hypot(ax + t * dx, ay + t * dy);
+    best = Math.min(best, distance);
+  }
+
+  return Math.round(best);
+}
+
+/**
+ * Decodes a path encoded with the Google encoded polyline algorithm.
+ * @param encoded Encoded polyline string.
+ * @param precision Number of decimal places encoded (5 for Google, 6 for OSRM/Valhalla `polyline6`).
+ * @returns Decoded vertices, or null when the string is malformed.
+ */
+export function decodePolyline(encoded: string, precision = 5): LatLon[] | null {
+  const factor = 10 ** precision;
+  const points: LatLon[] = [];
+  let index = 0;
+  let lat = 0;
+  let lon = 0;
+
+  const readValue = (): number | null => {
+    let result = 0;
+    let shift = 0;
+    for (;;) {
+      if (index >= encoded.length) {
+        return null;
+      }
+      const byte = encoded.charCodeAt(index) - 63;
+      index += 1;
+      if (byte < 0 || byte > 63) {
+        return null;
+      }
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+      if (byte < 0x20) {
+        break;
+      }
+      if (shift > 30) {
+        return null;
+      }
+    }
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    const dLat = readValue();
+    const dLon = readValue();
+    if (dLat === null || dLon === null) {
+      return null;
+    }
+    lat += dLat;
+    lon += dLon;
+    points.push({ lat: lat / factor, lon: lon / factor });
+  }
+
+  return points;
+}
+
+/**
+ * Finds the point a given share of the way along a path, measured by walking distance along its segments.
+ * @param path Ordered path vertices.
+ * @param fraction Share of the path length from its first vertex, clamped to 0..1.
+ * @returns Point on the path, or null for an empty path.
+ */
+export function pointAlongPath(path: LatLon[], fraction: number): LatLon | null {
+  if (path.length === 0) {
+    return null;
+  }
+
+  const lengths: number[] = [];
+  let total = 0;
+  for (let i = 1; i < path.length; i += 1) {
+    const length = haversineDistanceMeters(path[i - 1].lat, path[i - 1].lon, path[i].lat, path[i].lon);
+    lengths.push(length);
+    total += length;
+  }
+  if (total === 0) {
+    return { lat: path[0].lat, lon: path[0].lon };
+  }
+
+  let remaining = total * Math.min(1, Math.max(0, fraction));
+  for (let i = 0; i < lengths.length; i += 1) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const t = remaining / lengths[i];
+      return {
+        lat: path[i].lat + (path[i + 1].lat - path[i].lat) * t,
+        lon: path[i].lon + (path[i + 1].lon - path[i].lon) * t
+      };
+    }
+    remaining -= lengths[i];
+  }
+
+  const last = path[path.length - 1];
+  return { lat: last.lat, lon: last.lon };
+}
+
+/**
+ * Finds the point halfway along a path, measured by walking distance along its segments.
+ * @param path Ordered path vertices.
+ * @returns Midpoint of the path, or null for an empty path.
+ */
+export function pathMidpoint(path: LatLon[]): LatLon | null {
+  return pointAlongPath(path, 0.5);
+}
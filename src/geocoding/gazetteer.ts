@@ -0,0 +1,160 @@
+import { pathMidpoint, pointAlongPath } from '../geo.js';
+import { GazetteerEntry, GeocodeMatch, GeocodeQuery, Geocoder } from '../types.js';
+import { STOCKHOLM_GAZETTEER } from './stockholm.js';
+
+/** Words callers wrap place names in ("near Stureplan, Stockholm") that say nothing about the place. */
+const FILLER_WORDS = new Set(['near', 'nara', 'vid', 'at', 'by', 'the', 'stockholm', 'sverige', 'sweden']);
+
+/** Name similarity below which an entry is not considered a match at all. */
+const MIN_SIMILARITY = 0.5;
+
+/** Applied when the query kind asked for something else, e.g. a landmark found for an address. */
+const KIND_MISMATCH_FACTOR = 0.8;
+/** House numbers are interpolated along a simplified course. */
+const INTERPOLATED_FACTOR = 0.9;
+/** A house number outside the street's known range was clamped to the nearest end. */
+const OUT_OF_RANGE_FACTOR = 0.6;
+/** A street without a house number is placed at its midpoint, possibly far from where the caller means. */
+const WHOLE_STREET_FACTOR = 0.7;
+/** Districts are placed at their centre. */
+const DISTRICT_FACTOR = 0.8;
+
+/**
+ * Lowercases, strips diacritics and punctuation and drops filler words, so `Östermalmstorg` and
+ * `near ostermalmstorg, Stockholm` compare equal.
+ * @param text Place name or address.
+ * @returns Normalized text.
+ */
+export function normalizePlaceName(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter((word) => word.length > 0 && !FILLER_WORDS.has(word))
+    .join(' ');
+}
+
+/**
+ * Splits an address such as `Drottninggatan 50 B, 111 21 Stockholm` into street and house number.
+ * Anything after the first comma (postal code, city) is ignored.
+ * @param text Address as given.
+ * @returns Normalized street name and house number, or null when there is no house number.
+ */
+export function parseAddress(text: string): { street: string; number: number } | null {
+  const match = /^(.*?)\s*(\d+)\s*[a-z]?$/.exec(normalizePlaceName(text.split(',')[0]));
+  if (!match || match[1].length === 0) {
+    return null;
+  }
+  return { street: match[1], number: Number.parseInt(match[2], 10) };
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Scores how well a query names a place: 1 for an exact match, 0.9 when one contains the other
+ * as whole words, otherwise the squared share of characters that need no edit, so a typo or two
+ * still scores well but names that merely share letters do not.
+ * @param query Normalized query.
+ * @param name Normalized name.
+ * @returns Similarity from 0 to 1.
+ */
+export function similarity(query: string, name: string): number {
+  if (query === name) {
+    return 1;
+  }
+  if (` ${query} `.includes(` ${name} `) || ` ${name} `.includes(` ${query} `)) {
+    return 0.9;
+  }
+  return (1 - editDistance(query, name) / Math.max(query.length, name.length)) ** 2;
+}
+
+function bestSimilarity(query: string, entry: GazetteerEntry): number {
+  return Math.max(...[entry.name, ...(entry.aliases ?? [])].map((name) => similarity(query, normalizePlaceName(name))));
+}
+
+function locate(entry: GazetteerEntry, houseNumber: number | null, score: number): Omit<GeocodeMatch, 'source'> | null {
+  if (entry.kind !== 'street') {
+    const point = entry.path[0];
+    const confidence = entry.kind === 'district' ? score * DISTRICT_FACTOR : score;
+    return { label: entry.name, lat: point.lat, lon: point.lon, kind: entry.kind, confidence };
+  }
+
+  if (houseNumber === null || !entry.numbers) {
+    const midpoint = pathMidpoint(entry.path);
+    return midpoint
+      ? { label: entry.name, ...midpoint, kind: 'street', confidence: score * WHOLE_STREET_FACTOR }
+      : null;
+  }
+
+  const [first, last] = entry.numbers;
+  const inRange = houseNumber >= first && houseNumber <= last;
+  const point = pointAlongPath(entry.path, last > first ? (houseNumber - first) / (last - first) : 0);
+  if (!point) {
+    return null;
+  }
+  return {
+    label: `${entry.name} ${houseNumber}`,
+    ...point,
+    kind: 'address',
+    confidence: score * INTERPOLATED_FACTOR * (inRange ? 1 : OUT_OF_RANGE_FACTOR)
+  };
+}
+
+/**
+ * Looks a query up in a gazetteer. Addresses prefer streets and places prefer landmarks and
+ * districts, but either may match the other kind at lower confidence.
+ * @param query Address or place name.
+ * @param entries Gazetteer to search.
+ * @returns Best match without its source, or null when no name is similar enough.
+ */
+export function searchGazetteer(
+  query: GeocodeQuery,
+  entries: GazetteerEntry[] = STOCKHOLM_GAZETTEER
+): Omit<GeocodeMatch, 'source'> | null {
+  const address = query.kind === 'address' ? parseAddress(query.text) : null;
+  const text = address?.street ?? normalizePlaceName(query.kind === 'address' ? query.text.split(',')[0] : query.text);
+  if (text.length === 0) {
+    return null;
+  }
+
+  let best: { entry: GazetteerEntry; score: number } | null = null;
+  for (const entry of entries) {
+    const wanted = query.kind === 'address' ? entry.kind === 'street' : entry.kind !== 'street';
+    const nameScore = bestSimilarity(text, entry);
+    if (nameScore < MIN_SIMILARITY) {
+      continue;
+    }
+    const score = nameScore * (wanted ? 1 : KIND_MISMATCH_FACTOR);
+    if (!best || score > best.score) {
+      best = { entry, score };
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+  const match = locate(best.entry, address?.number ?? null, best.score);
+  return match ? { ...match, confidence: Math.round(match.confidence * 100) / 100 } : null;
+}
+
+/** Offline geocoder over the bundled Stockholm gazetteer. */
+export const gazetteerGeocoder: Geocoder = {
+  id: 'gazetteer',
+  geocode(query) {
+    const match = searchGazetteer(query);
+    return Promise.resolve(match ? { ...match, source: 'gazetteer' } : null);
+  }
+};
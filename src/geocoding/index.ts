@@ -0,0 +1,97 @@
+import { createProviderContext } from '../data.js';
+import { Logger } from '../log.js';
+import { metrics } from '../metrics.js';
+import { withSpan } from '../tracing.js';
+import { GeocodeMatch, GeocodeQuery, Geocoder, ServiceConfig } from '../types.js';
+import { gazetteerGeocoder } from './gazetteer.js';
+import { nominatimGeocoder } from './nominatim.js';
+
+const registry = new Map<string, Geocoder>();
+
+/**
+ * Registers a geocoder so it can be enabled through the `GEOCODERS` setting.
+ * @param geocoder Geocoder; replaces any geocoder registered under the same id.
+ */
+export function registerGeocoder(geocoder: Geocoder): void {
+  registry.set(geocoder.id, geocoder);
+}
+
+registerGeocoder(gazetteerGeocoder);
+registerGeocoder(nominatimGeocoder);
+
+/**
+ * Resolves the enabled geocoders in configured order.
+ * @param config Service configuration.
+ * @returns Geocoders.
+ */
+export function getEnabledGeocoders(config: ServiceConfig): Geocoder[] {
+  return config.geocoders.map((id) => {
+    const geocoder = registry.get(id);
+    if (!geocoder) {
+      throw new Error(`Unknown geocoder '${id}'. Registered geocoders: ${[...registry.keys()].join(', ')}`);
+    }
+    return geocoder;
+  });
+}
+
+/**
+ * Resolves an address or place name with the enabled geocoders in order. The first match at or
+ * above `GEOCODE_MIN_CONFIDENCE` wins; when none reaches it, the most confident match is returned
+ * so the caller can report what was found. A failing geocoder is skipped, and its error is only
+ * thrown when no geocoder found anything.
+ * @param query Address or place name.
+ * @param config Service configuration.
+ * @param log Logger.
+ * @param signal Abort signal for upstream requests.
+ * @returns Best match, or null when nothing matched.
+ */
+export async function geocode(
+  query: GeocodeQuery,
+  config: ServiceConfig,
+  log: Logger,
+  signal?: AbortSignal
+): Promise<GeocodeMatch | null> {
+  return withSpan('geocode', { 'geocode.kind': query.kind }, async (span) => {
+    const context = createProviderContext(config, log, signal);
+    let best: GeocodeMatch | null = null;
+    let firstError: unknown;
+
+    for (const geocoder of getEnabledGeocoders(config)) {
+      let match: GeocodeMatch | null;
+      try {
+        match = await geocoder.geocode(query, context);
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        metrics.geocodeLookups.inc({ geocoder: geocoder.id, result: 'error' });
+        log.warn('Geocoder failed', {
+          geocoder: geocoder.id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        firstError ??= error;
+        continue;
+      }
+
+      const confident = match !== null && match.confidence >= config.geocodeMinConfidence;
+      metrics.geocodeLookups.inc({
+        geocoder: geocoder.id,
+        result: match === null ? 'no_match' : confident ? 'match' : 'low_confidence'
+      });
+      if (match && (!best || match.confidence > best.confidence)) {
+        best = match;
+      }
+      if (confident) {
+        break;
+      }
+    }
+
+    if (!best && firstError !== undefined) {
+      throw firstError instanceof Error ? firstError : new Error(String(firstError));
+    }
+    if (best) {
+      span.setAttributes({ 'geocode.source': best.source, 'geocode.confidence': best.confidence });
+    }
+    return best;
+  });
+}
@@ -0,0 +1,95 @@
+import { asRecord, toNumberOrNull, toStringOrNull } from '../providers/util.js';
+import { GeocodeMatch, GeocodeMatchKind, GeocodeQuery, Geocoder } from '../types.js';
+
+/** Results are restricted to Greater Stockholm (west, north, east, south). */
+const STOCKHOLM_VIEWBOX = '17.75,59.45,18.30,59.20';
+
+/** Nominatim's usage policy asks every client to identify itself. */
+const USER_AGENT = 'stockholm-parking-opal-tool';
+
+/** Answers are kept for the process lifetime, oldest evicted first beyond this many queries. */
+const CACHE_LIMIT = 500;
+
+const DISTRICT_TYPES = new Set(['suburb', 'quarter', 'neighbourhood', 'city_district', 'borough']);
+
+const CONFIDENCE: Record<GeocodeMatchKind, number> = {
+  address: 0.9,
+  landmark: 0.85,
+  district: 0.8,
+  street: 0.7
+};
+
+const cache = new Map<string, GeocodeMatch | null>();
+
+function matchKind(result: Record<string, unknown>): GeocodeMatchKind {
+  const category = toStringOrNull(result.category ?? result.class);
+  const type = toStringOrNull(result.type);
+  if (category === 'highway') {
+    return 'street';
+  }
+  if (category === 'boundary' || (category === 'place' && type !== null && DISTRICT_TYPES.has(type))) {
+    return 'district';
+  }
+  if (category === 'building' || type === 'house' || toStringOrNull(result.addresstype) === 'house_number') {
+    return 'address';
+  }
+  return 'landmark';
+}
+
+/**
+ * Reads the first result of a Nominatim `format=jsonv2` search.
+ * @param body Response body.
+ * @returns Match, or null when the search found nothing usable.
+ */
+export function parseNominatimResult(body: unknown): GeocodeMatch | null {
+  const result = Array.isArray(body) ? asRecord(body[0]) : null;
+  const lat = toNumberOrNull(result?.lat);
+  const lon = toNumberOrNull(result?.lon);
+  if (!result || lat === null || lon === null) {
+    return null;
+  }
+  const kind = matchKind(result);
+  return {
+    label: toStringOrNull(result.display_name) ?? toStringOrNull(result.name) ?? `${lat}, ${lon}`,
+    lat,
+    lon,
+    kind,
+    confidence: CONFIDENCE[kind],
+    source: 'nominatim'
+  };
+}
+
+/** Geocoder backed by a Nominatim-compatible `/search` API at `NOMINATIM_URL`. */
+export const nominatimGeocoder: Geocoder = {
+  id: 'nominatim',
+  async geocode(query: GeocodeQuery, { config, fetchJson }) {
+    if (!config.nominatimUrl) {
+      throw new Error('Nominatim geocoder requires NOMINATIM_URL');
+    }
+
+    const cacheKey = `${query.kind}:${query.text.trim().toLowerCase()}`;
+    if (cache.has(cacheKey)) {
+      return cache.get(cacheKey) ?? null;
+    }
+
+    const url = new URL(`${config.nominatimUrl.replace(/\/+$/, '')}/search`);
+    url.search = new URLSearchParams({
+      q: query.text,
+      format: 'jsonv2',
+      limit: '1',
+      countrycodes: 'se',
+      viewbox: STOCKHOLM_VIEWBOX,
+      bounded: '1'
+    }).toString();
+
+    const match = parseNominatimResult(
+      await fetchJson<unknown>(url.toString(), { 'User-Agent': USER_AGENT, 'Accept-Language': 'sv,en' })
+    );
+
+    if (cache.size >= CACHE_LIMIT) {
+      cache.delete(cache.keys().next().value as string);
+    }
+    cache.set(cacheKey, match);
+    return match;
+  }
+};
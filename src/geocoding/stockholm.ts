@@ -0,0 +1,197 @@
+import { GazetteerEntry } from '../types.js';
+
+function place(
+  kind: 'landmark' | 'district',
+  name: string,
+  lat: number,
+  lon: number,
+  aliases: string[] = []
+): GazetteerEntry {
+  return { name, kind, aliases, path: [{ lat, lon }] };
+}
+
+function street(name: string, numbers: [number, number], path: [number, number][], aliases: string[] = []): GazetteerEntry {
+  return { name, kind: 'street', aliases, numbers, path: path.map(([lat, lon]) => ({ lat, lon })) };
+}
+
+/**
+ * Inner-city streets, squares, landmarks and districts. Street courses are simplified to a few
+ * vertices and house numbers are interpolated along them, which is good to within a block or two.
+ */
+export const STOCKHOLM_GAZETTEER: GazetteerEntry[] = [
+  place('district', 'Norrmalm', 59.335, 18.06, ['City']),
+  place('district', 'Östermalm', 59.338, 18.085),
+  place('district', 'Vasastan', 59.344, 18.048, ['Vasastaden']),
+  place('district', 'Kungsholmen', 59.332, 18.031),
+  place('district', 'Södermalm', 59.315, 18.07, ['Söder']),
+  place('district', 'Gamla stan', 59.3251, 18.0711, ['Old Town']),
+  place('district', 'Djurgården', 59.326, 18.115),
+  place('district', 'Gärdet', 59.346, 18.098),
+  place('district', 'Skeppsholmen', 59.3255, 18.084),
+  place('district', 'Riddarholmen', 59.3245, 18.064),
+  place('district', 'Hagastaden', 59.347, 18.037),
+  place('district', 'Hammarby sjöstad', 59.3045, 18.103),
+  place('district', 'Liljeholmen', 59.3105, 18.0225),
+  place('district', 'Kista', 59.403, 17.9445),
+
+  place('landmark', 'Stureplan', 59.3355, 18.074, ['Svampen']),
+  place('landmark', 'Sergels torg', 59.3324, 18.0645, ['Plattan', 'Kulturhuset']),
+  place('landmark', 'Stockholm Central', 59.3303, 18.0582, [
+    'Centralstationen',
+    'Stockholms central',
+    'Centralen',
+    'T-Centralen',
+    'Stockholm C',
+    'Central Station'
+  ]),
+  place('landmark', 'Cityterminalen', 59.3316, 18.056, ['City Terminal']),
+  place('landmark', 'Kungliga slottet', 59.3268, 18.0717, ['Royal Palace', 'Slottet', 'Stockholms slott']),
+  place('landmark', 'Stadshuset', 59.3275, 18.0543, ['City Hall', 'Stockholm City Hall']),
+  place('landmark', 'Riksdagshuset', 59.3276, 18.067, ['Riksdagen', 'Parliament']),
+  place('landmark', 'Rådhuset', 59.3297, 18.0435),
+  place('landmark', 'Kungsträdgården', 59.331, 18.0715, ['Kungsan']),
+  place('landmark', 'NK', 59.3328, 18.0707, ['Nordiska Kompaniet']),
+  place('landmark', 'Hötorget', 59.3352, 18.063, ['Konserthuset']),
+  place('landmark', 'Östermalmstorg', 59.335, 18.078, ['Östermalms saluhall']),
+  place('landmark', 'Nybroplan', 59.333, 18.0765, ['Dramaten']),
+  place('landmark', 'Odenplan', 59.343, 18.0495),
+  place('landmark', 'Sankt Eriksplan', 59.3395, 18.037, ['S:t Eriksplan', 'St Eriksplan']),
+  place('landmark', 'Fridhemsplan', 59.3322, 18.0295),
+  place('landmark', 'Slussen', 59.3195, 18.072),
+  place('landmark', 'Medborgarplatsen', 59.3143, 18.0735),
+  place('landmark', 'Mariatorget', 59.317, 18.0635),
+  place('landmark', 'Nytorget', 59.3128, 18.084),
+  place('landmark', 'Skanstull', 59.3075, 18.0765),
+  place('landmark', 'Hornstull', 59.3157, 18.034),
+  place('landmark', 'Fotografiska', 59.3178, 18.0855),
+  place('landmark', 'Vasamuseet', 59.328, 18.0915, ['Vasa Museum', 'Vasa museet']),
+  place('landmark', 'Skansen', 59.3265, 18.1035),
+  place('landmark', 'Gröna Lund', 59.3233, 18.0963, ['Tivoli']),
+  place('landmark', 'ABBA The Museum', 59.325, 18.0963, ['ABBA museum']),
+  place('landmark', 'Nationalmuseum', 59.329, 18.078),
+  place('landmark', 'Moderna museet', 59.326, 18.0845),
+  place('landmark', 'Stockholm Waterfront', 59.3296, 18.0535),
+  place('landmark', 'Avicii Arena', 59.2936, 18.0832, ['Globen', 'Ericsson Globe']),
+  place('landmark', 'Tele2 Arena', 59.2905, 18.0845),
+  place('landmark', 'Strawberry Arena', 59.3725, 18.0, ['Friends Arena', 'Nationalarenan']),
+  place('landmark', 'Karolinska Universitetssjukhuset', 59.3505, 18.033, [
+    'Karolinska sjukhuset',
+    'Nya Karolinska',
+    'Karolinska Solna'
+  ]),
+  place('landmark', 'Södersjukhuset', 59.3095, 18.052, ['SÖS']),
+  place('landmark', 'KTH', 59.3498, 18.0707, ['Kungliga Tekniska högskolan']),
+  place('landmark', 'Stockholms universitet', 59.365, 18.058, ['Frescati', 'Stockholm University']),
+  place('landmark', 'Bromma flygplats', 59.3545, 17.9415, ['Bromma Airport', 'Stockholm Bromma']),
+
+  street('Drottninggatan', [1, 128], [
+    [59.3297, 18.066],
+    [59.3342, 18.0622],
+    [59.342, 18.053]
+  ]),
+  street('Kungsgatan', [1, 70], [
+    [59.3352, 18.073],
+    [59.3355, 18.0635],
+    [59.334, 18.054]
+  ]),
+  street('Sveavägen', [1, 166], [
+    [59.334, 18.0635],
+    [59.342, 18.0555],
+    [59.3495, 18.045]
+  ]),
+  street('Birger Jarlsgatan', [1, 136], [
+    [59.3335, 18.076],
+    [59.3355, 18.074],
+    [59.342, 18.0685],
+    [59.35, 18.061]
+  ]),
+  street('Vasagatan', [1, 52], [
+    [59.3298, 18.0606],
+    [59.3355, 18.056]
+  ]),
+  street('Hamngatan', [1, 37], [
+    [59.3325, 18.0745],
+    [59.3323, 18.0655]
+  ]),
+  street('Strandvägen', [1, 65], [
+    [59.3323, 18.078],
+    [59.3318, 18.093]
+  ]),
+  street('Götgatan', [1, 120], [
+    [59.3195, 18.0722],
+    [59.3143, 18.0728],
+    [59.307, 18.076]
+  ]),
+  street('Hornsgatan', [1, 182], [
+    [59.3192, 18.0705],
+    [59.318, 18.063],
+    [59.3158, 18.0345]
+  ]),
+  street('Ringvägen', [1, 160], [
+    [59.3152, 18.037],
+    [59.312, 18.05],
+    [59.3085, 18.065],
+    [59.308, 18.076]
+  ]),
+  street('Folkungagatan', [1, 150], [
+    [59.3143, 18.0725],
+    [59.3155, 18.099]
+  ]),
+  street('Odengatan', [1, 118], [
+    [59.3455, 18.07],
+    [59.343, 18.0495],
+    [59.3405, 18.038]
+  ]),
+  street('Karlavägen', [1, 120], [
+    [59.3425, 18.069],
+    [59.3395, 18.085],
+    [59.337, 18.104]
+  ]),
+  street('Valhallavägen', [1, 220], [
+    [59.349, 18.0555],
+    [59.347, 18.075],
+    [59.341, 18.099]
+  ]),
+  street(
+    'Sankt Eriksgatan',
+    [1, 130],
+    [
+      [59.33, 18.033],
+      [59.3322, 18.0325],
+      [59.3435, 18.037]
+    ],
+    ['S:t Eriksgatan', 'St Eriksgatan']
+  ),
+  street('Fleminggatan', [1, 100], [
+    [59.3325, 18.052],
+    [59.333, 18.031]
+  ]),
+  street('Hantverkargatan', [1, 90], [
+    [59.3282, 18.052],
+    [59.332, 18.029]
+  ]),
+  street('Regeringsgatan', [1, 111], [
+    [59.331, 18.0695],
+    [59.341, 18.0615]
+  ]),
+  street('Västerlånggatan', [1, 81], [
+    [59.3265, 18.0693],
+    [59.3228, 18.0703]
+  ]),
+  street('Nybrogatan', [1, 80], [
+    [59.3335, 18.0775],
+    [59.341, 18.082]
+  ]),
+  street('Linnégatan', [1, 100], [
+    [59.3377, 18.0725],
+    [59.3355, 18.096]
+  ]),
+  street('Torsgatan', [1, 75], [
+    [59.3355, 18.053],
+    [59.346, 18.038]
+  ]),
+  street('Norrlandsgatan', [1, 40], [
+    [59.333, 18.071],
+    [59.3375, 18.069]
+  ])
+];
@@ -0,0 +1,102 @@
+import { errorSummary, listBreakerStatus } from './breaker.js';
+import { getCache } from './cache/index.js';
+import { FeedHealth, FeedName, HealthReport, HealthStatus, ServiceConfig } from './types.js';
+
+interface FeedCounters {
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+  successCount: number;
+  errorCount: number;
+}
+
+const feeds = new Map<FeedName, FeedCounters>();
+
+function countersFor(feed: FeedName): FeedCounters {
+  let counters = feeds.get(feed);
+  if (!counters) {
+    counters = { lastSuccessAt: null, lastFailureAt: null, lastError: null, successCount: 0, errorCount: 0 };
+    feeds.set(feed, counters);
+  }
+  return counters;
+}
+
+/**
+ * Runs an upstream load for a feed and records its outcome for the health report.
+ * @param feed Feed being loaded.
+ * @param load Upstream load.
+ * @returns The loaded value.
+ */
+export async function trackFeed<T>(feed: FeedName, load: () => Promise<T>): Promise<T> {
+  const counters = countersFor(feed);
+  try {
+    const value = await load();
+    counters.successCount += 1;
+    counters.lastSuccessAt = Date.now();
+    return value;
+  } catch (error) {
+    counters.errorCount += 1;
+    counters.lastFailureAt = Date.now();
+    counters.lastError = errorSummary(error);
+    throw error;
+  }
+}
+
+function lastAttemptFailed(counters: FeedCounters): boolean {
+  return counters.lastFailureAt !== null && (counters.lastSuccessAt ?? 0) < counters.lastFailureAt;
+}
+
+/**
+ * Builds the detailed health report: per-feed fetch outcomes and cache age, and every circuit
+ * breaker. The service is `down` when a core feed has nothing cached and its last fetch failed,
+ * `degraded` when a breaker is not closed or a feed's last fetch failed, and `ok` otherwise.
+ * @param config Service configuration.
+ * @returns Health report.
+ */
+export async function getHealthReport(config: ServiceConfig): Promise<HealthReport> {
+  const now = Date.now();
+  const cache = getCache(config);
+  const cached = new Map((await cache.list()).map((info) => [info.key, info]));
+
+  const reported: FeedName[] = ['facilities', 'availability'];
+  if (config.regulationsFile || config.ltfApiKey) {
+    reported.push('regulations');
+  }
+
+  const feedHealth: Partial<Record<FeedName, FeedHealth>> = {};
+  let status: HealthStatus = 'ok';
+
+  for (const feed of reported) {
+    const counters = countersFor(feed);
+    const entry = cached.get(feed);
+    const failed = lastAttemptFailed(counters);
+    feedHealth[feed] = {
+      lastSuccessAt: counters.lastSuccessAt === null ? null : new Date(counters.lastSuccessAt).toISOString(),
+      lastFailureAt: counters.lastFailureAt === null ? null : new Date(counters.lastFailureAt).toISOString(),
+      lastError: counters.lastError,
+      successCount: counters.successCount,
+      errorCount: counters.errorCount,
+      cacheAgeMs: entry ? now - Date.parse(entry.storedAt) : null,
+      cacheFresh: entry?.fresh ?? false
+    };
+
+    if (failed && !entry && feed !== 'regulations') {
+      status = 'down';
+    } else if (failed && status === 'ok') {
+      status = 'degraded';
+    }
+  }
+
+  const breakers = listBreakerStatus();
+  if (status === 'ok' && breakers.some((breaker) => breaker.state !== 'closed')) {
+    status = 'degraded';
+  }
+
+  return {
+    status,
+    checkedAt: new Date(now).toISOString(),
+    cacheBackend: cache.backendKind,
+    feeds: feedHealth,
+    breakers
+  };
+}
@@ -0,0 +1,251 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { Logger, logger } from './log.js';
+import { toStockholmTime } from './time.js';
+import { FacilityAvailability, HistoryRecord, ServiceConfig } from './types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/** A stored record plus its Stockholm weekday/hour slot, precomputed for the forecaster. */
+export interface IndexedHistoryRecord extends HistoryRecord {
+  observedAtMs: number;
+  weekday: number;
+  hour: number;
+}
+
+export interface HistoryStoreOptions {
+  /** JSON Lines file to persist to; null keeps history in memory only. */
+  file: string | null;
+  retentionDays: number;
+  sampleIntervalMs: number;
+}
+
+function indexRecord(record: HistoryRecord): IndexedHistoryRecord | null {
+  const observedAtMs = Date.parse(record.observedAt);
+  if (!Number.isFinite(observedAtMs) || !Number.isFinite(record.freeSpaces)) {
+    return null;
+  }
+  const local = toStockholmTime(new Date(observedAtMs));
+  return {
+    ...record,
+    observedAtMs,
+    weekday: local.weekday,
+    hour: Math.floor(local.minuteOfDay / 60)
+  };
+}
+
+function serialize(record: HistoryRecord): string {
+  const { facilityId, observedAt, freeSpaces, capacity } = record;
+  return JSON.stringify({ facilityId, observedAt, freeSpaces, capacity });
+}
+
+/**
+ * Append-only availability history. Snapshots are kept in memory per facility and, when a file
+ * is configured, appended to it as JSON Lines. Records older than the retention window are
+ * pruned from memory and the file is compacted at most once per hour.
+ */
+export class AvailabilityHistoryStore {
+  private readonly options: HistoryStoreOptions;
+  private readonly log: Logger;
+  private readonly records = new Map<string, IndexedHistoryRecord[]>();
+  private loadPromise?: Promise<void>;
+  private writeChain: Promise<void> = Promise.resolve();
+  private lastRecordedAt = Number.NEGATIVE_INFINITY;
+  private lastPrunedAt = Number.NEGATIVE_INFINITY;
+
+  constructor(options: HistoryStoreOptions, log: Logger) {
+    this.options = options;
+    this.log = log;
+  }
+
+  private insert(record: IndexedHistoryRecord): void {
+    const list = this.records.get(record.facilityId);
+    if (list) {
+      list.push(record);
+    } else {
+      this.records.set(record.facilityId, [record]);
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.readFile();
+    }
+    return this.loadPromise;
+  }
+
+  private async readFile(): Promise<void> {
+    if (!this.options.file) {
+      return;
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.options.file, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.log.error('Failed to read availability history', {
+          file: this.options.file,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+      return;
+    }
+
+    let skipped = 0;
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const indexed = indexRecord(JSON.parse(line) as HistoryRecord);
+        if (indexed) {
+          this.insert(indexed);
+        } else {
+          skipped += 1;
+        }
+      } catch {
+        skipped += 1;
+      }
+    }
+
+    for (const list of this.records.values()) {
+      list.sort((a, b) => a.observedAtMs - b.observedAtMs);
+    }
+
+    this.log.info('Loaded availability history', {
+      facilities: this.records.size,
+      skipped
+    });
+  }
+
+  private enqueueWrite(task: () => Promise<void>): Promise<void> {
+    this.writeChain = this.writeChain.then(task).catch((error) => {
+      this.log.error('Failed to write availability history', {
+        file: this.options.file,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+    return this.writeChain;
+  }
+
+  /**
+   * Stores an availability snapshot unless one was stored within the sample interval.
+   * @param snapshot Availability keyed by facility id.
+   * @param at Observation time; defaults to now.
+   * @returns Number of records stored.
+   */
+  async record(snapshot: Map<string, FacilityAvailability>, at: Date = new Date()): Promise<number> {
+    await this.load();
+
+    const now = at.getTime();
+    if (now - this.lastRecordedAt < this.options.sampleIntervalMs) {
+      return 0;
+    }
+    this.lastRecordedAt = now;
+
+    const added: HistoryRecord[] = [];
+    for (const availability of snapshot.values()) {
+      if (availability.freeSpaces === null) {
+        continue;
+      }
+      const record: HistoryRecord = {
+        facilityId: availability.id,
+        observedAt: availability.lastUpdated ?? at.toISOString(),
+        freeSpaces: availability.freeSpaces,
+        capacity: availability.capacity
+      };
+      const indexed = indexRecord(record) ?? indexRecord({ ...record, observedAt: at.toISOString() });
+      const latest = this.records.get(availability.id)?.at(-1);
+      // Upstream often repeats the same reading between updates; keep each observation once.
+      if (!indexed || (latest && indexed.observedAtMs <= latest.observedAtMs)) {
+        continue;
+      }
+      this.insert(indexed);
+      added.push(indexed);
+    }
+
+    const { file } = this.options;
+    if (file && added.length > 0) {
+      const lines = `${added.map(serialize).join('\n')}\n`;
+      await this.enqueueWrite(async () => {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.appendFile(file, lines, 'utf-8');
+      });
+    }
+
+    if (now - this.lastPrunedAt >= PRUNE_INTERVAL_MS) {
+      await this.prune(at);
+    }
+
+    return added.length;
+  }
+
+  /**
+   * Drops records older than the retention window and compacts the history file.
+   * @param at Reference time; defaults to now.
+   * @returns Number of records removed.
+   */
+  async prune(at: Date = new Date()): Promise<number> {
+    await this.load();
+    this.lastPrunedAt = at.getTime();
+    const cutoff = at.getTime() - this.options.retentionDays * DAY_MS;
+
+    let removed = 0;
+    for (const [facilityId, list] of this.records) {
+      const kept = list.filter((record) => record.observedAtMs >= cutoff);
+      removed += list.length - kept.length;
+      if (kept.length === 0) {
+        this.records.delete(facilityId);
+      } else {
+        this.records.set(facilityId, kept);
+      }
+    }
+
+    const { file } = this.options;
+    if (file && removed > 0) {
+      const lines = [...this.records.values()].flat().map(serialize);
+      await this.enqueueWrite(async () => {
+        const tmpFile = `${file}.tmp`;
+        await fs.writeFile(tmpFile, lines.length > 0 ? `${lines.join('\n')}\n` : '', 'utf-8');
+        await fs.rename(tmpFile, file);
+      });
+      this.log.info('Pruned availability history', { removed });
+    }
+
+    return removed;
+  }
+
+  /**
+   * Returns the stored history for a facility, oldest first.
+   * @param facilityId Facility identifier.
+   * @returns Indexed history records.
+   */
+  async history(facilityId: string): Promise<IndexedHistoryRecord[]> {
+    await this.load();
+    return this.records.get(facilityId) ?? [];
+  }
+}
+
+let sharedStore: AvailabilityHistoryStore | undefined;
+
+/**
+ * Returns the process-wide history store for the given configuration. It outlives any one
+ * request, so it logs through the base logger.
+ * @param config Service configuration.
+ * @returns Shared history store.
+ */
+export function getHistoryStore(config: ServiceConfig): AvailabilityHistoryStore {
+  if (!sharedStore) {
+    sharedStore = new AvailabilityHistoryStore(
+      {
+        file: config.historyFile,
+        retentionDays: config.historyRetentionDays,
+        sampleIntervalMs: config.historySampleIntervalMs
+      },
+      logger
+    );
+  }
+  return sharedStore;
+}
@@ -1,12 +1,60 @@
+import { randomUUID } from 'node:crypto';
 import http from 'node:http';
-import { loadConfig } from './config.js';
+import { ANONYMOUS_CLIENT, authenticate, credentialOf } from './auth.js';
+import { errorSummary } from './breaker.js';
+import { getCache } from './cache/index.js';
+import { loadConfig, redactConfig } from './config.js';
+import { getAvailability, getFacilities } from './data.js';
+import { buildDiscoveryDocument } from './discovery.js';
+import { getHealthReport } from './health.js';
+import { countToolCalls, handleMcpPayload, JSON_RPC_ERRORS, jsonRpcError } from './mcp.js';
+import { metrics, renderMetrics } from './metrics.js';
+import { getDataQualityReport } from './quality.js';
+import { RateLimiter } from './rateLimit.js';
+import { getSubscriptionHub, startSubscriptionPoller } from './subscriptions/index.js';
 import parkingTool from './tool.js';
-import { logger } from './log.js';
+import { configureLogging, Logger, logger } from './log.js';
+import { initTracing, setActiveSpanAttribute, withIncomingSpan } from './tracing.js';
 
 const config = loadConfig();
+configureLogging({ level: config.logLevel, coordinatePrecision: config.logCoordinatePrecision });
+initTracing(config, logger);
+const discoveryDocument = buildDiscoveryDocument(parkingTool.definition);
+const methodRoutes = new Set(parkingTool.definition.methods.map((method) => `/${method.name}`));
+
+const rateLimiter = new RateLimiter(config.rateLimitBurst);
+const authEnabled = config.apiClients.length > 0;
+
+const REQUEST_ID_HEADER = 'x-request-id';
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+const EVENTS_ROUTE_PATTERN = /^\/subscriptions\/([^/]+)\/events$/;
+const CACHE_KEY_ROUTE_PATTERN = /^\/cache\/([^/]+)$/;
+/** Comment lines sent on idle event streams so proxies do not close them. */
+const EVENTS_KEEPALIVE_MS = 15 * 1000;
+
+interface RequestContext {
+  requestId: string;
+  log: Logger;
+}
+
+/** A caller that passed {@link admit}, and the rate-limit bucket its requests are charged to. */
+interface AdmittedClient {
+  name: string;
+  /** The client name, or the remote address for anonymous callers. */
+  limitKey: string;
+  requestsPerMinute: number;
+}
+
+interface RoutedRequestContext extends RequestContext {
+  /** Route from {@link routeOf}; dispatch goes by it so auth and handling agree on the path. */
+  route: string;
+  /** Null on routes that are not protected. */
+  client: AdmittedClient | null;
+}
 
 function sendJson(res: http.ServerResponse, statusCode: number, payload: unknown): void {
   const body = JSON.stringify(payload);
+  setActiveSpanAttribute('http.response.status_code', statusCode);
   res.writeHead(statusCode, {
     'Content-Type': 'application/json; charset=utf-8',
     'Content-Length': Buffer.byteLength(body).toString()
@@ -14,6 +62,22 @@ function sendJson(res: http.ServerResponse, statusCode: number, payload: unknown
   res.end(body);
 }
 
+/** Error responses carry the request id so callers can quote it when reporting a problem. */
+function sendError(res: http.ServerResponse, statusCode: number, requestId: string, payload: object): void {
+  sendJson(res, statusCode, { ...payload, requestId });
+}
+
+/**
+ * Takes the caller's `X-Request-Id` when it is a plausible id, otherwise generates one.
+ * @param req Incoming request.
+ * @returns Request id.
+ */
+function requestIdOf(req: http.IncomingMessage): string {
+  const header = req.headers[REQUEST_ID_HEADER];
+  const candidate = Array.isArray(header) ? header[0] : header;
+  return candidate && REQUEST_ID_PATTERN.test(candidate) ? candidate : randomUUID();
+}
+
 function parseRequestBody(req: http.IncomingMessage): Promise<unknown> {
   return new Promise((resolve, reject) => {
     const chunks: Buffer[] = [];
@@ -43,46 +107,422 @@ function parseRequestBody(req: http.IncomingMessage): Promise<unknown> {
   });
 }
 
-const server = http.createServer(async (req, res) => {
+function pathOf(url: string | undefined): string {
+  return (url ?? '/').split('?')[0];
+}
+
+/**
+ * Decodes a percent-encoded path parameter.
+ * @returns The decoded value, or null when the encoding is malformed.
+ */
+function decodePathParam(value: string): string | null {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+}
+
+/** Span name route: known paths as is, anything else collapsed so arbitrary URLs do not create span names. */
+function routeOf(url: string | undefined): string {
+  const path = pathOf(url);
+  if (CACHE_KEY_ROUTE_PATTERN.test(path)) {
+    return '/cache/:key';
+  }
+  if (EVENTS_ROUTE_PATTERN.test(path)) {
+    return '/subscriptions/:id/events';
+  }
+  const known = ['/healthz', '/readyz', '/health', '/quality', '/metrics', '/cache', '/config', '/discovery', '/mcp'];
+  return known.includes(path) || methodRoutes.has(path) ? path : 'unmatched';
+}
+
+/**
+ * Routes that need a key when keys are configured: tool calls, event streams, cache administration,
+ * the data-quality report and the config dump.
+ */
+function isProtected(route: string): boolean {
+  return (
+    route === '/mcp' ||
+    methodRoutes.has(route) ||
+    route === '/subscriptions/:id/events' ||
+    route === '/cache' ||
+    route === '/cache/:key' ||
+    route === '/quality' ||
+    route === '/config'
+  );
+}
+
+/** Routes that can reach upstream and count against a client's rate limit. */
+function isMetered(route: string): boolean {
+  return route === '/mcp' || methodRoutes.has(route);
+}
+
+/**
+ * Charges a client's rate limit, answering with `429` when it has too few tokens left.
+ * @param tokens Number of tokens the request costs.
+ * @returns Whether the request may proceed.
+ */
+function charge(
+  res: http.ServerResponse,
+  client: AdmittedClient,
+  route: string,
+  tokens: number,
+  { requestId, log }: RequestContext
+): boolean {
+  if (client.requestsPerMinute <= 0) {
+    return true;
+  }
+  const decision = rateLimiter.take(client.limitKey, client.requestsPerMinute, Date.now(), tokens);
+  if (decision.allowed) {
+    return true;
+  }
+  const retryAfterSeconds = Math.ceil(decision.retryAfterMs / 1000);
+  metrics.clientRequests.inc({ client: client.name, route, outcome: 'rate_limited' });
+  log.warn('Rate limited request', { client: client.name, route, tokens, retryAfterSeconds });
+  res.setHeader('Retry-After', String(retryAfterSeconds));
+  sendError(res, 429, requestId, { error: 'Too many requests', retryAfterSeconds });
+  return false;
+}
+
+/**
+ * Authenticates a request to a protected route and applies the client's rate limit, answering
+ * with `401` or `429` when it may not proceed. Without configured keys every caller is
+ * anonymous and limited per remote address.
+ * @returns The client, or null when the request has been rejected.
+ */
+function admit(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  route: string,
+  { requestId, log }: RequestContext
+): AdmittedClient | null {
+  let clientName = ANONYMOUS_CLIENT;
+  let limitKey = `${ANONYMOUS_CLIENT}:${req.socket.remoteAddress ?? 'unknown'}`;
+  let requestsPerMinute = config.rateLimitPerMinute;
+
+  if (authEnabled) {
+    const client = authenticate(req.headers, config.apiClients);
+    if (!client) {
+      metrics.authFailures.inc({ route });
+      log.warn('Rejected unauthenticated request', {
+        route,
+        credential: credentialOf(req.headers) === null ? 'missing' : 'unknown'
+      });
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendError(res, 401, requestId, { error: 'Unauthorized' });
+      return null;
+    }
+    clientName = client.name;
+    limitKey = client.name;
+    requestsPerMinute = client.requestsPerMinute ?? requestsPerMinute;
+  }
+
+  const client = { name: clientName, limitKey, requestsPerMinute };
+  if (isMetered(route) && !charge(res, client, route, 1, { requestId, log })) {
+    return null;
+  }
+  return client;
+}
+
+/**
+ * Streams a subscription's events as Server-Sent Events until the client disconnects or the
+ * subscription is removed. Clients reconnecting with `Last-Event-ID` first get the events they missed.
+ * Another client's subscription is answered with `404`.
+ * @returns Settles when the stream ends.
+ */
+function streamEvents(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  subscriptionId: string,
+  clientName: string,
+  { requestId, log }: RequestContext
+): Promise<void> {
+  const lastEventId = req.headers['last-event-id'];
+  return new Promise((resolve) => {
+    const hub = getSubscriptionHub();
+    if (hub.ownerOf(subscriptionId) !== clientName) {
+      sendError(res, 404, requestId, { error: 'Subscription not found', details: { subscriptionId } });
+      resolve();
+      return;
+    }
+
+    setActiveSpanAttribute('http.response.status_code', 200);
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    res.flushHeaders();
+
+    const keepalive = setInterval(() => res.write(': keepalive\n\n'), EVENTS_KEEPALIVE_MS);
+    const stopListening = hub.listen(
+      subscriptionId,
+      {
+        onEvent: (event) => {
+          res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        },
+        onClose: () => res.end()
+      },
+      Array.isArray(lastEventId) ? lastEventId[0] : lastEventId
+    );
+    res.on('close', () => {
+      clearInterval(keepalive);
+      stopListening?.();
+      resolve();
+    });
+    log.debug('Opened event stream', { subscriptionId });
+  });
+}
+
+async function handleRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  { requestId, log, route, client }: RoutedRequestContext
+): Promise<void> {
   try {
     if (req.method === 'GET' && req.url?.startsWith('/healthz')) {
       sendJson(res, 200, { status: 'ok' });
       return;
     }
 
-    if (req.method === 'POST' && req.url === '/recommendFacility') {
+    if (req.method === 'GET' && req.url === '/readyz') {
+      try {
+        // Loads (or serves from cache) the data every request needs, so a ready pod can answer at once.
+        const signal = AbortSignal.timeout(config.overallTimeoutMs);
+        await Promise.all([getFacilities(config, log, signal), getAvailability(config, log, signal)]);
+        sendJson(res, 200, { status: 'ready' });
+      } catch (error) {
+        sendError(res, 503, requestId, {
+          status: 'not_ready',
+          error: errorSummary(error)
+        });
+      }
+      return;
+    }
+
+    if (req.method === 'GET' && req.url === '/health') {
+      const report = await getHealthReport(config);
+      sendJson(res, report.status === 'down' ? 503 : 200, report);
+      return;
+    }
+
+    if (req.method === 'GET' && req.url === '/quality') {
+      sendJson(res, 200, getDataQualityReport());
+      return;
+    }
+
+    if (req.method === 'GET' && req.url === '/metrics') {
+      const body = renderMetrics();
+      res.writeHead(200, {
+        'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+        'Content-Length': Buffer.byteLength(body).toString()
+      });
+      res.end(body);
+      return;
+    }
+
+    if (req.method === 'GET' && route === '/cache') {
+      const cache = getCache(config);
+      sendJson(res, 200, { backend: cache.backendKind, entries: await cache.list() });
+      return;
+    }
+
+    if (req.method === 'DELETE' && (route === '/cache' || route === '/cache/:key')) {
+      const keyParam = CACHE_KEY_ROUTE_PATTERN.exec(pathOf(req.url))?.[1];
+      const key = keyParam === undefined ? undefined : decodePathParam(keyParam);
+      if (key === null) {
+        sendError(res, 400, requestId, { error: 'Invalid cache key' });
+        return;
+      }
+      const removed = await getCache(config).clear(key);
+      log.info('Cleared cache', { key: key ?? '*', removed });
+      sendJson(res, 200, { removed });
+      return;
+    }
+
+    if (req.method === 'GET' && req.url === '/config') {
+      sendJson(res, 200, redactConfig(config));
+      return;
+    }
+
+    if (req.method === 'GET' && req.url === '/discovery') {
+      sendJson(res, 200, discoveryDocument);
+      return;
+    }
+
+    if (req.method === 'GET' && route === '/subscriptions/:id/events') {
+      const idParam = EVENTS_ROUTE_PATTERN.exec(pathOf(req.url))?.[1] ?? '';
+      const subscriptionId = decodePathParam(idParam);
+      if (subscriptionId === null) {
+        sendError(res, 404, requestId, { error: 'Subscription not found', details: { subscriptionId: idParam } });
+        return;
+      }
+      await streamEvents(req, res, subscriptionId, client?.name ?? ANONYMOUS_CLIENT, { requestId, log });
+      return;
+    }
+
+    if (req.method === 'POST' && req.url === '/mcp') {
+      let payload: unknown;
+      try {
+        payload = await parseRequestBody(req);
+      } catch (error) {
+        if (error instanceof SyntaxError) {
+          sendJson(res, 400, jsonRpcError(null, JSON_RPC_ERRORS.parseError, 'Parse error'));
+          return;
+        }
+        throw error;
+      }
+      // Admission paid for one call; every further tool call in a batch costs a token of its own.
+      const extraCalls = countToolCalls(payload) - 1;
+      if (client && extraCalls > 0 && !charge(res, client, route, extraCalls, { requestId, log })) {
+        return;
+      }
+      const response = await handleMcpPayload(payload, parkingTool, log, client?.name);
+      if (response === null) {
+        res.writeHead(202).end();
+        return;
+      }
+      sendJson(res, 200, response);
+      return;
+    }
+
+    if (req.method === 'POST' && req.url && methodRoutes.has(req.url)) {
       const payload = await parseRequestBody(req);
-      const result = await parkingTool.recommendFacility(payload);
+      const result = await parkingTool.invoke(req.url.slice(1), payload, log, client?.name);
       sendJson(res, 200, result);
       return;
     }
 
-    sendJson(res, 404, { error: 'Not found' });
+    sendError(res, 404, requestId, { error: 'Not found' });
   } catch (error) {
     if (error instanceof Error && error.message === 'Invalid input') {
-      sendJson(res, 400, { error: error.message, details: (error as Error & { details?: unknown }).details });
+      sendError(res, 400, requestId, {
+        error: error.message,
+        details: (error as Error & { details?: unknown }).details
+      });
+      return;
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message === 'Facility not found' ||
+        error.message === 'Session not found' ||
+        error.message === 'Subscription not found')
+    ) {
+      sendError(res, 404, requestId, {
+        error: error.message,
+        details: (error as Error & { details?: unknown }).details
+      });
+      return;
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message === 'Session is not active' ||
+        error.message === 'Session has no pending change' ||
+        error.message === 'Subscription limit reached')
+    ) {
+      sendError(res, 409, requestId, {
+        error: error.message,
+        details: (error as Error & { details?: unknown }).details
+      });
       return;
     }
 
     if (error instanceof Error && error.message === 'Payload too large') {
-      sendJson(res, 413, { error: error.message });
+      sendError(res, 413, requestId, { error: error.message });
+      return;
+    }
+
+    if (error instanceof Error && error.message === 'Street regulation data is not configured') {
+      sendError(res, 503, requestId, { error: error.message });
+      return;
+    }
+
+    if (error instanceof Error && error.name === 'CircuitOpenError') {
+      sendError(res, 503, requestId, { error: 'Upstream unavailable' });
       return;
     }
 
     if (error instanceof Error && error.name === 'AbortError') {
-      sendJson(res, 504, { error: 'Request timed out' });
+      sendError(res, 504, requestId, { error: 'Request timed out' });
       return;
     }
 
-    logger.error('Unhandled server error', {
+    log.error('Unhandled server error', {
       error: error instanceof Error ? error.message : String(error)
     });
-    sendJson(res, 500, { error: 'Internal server error' });
+    sendError(res, 500, requestId, { error: 'Internal server error' });
+  }
+}
+
+async function serve(req: http.IncomingMessage, res: http.ServerResponse, requestId: string): Promise<void> {
+  const startedAt = Date.now();
+  const route = routeOf(req.url);
+  let log = logger.child({ requestId });
+  let client: AdmittedClient | null = null;
+
+  await withIncomingSpan(
+    req.headers,
+    `${req.method ?? 'GET'} ${route}`,
+    { 'http.request.method': req.method ?? 'GET', 'http.route': route, 'request.id': requestId },
+    async (span) => {
+      if (isProtected(route)) {
+        client = admit(req, res, route, { requestId, log });
+        if (client === null) {
+          return;
+        }
+        log = log.child({ client: client.name });
+        span.setAttribute('client.name', client.name);
+      }
+      await handleRequest(req, res, { requestId, log, route, client });
+    }
+  );
+
+  const admittedClient = client as AdmittedClient | null;
+  if (admittedClient !== null) {
+    metrics.clientRequests.inc({
+      client: admittedClient.name,
+      route,
+      outcome: res.statusCode < 400 ? 'ok' : 'error'
+    });
   }
+
+  // Probes and scrapes would drown out tool calls at info level.
+  const level = route === '/mcp' || methodRoutes.has(route) ? 'info' : 'debug';
+  log[level]('Request completed', {
+    method: req.method,
+    route,
+    status: res.statusCode,
+    durationMs: Date.now() - startedAt
+  });
+}
+
+const server = http.createServer((req, res) => {
+  const requestId = requestIdOf(req);
+  res.setHeader('X-Request-Id', requestId);
+  // handleRequest answers its own errors; this catches failures around it, e.g. in tracing.
+  void serve(req, res, requestId).catch((error: unknown) => {
+    logger.error('Unhandled server error', {
+      requestId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    sendError(res, 500, requestId, { error: 'Internal server error' });
+  });
 });
 
+const stopSubscriptionPoller = startSubscriptionPoller(config, logger);
+server.on('close', stopSubscriptionPoller);
+
 server.listen(config.port, () => {
-  logger.info('Server started', { port: config.port });
+  logger.info('Server started', {
+    port: config.port,
+    authentication: authEnabled ? config.apiClients.map((apiClient) => apiClient.name) : 'disabled'
+  });
 });
 
 export default server;
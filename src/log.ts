@@ -1,29 +1,102 @@
-export type LogLevel = 'info' | 'error';
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/** Decimal places kept in logged coordinates, or `redact`/`full`. */
+export type CoordinatePrecision = number | 'redact' | 'full';
 
 type LogPayload = Record<string, unknown>;
 
+export interface Logger {
+  debug(message: string, payload?: LogPayload): void;
+  info(message: string, payload?: LogPayload): void;
+  warn(message: string, payload?: LogPayload): void;
+  error(message: string, payload?: LogPayload): void;
+  /** Returns a logger that adds `fields` (e.g. a request id) to every line. */
+  child(fields: LogPayload): Logger;
+}
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
 const baseFields = {
   service: 'stockholmParking'
 } as const;
 
-function log(level: LogLevel, message: string, payload?: LogPayload): void {
+let output: NodeJS.WritableStream = process.stdout;
+let minimumLevel: LogLevel = 'info';
+let coordinatePrecision: CoordinatePrecision = 3;
+
+/**
+ * Redirects log lines, e.g. to stderr when stdout carries the MCP stdio transport.
+ * @param stream Destination stream.
+ */
+export function setLogOutput(stream: NodeJS.WritableStream): void {
+  output = stream;
+}
+
+/**
+ * Applies `LOG_LEVEL` and `LOG_COORDINATE_PRECISION`.
+ * @param settings Lowest level written and how user coordinates are logged.
+ */
+export function configureLogging(settings: { level: LogLevel; coordinatePrecision: CoordinatePrecision }): void {
+  minimumLevel = settings.level;
+  coordinatePrecision = settings.coordinatePrecision;
+}
+
+/** Matches `lat`, `lon`, `lng`, `latitude`, `longitude` and camelCase forms such as `userLat`. */
+const COORDINATE_KEY = /^(lat|lon|lng|latitude|longitude)$|[a-z](Lat|Lon|Lng|Latitude|Longitude)$/;
+/** Encoded route polylines reveal the whole trip. */
+const ROUTE_KEY = /^polyline$|[a-z]Polyline$/;
+
+/**
+ * Rounds or removes coordinates anywhere in a log payload so user locations are not logged at
+ * full precision. Three decimals keep roughly 100 m.
+ * @param value Payload or nested value.
+ * @param precision Decimal places to keep, `redact` or `full`.
+ * @returns Copy with coordinates reduced.
+ */
+export function redactCoordinates(value: unknown, precision: CoordinatePrecision): unknown {
+  if (precision === 'full' || value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactCoordinates(item, precision));
+  }
+
+  const result: LogPayload = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (COORDINATE_KEY.test(key) && typeof item === 'number') {
+      result[key] = precision === 'redact' ? '[redacted]' : Number(item.toFixed(precision));
+    } else if (ROUTE_KEY.test(key) && typeof item === 'string') {
+      result[key] = '[redacted]';
+    } else {
+      result[key] = redactCoordinates(item, precision);
+    }
+  }
+  return result;
+}
+
+function write(level: LogLevel, fields: LogPayload, message: string, payload?: LogPayload): void {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minimumLevel)) {
+    return;
+  }
   const entry = {
     timestamp: new Date().toISOString(),
     level,
     message,
     ...baseFields,
-    ...payload
+    ...fields,
+    ...(payload ? (redactCoordinates(payload, coordinatePrecision) as LogPayload) : {})
   };
-  process.stdout.write(`${JSON.stringify(entry)}\n`);
+  output.write(`${JSON.stringify(entry)}\n`);
 }
 
-export const logger = {
-  info(message: string, payload?: LogPayload): void {
-    log('info', message, payload);
-  },
-  error(message: string, payload?: LogPayload): void {
-    log('error', message, payload);
-  }
-};
+function createLogger(fields: LogPayload): Logger {
+  return {
+    debug: (message, payload) => write('debug', fields, message, payload),
+    info: (message, payload) => write('info', fields, message, payload),
+    warn: (message, payload) => write('warn', fields, message, payload),
+    error: (message, payload) => write('error', fields, message, payload),
+    child: (extra) => createLogger({ ...fields, ...extra })
+  };
+}
 
-export type Logger = typeof logger;
+export const logger: Logger = createLogger({});
@@ -0,0 +1,184 @@
+import { Logger } from './log.js';
+import { asRecord } from './providers/util.js';
+import { ToolInvoker } from './types.js';
+
+/** MCP protocol revisions this server speaks; the newest is offered when the client asks for another. */
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+const SERVER_VERSION = '1.0.0';
+
+export const JSON_RPC_ERRORS = {
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internalError: -32603
+} as const;
+
+type JsonRpcId = string | number | null;
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export function jsonRpcError(id: JsonRpcId, code: number, message: string, data?: unknown): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message, ...(data !== undefined ? { data } : {}) } };
+}
+
+/** Errors caused by the arguments; reported to the client with their details and not logged as failures. */
+const CALLER_ERRORS = new Set([
+  'Invalid input',
+  'Facility not found',
+  'Session not found',
+  'Session is not active',
+  'Session has no pending change',
+  'Subscription not found',
+  'Subscription limit reached'
+]);
+
+function textResult(text: string, isError: boolean): unknown {
+  return { content: [{ type: 'text', text }], isError };
+}
+
+async function callTool(
+  tool: ToolInvoker,
+  params: Record<string, unknown>,
+  log: Logger,
+  client: string | undefined
+): Promise<unknown> {
+  try {
+    const result = await tool.invoke(String(params.name), params.arguments ?? {}, log, client);
+    return textResult(JSON.stringify(result), false);
+  } catch (error) {
+    if (error instanceof Error && CALLER_ERRORS.has(error.message)) {
+      const details = (error as Error & { details?: unknown }).details;
+      return textResult(`${error.message}: ${JSON.stringify(details)}`, true);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    log.error('MCP tool call failed', { tool: params.name, error: message });
+    return textResult(message, true);
+  }
+}
+
+async function dispatch(
+  method: string,
+  params: Record<string, unknown>,
+  tool: ToolInvoker,
+  log: Logger,
+  client: string | undefined
+): Promise<{ result: unknown } | { error: JsonRpcResponse['error'] }> {
+  switch (method) {
+    case 'initialize': {
+      const requested = typeof params.protocolVersion === 'string' ? params.protocolVersion : '';
+      return {
+        result: {
+          protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+            ? requested
+            : SUPPORTED_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: { name: tool.definition.name, version: SERVER_VERSION },
+          instructions: tool.definition.description
+        }
+      };
+    }
+    case 'ping':
+      return { result: {} };
+    case 'tools/list':
+      return {
+        result: {
+          tools: tool.definition.methods.map((entry) => ({
+            name: entry.name,
+            description: entry.description,
+            inputSchema: entry.inputSchema
+          }))
+        }
+      };
+    case 'tools/call': {
+      const name = params.name;
+      if (typeof name !== 'string' || !tool.definition.methods.some((entry) => entry.name === name)) {
+        return { error: { code: JSON_RPC_ERRORS.invalidParams, message: `Unknown tool: ${String(name)}` } };
+      }
+      return { result: await callTool(tool, params, log, client) };
+    }
+    default:
+      return { error: { code: JSON_RPC_ERRORS.methodNotFound, message: `Method not found: ${method}` } };
+  }
+}
+
+async function handleMessage(
+  message: unknown,
+  tool: ToolInvoker,
+  log: Logger,
+  client: string | undefined
+): Promise<JsonRpcResponse | null> {
+  const request = asRecord(message);
+  const rawId = request?.id;
+  const id: JsonRpcId = typeof rawId === 'string' || typeof rawId === 'number' ? rawId : null;
+
+  if (!request || request.jsonrpc !== '2.0' || typeof request.method !== 'string') {
+    return jsonRpcError(id, JSON_RPC_ERRORS.invalidRequest, 'Invalid Request');
+  }
+
+  // Notifications (no id) never get a response.
+  const isNotification = !('id' in request);
+  if (isNotification) {
+    return null;
+  }
+
+  const params = request.params === undefined ? {} : asRecord(request.params);
+  if (!params) {
+    return jsonRpcError(id, JSON_RPC_ERRORS.invalidParams, 'Invalid params');
+  }
+
+  try {
+    const outcome = await dispatch(request.method, params, tool, log, client);
+    return 'error' in outcome ? { jsonrpc: '2.0', id, error: outcome.error } : { jsonrpc: '2.0', id, result: outcome.result };
+  } catch (error) {
+    log.error('MCP request failed', {
+      method: request.method,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return jsonRpcError(id, JSON_RPC_ERRORS.internalError, 'Internal error');
+  }
+}
+
+/**
+ * Counts the tool calls a payload will run; notifications get no response and are not run.
+ * @param payload Parsed JSON-RPC payload.
+ * @returns Number of `tools/call` requests in the message or batch.
+ */
+export function countToolCalls(payload: unknown): number {
+  const messages: unknown[] = Array.isArray(payload) ? payload : [payload];
+  return messages.filter((message) => {
+    const request = asRecord(message);
+    return request?.method === 'tools/call' && 'id' in request;
+  }).length;
+}
+
+/**
+ * Handles one Model Context Protocol JSON-RPC payload (a single message or a batch) against the
+ * tool's registered methods. Transport-independent; used by the HTTP `/mcp` route and stdio.
+ * @param payload Parsed JSON-RPC payload.
+ * @param tool Tool exposing its definition and methods.
+ * @param log Logger.
+ * @param client Name of the calling client, passed on to tool calls.
+ * @returns Response(s), or null when the payload only contained notifications.
+ */
+export async function handleMcpPayload(
+  payload: unknown,
+  tool: ToolInvoker,
+  log: Logger,
+  client?: string
+): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+  if (Array.isArray(payload)) {
+    if (payload.length === 0) {
+      return jsonRpcError(null, JSON_RPC_ERRORS.invalidRequest, 'Invalid Request');
+    }
+    const responses = await Promise.all(payload.map((message) => handleMessage(message, tool, log, client)));
+    const answered = responses.filter((response): response is JsonRpcResponse => response !== null);
+    return answered.length > 0 ? answered : null;
+  }
+  return handleMessage(payload, tool, log, client);
+}
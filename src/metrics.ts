@@ -0,0 +1,237 @@
+type Labels = Record<string, string>;
+
+/** Prometheus' default latency buckets, in seconds. */
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/** Label values in declaration order, so `{a, b}` and `{b, a}` share a series. */
+function seriesKey(labelNames: string[], labels: Labels): string {
+  return JSON.stringify(labelNames.map((name) => labels[name] ?? ''));
+}
+
+function pickLabels(labelNames: string[], labels: Labels): Labels {
+  return Object.fromEntries(labelNames.map((name) => [name, labels[name] ?? '']));
+}
+
+abstract class Metric {
+  readonly name: string;
+  readonly help: string;
+  protected readonly labelNames: string[];
+
+  constructor(name: string, help: string, labelNames: string[]) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+  }
+
+  protected abstract readonly type: 'counter' | 'histogram';
+
+  protected abstract samples(): string[];
+
+  abstract reset(): void;
+
+  render(): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join('\n');
+  }
+}
+
+export class Counter extends Metric {
+  protected readonly type = 'counter';
+  private readonly series = new Map<string, { labels: Labels; value: number }>();
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = seriesKey(this.labelNames, labels);
+    const entry = this.series.get(key) ?? { labels: pickLabels(this.labelNames, labels), value: 0 };
+    entry.value += value;
+    this.series.set(key, entry);
+  }
+
+  /**
+   * Current value of one series.
+   * @param labels Series labels.
+   * @returns Counter value, 0 for an unseen series.
+   */
+  get(labels: Labels = {}): number {
+    return this.series.get(seriesKey(this.labelNames, labels))?.value ?? 0;
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].map((entry) => `${this.name}${formatLabels(entry.labels)} ${entry.value}`);
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  /** Per-bucket (non-cumulative) observation counts. */
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric {
+  protected readonly type = 'histogram';
+  private readonly buckets: number[];
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(name: string, help: string, labelNames: string[], buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(this.labelNames, labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: pickLabels(this.labelNames, labels), buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
+    }
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    if (index >= 0) {
+      entry.buckets[index] += 1;
+    }
+    entry.sum += value;
+    entry.count += 1;
+  }
+
+  /**
+   * Starts a timer for one observation.
+   * @param labels Series labels.
+   * @returns Stops the timer and records the elapsed seconds, optionally with extra labels.
+   */
+  startTimer(labels: Labels = {}): (extra?: Labels) => void {
+    const startedAt = performance.now();
+    return (extra) => {
+      this.observe({ ...labels, ...extra }, (performance.now() - startedAt) / 1000);
+    };
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+    for (const entry of this.series.values()) {
+      let cumulative = 0;
+      this.buckets.forEach((bound, index) => {
+        cumulative += entry.buckets[index];
+        lines.push(`${this.name}_bucket${formatLabels({ ...entry.labels, le: String(bound) })} ${cumulative}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...entry.labels, le: '+Inf' })} ${entry.count}`);
+      lines.push(`${this.name}_sum${formatLabels(entry.labels)} ${entry.sum}`);
+      lines.push(`${this.name}_count${formatLabels(entry.labels)} ${entry.count}`);
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+/** Process-wide instruments. Label values are kept to small, fixed sets (method names, cache keys, endpoints). */
+export const metrics = {
+  toolRequests: new Counter('sthlm_parking_tool_requests_total', 'Tool method calls by outcome.', [
+    'method',
+    'outcome'
+  ]),
+  toolDuration: new Histogram('sthlm_parking_tool_request_duration_seconds', 'Tool method call latency.', [
+    'method'
+  ]),
+  validationFailures: new Counter(
+    'sthlm_parking_validation_failures_total',
+    'Tool method calls rejected by input validation.',
+    ['method']
+  ),
+  upstreamDuration: new Histogram(
+    'sthlm_parking_upstream_request_duration_seconds',
+    'Latency of single upstream HTTP attempts by outcome.',
+    ['endpoint', 'outcome']
+  ),
+  upstreamRetries: new Counter('sthlm_parking_upstream_retries_total', 'Upstream HTTP attempts after the first.', [
+    'endpoint'
+  ]),
+  cacheLookups: new Counter('sthlm_parking_cache_lookups_total', 'Cache lookups by result (hit, miss, stale).', [
+    'key',
+    'result'
+  ]),
+  clientRequests: new Counter(
+    'sthlm_parking_client_requests_total',
+    'Authenticated API requests per client and route, by outcome (ok, rate_limited, error).',
+    ['client', 'route', 'outcome']
+  ),
+  authFailures: new Counter('sthlm_parking_auth_failures_total', 'Requests rejected for a missing or unknown key.', [
+    'route'
+  ]),
+  geocodeLookups: new Counter(
+    'sthlm_parking_geocode_lookups_total',
+    'Geocoder lookups by result (match, low_confidence, no_match, error).',
+    ['geocoder', 'result']
+  ),
+  parkingSessionChanges: new Counter(
+    'sthlm_parking_session_changes_total',
+    'Parking session starts, extensions and stops by adapter and result (ok, error).',
+    ['adapter', 'action', 'result']
+  ),
+  dataQualityRecords: new Counter(
+    'sthlm_parking_data_quality_records_total',
+    'Upstream records rejected or flagged as suspicious by the data-quality rules.',
+    ['feed', 'provider', 'result', 'reason']
+  ),
+  subscriptionEvents: new Counter(
+    'sthlm_parking_subscription_events_total',
+    'Availability events raised for subscriptions by type (below_threshold, recovered).',
+    ['type']
+  ),
+  webhookDeliveries: new Counter(
+    'sthlm_parking_webhook_deliveries_total',
+    'Webhook delivery attempts by result (ok, retry, failed).',
+    ['result']
+  )
+};
+
+/**
+ * Renders every instrument in the Prometheus text exposition format.
+ * @returns Exposition text.
+ */
+export function renderMetrics(): string {
+  return `${Object.values(metrics)
+    .map((metric) => metric.render())
+    .join('\n')}\n`;
+}
+
+export function resetMetrics(): void {
+  Object.values(metrics).forEach((metric) => metric.reset());
+}
+
+/**
+ * Counts and times one tool method call.
+ * @param method Tool method name.
+ * @param call The call.
+ * @returns The call's result.
+ */
+export async function observeToolCall<T>(method: string, call: () => Promise<T>): Promise<T> {
+  const stopTimer = metrics.toolDuration.startTimer({ method });
+  try {
+    const result = await call();
+    metrics.toolRequests.inc({ method, outcome: 'ok' });
+    return result;
+  } catch (error) {
+    const invalid = error instanceof Error && error.message === 'Invalid input';
+    if (invalid) {
+      metrics.validationFailures.inc({ method });
+    }
+    metrics.toolRequests.inc({ method, outcome: invalid ? 'invalid' : 'error' });
+    throw error;
+  } finally {
+    stopTimer();
+  }
+}
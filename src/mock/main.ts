@@ -0,0 +1,22 @@
+import { logger } from '../log.js';
+import { MOCK_SCENARIOS, MockScenario, MockUpstream } from './upstream.js';
+
+const port = Number.parseInt(process.env.MOCK_PORT ?? '4010', 10);
+const scenario = (process.env.MOCK_SCENARIO ?? 'ok').toLowerCase() as MockScenario;
+
+if (!MOCK_SCENARIOS.includes(scenario)) {
+  logger.error('Unknown mock scenario', { scenario, scenarios: MOCK_SCENARIOS });
+  process.exit(1);
+}
+
+const mock = new MockUpstream();
+mock.setScenario(scenario);
+
+const url = await mock.listen(port);
+logger.info('Mock upstream started', { url, scenario, hint: `SP_BASE_URL=${url}` });
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, () => {
+    void mock.close().then(() => process.exit(0));
+  });
+}
@@ -0,0 +1,255 @@
+import http from 'node:http';
+import net from 'node:net';
+
+/**
+ * How the mock answers: `ok` serves the full feeds, `slow` delays every response, `unavailable`
+ * answers `503`, `malformed` sends truncated JSON and `partial` serves only half the records.
+ */
+export type MockScenario = 'ok' | 'slow' | 'unavailable' | 'malformed' | 'partial';
+
+export const MOCK_SCENARIOS: MockScenario[] = ['ok', 'slow', 'unavailable', 'malformed', 'partial'];
+
+export interface MockScenarioOptions {
+  /** Requests the scenario applies to before the mock returns to `ok`; unlimited when omitted. */
+  times?: number;
+  /** Delay of the `slow` scenario (ms). */
+  delayMs?: number;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  scenario: MockScenario;
+}
+
+export interface MockFacility {
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+  capacity: number;
+  tariffNote: string | null;
+  zoneCode: string | null;
+  freeSpaces: number;
+}
+
+const DEFAULT_SLOW_DELAY_MS = 5000;
+const FEED_PATHS = new Set(['/facilities', '/availability']);
+
+/** A handful of inner-city garages in the Stockholm Parkering feed format. */
+export const MOCK_FACILITIES: MockFacility[] = [
+  {
+    id: 'SP-1001',
+    name: 'P-hus Gallerian',
+    lat: 59.3322,
+    lon: 18.0684,
+    capacity: 420,
+    tariffNote: '45 kr/tim',
+    zoneCode: 'A',
+    freeSpaces: 57
+  },
+  {
+    id: 'SP-1002',
+    name: 'P-hus Åhléns City',
+    lat: 59.3319,
+    lon: 18.0616,
+    capacity: 300,
+    tariffNote: '40 kr/tim',
+    zoneCode: 'A',
+    freeSpaces: 12
+  },
+  {
+    id: 'SP-1003',
+    name: 'P-hus Medborgarplatsen',
+    lat: 59.3146,
+    lon: 18.0737,
+    capacity: 250,
+    tariffNote: '30 kr/tim',
+    zoneCode: 'B',
+    freeSpaces: 103
+  },
+  {
+    id: 'SP-1004',
+    name: 'P-hus Fältöversten',
+    lat: 59.3418,
+    lon: 18.0914,
+    capacity: 500,
+    tariffNote: '25 kr/tim',
+    zoneCode: 'C',
+    freeSpaces: 0
+  }
+];
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Local stand-in for the Stockholm Parkering API serving `/facilities` and `/availability`, with
+ * switchable failure scenarios. Point `SP_BASE_URL` at it to develop and test without the real
+ * API. `POST /_mock/scenario` with `{"scenario": …, "times": …, "delayMs": …}` switches the
+ * scenario over HTTP and `GET /_mock/requests` lists the feed requests served so far.
+ */
+export class MockUpstream {
+  readonly requests: MockRequest[] = [];
+  private readonly facilities: MockFacility[];
+  private readonly server: http.Server;
+  /** Ends pending `slow` responses when the mock closes. */
+  private readonly closing = new AbortController();
+  private scenario: MockScenario = 'ok';
+  private remaining: number | null = null;
+  private delayMs = DEFAULT_SLOW_DELAY_MS;
+
+  constructor(facilities: MockFacility[] = MOCK_FACILITIES) {
+    this.facilities = facilities.map((facility) => ({ ...facility }));
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        res.writeHead(500, { 'Content-Type': 'text/plain' }).end(String(error));
+      });
+    });
+  }
+
+  /**
+   * Starts listening.
+   * @param port Port; `0` picks a free one.
+   * @param host Interface to bind.
+   * @returns Base URL, e.g. `http://127.0.0.1:4010`.
+   */
+  listen(port = 0, host = '127.0.0.1'): Promise<string> {
+    return new Promise((resolve) => {
+      this.server.listen(port, host, () => {
+        resolve(`http://${host}:${(this.server.address() as net.AddressInfo).port}`);
+      });
+    });
+  }
+
+  /**
+   * Switches the scenario for the following feed requests.
+   * @param scenario Scenario to apply.
+   * @param options How many requests it lasts and how slow `slow` is.
+   */
+  setScenario(scenario: MockScenario, options: MockScenarioOptions = {}): void {
+    this.scenario = scenario;
+    this.remaining = options.times ?? null;
+    this.delayMs = options.delayMs ?? DEFAULT_SLOW_DELAY_MS;
+  }
+
+  /**
+   * Changes the free spaces the availability feed reports for a facility.
+   * @param id Facility id.
+   * @param freeSpaces New count.
+   */
+  setFreeSpaces(id: string, freeSpaces: number): void {
+    const facility = this.facilities.find((item) => item.id === id);
+    if (!facility) {
+      throw new Error(`Unknown mock facility '${id}'`);
+    }
+    facility.freeSpaces = freeSpaces;
+  }
+
+  /** Number of requests served for a feed path such as `/availability`. */
+  requestCount(path: string): number {
+    return this.requests.filter((request) => request.path === path).length;
+  }
+
+  close(): Promise<void> {
+    this.closing.abort();
+    return new Promise((resolve) => {
+      this.server.close(() => resolve());
+      this.server.closeAllConnections();
+    });
+  }
+
+  /** Scenario for the next feed request, counting down a limited one. */
+  private nextScenario(): MockScenario {
+    const scenario = this.scenario;
+    if (this.remaining !== null) {
+      this.remaining -= 1;
+      if (this.remaining <= 0) {
+        this.setScenario('ok');
+      }
+    }
+    return scenario;
+  }
+
+  private feed(path: string, scenario: MockScenario): unknown[] {
+    const facilities =
+      scenario === 'partial' ? this.facilities.slice(0, Math.ceil(this.facilities.length / 2)) : this.facilities;
+    if (path === '/facilities') {
+      return facilities.map(({ id, name, lat, lon, capacity, tariffNote, zoneCode }) => ({
+        id,
+        name,
+        lat,
+        lon,
+        capacity,
+        tariffNote,
+        zoneCode
+      }));
+    }
+    const lastUpdated = new Date().toISOString();
+    return facilities.map(({ id, freeSpaces, capacity }) => ({ id, freeSpaces, capacity, lastUpdated }));
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const path = new URL(req.url ?? '/', 'http://mock').pathname;
+
+    if (req.method === 'POST' && path === '/_mock/scenario') {
+      const body = JSON.parse((await readBody(req)) || '{}') as { scenario?: MockScenario } & MockScenarioOptions;
+      if (!body.scenario || !MOCK_SCENARIOS.includes(body.scenario)) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: `scenario must be one of ${MOCK_SCENARIOS.join(', ')}` }));
+        return;
+      }
+      this.setScenario(body.scenario, body);
+      res.writeHead(204).end();
+      return;
+    }
+    if (req.method === 'GET' && path === '/_mock/requests') {
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(this.requests));
+      return;
+    }
+    if (req.method !== 'GET' || !FEED_PATHS.has(path)) {
+      res.writeHead(404, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: 'Not found' }));
+      return;
+    }
+
+    const scenario = this.nextScenario();
+    this.requests.push({ method: req.method, path, scenario });
+
+    switch (scenario) {
+      case 'slow':
+        await sleep(this.delayMs, this.closing.signal);
+        break;
+      case 'unavailable':
+        res.writeHead(503, { 'Content-Type': 'text/plain', 'Retry-After': '1' }).end('Service Unavailable');
+        return;
+      case 'malformed':
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end('[{"id": "SP-1001", "name": "P-hus');
+        return;
+      default:
+        break;
+    }
+    if (!res.destroyed) {
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(this.feed(path, scenario)));
+    }
+  }
+}
@@ -0,0 +1,293 @@
+import { forEachStockholmRun, LocalTime } from './time.js';
+import { OpeningHours, OpeningRule, OpenStatus } from './types.js';
+
+const MINUTES_PER_DAY = 24 * 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** How far ahead to look for the next opening of a closed facility. */
+const NEXT_OPENING_HORIZON_MINUTES = 7 * MINUTES_PER_DAY;
+
+const DAY_CODES: Record<string, number> = { mo: 1, tu: 2, we: 3, th: 4, fr: 5, sa: 6, su: 7 };
+const ALL_DAYS = [1, 2, 3, 4, 5, 6, 7];
+const CLOSED_KEYWORDS = new Set(['off', 'closed']);
+/** `, ` followed by a day selector separates rules, like `;`. */
+const RULE_SEPARATOR = /;|,\s+(?=(?:mo|tu|we|th|fr|sa|su|ph)\b)/i;
+
+function isoDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+/** Easter Sunday (Gregorian) via the anonymous Gregorian algorithm, as UTC midnight. */
+function easterSunday(year: number): number {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return Date.UTC(year, month - 1, day);
+}
+
+/** The Saturday falling within `[from, from + 6]` days of the given month. */
+function saturdayBetween(year: number, month: number, from: number): number {
+  const start = Date.UTC(year, month - 1, from);
+  const offset = (6 - new Date(start).getUTCDay() + 7) % 7;
+  return start + offset * DAY_MS;
+}
+
+const holidayCache = new Map<number, Set<string>>();
+
+/**
+ * Lists Sweden's public holidays (allmänna helgdagar) for a year. Midsummer Eve, Christmas Eve
+ * and New Year's Eve are not public holidays and are not included.
+ * @param year Calendar year.
+ * @returns Dates as `YYYY-MM-DD`.
+ */
+export function swedishPublicHolidays(year: number): Set<string> {
+  const cached = holidayCache.get(year);
+  if (cached) {
+    return cached;
+  }
+
+  const easter = easterSunday(year);
+  const holidays = new Set([
+    `${year}-01-01`,
+    `${year}-01-06`,
+    isoDate(easter - 2 * DAY_MS),
+    isoDate(easter),
+    isoDate(easter + DAY_MS),
+    `${year}-05-01`,
+    isoDate(easter + 39 * DAY_MS),
+    isoDate(easter + 49 * DAY_MS),
+    `${year}-06-06`,
+    isoDate(saturdayBetween(year, 6, 20)),
+    isoDate(saturdayBetween(year, 10, 31)),
+    `${year}-12-25`,
+    `${year}-12-26`
+  ]);
+  holidayCache.set(year, holidays);
+  return holidays;
+}
+
+export function isSwedishPublicHoliday(date: string): boolean {
+  return swedishPublicHolidays(Number(date.slice(0, 4))).has(date);
+}
+
+function parseClock(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return Number(match[2]) < 60 && minutes <= 48 * 60 ? minutes : null;
+}
+
+function parseSpans(text: string): OpeningRule['spans'] | null {
+  const spans: OpeningRule['spans'] = [];
+  for (const part of text.split(',')) {
+    const [from, to, ...rest] = part.trim().split('-');
+    const startMinute = parseClock(from ?? '');
+    const endMinute = parseClock(to ?? '');
+    if (rest.length > 0 || startMinute === null || endMinute === null || startMinute >= MINUTES_PER_DAY) {
+      return null;
+    }
+    // OSM writes overnight spans either as 22:00-02:00 or 22:00-26:00.
+    const end = endMinute <= startMinute ? endMinute + MINUTES_PER_DAY : endMinute;
+    spans.push({ startMinute, endMinute: end });
+  }
+  return spans;
+}
+
+function parseDaySelector(text: string): Pick<OpeningRule, 'days' | 'publicHolidays'> | null {
+  const days = new Set<number>();
+  let publicHolidays = false;
+
+  for (const part of text.toLowerCase().split(',')) {
+    if (part === 'ph') {
+      publicHolidays = true;
+      continue;
+    }
+    const [from, to, ...rest] = part.split('-');
+    const start = DAY_CODES[from];
+    const end = to === undefined ? start : DAY_CODES[to];
+    if (rest.length > 0 || start === undefined || end === undefined) {
+      return null;
+    }
+    for (let day = start; ; day = day === 7 ? 1 : day + 1) {
+      days.add(day);
+      if (day === end) {
+        break;
+      }
+    }
+  }
+
+  return { days: [...days].sort((a, b) => a - b), publicHolidays };
+}
+
+function parseRule(text: string): OpeningRule | null {
+  const tokens = text.trim().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  let selector: Pick<OpeningRule, 'days' | 'publicHolidays'> = { days: ALL_DAYS, publicHolidays: false };
+  let hasSelector = false;
+  if (/^(mo|tu|we|th|fr|sa|su|ph)\b/i.test(tokens[0])) {
+    const parsed = parseDaySelector(tokens.shift() as string);
+    if (!parsed) {
+      return null;
+    }
+    selector = parsed;
+    hasSelector = true;
+  }
+
+  const rest = tokens.join(' ').toLowerCase();
+  if (rest === '' && hasSelector) {
+    // A bare day selector means open all day.
+    return { ...selector, spans: [{ startMinute: 0, endMinute: MINUTES_PER_DAY }] };
+  }
+  if (CLOSED_KEYWORDS.has(rest)) {
+    return { ...selector, spans: [] };
+  }
+  if (rest === '24/7') {
+    return { ...selector, spans: [{ startMinute: 0, endMinute: MINUTES_PER_DAY }] };
+  }
+
+  const spans = parseSpans(rest.replace(/\s+/g, ''));
+  return spans ? { ...selector, spans } : null;
+}
+
+/**
+ * Parses the common subset of OSM `opening_hours` syntax: `24/7`, weekday selectors and ranges
+ * (`Mo-Fr`, `Sa,Su`, `Fr-Mo`), `PH` for Swedish public holidays, comma-separated time spans
+ * (overnight spans allowed) and `off`/`closed`. Later rules override earlier ones for the days
+ * they select, as in OSM.
+ * @param text Opening hours string.
+ * @returns Parsed opening hours, or null when the string is empty or uses unsupported syntax.
+ */
+export function parseOpeningHours(text: string | null | undefined): OpeningHours | null {
+  const trimmed = text?.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  const rules: OpeningRule[] = [];
+  for (const part of trimmed.split(RULE_SEPARATOR)) {
+    if (part.trim() === '') {
+      continue;
+    }
+    const rule = parseRule(part);
+    if (!rule) {
+      return null;
+    }
+    rules.push(rule);
+  }
+
+  return rules.length > 0 ? { rules } : null;
+}
+
+function ruleForDay(hours: OpeningHours, weekday: number, date: string): OpeningRule | null {
+  const holiday = isSwedishPublicHoliday(date);
+  let match: OpeningRule | null = null;
+  for (const rule of hours.rules) {
+    if (rule.days.includes(weekday) || (holiday && rule.publicHolidays)) {
+      match = rule;
+    }
+  }
+  return match;
+}
+
+function previousDay(local: LocalTime): { weekday: number; date: string } {
+  const [year, month, day] = local.date.split('-').map(Number);
+  return {
+    weekday: local.weekday === 1 ? 7 : local.weekday - 1,
+    date: isoDate(Date.UTC(year, month - 1, day) - DAY_MS)
+  };
+}
+
+/**
+ * Checks whether opening hours cover a local time, including spans that started the day before.
+ * @param hours Parsed opening hours.
+ * @param local Stockholm local time.
+ * @returns True when open.
+ */
+export function isOpenAt(hours: OpeningHours, local: LocalTime): boolean {
+  const today = ruleForDay(hours, local.weekday, local.date);
+  if (today?.spans.some((span) => local.minuteOfDay >= span.startMinute && local.minuteOfDay < span.endMinute)) {
+    return true;
+  }
+
+  const yesterday = previousDay(local);
+  const carried = ruleForDay(hours, yesterday.weekday, yesterday.date);
+  const minute = local.minuteOfDay + MINUTES_PER_DAY;
+  return carried?.spans.some((span) => minute >= span.startMinute && minute < span.endMinute) ?? false;
+}
+
+/** Minutes of day where some span starts or ends; between them `isOpenAt` cannot change. */
+function spanBoundaries(hours: OpeningHours): number[] {
+  return hours.rules.flatMap((rule) =>
+    rule.spans.flatMap((span) => [span.startMinute % MINUTES_PER_DAY, span.endMinute % MINUTES_PER_DAY])
+  );
+}
+
+/**
+ * First instant within `minutes` of `from` at which the facility is (`open`) or is not open.
+ * @returns The instant, or null when the state never changes to the wanted one.
+ */
+function findFirst(hours: OpeningHours, from: Date, minutes: number, open: boolean): Date | null {
+  let found: Date | null = null;
+  forEachStockholmRun(from, minutes, spanBoundaries(hours), (local, _offset, _length, instant) => {
+    if (isOpenAt(hours, local) === open) {
+      found = instant;
+      return false;
+    }
+    return true;
+  });
+  return found as Date | null;
+}
+
+/**
+ * Checks a planned stay against a facility's opening hours.
+ * @param hours Parsed opening hours, or null when unknown.
+ * @param arrival Arrival instant.
+ * @param durationMinutes Length of the stay; when omitted only the arrival is checked.
+ * @returns Whether the facility is open for the stay, and when it closes or next opens.
+ */
+export function checkOpeningHours(
+  hours: OpeningHours | null,
+  arrival: Date,
+  durationMinutes: number | null
+): OpenStatus {
+  if (!hours) {
+    return { status: 'unknown', reason: null, closesAt: null, opensAt: null };
+  }
+
+  const closesAt = findFirst(hours, arrival, Math.max(durationMinutes ?? 1, 1), false);
+  if (closesAt === null) {
+    return { status: 'open', reason: null, closesAt: null, opensAt: null };
+  }
+
+  if (closesAt.getTime() === arrival.getTime()) {
+    const opensAt = findFirst(hours, arrival, NEXT_OPENING_HORIZON_MINUTES, true);
+    return {
+      status: 'closed',
+      reason: 'Closed at arrival time',
+      closesAt: null,
+      opensAt: opensAt ? opensAt.toISOString() : null
+    };
+  }
+
+  return {
+    status: 'closes_during_stay',
+    reason: 'Closes before the stay ends',
+    closesAt: closesAt.toISOString(),
+    opensAt: null
+  };
+}
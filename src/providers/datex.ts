@@ -0,0 +1,168 @@
+import { XMLParser } from 'fast-xml-parser';
+import { emptyAmenities } from '../amenities.js';
+import {
+  FacilityAvailability,
+  FacilityMetadata,
+  ParkingProvider,
+  ProviderContext
+} from '../types.js';
+import { asRecord, keepWellFormed, toNumberOrNull, toStringOrNull } from './util.js';
+
+export const DATEX_PROVIDER_ID = 'datex';
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false
+});
+
+/** Collects every element with the given name anywhere in a parsed document. */
+function findAll(node: unknown, name: string, found: Record<string, unknown>[] = []): Record<string, unknown>[] {
+  if (Array.isArray(node)) {
+    for (const child of node) {
+      findAll(child, name, found);
+    }
+    return found;
+  }
+
+  const record = asRecord(node);
+  if (!record) {
+    return found;
+  }
+
+  for (const [key, value] of Object.entries(record)) {
+    if (key === name) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        const element = asRecord(item);
+        if (element) {
+          found.push(element);
+        }
+      }
+    } else if (!key.startsWith('@_')) {
+      findAll(value, name, found);
+    }
+  }
+  return found;
+}
+
+function findFirst(node: unknown, name: string): unknown {
+  const record = asRecord(node);
+  if (!record) {
+    return undefined;
+  }
+  if (name in record) {
+    return record[name];
+  }
+  for (const [key, value] of Object.entries(record)) {
+    if (key.startsWith('@_')) {
+      continue;
+    }
+    for (const child of Array.isArray(value) ? value : [value]) {
+      const match = findFirst(child, name);
+      if (match !== undefined) {
+        return match;
+      }
+    }
+  }
+  return undefined;
+}
+
+function text(value: unknown): string | null {
+  const record = asRecord(value);
+  return toStringOrNull(record ? record['#text'] : value);
+}
+
+/** Picks a Swedish value from a DATEX II multilingual string, falling back to the first one. */
+function multilingual(value: unknown): string | null {
+  const values = findAll(value, 'value');
+  const swedish = values.find((item) => item['@_lang'] === 'sv');
+  return text(swedish ?? values[0]) ?? text(value);
+}
+
+function datexId(record: Record<string, unknown>): string | null {
+  const id = toStringOrNull(record['@_id']);
+  return id ? `${DATEX_PROVIDER_ID}:${id}` : null;
+}
+
+function normalizeParkingRecord(record: Record<string, unknown>, sourceUrl: string): FacilityMetadata | null {
+  const id = datexId(record);
+  const name = multilingual(record.parkingName);
+  const location = record.parkingLocation ?? record.parkingRecordLocation;
+  const lat = toNumberOrNull(text(findFirst(location, 'latitude')));
+  const lon = toNumberOrNull(text(findFirst(location, 'longitude')));
+
+  if (!id || !name || lat === null || lon === null) {
+    return null;
+  }
+
+  return {
+    id,
+    provider: DATEX_PROVIDER_ID,
+    aliasIds: [],
+    name,
+    lat,
+    lon,
+    capacity: toNumberOrNull(text(record.parkingNumberOfSpaces)),
+    tariffNote: null,
+    tariff: null,
+    zoneCode: null,
+    amenities: emptyAmenities(),
+    openingHours: null,
+    sourceUrl
+  };
+}
+
+function normalizeStatus(status: Record<string, unknown>): FacilityAvailability | null {
+  const reference = asRecord(status.parkingRecordReference ?? status.parkingSiteReference);
+  const id = reference ? datexId(reference) : null;
+  if (!id) {
+    return null;
+  }
+
+  const vacant = toNumberOrNull(text(findFirst(status, 'parkingNumberOfVacantSpaces')));
+  const occupied = toNumberOrNull(text(findFirst(status, 'parkingNumberOfOccupiedSpaces')));
+  const capacity = toNumberOrNull(text(findFirst(status, 'parkingNumberOfSpacesOverride')));
+
+  return {
+    id,
+    freeSpaces: vacant ?? (occupied !== null && capacity !== null ? Math.max(0, capacity - occupied) : null),
+    capacity,
+    lastUpdated: text(status.parkingStatusOriginTime ?? status.parkingRecordStatusOriginTime)
+  };
+}
+
+/** A DATEX II parking feed: a ParkingTablePublication for sites and a ParkingStatusPublication for occupancy. */
+export const datexProvider: ParkingProvider = {
+  id: DATEX_PROVIDER_ID,
+
+  async fetchFacilities(context: ProviderContext): Promise<FacilityMetadata[]> {
+    const url = context.config.datexTableUrl;
+    if (!url) {
+      throw new Error('DATEX_TABLE_URL is required for the datex provider');
+    }
+
+    const document: unknown = parser.parse(await context.fetchText(url));
+    return keepWellFormed(
+      [...findAll(document, 'parkingRecord'), ...findAll(document, 'parkingSite')].map((record) =>
+        normalizeParkingRecord(record, url)
+      ),
+      context,
+      'facilities'
+    );
+  },
+
+  async fetchAvailability(context: ProviderContext): Promise<FacilityAvailability[]> {
+    const url = context.config.datexStatusUrl;
+    if (!url) {
+      return [];
+    }
+
+    const document: unknown = parser.parse(await context.fetchText(url));
+    return keepWellFormed(
+      [...findAll(document, 'parkingRecordStatus'), ...findAll(document, 'parkingSiteStatus')].map(normalizeStatus),
+      context,
+      'availability'
+    );
+  }
+};
@@ -0,0 +1,68 @@
+import { promises as fs } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+import { normalizeAmenities } from '../amenities.js';
+import { pathMidpoint } from '../geo.js';
+import { parseOpeningHours } from '../openingHours.js';
+import { parseTariff } from '../tariff.js';
+import { FacilityMetadata, ParkingProvider, ProviderContext } from '../types.js';
+import { asRecord, geometryPath, keepWellFormed, toNumberOrNull, toStringOrNull } from './util.js';
+
+export const GEOJSON_PROVIDER_ID = 'geojson';
+
+function normalizeFeature(raw: unknown, sourceUrl: string): FacilityMetadata | null {
+  const feature = asRecord(raw);
+  const properties = asRecord(feature?.properties);
+  if (!feature || !properties) {
+    return null;
+  }
+
+  const idValue = toStringOrNull(properties.id ?? feature.id);
+  const name = toStringOrNull(properties.name);
+  const point = pathMidpoint(geometryPath(feature.geometry));
+  if (!idValue || !name || !point) {
+    return null;
+  }
+
+  const tariffNote = toStringOrNull(properties.tariffNote);
+  const amenities = normalizeAmenities(properties);
+
+  return {
+    id: `${GEOJSON_PROVIDER_ID}:${idValue}`,
+    provider: GEOJSON_PROVIDER_ID,
+    aliasIds: [],
+    name,
+    lat: point.lat,
+    lon: point.lon,
+    capacity: toNumberOrNull(properties.capacity),
+    tariffNote,
+    tariff: parseTariff(tariffNote),
+    zoneCode: toStringOrNull(properties.zoneCode),
+    amenities,
+    openingHours: parseOpeningHours(amenities.openingHours),
+    sourceUrl: toStringOrNull(properties.sourceUrl) ?? sourceUrl
+  };
+}
+
+/** A static GeoJSON FeatureCollection on disk, e.g. hand-maintained private garages. */
+export const geojsonProvider: ParkingProvider = {
+  id: GEOJSON_PROVIDER_ID,
+
+  async fetchFacilities(context: ProviderContext): Promise<FacilityMetadata[]> {
+    const file = context.config.geojsonFile;
+    if (!file) {
+      throw new Error('GEOJSON_FILE is required for the geojson provider');
+    }
+
+    const rawData = asRecord(JSON.parse(await fs.readFile(file, 'utf-8')));
+    if (!rawData || !Array.isArray(rawData.features)) {
+      throw new Error(`GeoJSON file '${file}' is not a FeatureCollection`);
+    }
+
+    const sourceUrl = pathToFileURL(file).toString();
+    return keepWellFormed(
+      (rawData.features as unknown[]).map((feature) => normalizeFeature(feature, sourceUrl)),
+      context,
+      'facilities'
+    );
+  }
+};
@@ -0,0 +1,80 @@
+import { mergeAmenities } from '../amenities.js';
+import { haversineDistanceMeters } from '../geo.js';
+import { FacilityMetadata, ParkingProvider, ServiceConfig } from '../types.js';
+import { datexProvider } from './datex.js';
+import { geojsonProvider } from './geojson.js';
+import { ltfProvider } from './ltf.js';
+import { stockholmParkeringProvider } from './stockholmParkering.js';
+
+const registry = new Map<string, ParkingProvider>();
+
+/**
+ * Registers a provider adapter so it can be enabled through the `PROVIDERS` setting.
+ * @param provider Provider adapter; replaces any adapter registered under the same id.
+ */
+export function registerProvider(provider: ParkingProvider): void {
+  registry.set(provider.id, provider);
+}
+
+registerProvider(stockholmParkeringProvider);
+registerProvider(ltfProvider);
+registerProvider(datexProvider);
+registerProvider(geojsonProvider);
+
+/**
+ * Resolves the enabled providers in configured priority order.
+ * @param config Service configuration.
+ * @returns Provider adapters.
+ */
+export function getEnabledProviders(config: ServiceConfig): ParkingProvider[] {
+  return config.providers.map((id) => {
+    const provider = registry.get(id);
+    if (!provider) {
+      throw new Error(`Unknown provider '${id}'. Registered providers: ${[...registry.keys()].join(', ')}`);
+    }
+    return provider;
+  });
+}
+
+/**
+ * Merges facility lists from several providers. A facility within `radiusMeters` of one already
+ * taken from a different provider is treated as the same place: earlier providers win, missing
+ * fields are filled from the duplicate and its id is kept as an alias for availability lookups.
+ * Facilities from the same provider are never merged with each other.
+ * @param lists Facility lists in provider priority order.
+ * @param radiusMeters Maximum distance between duplicates.
+ * @returns Merged facility list.
+ */
+export function mergeFacilities(lists: FacilityMetadata[][], radiusMeters: number): FacilityMetadata[] {
+  const merged: FacilityMetadata[] = [];
+
+  for (const list of lists) {
+    const fromEarlierProviders = merged.length;
+    for (const facility of list) {
+      const duplicate = merged
+        .slice(0, fromEarlierProviders)
+        .find(
+          (candidate) =>
+            candidate.provider !== facility.provider &&
+            haversineDistanceMeters(candidate.lat, candidate.lon, facility.lat, facility.lon) <= radiusMeters
+        );
+
+      if (!duplicate) {
+        merged.push({ ...facility, aliasIds: [...facility.aliasIds] });
+        continue;
+      }
+
+      duplicate.aliasIds.push(facility.id, ...facility.aliasIds);
+      duplicate.capacity ??= facility.capacity;
+      duplicate.zoneCode ??= facility.zoneCode;
+      duplicate.amenities = mergeAmenities(duplicate.amenities, facility.amenities);
+      duplicate.openingHours ??= facility.openingHours;
+      if (duplicate.tariffNote === null) {
+        duplicate.tariffNote = facility.tariffNote;
+        duplicate.tariff = facility.tariff;
+      }
+    }
+  }
+
+  return merged;
+}
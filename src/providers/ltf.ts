@@ -0,0 +1,83 @@
+import { emptyAmenities } from '../amenities.js';
+import { pathMidpoint } from '../geo.js';
+import { parseTariff } from '../tariff.js';
+import { FacilityMetadata, ParkingProvider, ProviderContext } from '../types.js';
+import { asRecord, geometryPath, keepWellFormed, toStringOrNull } from './util.js';
+
+export const LTF_PROVIDER_ID = 'ltf';
+
+/**
+ * Builds the LTF-Tolken URL for every feature of a regulation type.
+ * @param baseUrl LTF-Tolken base URL, e.g. `https://openparking.stockholm.se/LTF-Tolken/v1`.
+ * @param regulation Regulation type such as `ptillaten` or `servicedagar`.
+ * @param apiKey City of Stockholm open data API key.
+ * @returns Request URL.
+ */
+export function ltfUrl(baseUrl: string, regulation: string, apiKey: string): string {
+  const url = new URL(`${baseUrl.replace(/\/+$/, '')}/${regulation}/all`);
+  url.searchParams.set('outputFormat', 'json');
+  url.searchParams.set('apiKey', apiKey);
+  return url.toString();
+}
+
+function normalizeFeature(raw: unknown, sourceUrl: string): FacilityMetadata | null {
+  const feature = asRecord(raw);
+  const properties = asRecord(feature?.properties);
+  if (!feature || !properties) {
+    return null;
+  }
+
+  const objectId = toStringOrNull(properties.FEATURE_OBJECT_ID ?? feature.id);
+  const midpoint = pathMidpoint(geometryPath(feature.geometry));
+  const name = toStringOrNull(properties.ADDRESS ?? properties.STREET_NAME);
+  if (!objectId || !midpoint || !name) {
+    return null;
+  }
+
+  const extent = toStringOrNull(properties.EXTENT_NO);
+  const tariffNote = toStringOrNull(properties.PARKING_RATE);
+
+  return {
+    id: `${LTF_PROVIDER_ID}:${objectId}${extent ? `-${extent}` : ''}`,
+    provider: LTF_PROVIDER_ID,
+    aliasIds: [],
+    name,
+    lat: midpoint.lat,
+    lon: midpoint.lon,
+    // Curbside segments have no published space count.
+    capacity: null,
+    tariffNote,
+    tariff: parseTariff(tariffNote),
+    zoneCode: toStringOrNull(properties.PARKING_DISTRICT),
+    // Kerbside parking is open air, so there is no height limit.
+    amenities: { ...emptyAmenities(), covered: false },
+    openingHours: null,
+    sourceUrl: toStringOrNull(properties.RDT_URL) ?? sourceUrl
+  };
+}
+
+/** City of Stockholm LTF-Tolken parking regulations, exposed as one street facility per segment. */
+export const ltfProvider: ParkingProvider = {
+  id: LTF_PROVIDER_ID,
+
+  async fetchFacilities(context: ProviderContext): Promise<FacilityMetadata[]> {
+    const { config } = context;
+    if (!config.ltfApiKey) {
+      throw new Error('LTF_API_KEY is required for the ltf provider');
+    }
+
+    const rawData = asRecord(
+      await context.fetchJson<unknown>(ltfUrl(config.ltfBaseUrl, config.ltfRegulation, config.ltfApiKey))
+    );
+    if (!rawData || !Array.isArray(rawData.features)) {
+      throw new Error('LTF response is not a GeoJSON FeatureCollection');
+    }
+
+    const sourceUrl = `${config.ltfBaseUrl.replace(/\/+$/, '')}/${config.ltfRegulation}`;
+    return keepWellFormed(
+      (rawData.features as unknown[]).map((feature) => normalizeFeature(feature, sourceUrl)),
+      context,
+      'facilities'
+    );
+  }
+};
@@ -0,0 +1,118 @@
+import { normalizeAmenities } from '../amenities.js';
+import { parseOpeningHours } from '../openingHours.js';
+import { parseTariff } from '../tariff.js';
+import {
+  FacilityAvailability,
+  FacilityMetadata,
+  ParkingProvider,
+  ProviderContext,
+  ServiceConfig
+} from '../types.js';
+import { asRecord, buildUrl, keepWellFormed, toNumberOrNull, toStringOrNull } from './util.js';
+
+export const STOCKHOLM_PARKERING_PROVIDER_ID = 'stockholmParkering';
+
+function normalizeFacilityMetadata(
+  raw: Record<string, unknown>,
+  config: ServiceConfig
+): FacilityMetadata | null {
+  const position = asRecord(raw.position);
+  const legacyPosition = asRecord(raw.Position);
+  const idValue = raw.id ?? raw.Id ?? raw.facilityId ?? raw.FacilityId;
+  const nameValue = raw.name ?? raw.Name ?? raw.siteName ?? raw.SiteName;
+  const latValue = raw.lat ?? raw.latitude ?? raw.Latitude ?? position?.lat ?? legacyPosition?.Lat;
+  const lonValue = raw.lon ?? raw.longitude ?? raw.Longitude ?? position?.lon ?? legacyPosition?.Lon;
+
+  if (!idValue || !nameValue || latValue === undefined || lonValue === undefined) {
+    return null;
+  }
+
+  const lat = Number(latValue);
+  const lon = Number(lonValue);
+
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) {
+    return null;
+  }
+
+  const capacity = toNumberOrNull(raw.capacity ?? raw.Capacity);
+  const tariffNote = toStringOrNull(raw.tariffNote ?? raw.TariffNote);
+  const zoneCode = toStringOrNull(raw.zoneCode ?? raw.ZoneCode);
+  const amenities = normalizeAmenities(raw);
+  const sourceUrl =
+    toStringOrNull(
+      raw.sourceUrl ?? raw.SourceUrl ?? raw.url ?? raw.Url ?? `${config.baseUrl}${config.facilitiesPath}`
+    ) ?? `${config.baseUrl}${config.facilitiesPath}`;
+
+  return {
+    id: String(idValue),
+    provider: STOCKHOLM_PARKERING_PROVIDER_ID,
+    aliasIds: [],
+    name: String(nameValue),
+    lat,
+    lon,
+    capacity,
+    tariffNote,
+    tariff: parseTariff(tariffNote),
+    zoneCode,
+    amenities,
+    openingHours: parseOpeningHours(amenities.openingHours),
+    sourceUrl
+  };
+}
+
+function normalizeAvailability(raw: Record<string, unknown>): FacilityAvailability | null {
+  const idValue = raw.id ?? raw.Id ?? raw.facilityId ?? raw.FacilityId;
+  if (!idValue) {
+    return null;
+  }
+
+  const freeSpaces = toNumberOrNull(raw.freeSpaces ?? raw.FreeSpaces ?? raw.vacant ?? raw.Vacant);
+  const capacity = toNumberOrNull(raw.capacity ?? raw.Capacity);
+  const lastUpdated = toStringOrNull(
+    raw.lastUpdated ?? raw.LastUpdated ?? raw.updatedAt ?? raw.UpdatedAt ?? raw.timestamp ?? raw.Timestamp
+  );
+
+  return {
+    id: String(idValue),
+    freeSpaces,
+    capacity,
+    lastUpdated
+  };
+}
+
+/** Feed rows as records; rows that are not objects are null so they count as malformed. */
+function records(rawData: unknown, label: string): (Record<string, unknown> | null)[] {
+  if (!Array.isArray(rawData)) {
+    throw new Error(`${label} response is not an array`);
+  }
+  return rawData.map(asRecord);
+}
+
+/** The Stockholm Parkering JSON feed: a facilities array plus a live availability array. */
+export const stockholmParkeringProvider: ParkingProvider = {
+  id: STOCKHOLM_PARKERING_PROVIDER_ID,
+
+  async fetchFacilities(context: ProviderContext): Promise<FacilityMetadata[]> {
+    const { config } = context;
+    const url = buildUrl(config.baseUrl, config.facilitiesPath);
+    const rawData = await context.fetchJson<unknown>(url);
+
+    return keepWellFormed(
+      records(rawData, 'Facilities').map((item) => item && normalizeFacilityMetadata(item, config)),
+      context,
+      'facilities'
+    );
+  },
+
+  async fetchAvailability(context: ProviderContext): Promise<FacilityAvailability[]> {
+    const { config } = context;
+    const url = buildUrl(config.baseUrl, config.availabilityPath);
+    const rawData = await context.fetchJson<unknown>(url);
+
+    return keepWellFormed(
+      records(rawData, 'Availability').map((item) => item && normalizeAvailability(item)),
+      context,
+      'availability'
+    );
+  }
+};
@@ -0,0 +1,82 @@
+import { LatLon, ProviderContext, QualityFeed } from '../types.js';
+
+export function buildUrl(baseUrl: string, path: string): string {
+  try {
+    const url = new URL(path, baseUrl);
+    return url.toString();
+  } catch (error) {
+    throw new Error(`Failed to construct URL from base '${baseUrl}' and path '${path}': ${String(error)}`);
+  }
+}
+
+export function toNumberOrNull(value: unknown): number | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+export function toStringOrNull(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const str = String(value);
+  return str.length > 0 ? str : null;
+}
+
+/**
+ * Drops the records a normalizer could not read, reporting how many to the data-quality checks.
+ * @param items Normalized records, null where a record was unreadable.
+ * @param context Provider context.
+ * @param feed Feed the records belong to.
+ * @returns Readable records.
+ */
+export function keepWellFormed<T>(items: (T | null)[], context: ProviderContext, feed: QualityFeed): T[] {
+  const kept = items.filter((item): item is T => item !== null);
+  if (kept.length < items.length) {
+    context.reportMalformed?.(feed, items.length - kept.length);
+  }
+  return kept;
+}
+
+export function asRecord(value: unknown): Record<string, unknown> | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+/** Reads a GeoJSON Point, LineString or MultiLineString as one path of WGS84 vertices. */
+export function geometryPath(geometry: unknown): LatLon[] {
+  const record = asRecord(geometry);
+  if (!record || !Array.isArray(record.coordinates)) {
+    return [];
+  }
+
+  const lines: unknown[] =
+    record.type === 'MultiLineString'
+      ? (record.coordinates as unknown[])
+      : record.type === 'LineString'
+        ? [record.coordinates]
+        : record.type === 'Point'
+          ? [[record.coordinates]]
+          : [];
+
+  const path: LatLon[] = [];
+  for (const line of lines) {
+    if (!Array.isArray(line)) {
+      continue;
+    }
+    for (const position of line) {
+      if (!Array.isArray(position) || position.length < 2) {
+        continue;
+      }
+      const lon = Number(position[0]);
+      const lat = Number(position[1]);
+      if (Number.isFinite(lat) && Number.isFinite(lon)) {
+        path.push({ lat, lon });
+      }
+    }
+  }
+  return path;
+}
@@ -0,0 +1,249 @@
+import { Logger } from './log.js';
+import { metrics } from './metrics.js';
+import { BoundingBox } from './spatial.js';
+import {
+  DataQualityFlag,
+  DataQualityIssue,
+  DataQualityRejection,
+  DataQualityReport,
+  DataQualitySample,
+  FacilityAvailability,
+  FacilityMetadata,
+  FeedQuality,
+  QualityFeed
+} from './types.js';
+
+/** Stockholm County with a margin; facilities outside it are misplaced (swapped or zeroed coordinates). */
+export const SERVICE_AREA: BoundingBox = { south: 58.6, west: 17.0, north: 60.4, east: 19.8 };
+
+/** Clock skew tolerated before a `lastUpdated` counts as being in the future. */
+const FUTURE_TOLERANCE_MS = 5 * 60 * 1000;
+const MAX_SAMPLES = 10;
+
+const reports = new Map<string, FeedQuality>();
+const malformed = new Map<string, number>();
+
+function reportKey(feed: QualityFeed, provider: string): string {
+  return `${feed}:${provider}`;
+}
+
+function isValidCount(value: number | null): boolean {
+  return value === null || (Number.isInteger(value) && value >= 0);
+}
+
+function timestampIssue(lastUpdated: string | null, maxAgeMs: number, now: Date): DataQualityIssue | null {
+  if (lastUpdated === null) {
+    return null;
+  }
+  const updatedAt = Date.parse(lastUpdated);
+  if (Number.isNaN(updatedAt)) {
+    return 'invalid_timestamp';
+  }
+  if (updatedAt > now.getTime() + FUTURE_TOLERANCE_MS) {
+    return 'timestamp_in_future';
+  }
+  return now.getTime() - updatedAt > maxAgeMs ? 'availability_outdated' : null;
+}
+
+/** Counts of one provider's load while its records are checked. */
+class QualityTally {
+  readonly rejected: Partial<Record<DataQualityRejection, number>> = {};
+  readonly suspicious: Partial<Record<DataQualityIssue, number>> = {};
+  readonly samples: DataQualitySample[] = [];
+  private readonly feed: QualityFeed;
+  private readonly provider: string;
+
+  constructor(feed: QualityFeed, provider: string) {
+    this.feed = feed;
+    this.provider = provider;
+    // Unreadable records were counted by the provider while it loaded the feed.
+    const key = reportKey(feed, provider);
+    const count = malformed.get(key) ?? 0;
+    malformed.delete(key);
+    if (count > 0) {
+      this.rejected.malformed = count;
+      metrics.dataQualityRecords.inc({ feed, provider, result: 'rejected', reason: 'malformed' }, count);
+    }
+  }
+
+  reject(id: string, reason: DataQualityRejection): void {
+    this.rejected[reason] = (this.rejected[reason] ?? 0) + 1;
+    this.note(id, reason, 'rejected');
+  }
+
+  flag(id: string, issue: DataQualityIssue): void {
+    this.suspicious[issue] = (this.suspicious[issue] ?? 0) + 1;
+    this.note(id, issue, 'suspicious');
+  }
+
+  private note(id: string, reason: DataQualityRejection | DataQualityIssue, result: string): void {
+    metrics.dataQualityRecords.inc({ feed: this.feed, provider: this.provider, result, reason });
+    if (this.samples.length < MAX_SAMPLES) {
+      this.samples.push({ id, reason });
+    }
+  }
+
+  /** Stores the outcome as the feed's latest report and logs it when anything was wrong. */
+  finish(received: number, accepted: number, log: Logger, now: Date): void {
+    const rejectedCount = Object.values(this.rejected).reduce((sum, count) => sum + count, 0);
+    const report: FeedQuality = {
+      feed: this.feed,
+      provider: this.provider,
+      checkedAt: now.toISOString(),
+      received: received + (this.rejected.malformed ?? 0),
+      accepted,
+      rejected: this.rejected,
+      suspicious: this.suspicious,
+      samples: this.samples
+    };
+    reports.set(reportKey(this.feed, this.provider), report);
+
+    if (rejectedCount > 0 || this.samples.length > 0) {
+      log.warn('Data quality issues in feed', {
+        feed: this.feed,
+        provider: this.provider,
+        received: report.received,
+        accepted,
+        rejected: this.rejected,
+        suspicious: this.suspicious
+      });
+    }
+  }
+}
+
+/**
+ * Records how many records of a load a provider could not read at all.
+ * @param feed Feed being loaded.
+ * @param provider Provider id.
+ * @param count Unreadable records.
+ */
+export function recordMalformed(feed: QualityFeed, provider: string, count: number): void {
+  const key = reportKey(feed, provider);
+  malformed.set(key, (malformed.get(key) ?? 0) + count);
+}
+
+/**
+ * Checks one provider's facilities: facilities outside {@link SERVICE_AREA} are dropped and
+ * negative or fractional capacities cleared.
+ * @param provider Provider id.
+ * @param facilities Facilities as read by the provider.
+ * @param log Logger.
+ * @param now Time of the check.
+ * @returns Facilities that passed.
+ */
+export function checkFacilities(
+  provider: string,
+  facilities: FacilityMetadata[],
+  log: Logger,
+  now: Date = new Date()
+): FacilityMetadata[] {
+  const tally = new QualityTally('facilities', provider);
+  const accepted: FacilityMetadata[] = [];
+
+  for (const facility of facilities) {
+    const { lat, lon } = facility;
+    if (lat < SERVICE_AREA.south || lat > SERVICE_AREA.north || lon < SERVICE_AREA.west || lon > SERVICE_AREA.east) {
+      tally.reject(facility.id, 'outside_service_area');
+      continue;
+    }
+    if (!isValidCount(facility.capacity)) {
+      tally.flag(facility.id, 'invalid_capacity');
+      accepted.push({ ...facility, capacity: null });
+      continue;
+    }
+    accepted.push(facility);
+  }
+
+  tally.finish(facilities.length, accepted.length, log, now);
+  return accepted;
+}
+
+/**
+ * Checks one provider's availability: negative or fractional counts are dropped, invalid
+ * capacities and unreadable timestamps cleared, and counts above capacity or with old or future
+ * timestamps flagged.
+ * @param provider Provider id.
+ * @param items Availability as read by the provider.
+ * @param maxAgeMs Age beyond which a count is outdated.
+ * @param log Logger.
+ * @param now Time of the check.
+ * @returns Availability that passed.
+ */
+export function checkAvailability(
+  provider: string,
+  items: FacilityAvailability[],
+  maxAgeMs: number,
+  log: Logger,
+  now: Date = new Date()
+): FacilityAvailability[] {
+  const tally = new QualityTally('availability', provider);
+  const accepted: FacilityAvailability[] = [];
+
+  for (const item of items) {
+    if (!isValidCount(item.freeSpaces)) {
+      tally.reject(item.id, 'invalid_count');
+      continue;
+    }
+
+    const checked = { ...item };
+    if (!isValidCount(checked.capacity)) {
+      tally.flag(item.id, 'invalid_capacity');
+      checked.capacity = null;
+    }
+    if (checked.freeSpaces !== null && checked.capacity !== null && checked.freeSpaces > checked.capacity) {
+      tally.flag(item.id, 'exceeds_capacity');
+    }
+    const issue = timestampIssue(checked.lastUpdated, maxAgeMs, now);
+    if (issue !== null) {
+      tally.flag(item.id, issue);
+      if (issue === 'invalid_timestamp') {
+        checked.lastUpdated = null;
+      }
+    }
+    accepted.push(checked);
+  }
+
+  tally.finish(items.length, accepted.length, log, now);
+  return accepted;
+}
+
+/**
+ * Data-quality flags for the availability shown with a facility.
+ * @param availability Facility's availability, if any.
+ * @param capacity Capacity shown with it.
+ * @param maxAgeMs Age beyond which a count is outdated.
+ * @param now Time of the request.
+ * @returns Flags; empty when nothing is wrong or nothing is known.
+ */
+export function facilityQualityFlags(
+  availability: FacilityAvailability | undefined,
+  capacity: number | null,
+  maxAgeMs: number,
+  now: Date = new Date()
+): DataQualityFlag[] {
+  if (!availability) {
+    return [];
+  }
+
+  const flags: DataQualityFlag[] = [];
+  const issue = timestampIssue(availability.lastUpdated, maxAgeMs, now);
+  if (issue === 'availability_outdated' || issue === 'timestamp_in_future') {
+    flags.push(issue);
+  }
+  if (availability.freeSpaces !== null && capacity !== null && availability.freeSpaces > capacity) {
+    flags.push('exceeds_capacity');
+  }
+  return flags;
+}
+
+/**
+ * Builds the data-quality report from the latest load of every provider's feeds.
+ * @returns Report, feeds sorted by feed and provider.
+ */
+export function getDataQualityReport(): DataQualityReport {
+  const feeds = [...reports.values()].sort(
+    (a, b) => a.feed.localeCompare(b.feed) || a.provider.localeCompare(b.provider)
+  );
+  const clean = feeds.every((feed) => feed.accepted === feed.received && feed.samples.length === 0);
+  return { status: clean ? 'ok' : 'warnings', checkedAt: new Date().toISOString(), feeds };
+}
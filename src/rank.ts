@@ -0,0 +1,172 @@
+import {
+  FacilityRecommendation,
+  RankingFactors,
+  RankingProfile,
+  RankingScore,
+  RankingWeights
+} from './types.js';
+
+export const DEFAULT_RANKING_PROFILE: RankingProfile = 'balanced';
+
+export const RANKING_PROFILES: Record<RankingProfile, RankingWeights> = {
+  closest: { distance: 0.7, walkTime: 0.3, availability: 0, freshness: 0, cost: 0 },
+  most_available: { distance: 0.2, walkTime: 0, availability: 0.7, freshness: 0.1, cost: 0 },
+  cheapest: { distance: 0.2, walkTime: 0, availability: 0.1, freshness: 0, cost: 0.7 },
+  balanced: { distance: 0.3, walkTime: 0.1, availability: 0.35, freshness: 0.1, cost: 0.15 }
+};
+
+const DISTANCE_HALF_SCORE_METERS = 500;
+const WALK_HALF_SCORE_MINUTES = 6;
+const FREE_SPACES_HALF_SCORE = 20;
+const FRESH_AGE_MS = 5 * 60 * 1000;
+const OUTDATED_AGE_MS = 60 * 60 * 1000;
+const STALE_FRESHNESS_FACTOR = 0.5;
+
+export interface RankingOptions {
+  profile: RankingProfile | 'custom';
+  weights: RankingWeights;
+  now: Date;
+}
+
+/**
+ * Resolves the weights to rank with from a named profile and optional explicit weights.
+ * Explicit weights replace the profile entirely; omitted factors count as zero.
+ * @param profile Named ranking profile.
+ * @param weights Explicit per-factor weights.
+ * @returns Profile label and weights, or null when explicit weights are all zero.
+ */
+export function resolveRankingWeights(
+  profile: RankingProfile | undefined,
+  weights: Partial<RankingWeights> | undefined
+): Pick<RankingOptions, 'profile' | 'weights'> | null {
+  if (!weights) {
+    const name = profile ?? DEFAULT_RANKING_PROFILE;
+    return { profile: name, weights: RANKING_PROFILES[name] };
+  }
+
+  const resolved: RankingWeights = {
+    distance: weights.distance ?? 0,
+    walkTime: weights.walkTime ?? 0,
+    availability: weights.availability ?? 0,
+    freshness: weights.freshness ?? 0,
+    cost: weights.cost ?? 0
+  };
+  const sum =
+    resolved.distance + resolved.walkTime + resolved.availability + resolved.freshness + resolved.cost;
+  return sum > 0 ? { profile: 'custom', weights: resolved } : null;
+}
+
+function decay(value: number, halfScoreAt: number): number {
+  return 1 / (1 + Math.max(0, value) / halfScoreAt);
+}
+
+function availabilityScore(item: FacilityRecommendation): number {
+  // A forecast for the arrival time is more relevant than the current reading.
+  const freeSpaces = item.predictedFreeSpaces ?? item.freeSpaces;
+  if (freeSpaces === null || freeSpaces <= 0) {
+    return 0;
+  }
+  if (item.capacity !== null && item.capacity > 0) {
+    return Math.min(1, freeSpaces / item.capacity);
+  }
+  return freeSpaces / (freeSpaces + FREE_SPACES_HALF_SCORE);
+}
+
+function freshnessScore(item: FacilityRecommendation, now: Date): number {
+  const updated = item.lastUpdated ? Date.parse(item.lastUpdated) : Number.NaN;
+  if (!Number.isFinite(updated)) {
+    return 0;
+  }
+  const age = now.getTime() - updated;
+  const score =
+    age <= FRESH_AGE_MS
+      ? 1
+      : Math.max(0, 1 - (age - FRESH_AGE_MS) / (OUTDATED_AGE_MS - FRESH_AGE_MS));
+  return item.stale ? score * STALE_FRESHNESS_FACTOR : score;
+}
+
+function costScore(item: FacilityRecommendation, cheapest: number): number {
+  if (item.estimatedCostSek === null) {
+    return 0;
+  }
+  if (item.estimatedCostSek <= 0) {
+    return 1;
+  }
+  return cheapest / item.estimatedCostSek;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function score(
+  item: FacilityRecommendation,
+  options: RankingOptions,
+  cheapest: number | null
+): RankingScore {
+  const factors: RankingFactors = {
+    distance: round(decay(item.distanceMeters, DISTANCE_HALF_SCORE_METERS)),
+    walkTime: round(decay(item.walkMinutes, WALK_HALF_SCORE_MINUTES)),
+    availability: round(availabilityScore(item)),
+    freshness: round(freshnessScore(item, options.now)),
+    cost: cheapest === null ? null : round(costScore(item, cheapest))
+  };
+
+  const { weights } = options;
+  let weighted =
+    weights.distance * factors.distance +
+    weights.walkTime * factors.walkTime +
+    weights.availability * factors.availability +
+    weights.freshness * factors.freshness;
+  let weightSum = weights.distance + weights.walkTime + weights.availability + weights.freshness;
+  if (factors.cost !== null) {
+    weighted += weights.cost * factors.cost;
+    weightSum += weights.cost;
+  }
+
+  return {
+    profile: options.profile,
+    total: weightSum > 0 ? round(weighted / weightSum) : 0,
+    weights,
+    factors
+  };
+}
+
+/**
+ * Ranks recommendations by a weighted combination of distance, walk time, availability,
+ * data freshness and (when any candidate has an estimate) cost. Each result carries its
+ * per-factor scores so the ranking can be explained.
+ * @param results Unranked recommendations.
+ * @param options Ranking profile, weights and reference time.
+ * @returns Recommendations sorted best-first with `ranking` populated.
+ */
+export function sortRecommendations(
+  results: FacilityRecommendation[],
+  options: Partial<RankingOptions> = {}
+): FacilityRecommendation[] {
+  const resolved: RankingOptions = {
+    profile: options.profile ?? DEFAULT_RANKING_PROFILE,
+    weights: options.weights ?? RANKING_PROFILES[DEFAULT_RANKING_PROFILE],
+    now: options.now ?? new Date()
+  };
+
+  const costs = results
+    .map((item) => item.estimatedCostSek)
+    .filter((cost): cost is number => cost !== null && cost > 0);
+  const hasCost = results.some((item) => item.estimatedCostSek !== null);
+  const cheapest = hasCost ? (costs.length > 0 ? Math.min(...costs) : 0) : null;
+
+  return results
+    .map((item) => ({ ...item, ranking: score(item, resolved, cheapest) }))
+    .sort((a, b) => {
+      if (a.ranking.total !== b.ranking.total) {
+        return b.ranking.total - a.ranking.total;
+      }
+      if (a.distanceMeters !== b.distanceMeters) {
+        return a.distanceMeters - b.distanceMeters;
+      }
+      const freeA = a.freeSpaces ?? -1;
+      const freeB = b.freeSpaces ?? -1;
+      return freeB - freeA;
+    });
+}
@@ -0,0 +1,78 @@
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Whole tokens left after this request. */
+  remaining: number;
+  /** Time until the next token is available; 0 when allowed. */
+  retryAfterMs: number;
+}
+
+interface Bucket {
+  tokens: number;
+  capacity: number;
+  refillPerMs: number;
+  updatedAt: number;
+}
+
+/** Buckets are pruned once this many exist, so per-address buckets cannot grow without bound. */
+const PRUNE_THRESHOLD = 10_000;
+
+/**
+ * Token-bucket rate limiter keyed by client. Each bucket holds up to `burst` tokens and refills
+ * at `requestsPerMinute`; every request takes one token, or one per call it carries.
+ */
+export class RateLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+  private readonly burst: number;
+
+  constructor(burst: number) {
+    this.burst = burst;
+  }
+
+  private refill(bucket: Bucket, now: number): void {
+    const elapsed = Math.max(0, now - bucket.updatedAt);
+    bucket.tokens = Math.min(bucket.capacity, bucket.tokens + elapsed * bucket.refillPerMs);
+    bucket.updatedAt = now;
+  }
+
+  private prune(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      this.refill(bucket, now);
+      if (bucket.tokens >= bucket.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Takes tokens for a client; none are taken unless all of them are available.
+   * @param key Client key.
+   * @param requestsPerMinute Sustained rate for the client.
+   * @param now Current time in epoch ms.
+   * @param tokens Number of tokens the request costs.
+   * @returns Whether the request may proceed, and when to retry if not.
+   */
+  take(key: string, requestsPerMinute: number, now: number = Date.now(), tokens = 1): RateLimitDecision {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      if (this.buckets.size >= PRUNE_THRESHOLD) {
+        this.prune(now);
+      }
+      const capacity = Math.max(1, this.burst);
+      bucket = { tokens: capacity, capacity, refillPerMs: requestsPerMinute / 60_000, updatedAt: now };
+      this.buckets.set(key, bucket);
+    }
+    bucket.refillPerMs = requestsPerMinute / 60_000;
+    this.refill(bucket, now);
+
+    if (bucket.tokens >= tokens) {
+      bucket.tokens -= tokens;
+      return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterMs: 0 };
+    }
+    return {
+      allowed: false,
+      remaining: 0,
+      // A cost above the burst never fits; report when the bucket is full again.
+      retryAfterMs: Math.ceil((Math.min(tokens, bucket.capacity) - bucket.tokens) / bucket.refillPerMs)
+    };
+  }
+}
@@ -0,0 +1,285 @@
+import { distanceToPathMeters, pathMidpoint } from './geo.js';
+import { asRecord, geometryPath, toNumberOrNull, toStringOrNull } from './providers/util.js';
+import { forEachStockholmMinute, isWithinWeeklyWindow, LocalTime } from './time.js';
+import {
+  RegulationKind,
+  RegulationWindow,
+  StreetRegulation,
+  StreetSegmentResult
+} from './types.js';
+
+const ALL_DAYS = [1, 2, 3, 4, 5, 6, 7];
+const CLEANING_MATCH_METERS = 30;
+const UPCOMING_HORIZON_MINUTES = 7 * 24 * 60;
+
+const SWEDISH_WEEKDAYS: Record<string, number> = {
+  måndag: 1,
+  tisdag: 2,
+  onsdag: 3,
+  torsdag: 4,
+  fredag: 5,
+  lördag: 6,
+  söndag: 7
+};
+
+/** LTF-Tolken regulation types and what they mean for someone wanting to park. */
+const REGULATION_KINDS: Record<string, RegulationKind> = {
+  ptillaten: 'allowed',
+  pbuss: 'allowed',
+  plastbil: 'allowed',
+  pmotorcykel: 'allowed',
+  prorelsehindrad: 'allowed',
+  servicedagar: 'cleaning',
+  pförbud: 'forbidden',
+  pforbud: 'forbidden',
+  fstop: 'forbidden'
+};
+
+function parseWeekday(value: unknown): number | null {
+  const name = toStringOrNull(value)?.trim().toLowerCase();
+  return name ? SWEDISH_WEEKDAYS[name] ?? null : null;
+}
+
+function cyclicRange(from: number, to: number, size: number): number[] {
+  const values: number[] = [];
+  let value = from;
+  for (;;) {
+    values.push(value);
+    if (value === to || values.length >= size) {
+      return values;
+    }
+    value = value === size ? 1 : value + 1;
+  }
+}
+
+/** Reads LTF times, which come as `hhmm` integers (700, 1900) or `hh:mm` strings. */
+function parseClock(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const text = String(value).trim();
+  const match = /^(\d{1,2})[:.]?(\d{2})$/.exec(text.padStart(3, '0'));
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59) {
+    return null;
+  }
+  return hours * 60 + minutes;
+}
+
+/**
+ * Maps LTF-Tolken style GeoJSON features into street regulations.
+ * @param collection GeoJSON FeatureCollection.
+ * @param defaultType Regulation type for features without a `REGULATION_TYPE` property.
+ * @param sourceUrl Fallback source link.
+ * @returns Regulations with usable geometry and a known type.
+ */
+export function parseRegulationFeatures(
+  collection: unknown,
+  defaultType: string,
+  sourceUrl: string
+): StreetRegulation[] {
+  const record = asRecord(collection);
+  if (!record || !Array.isArray(record.features)) {
+    throw new Error('Regulation data is not a GeoJSON FeatureCollection');
+  }
+
+  const regulations: StreetRegulation[] = [];
+  for (const raw of record.features as unknown[]) {
+    const feature = asRecord(raw);
+    const properties = asRecord(feature?.properties);
+    if (!feature || !properties) {
+      continue;
+    }
+
+    const type = (toStringOrNull(properties.REGULATION_TYPE) ?? defaultType).toLowerCase();
+    const kind = REGULATION_KINDS[type];
+    const path = geometryPath(feature.geometry);
+    const objectId = toStringOrNull(properties.FEATURE_OBJECT_ID ?? feature.id);
+    if (!kind || path.length === 0 || !objectId) {
+      continue;
+    }
+
+    const startDay = parseWeekday(properties.START_WEEKDAY);
+    const endDay = parseWeekday(properties.END_WEEKDAY) ?? startDay;
+    const startMonth = toNumberOrNull(properties.START_MONTH);
+    const endMonth = toNumberOrNull(properties.END_MONTH) ?? startMonth;
+    const maxHours = toNumberOrNull(properties.MAX_HOURS);
+    const extent = toStringOrNull(properties.EXTENT_NO);
+
+    regulations.push({
+      id: `${type}:${objectId}${extent ? `-${extent}` : ''}`,
+      kind,
+      street: toStringOrNull(properties.STREET_NAME),
+      address: toStringOrNull(properties.ADDRESS),
+      path,
+      days: startDay !== null && endDay !== null ? cyclicRange(startDay, endDay, 7) : ALL_DAYS,
+      startMinute: parseClock(properties.START_TIME),
+      endMinute: parseClock(properties.END_TIME),
+      months:
+        startMonth !== null && endMonth !== null && startMonth >= 1 && endMonth <= 12
+          ? cyclicRange(startMonth, endMonth, 12)
+          : null,
+      maxMinutes: maxHours !== null && maxHours > 0 ? Math.round(maxHours * 60) : null,
+      zone: toStringOrNull(properties.PARKING_RATE),
+      vehicle: toStringOrNull(properties.VEHICLE),
+      citation: toStringOrNull(properties.CITATION),
+      sourceUrl: toStringOrNull(properties.RDT_URL) ?? sourceUrl
+    });
+  }
+  return regulations;
+}
+
+function isInEffect(regulation: StreetRegulation, local: LocalTime): boolean {
+  if (regulation.months && !regulation.months.includes(local.month)) {
+    return false;
+  }
+  if (regulation.startMinute === null || regulation.endMinute === null) {
+    return regulation.days.includes(local.weekday);
+  }
+  return isWithinWeeklyWindow(regulation.days, regulation.startMinute, regulation.endMinute, local);
+}
+
+function describeRegulation(regulation: StreetRegulation): string {
+  if (regulation.kind === 'cleaning') {
+    return 'Street cleaning';
+  }
+  return regulation.citation ?? 'Parking forbidden';
+}
+
+function scanWindows(regulation: StreetRegulation, from: Date, minutes: number): RegulationWindow[] {
+  const windows: RegulationWindow[] = [];
+  let openedAt: Date | null = null;
+
+  forEachStockholmMinute(from, minutes, (local, _offset, instant) => {
+    const active = isInEffect(regulation, local);
+    if (active && !openedAt) {
+      openedAt = instant;
+    } else if (!active && openedAt) {
+      windows.push({ start: openedAt.toISOString(), end: instant.toISOString(), reason: describeRegulation(regulation) });
+      openedAt = null;
+    }
+  });
+
+  if (openedAt) {
+    const end = new Date(from.getTime() + minutes * 60 * 1000);
+    windows.push({ start: (openedAt as Date).toISOString(), end: end.toISOString(), reason: describeRegulation(regulation) });
+  }
+  return windows;
+}
+
+function overlaps(window: RegulationWindow, start: Date, end: Date): boolean {
+  return Date.parse(window.start) < end.getTime() && Date.parse(window.end) > start.getTime();
+}
+
+/** Finds when a time limit runs out: the moment the stay has spent `maxMinutes` inside the rule's window. */
+function timeLimitExpiry(regulation: StreetRegulation, arrival: Date, durationMinutes: number): Date | null {
+  if (regulation.maxMinutes === null) {
+    return null;
+  }
+  const maxMinutes = regulation.maxMinutes;
+  let limited = 0;
+  let expiry: Date | null = null;
+
+  forEachStockholmMinute(arrival, durationMinutes, (local, _offset, instant) => {
+    if (isInEffect(regulation, local)) {
+      limited += 1;
+      if (limited > maxMinutes) {
+        expiry = instant;
+        return false;
+      }
+    }
+    return true;
+  });
+  return expiry;
+}
+
+export interface StreetParkingQuery {
+  lat: number;
+  lon: number;
+  arrival: Date;
+  durationMinutes: number;
+  radiusMeters: number;
+  maxResults: number;
+}
+
+/**
+ * Evaluates nearby street segments for a planned stay: whether parking is allowed for the whole
+ * stay, any time limit, forbidden periods and street-cleaning windows over the next week.
+ * @param regulations Loaded regulations.
+ * @param query Location, arrival, stay length and search limits.
+ * @returns Segments ordered by distance.
+ */
+export function evaluateStreetParking(
+  regulations: StreetRegulation[],
+  query: StreetParkingQuery
+): StreetSegmentResult[] {
+  const stayEnd = new Date(query.arrival.getTime() + query.durationMinutes * 60 * 1000);
+  const horizon = Math.max(query.durationMinutes, UPCOMING_HORIZON_MINUTES);
+
+  const segments = regulations
+    .filter((regulation) => regulation.kind !== 'cleaning')
+    .map((regulation) => ({
+      regulation,
+      distanceMeters: distanceToPathMeters(query.lat, query.lon, regulation.path)
+    }))
+    .filter((candidate) => candidate.distanceMeters <= query.radiusMeters)
+    .sort((a, b) => a.distanceMeters - b.distanceMeters)
+    .slice(0, query.maxResults);
+
+  return segments.map(({ regulation, distanceMeters }) => {
+    const midpoint = pathMidpoint(regulation.path) ?? regulation.path[0];
+    const street = regulation.street?.toLowerCase() ?? null;
+    const cleaning = regulations.filter(
+      (candidate) =>
+        candidate.kind === 'cleaning' &&
+        (street === null || candidate.street === null || candidate.street.toLowerCase() === street) &&
+        distanceToPathMeters(midpoint.lat, midpoint.lon, candidate.path) <= CLEANING_MATCH_METERS
+    );
+
+    const reasons: string[] = [];
+    const forbiddenWindows =
+      regulation.kind === 'forbidden' ? scanWindows(regulation, query.arrival, horizon) : [];
+    const cleaningWindows = cleaning
+      .flatMap((rule) => scanWindows(rule, query.arrival, horizon))
+      .sort((a, b) => Date.parse(a.start) - Date.parse(b.start));
+
+    for (const window of [...forbiddenWindows, ...cleaningWindows]) {
+      if (overlaps(window, query.arrival, stayEnd)) {
+        reasons.push(`${window.reason} ${window.start}–${window.end}`);
+      }
+    }
+
+    let status: StreetSegmentResult['status'] = reasons.length > 0 ? 'forbidden' : 'allowed';
+    let allowedUntil: string | null = null;
+
+    if (status === 'allowed' && regulation.kind === 'allowed') {
+      const expiry = timeLimitExpiry(regulation, query.arrival, query.durationMinutes);
+      if (expiry) {
+        status = 'time_limited';
+        allowedUntil = expiry.toISOString();
+        reasons.push(`Max ${regulation.maxMinutes} minutes`);
+      }
+    }
+
+    return {
+      id: regulation.id,
+      street: regulation.street,
+      address: regulation.address,
+      distanceMeters,
+      status,
+      reasons,
+      maxParkingMinutes: regulation.maxMinutes,
+      allowedUntil,
+      forbiddenWindows,
+      cleaningWindows,
+      zone: regulation.zone,
+      vehicle: regulation.vehicle,
+      citation: regulation.citation,
+      sourceUrl: regulation.sourceUrl
+    };
+  });
+}
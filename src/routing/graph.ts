@@ -0,0 +1,215 @@
+import { LatLon } from '../types.js';
+import { PedestrianNetwork } from './osm.js';
+
+const METERS_PER_DEGREE_LAT = 111_195;
+
+/** Grid cell edge for nearest-node lookups, in degrees of latitude (about 220 m). */
+const CELL_DEGREES = 0.002;
+
+function metersPerDegreeLon(lat: number): number {
+  return METERS_PER_DEGREE_LAT * Math.cos((lat * Math.PI) / 180);
+}
+
+/** Equirectangular distance; unrounded, since a route sums many short segments. */
+function segmentMeters(a: LatLon, b: LatLon): number {
+  const dy = (b.lat - a.lat) * METERS_PER_DEGREE_LAT;
+  const dx = (b.lon - a.lon) * metersPerDegreeLon((a.lat + b.lat) / 2);
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+/** Binary min-heap of node indexes keyed by tentative distance, for Dijkstra. */
+class MinHeap {
+  private readonly nodes: number[] = [];
+  private readonly keys: number[] = [];
+
+  get size(): number {
+    return this.nodes.length;
+  }
+
+  push(node: number, key: number): void {
+    this.nodes.push(node);
+    this.keys.push(key);
+    let index = this.nodes.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.keys[parent] <= key) {
+        break;
+      }
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  pop(): { node: number; key: number } {
+    const top = { node: this.nodes[0], key: this.keys[0] };
+    const lastNode = this.nodes.pop() as number;
+    const lastKey = this.keys.pop() as number;
+    if (this.nodes.length > 0) {
+      this.nodes[0] = lastNode;
+      this.keys[0] = lastKey;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < this.nodes.length && this.keys[left] < this.keys[smallest]) {
+          smallest = left;
+        }
+        if (right < this.nodes.length && this.keys[right] < this.keys[smallest]) {
+          smallest = right;
+        }
+        if (smallest === index) {
+          break;
+        }
+        this.swap(index, smallest);
+        index = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.nodes[a], this.nodes[b]] = [this.nodes[b], this.nodes[a]];
+    [this.keys[a], this.keys[b]] = [this.keys[b], this.keys[a]];
+  }
+}
+
+export interface SnappedPoint {
+  node: number;
+  /** Straight-line distance from the point to the node. */
+  distanceMeters: number;
+}
+
+/**
+ * Undirected pedestrian graph in compressed adjacency form, with a grid index for snapping
+ * points to their nearest node.
+ */
+export class WalkingGraph {
+  private readonly lats: Float64Array;
+  private readonly lons: Float64Array;
+  /** Edges of node `i` are `targets[offsets[i]]` … `targets[offsets[i + 1] - 1]`. */
+  private readonly offsets: Uint32Array;
+  private readonly targets: Uint32Array;
+  private readonly weights: Float32Array;
+  private readonly grid = new Map<string, number[]>();
+
+  constructor(network: PedestrianNetwork) {
+    const index = new Map<string, number>();
+    this.lats = new Float64Array(network.nodes.size);
+    this.lons = new Float64Array(network.nodes.size);
+    for (const [id, point] of network.nodes) {
+      const node = index.size;
+      index.set(id, node);
+      this.lats[node] = point.lat;
+      this.lons[node] = point.lon;
+      const cell = this.cellKey(this.cellOf(point));
+      const members = this.grid.get(cell) ?? [];
+      members.push(node);
+      this.grid.set(cell, members);
+    }
+
+    const edges: [number, number][] = [];
+    for (const way of network.ways) {
+      for (let i = 1; i < way.length; i += 1) {
+        const from = index.get(way[i - 1]);
+        const to = index.get(way[i]);
+        if (from !== undefined && to !== undefined && from !== to) {
+          edges.push([from, to], [to, from]);
+        }
+      }
+    }
+    edges.sort((a, b) => a[0] - b[0]);
+
+    this.offsets = new Uint32Array(this.lats.length + 1);
+    this.targets = new Uint32Array(edges.length);
+    this.weights = new Float32Array(edges.length);
+    edges.forEach(([from, to], position) => {
+      this.offsets[from + 1] += 1;
+      this.targets[position] = to;
+      this.weights[position] = segmentMeters(this.point(from), this.point(to));
+    });
+    for (let node = 0; node < this.lats.length; node += 1) {
+      this.offsets[node + 1] += this.offsets[node];
+    }
+  }
+
+  get nodeCount(): number {
+    return this.lats.length;
+  }
+
+  /** Directed edge count; every way segment contributes two. */
+  get edgeCount(): number {
+    return this.targets.length;
+  }
+
+  point(node: number): LatLon {
+    return { lat: this.lats[node], lon: this.lons[node] };
+  }
+
+  private cellOf(point: LatLon): [number, number] {
+    // Cells are twice as wide in longitude, which makes them roughly square at Stockholm's latitude.
+    return [Math.floor(point.lat / CELL_DEGREES), Math.floor(point.lon / (CELL_DEGREES * 2))];
+  }
+
+  private cellKey([row, column]: [number, number]): string {
+    return `${row}:${column}`;
+  }
+
+  /**
+   * Finds the graph node closest to a point.
+   * @param point Point to snap.
+   * @param maxMeters Largest acceptable distance to the node.
+   * @returns Nearest node within `maxMeters`, or null when there is none.
+   */
+  nearestNode(point: LatLon, maxMeters: number): SnappedPoint | null {
+    const [row, column] = this.cellOf(point);
+    const cellMeters = Math.min(CELL_DEGREES * METERS_PER_DEGREE_LAT, CELL_DEGREES * 2 * metersPerDegreeLon(point.lat));
+    const rings = Math.max(1, Math.ceil(maxMeters / cellMeters));
+
+    let best: SnappedPoint | null = null;
+    for (let dRow = -rings; dRow <= rings; dRow += 1) {
+      for (let dColumn = -rings; dColumn <= rings; dColumn += 1) {
+        for (const node of this.grid.get(this.cellKey([row + dRow, column + dColumn])) ?? []) {
+          const distanceMeters = segmentMeters(point, this.point(node));
+          if (distanceMeters <= maxMeters && (!best || distanceMeters < best.distanceMeters)) {
+            best = { node, distanceMeters };
+          }
+        }
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Shortest network distances from one node (Dijkstra), stopping at a distance limit.
+   * @param source Start node.
+   * @param limitMeters Nodes further away than this are not settled.
+   * @returns Distance in meters to every node reached within the limit.
+   */
+  distancesFrom(source: number, limitMeters: number): Map<number, number> {
+    const settled = new Map<number, number>();
+    const tentative = new Map<number, number>([[source, 0]]);
+    const heap = new MinHeap();
+    heap.push(source, 0);
+
+    while (heap.size > 0) {
+      const { node, key } = heap.pop();
+      if (key > limitMeters) {
+        break;
+      }
+      if (settled.has(node)) {
+        continue;
+      }
+      settled.set(node, key);
+      for (let edge = this.offsets[node]; edge < this.offsets[node + 1]; edge += 1) {
+        const target = this.targets[edge];
+        const distance = key + this.weights[edge];
+        if (!settled.has(target) && distance < (tentative.get(target) ?? Number.POSITIVE_INFINITY)) {
+          tentative.set(target, distance);
+          heap.push(target, distance);
+        }
+      }
+    }
+    return settled;
+  }
+}
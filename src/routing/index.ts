@@ -0,0 +1,109 @@
+import { promises as fs } from 'node:fs';
+import { haversineDistanceMeters } from '../geo.js';
+import { Logger } from '../log.js';
+import { withSpan } from '../tracing.js';
+import { LatLon, ServiceConfig, WalkMethod } from '../types.js';
+import { WalkingGraph } from './graph.js';
+import { parseOsmExtract } from './osm.js';
+
+/**
+ * Network distances are only searched up to this multiple of the longest straight-line distance;
+ * a facility further away on foot than that is treated as unreachable over the extract.
+ */
+const MAX_DETOUR_FACTOR = 4;
+
+export interface WalkingDistance {
+  distanceMeters: number;
+  method: WalkMethod;
+}
+
+let sharedGraph: Promise<WalkingGraph | null> | undefined;
+
+async function loadWalkingGraph(file: string, log: Logger): Promise<WalkingGraph | null> {
+  const startedAt = Date.now();
+  try {
+    const graph = new WalkingGraph(parseOsmExtract(file, await fs.readFile(file, 'utf-8')));
+    log.info('Loaded pedestrian network', {
+      file,
+      nodes: graph.nodeCount,
+      edges: graph.edgeCount,
+      durationMs: Date.now() - startedAt
+    });
+    return graph;
+  } catch (error) {
+    log.error('Failed to load pedestrian network; walking times use straight-line distance', {
+      file,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+  }
+}
+
+/**
+ * Returns the process-wide pedestrian graph built from `WALKING_GRAPH_FILE`. The extract is read
+ * once, on first use; a file that fails to load is not retried until the process restarts.
+ * @param config Service configuration.
+ * @param log Logger used for load diagnostics.
+ * @returns Shared graph, or null when none is configured or it failed to load.
+ */
+export function getWalkingGraph(config: ServiceConfig, log: Logger): Promise<WalkingGraph | null> {
+  if (!config.walkingGraphFile) {
+    return Promise.resolve(null);
+  }
+  sharedGraph ??= loadWalkingGraph(config.walkingGraphFile, log);
+  return sharedGraph;
+}
+
+/**
+ * Walking distances from several origins to one destination. With a pedestrian graph loaded, one
+ * shortest-path search from the destination covers every origin, so bridges and the long way
+ * round water are accounted for; origins or destinations more than `WALKING_SNAP_METERS` from the
+ * network, or not connected to it, fall back to straight-line distance.
+ * @param config Service configuration.
+ * @param log Logger.
+ * @param destination Where the user is walking to.
+ * @param origins Where the user starts walking, e.g. facilities.
+ * @returns Distance and method per origin, in the same order.
+ */
+export async function estimateWalkingDistances(
+  config: ServiceConfig,
+  log: Logger,
+  destination: LatLon,
+  origins: LatLon[]
+): Promise<WalkingDistance[]> {
+  const straightLine = origins.map(
+    (origin): WalkingDistance => ({
+      distanceMeters: haversineDistanceMeters(origin.lat, origin.lon, destination.lat, destination.lon),
+      method: 'straight_line'
+    })
+  );
+
+  const graph = await getWalkingGraph(config, log);
+  if (!graph || origins.length === 0) {
+    return straightLine;
+  }
+
+  return withSpan('walkingDistances', { 'walking.origins': origins.length }, (span) => {
+    const target = graph.nearestNode(destination, config.walkingSnapMeters);
+    if (!target) {
+      span.setAttribute('walking.network', 0);
+      return Promise.resolve(straightLine);
+    }
+
+    const longest = Math.max(...straightLine.map((estimate) => estimate.distanceMeters));
+    const distances = graph.distancesFrom(target.node, longest * MAX_DETOUR_FACTOR + 2 * config.walkingSnapMeters);
+
+    const estimates = origins.map((origin, index): WalkingDistance => {
+      const start = graph.nearestNode(origin, config.walkingSnapMeters);
+      const networkMeters = start ? distances.get(start.node) : undefined;
+      if (!start || networkMeters === undefined) {
+        return straightLine[index];
+      }
+      const total = Math.round(start.distanceMeters + networkMeters + target.distanceMeters);
+      // Snapping both ends can cut a corner; a walk is never shorter than the straight line.
+      return { distanceMeters: Math.max(total, straightLine[index].distanceMeters), method: 'network' };
+    });
+    span.setAttribute('walking.network', estimates.filter((estimate) => estimate.method === 'network').length);
+    return Promise.resolve(estimates);
+  });
+}
@@ -0,0 +1,183 @@
+import path from 'node:path';
+import { XMLParser } from 'fast-xml-parser';
+import { asRecord, toNumberOrNull, toStringOrNull } from '../providers/util.js';
+import { LatLon } from '../types.js';
+
+/** Walkable parts of an OSM extract: node positions and the node sequence of every walkable way. */
+export interface PedestrianNetwork {
+  nodes: Map<string, LatLon>;
+  ways: string[][];
+}
+
+/** Highway types pedestrians may use unless tagged otherwise; motorways and trunk roads are left out. */
+const WALKABLE_HIGHWAYS = new Set([
+  'footway',
+  'pedestrian',
+  'path',
+  'steps',
+  'corridor',
+  'crossing',
+  'platform',
+  'cycleway',
+  'track',
+  'living_street',
+  'residential',
+  'service',
+  'unclassified',
+  'road',
+  'tertiary',
+  'tertiary_link',
+  'secondary',
+  'secondary_link',
+  'primary',
+  'primary_link'
+]);
+
+const FOOT_ALLOWED = new Set(['yes', 'designated', 'permissive']);
+const FOOT_FORBIDDEN = new Set(['no', 'private', 'use_sidepath']);
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  parseTagValue: false,
+  isArray: (name) => name === 'node' || name === 'way' || name === 'nd' || name === 'tag'
+});
+
+/**
+ * Decides from its tags whether pedestrians may use a way. An explicit `foot` tag wins; otherwise
+ * `access=no`/`private` excludes it and the highway type decides.
+ * @param tags OSM tags of the way.
+ * @returns True when the way belongs in the pedestrian network.
+ */
+export function isWalkable(tags: Record<string, string>): boolean {
+  const { foot, access, highway } = tags;
+  if (foot !== undefined && FOOT_FORBIDDEN.has(foot)) {
+    return false;
+  }
+  if (foot !== undefined && FOOT_ALLOWED.has(foot)) {
+    return highway !== undefined;
+  }
+  if (access === 'no' || access === 'private') {
+    return false;
+  }
+  return highway !== undefined && WALKABLE_HIGHWAYS.has(highway);
+}
+
+function buildNetwork(
+  nodeEntries: [string, LatLon][],
+  wayEntries: { refs: string[]; tags: Record<string, string> }[]
+): PedestrianNetwork {
+  const allNodes = new Map(nodeEntries);
+  const nodes = new Map<string, LatLon>();
+  const ways: string[][] = [];
+
+  for (const way of wayEntries) {
+    if (!isWalkable(way.tags)) {
+      continue;
+    }
+    // Extracts cut at a bounding box keep ways whose nodes lie partly outside it.
+    const refs = way.refs.filter((ref) => allNodes.has(ref));
+    if (refs.length < 2) {
+      continue;
+    }
+    for (const ref of refs) {
+      nodes.set(ref, allNodes.get(ref) as LatLon);
+    }
+    ways.push(refs);
+  }
+
+  return { nodes, ways };
+}
+
+/**
+ * Reads an OSM XML extract (`.osm`), as produced by osmium, osmconvert or the OSM export.
+ * @param text File content.
+ * @returns Walkable network.
+ */
+export function parseOsmXml(text: string): PedestrianNetwork {
+  const osm = asRecord(asRecord(parser.parse(text))?.osm);
+  if (!osm) {
+    throw new Error('Not an OSM XML document');
+  }
+
+  const nodes: [string, LatLon][] = [];
+  for (const node of (osm.node as unknown[] | undefined) ?? []) {
+    const record = asRecord(node);
+    const id = toStringOrNull(record?.['@_id']);
+    const lat = toNumberOrNull(record?.['@_lat']);
+    const lon = toNumberOrNull(record?.['@_lon']);
+    if (id !== null && lat !== null && lon !== null) {
+      nodes.push([id, { lat, lon }]);
+    }
+  }
+
+  const ways: { refs: string[]; tags: Record<string, string> }[] = [];
+  for (const way of (osm.way as unknown[] | undefined) ?? []) {
+    const record = asRecord(way);
+    const refs = ((record?.nd as unknown[] | undefined) ?? [])
+      .map((nd) => toStringOrNull(asRecord(nd)?.['@_ref']))
+      .filter((ref): ref is string => ref !== null);
+    const tags: Record<string, string> = {};
+    for (const tag of (record?.tag as unknown[] | undefined) ?? []) {
+      const key = toStringOrNull(asRecord(tag)?.['@_k']);
+      const value = toStringOrNull(asRecord(tag)?.['@_v']);
+      if (key !== null && value !== null) {
+        tags[key] = value;
+      }
+    }
+    ways.push({ refs, tags });
+  }
+
+  return buildNetwork(nodes, ways);
+}
+
+/**
+ * Reads an Overpass API JSON extract (`[out:json]` with `out body;` ways and their nodes).
+ * @param text File content.
+ * @returns Walkable network.
+ */
+export function parseOverpassJson(text: string): PedestrianNetwork {
+  const elements = asRecord(JSON.parse(text))?.elements;
+  if (!Array.isArray(elements)) {
+    throw new Error('Not an Overpass JSON document: missing elements');
+  }
+  const records = elements.map(asRecord).filter((element): element is Record<string, unknown> => element !== null);
+
+  const nodes: [string, LatLon][] = [];
+  const ways: { refs: string[]; tags: Record<string, string> }[] = [];
+  for (const element of records) {
+    const id = toStringOrNull(element.id);
+    if (element.type === 'node') {
+      const lat = toNumberOrNull(element.lat);
+      const lon = toNumberOrNull(element.lon);
+      if (id !== null && lat !== null && lon !== null) {
+        nodes.push([id, { lat, lon }]);
+      }
+    } else if (element.type === 'way' && Array.isArray(element.nodes)) {
+      const tags = Object.fromEntries(
+        Object.entries(asRecord(element.tags) ?? {}).map(([key, value]) => [key, String(value)])
+      );
+      ways.push({ refs: element.nodes.map(String), tags });
+    }
+  }
+
+  return buildNetwork(nodes, ways);
+}
+
+/**
+ * Parses an extract, choosing the format by extension: `.osm`/`.xml` for OSM XML, `.json` for
+ * Overpass JSON.
+ * @param file File name, for the extension.
+ * @param text File content.
+ * @returns Walkable network.
+ */
+export function parseOsmExtract(file: string, text: string): PedestrianNetwork {
+  const extension = path.extname(file).toLowerCase();
+  if (extension === '.osm' || extension === '.xml') {
+    return parseOsmXml(text);
+  }
+  if (extension === '.json') {
+    return parseOverpassJson(text);
+  }
+  throw new Error(`Unsupported OSM extract '${file}': expected .osm, .xml or .json`);
+}
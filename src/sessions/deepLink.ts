@@ -0,0 +1,83 @@
+import { ParkingSession, ServiceConfig, SessionAdapter, SessionAdapterResult } from '../types.js';
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+const PLACEHOLDER_PARAM = /^[^=]+=\{(\w+)\}$/;
+
+/**
+ * Fills `{name}` placeholders of a link template, URL-encoding the values. Query parameters set to
+ * just a placeholder whose value is null are left out, so a link carries no empty `plate=`.
+ * Unknown placeholders are left as they are.
+ * @param template Link template.
+ * @param values Placeholder values; null when there is no value.
+ * @returns Link.
+ */
+export function fillLinkTemplate(template: string, values: Record<string, string | number | null>): string {
+  const fill = (part: string): string =>
+    part.replace(PLACEHOLDER, (placeholder, name: string) => {
+      if (!(name in values)) {
+        return placeholder;
+      }
+      const value = values[name];
+      return value === null ? '' : encodeURIComponent(String(value));
+    });
+
+  const queryStart = template.indexOf('?');
+  if (queryStart === -1) {
+    return fill(template);
+  }
+  const params = template
+    .slice(queryStart + 1)
+    .split('&')
+    .filter((param) => {
+      const name = PLACEHOLDER_PARAM.exec(param)?.[1];
+      return name === undefined || values[name] !== null;
+    });
+  const base = fill(template.slice(0, queryStart));
+  return params.length > 0 ? `${base}?${params.map(fill).join('&')}` : base;
+}
+
+function minutesUntil(endsAt: Date): number {
+  return Math.max(0, Math.ceil((endsAt.getTime() - Date.now()) / 60_000));
+}
+
+/**
+ * Adapter for apps without a public API for third parties: every change is handed to the user as
+ * a deep link that opens the app prefilled, and only takes effect once confirmed there. A stop
+ * links without `minutes`. The adapter is unavailable until its link template is configured.
+ * @param id Adapter id.
+ * @param template Picks the link template from the configuration.
+ * @returns Session adapter.
+ */
+export function createDeepLinkAdapter(id: string, template: (config: ServiceConfig) => string | null): SessionAdapter {
+  const handoff = (
+    config: ServiceConfig,
+    session: Pick<ParkingSession, 'zoneCode' | 'licensePlate'>,
+    minutes: number | null
+  ): Promise<SessionAdapterResult> => {
+    const linkTemplate = template(config);
+    if (linkTemplate === null) {
+      return Promise.reject(new Error(`Session adapter '${id}' has no link template configured`));
+    }
+    return Promise.resolve({
+      externalId: null,
+      deepLink: fillLinkTemplate(linkTemplate, {
+        zoneCode: session.zoneCode,
+        licensePlate: session.licensePlate,
+        minutes
+      }),
+      requiresConfirmation: true
+    });
+  };
+
+  return {
+    id,
+    isConfigured: (config) => template(config) !== null,
+    start: (request, context) => handoff(context.config, request, minutesUntil(request.endsAt)),
+    extend: (session, endsAt, context) => handoff(context.config, session, minutesUntil(endsAt)),
+    stop: (session, context) => handoff(context.config, session, null)
+  };
+}
+
+export const easyparkAdapter = createDeepLinkAdapter('easypark', (config) => config.easyparkLinkTemplate);
+
+export const parksterAdapter = createDeepLinkAdapter('parkster', (config) => config.parksterLinkTemplate);
@@ -0,0 +1,254 @@
+import { randomUUID } from 'node:crypto';
+import { createProviderContext } from '../data.js';
+import { Logger, logger } from '../log.js';
+import { metrics } from '../metrics.js';
+import { ParkingSession, ServiceConfig, SessionAdapter, SessionAdapterResult } from '../types.js';
+import { easyparkAdapter, parksterAdapter } from './deepLink.js';
+import { mockSessionAdapter } from './mock.js';
+import { SessionStore } from './store.js';
+
+const registry = new Map<string, SessionAdapter>();
+
+/**
+ * Registers a session adapter so it can be enabled through the `SESSION_ADAPTERS` setting.
+ * @param adapter Session adapter; replaces any adapter registered under the same id.
+ */
+export function registerSessionAdapter(adapter: SessionAdapter): void {
+  registry.set(adapter.id, adapter);
+}
+
+registerSessionAdapter(easyparkAdapter);
+registerSessionAdapter(parksterAdapter);
+registerSessionAdapter(mockSessionAdapter);
+
+/**
+ * Resolves the enabled session adapters in configured order, leaving out those the configuration
+ * does not support yet, such as a deep-link adapter without a link template.
+ * @param config Service configuration.
+ * @returns Session adapters.
+ */
+export function getEnabledSessionAdapters(config: ServiceConfig): SessionAdapter[] {
+  return config.sessionAdapters
+    .map((id) => {
+      const adapter = registry.get(id);
+      if (!adapter) {
+        throw new Error(`Unknown session adapter '${id}'. Registered adapters: ${[...registry.keys()].join(', ')}`);
+      }
+      return adapter;
+    })
+    .filter((adapter) => adapter.isConfigured?.(config) ?? true);
+}
+
+let sharedStore: SessionStore | undefined;
+
+/**
+ * Returns the process-wide session store for the given configuration. It outlives any one
+ * request, so it logs through the base logger.
+ * @param config Service configuration.
+ * @returns Shared store.
+ */
+export function getSessionStore(config: ServiceConfig): SessionStore {
+  if (!sharedStore) {
+    sharedStore = new SessionStore(config.sessionsFile, logger);
+  }
+  return sharedStore;
+}
+
+function sessionError(
+  message: 'Session not found' | 'Session is not active' | 'Session has no pending change',
+  sessionId: string
+): Error {
+  const error = new Error(message);
+  (error as Error & { details?: unknown }).details = { sessionId };
+  return error;
+}
+
+async function track(
+  adapter: string,
+  action: 'start' | 'extend' | 'stop',
+  change: () => Promise<SessionAdapterResult>
+): Promise<SessionAdapterResult> {
+  try {
+    const result = await change();
+    metrics.parkingSessionChanges.inc({ adapter, action, result: 'ok' });
+    return result;
+  } catch (error) {
+    metrics.parkingSessionChanges.inc({ adapter, action, result: 'error' });
+    throw error;
+  }
+}
+
+async function activeSession(config: ServiceConfig, log: Logger, sessionId: string): Promise<ParkingSession> {
+  const session = await getSessionStore(config).get(sessionId);
+  if (!session) {
+    throw sessionError('Session not found', sessionId);
+  }
+  if (session.status !== 'active') {
+    throw sessionError('Session is not active', sessionId);
+  }
+  return session;
+}
+
+function adapterOf(session: ParkingSession): SessionAdapter {
+  const adapter = registry.get(session.adapter);
+  if (!adapter) {
+    throw new Error(`Unknown session adapter '${session.adapter}'`);
+  }
+  return adapter;
+}
+
+export interface StartSessionRequest {
+  adapter: SessionAdapter;
+  facilityId: string | null;
+  zoneCode: string;
+  licensePlate: string | null;
+  durationMinutes: number;
+}
+
+/**
+ * Starts a parking session through an adapter and keeps it in local state.
+ * @param config Service configuration.
+ * @param log Logger.
+ * @param request What to park and for how long.
+ * @param signal Abort signal for adapter requests.
+ * @returns The new session.
+ */
+export async function startSession(
+  config: ServiceConfig,
+  log: Logger,
+  request: StartSessionRequest,
+  signal?: AbortSignal
+): Promise<ParkingSession> {
+  const now = new Date();
+  const endsAt = new Date(now.getTime() + request.durationMinutes * 60_000);
+  const { adapter, zoneCode, licensePlate } = request;
+  const result = await track(adapter.id, 'start', () =>
+    adapter.start({ zoneCode, licensePlate, endsAt }, createProviderContext(config, log, signal))
+  );
+
+  const session: ParkingSession = {
+    id: randomUUID(),
+    adapter: adapter.id,
+    facilityId: request.facilityId,
+    zoneCode,
+    licensePlate,
+    status: result.requiresConfirmation ? 'pending' : 'active',
+    startedAt: now.toISOString(),
+    endsAt: endsAt.toISOString(),
+    stoppedAt: null,
+    ...result,
+    pendingChange: result.requiresConfirmation ? { action: 'start', endsAt: endsAt.toISOString() } : null
+  };
+  await getSessionStore(config).save(session);
+  log.info('Started parking session', {
+    sessionId: session.id,
+    adapter: adapter.id,
+    zoneCode,
+    pending: result.requiresConfirmation
+  });
+  return session;
+}
+
+/**
+ * Moves the end of an active session later. When the adapter needs the user to confirm, the
+ * extension is kept pending and the end only moves once it is confirmed.
+ * @param config Service configuration.
+ * @param log Logger.
+ * @param sessionId Session id.
+ * @param additionalMinutes Minutes added to the current end.
+ * @param signal Abort signal for adapter requests.
+ * @returns The updated session.
+ */
+export async function extendSession(
+  config: ServiceConfig,
+  log: Logger,
+  sessionId: string,
+  additionalMinutes: number,
+  signal?: AbortSignal
+): Promise<ParkingSession> {
+  const session = await activeSession(config, log, sessionId);
+  const endsAt = new Date(Date.parse(session.endsAt) + additionalMinutes * 60_000);
+  const result = await track(session.adapter, 'extend', () =>
+    adapterOf(session).extend(session, endsAt, createProviderContext(config, log, signal))
+  );
+
+  const updated: ParkingSession = result.requiresConfirmation
+    ? { ...session, ...result, pendingChange: { action: 'extend', endsAt: endsAt.toISOString() } }
+    : { ...session, ...result, endsAt: endsAt.toISOString(), pendingChange: null };
+  await getSessionStore(config).save(updated);
+  log.info('Extended parking session', {
+    sessionId,
+    adapter: session.adapter,
+    additionalMinutes,
+    pending: result.requiresConfirmation
+  });
+  return updated;
+}
+
+/**
+ * Stops an active session. When the adapter needs the user to confirm, the stop is kept pending
+ * and the session stays active until it is confirmed.
+ * @param config Service configuration.
+ * @param log Logger.
+ * @param sessionId Session id.
+ * @param signal Abort signal for adapter requests.
+ * @returns The stopped session.
+ */
+export async function stopSession(
+  config: ServiceConfig,
+  log: Logger,
+  sessionId: string,
+  signal?: AbortSignal
+): Promise<ParkingSession> {
+  const session = await activeSession(config, log, sessionId);
+  const result = await track(session.adapter, 'stop', () =>
+    adapterOf(session).stop(session, createProviderContext(config, log, signal))
+  );
+
+  const updated: ParkingSession = result.requiresConfirmation
+    ? { ...session, ...result, pendingChange: { action: 'stop', endsAt: session.endsAt } }
+    : { ...session, ...result, status: 'stopped', stoppedAt: new Date().toISOString(), pendingChange: null };
+  await getSessionStore(config).save(updated);
+  log.info('Stopped parking session', { sessionId, adapter: session.adapter, pending: result.requiresConfirmation });
+  return updated;
+}
+
+/**
+ * Applies the change the user confirmed in the provider's app. A confirmed start runs for the
+ * requested duration from the moment of confirmation.
+ * @param config Service configuration.
+ * @param log Logger.
+ * @param sessionId Session id.
+ * @returns The updated session.
+ */
+export async function confirmSession(config: ServiceConfig, log: Logger, sessionId: string): Promise<ParkingSession> {
+  const session = await getSessionStore(config).get(sessionId);
+  if (!session) {
+    throw sessionError('Session not found', sessionId);
+  }
+  const change = session.pendingChange;
+  if (!change) {
+    throw sessionError('Session has no pending change', sessionId);
+  }
+  if (session.status !== 'pending' && session.status !== 'active') {
+    throw sessionError('Session is not active', sessionId);
+  }
+
+  const now = new Date();
+  const confirmed: ParkingSession = { ...session, deepLink: null, requiresConfirmation: false, pendingChange: null };
+  if (change.action === 'start') {
+    const durationMs = Date.parse(change.endsAt) - Date.parse(session.startedAt);
+    confirmed.status = 'active';
+    confirmed.startedAt = now.toISOString();
+    confirmed.endsAt = new Date(now.getTime() + durationMs).toISOString();
+  } else if (change.action === 'extend') {
+    confirmed.endsAt = change.endsAt;
+  } else {
+    confirmed.status = 'stopped';
+    confirmed.stoppedAt = now.toISOString();
+  }
+
+  await getSessionStore(config).save(confirmed);
+  log.info('Confirmed parking session change', { sessionId, adapter: session.adapter, action: change.action });
+  return confirmed;
+}
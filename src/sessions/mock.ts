@@ -0,0 +1,26 @@
+import { SessionAdapter } from '../types.js';
+
+let nextReference = 1;
+
+/**
+ * Offline adapter that accepts every change immediately, for trying the session flow without a
+ * payment provider. Enable it by adding `mock` to `SESSION_ADAPTERS`; zone `FAIL` is rejected so
+ * error handling can be exercised too.
+ */
+export const mockSessionAdapter: SessionAdapter = {
+  id: 'mock',
+  start(request) {
+    if (request.zoneCode === 'FAIL') {
+      return Promise.reject(new Error('Mock provider rejected the session'));
+    }
+    const externalId = `mock-${nextReference}`;
+    nextReference += 1;
+    return Promise.resolve({ externalId, deepLink: null, requiresConfirmation: false });
+  },
+  extend(session) {
+    return Promise.resolve({ externalId: session.externalId, deepLink: null, requiresConfirmation: false });
+  },
+  stop(session) {
+    return Promise.resolve({ externalId: session.externalId, deepLink: null, requiresConfirmation: false });
+  }
+};
@@ -0,0 +1,98 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { Logger } from '../log.js';
+import { ParkingSession } from '../types.js';
+
+/**
+ * Parking sessions in memory and, when a file is configured, in a JSON file rewritten on every
+ * change so sessions survive restarts. Sessions past their end are reported as `expired` on read.
+ */
+export class SessionStore {
+  private readonly file: string | null;
+  private readonly log: Logger;
+  private readonly sessions = new Map<string, ParkingSession>();
+  private loadPromise?: Promise<void>;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(file: string | null, log: Logger) {
+    this.file = file;
+    this.log = log;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.readFile();
+    }
+    return this.loadPromise;
+  }
+
+  private async readFile(): Promise<void> {
+    if (!this.file) {
+      return;
+    }
+
+    try {
+      const sessions = JSON.parse(await fs.readFile(this.file, 'utf-8')) as ParkingSession[];
+      for (const session of sessions) {
+        // Files written before changes could be pending have no `pendingChange`.
+        this.sessions.set(session.id, { ...session, pendingChange: session.pendingChange ?? null });
+      }
+      this.log.info('Loaded parking sessions', { file: this.file, count: this.sessions.size });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.log.error('Failed to read parking sessions', {
+          file: this.file,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+
+  private persist(): Promise<void> {
+    const file = this.file;
+    if (!file) {
+      return Promise.resolve();
+    }
+
+    const content = JSON.stringify([...this.sessions.values()], null, 2);
+    this.writeChain = this.writeChain
+      .then(async () => {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        // Write then rename so a crash mid-write never leaves a truncated file.
+        await fs.writeFile(`${file}.tmp`, content);
+        await fs.rename(`${file}.tmp`, file);
+      })
+      .catch((error) => {
+        this.log.error('Failed to write parking sessions', {
+          file,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    return this.writeChain;
+  }
+
+  /**
+   * Looks a session up.
+   * @param id Session id.
+   * @param now Time used to decide whether an active session has expired.
+   * @returns Session, or undefined when the id is unknown.
+   */
+  async get(id: string, now: Date = new Date()): Promise<ParkingSession | undefined> {
+    await this.load();
+    const session = this.sessions.get(id);
+    if (session?.status === 'active' && Date.parse(session.endsAt) <= now.getTime()) {
+      return { ...session, status: 'expired' };
+    }
+    return session;
+  }
+
+  /**
+   * Stores a new or changed session.
+   * @param session Session to store.
+   */
+  async save(session: ParkingSession): Promise<void> {
+    await this.load();
+    this.sessions.set(session.id, session);
+    await this.persist();
+  }
+}
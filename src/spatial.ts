@@ -0,0 +1,198 @@
+import { haversineDistanceMeters } from './geo.js';
+import { LatLon } from './types.js';
+
+const METERS_PER_DEGREE_LAT = 111_195;
+
+/** Grid cell edge in degrees of latitude (about 1.1 km); cells are twice as wide in longitude. */
+const DEFAULT_CELL_DEGREES = 0.01;
+
+export interface SpatialMatch<T> {
+  item: T;
+  distanceMeters: number;
+}
+
+export interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+function byDistance<T>(a: SpatialMatch<T>, b: SpatialMatch<T>): number {
+  return a.distanceMeters - b.distanceMeters;
+}
+
+/**
+ * Fixed-grid index over points for radius, bounding-box and k-nearest queries. Queries only
+ * measure distances to points in the cells they overlap instead of every point. Built once per
+ * data set; build it again when the points change.
+ */
+export class SpatialIndex<T extends LatLon> {
+  readonly size: number;
+  private readonly cellDegrees: number;
+  private readonly cells = new Map<string, T[]>();
+  private minRow = Number.POSITIVE_INFINITY;
+  private maxRow = Number.NEGATIVE_INFINITY;
+  private minColumn = Number.POSITIVE_INFINITY;
+  private maxColumn = Number.NEGATIVE_INFINITY;
+
+  constructor(items: T[], cellDegrees: number = DEFAULT_CELL_DEGREES) {
+    this.cellDegrees = cellDegrees;
+    this.size = items.length;
+    for (const item of items) {
+      const row = this.rowOf(item.lat);
+      const column = this.columnOf(item.lon);
+      const key = `${row}:${column}`;
+      const cell = this.cells.get(key);
+      if (cell) {
+        cell.push(item);
+      } else {
+        this.cells.set(key, [item]);
+      }
+      this.minRow = Math.min(this.minRow, row);
+      this.maxRow = Math.max(this.maxRow, row);
+      this.minColumn = Math.min(this.minColumn, column);
+      this.maxColumn = Math.max(this.maxColumn, column);
+    }
+  }
+
+  private rowOf(lat: number): number {
+    return Math.floor(lat / this.cellDegrees);
+  }
+
+  private columnOf(lon: number): number {
+    return Math.floor(lon / (this.cellDegrees * 2));
+  }
+
+  /** Points in every cell overlapping a box; some may lie outside the box itself. */
+  private *itemsInCells(box: BoundingBox): Generator<T> {
+    const lastRow = Math.min(this.rowOf(box.north), this.maxRow);
+    const firstColumn = Math.max(this.columnOf(box.west), this.minColumn);
+    const lastColumn = Math.min(this.columnOf(box.east), this.maxColumn);
+    for (let row = Math.max(this.rowOf(box.south), this.minRow); row <= lastRow; row += 1) {
+      for (let column = firstColumn; column <= lastColumn; column += 1) {
+        yield* this.cells.get(`${row}:${column}`) ?? [];
+      }
+    }
+  }
+
+  /**
+   * Points inside a bounding box, in no particular order.
+   * @param box Box in decimal degrees.
+   * @returns Points inside the box.
+   */
+  withinBox(box: BoundingBox): T[] {
+    const found: T[] = [];
+    for (const item of this.itemsInCells(box)) {
+      if (item.lat >= box.south && item.lat <= box.north && item.lon >= box.west && item.lon <= box.east) {
+        found.push(item);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Points within a distance of a center, nearest first.
+   * @param center Query point.
+   * @param radiusMeters Largest distance, inclusive.
+   * @returns Matching points with their Haversine distances.
+   */
+  withinRadius(center: LatLon, radiusMeters: number): SpatialMatch<T>[] {
+    const matches: SpatialMatch<T>[] = [];
+    for (const item of this.itemsInCells(boxAround(center, radiusMeters))) {
+      const distanceMeters = haversineDistanceMeters(center.lat, center.lon, item.lat, item.lon);
+      if (distanceMeters <= radiusMeters) {
+        matches.push({ item, distanceMeters });
+      }
+    }
+    return matches.sort(byDistance);
+  }
+
+  /**
+   * The `k` points nearest to a center. Searches rings of cells outward and stops once no
+   * unsearched cell can hold a closer point.
+   * @param center Query point.
+   * @param k Number of points wanted.
+   * @param maxMeters Points further away than this are not returned.
+   * @returns Up to `k` points with their Haversine distances, nearest first.
+   */
+  nearest(center: LatLon, k: number, maxMeters: number = Number.POSITIVE_INFINITY): SpatialMatch<T>[] {
+    if (k <= 0 || this.size === 0) {
+      return [];
+    }
+
+    const row = this.rowOf(center.lat);
+    const column = this.columnOf(center.lon);
+    // The narrower side of a cell bounds how far the next ring can be from the center.
+    const cellMeters = Math.min(
+      this.cellDegrees * METERS_PER_DEGREE_LAT,
+      this.cellDegrees * 2 * METERS_PER_DEGREE_LAT * Math.cos((center.lat * Math.PI) / 180)
+    );
+    const lastRing = Math.max(
+      Math.abs(row - this.minRow),
+      Math.abs(row - this.maxRow),
+      Math.abs(column - this.minColumn),
+      Math.abs(column - this.maxColumn)
+    );
+
+    const found: SpatialMatch<T>[] = [];
+    for (let ring = 0; ring <= lastRing; ring += 1) {
+      for (let dRow = -ring; dRow <= ring; dRow += 1) {
+        const onEdge = Math.abs(dRow) === ring;
+        for (let dColumn = -ring; dColumn <= ring; dColumn += onEdge ? 1 : ring * 2) {
+          for (const item of this.cells.get(`${row + dRow}:${column + dColumn}`) ?? []) {
+            const distanceMeters = haversineDistanceMeters(center.lat, center.lon, item.lat, item.lon);
+            if (distanceMeters <= maxMeters) {
+              found.push({ item, distanceMeters });
+            }
+          }
+          if (ring === 0) {
+            break;
+          }
+        }
+      }
+
+      // Anything in ring + 1 or beyond is at least `ring * cellMeters` away.
+      const reach = ring * cellMeters;
+      if (reach > maxMeters) {
+        break;
+      }
+      if (found.length >= k) {
+        found.sort(byDistance);
+        if (found[k - 1].distanceMeters <= reach) {
+          break;
+        }
+      }
+    }
+    return found.sort(byDistance).slice(0, k);
+  }
+}
+
+/**
+ * Smallest latitude/longitude box containing a circle.
+ * @param center Circle center.
+ * @param radiusMeters Circle radius.
+ * @returns Box in decimal degrees.
+ */
+export function boxAround(center: LatLon, radiusMeters: number): BoundingBox {
+  const dLat = radiusMeters / METERS_PER_DEGREE_LAT;
+  const dLon = radiusMeters / (METERS_PER_DEGREE_LAT * Math.max(Math.cos((center.lat * Math.PI) / 180), 1e-6));
+  return { south: center.lat - dLat, west: center.lon - dLon, north: center.lat + dLat, east: center.lon + dLon };
+}
+
+/**
+ * Smallest latitude/longitude box containing every point within a distance of a path.
+ * @param path Path vertices.
+ * @param meters Distance around the path.
+ * @returns Box in decimal degrees.
+ */
+export function boxAroundPath(path: LatLon[], meters: number): BoundingBox {
+  return path
+    .map((point) => boxAround(point, meters))
+    .reduce((a, b) => ({
+      south: Math.min(a.south, b.south),
+      west: Math.min(a.west, b.west),
+      north: Math.max(a.north, b.north),
+      east: Math.max(a.east, b.east)
+    }));
+}
@@ -0,0 +1,49 @@
+import { randomUUID } from 'node:crypto';
+import readline from 'node:readline';
+import { loadConfig } from './config.js';
+import { handleMcpPayload, JSON_RPC_ERRORS, jsonRpcError, JsonRpcResponse } from './mcp.js';
+import parkingTool from './tool.js';
+import { configureLogging, logger, setLogOutput } from './log.js';
+import { initTracing, shutdownTracing } from './tracing.js';
+
+// stdout carries the protocol, so logs go to stderr.
+setLogOutput(process.stderr);
+const config = loadConfig();
+configureLogging({ level: config.logLevel, coordinatePrecision: config.logCoordinatePrecision });
+initTracing(config, logger);
+
+function send(response: JsonRpcResponse | JsonRpcResponse[]): void {
+  process.stdout.write(`${JSON.stringify(response)}\n`);
+}
+
+async function handleLine(line: string): Promise<void> {
+  if (line.trim() === '') {
+    return;
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(line);
+  } catch {
+    send(jsonRpcError(null, JSON_RPC_ERRORS.parseError, 'Parse error'));
+    return;
+  }
+
+  const response = await handleMcpPayload(payload, parkingTool, logger.child({ requestId: randomUUID() }));
+  if (response !== null) {
+    send(response);
+  }
+}
+
+const input = readline.createInterface({ input: process.stdin, terminal: false });
+
+input.on('line', (line) => {
+  void handleLine(line);
+});
+
+input.on('close', () => {
+  logger.info('MCP stdio transport closed');
+  void shutdownTracing();
+});
+
+logger.info('MCP stdio transport started');
@@ -0,0 +1,171 @@
+import { AvailabilityEvent, AvailabilitySubscription, FacilityAvailability, FacilityMetadata } from '../types.js';
+
+/** Events kept for SSE clients that reconnect with `Last-Event-ID`. */
+const RECENT_EVENT_LIMIT = 200;
+
+export interface WatchedFacility {
+  facility: FacilityMetadata;
+  availability: FacilityAvailability;
+}
+
+/** Receives a subscription's events until it stops listening or the subscription is removed. */
+export interface SubscriptionListener {
+  onEvent(event: AvailabilityEvent): void;
+  onClose(): void;
+}
+
+interface SubscriptionState {
+  subscription: AvailabilitySubscription;
+  webhookSecret: string | null;
+  /** Name of the client that created the subscription; only it may see or remove it. */
+  owner: string;
+  /** Ids of watched facilities last seen below the threshold. */
+  below: Set<string>;
+  listeners: Set<SubscriptionListener>;
+}
+
+/**
+ * Availability subscriptions in memory, with the threshold state of each watched facility and
+ * the listeners of each subscription's event stream. Subscriptions do not survive a restart.
+ */
+export class SubscriptionHub {
+  private readonly subscriptions = new Map<string, SubscriptionState>();
+  private readonly recent: AvailabilityEvent[] = [];
+  private nextEventId = 1;
+
+  get size(): number {
+    return this.subscriptions.size;
+  }
+
+  /**
+   * Adds a subscription.
+   * @param subscription Subscription.
+   * @param webhookSecret Key its webhook requests are signed with, if it has a webhook.
+   * @param owner Name of the client creating it.
+   */
+  add(subscription: AvailabilitySubscription, webhookSecret: string | null, owner: string): void {
+    this.subscriptions.set(subscription.id, {
+      subscription,
+      webhookSecret,
+      owner,
+      below: new Set(),
+      listeners: new Set()
+    });
+  }
+
+  get(id: string): AvailabilitySubscription | undefined {
+    return this.subscriptions.get(id)?.subscription;
+  }
+
+  webhookSecretOf(id: string): string | null {
+    return this.subscriptions.get(id)?.webhookSecret ?? null;
+  }
+
+  ownerOf(id: string): string | undefined {
+    return this.subscriptions.get(id)?.owner;
+  }
+
+  /**
+   * Lists subscriptions, oldest first.
+   * @param owner Only those of this client; all of them without one.
+   * @returns Subscriptions.
+   */
+  list(owner?: string): AvailabilitySubscription[] {
+    return [...this.subscriptions.values()]
+      .filter((state) => owner === undefined || state.owner === owner)
+      .map((state) => state.subscription);
+  }
+
+  /**
+   * Removes a subscription and closes its listeners' streams.
+   * @param id Subscription id.
+   * @returns The removed subscription, or undefined when the id is unknown.
+   */
+  remove(id: string): AvailabilitySubscription | undefined {
+    const state = this.subscriptions.get(id);
+    if (!state) {
+      return undefined;
+    }
+    this.subscriptions.delete(id);
+    state.listeners.forEach((listener) => listener.onClose());
+    return state.subscription;
+  }
+
+  /**
+   * Starts passing a subscription's events to a listener, first replaying the kept events after
+   * `lastEventId`.
+   * @param id Subscription id.
+   * @param listener Listener.
+   * @param lastEventId Id of the last event the listener already has.
+   * @returns Stops listening, or null when the id is unknown.
+   */
+  listen(id: string, listener: SubscriptionListener, lastEventId?: string): (() => void) | null {
+    const state = this.subscriptions.get(id);
+    if (!state) {
+      return null;
+    }
+
+    const after = Number(lastEventId);
+    if (lastEventId !== undefined && Number.isInteger(after)) {
+      this.recent
+        .filter((event) => event.subscriptionId === id && Number(event.id) > after)
+        .forEach((event) => listener.onEvent(event));
+    }
+    state.listeners.add(listener);
+    return () => {
+      state.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Compares the latest counts of a subscription's facilities with the threshold and raises an
+   * event for each facility that crossed it since the last evaluation. A facility already below
+   * the threshold when first seen raises one too.
+   * @param id Subscription id.
+   * @param watched Watched facilities with a known free-space count.
+   * @param now Time stamped on the events.
+   * @returns The raised events, already passed to the listeners.
+   */
+  evaluate(id: string, watched: WatchedFacility[], now: Date = new Date()): AvailabilityEvent[] {
+    const state = this.subscriptions.get(id);
+    if (!state) {
+      return [];
+    }
+
+    const { subscription, below } = state;
+    const events: AvailabilityEvent[] = [];
+    for (const { facility, availability } of watched) {
+      if (availability.freeSpaces === null) {
+        continue;
+      }
+      const isBelow = availability.freeSpaces < subscription.freeSpacesBelow;
+      if (isBelow === below.has(facility.id)) {
+        continue;
+      }
+
+      if (isBelow) {
+        below.add(facility.id);
+      } else {
+        below.delete(facility.id);
+      }
+      events.push({
+        id: String(this.nextEventId),
+        type: isBelow ? 'below_threshold' : 'recovered',
+        subscriptionId: id,
+        facilityId: facility.id,
+        facilityName: facility.name,
+        freeSpaces: availability.freeSpaces,
+        capacity: availability.capacity ?? facility.capacity,
+        freeSpacesBelow: subscription.freeSpacesBelow,
+        lastUpdated: availability.lastUpdated,
+        emittedAt: now.toISOString()
+      });
+      this.nextEventId += 1;
+    }
+
+    this.recent.push(...events);
+    this.recent.splice(0, Math.max(0, this.recent.length - RECENT_EVENT_LIMIT));
+    events.forEach((event) => state.listeners.forEach((listener) => listener.onEvent(event)));
+    return events;
+  }
+}
@@ -0,0 +1,198 @@
+import { randomBytes, randomUUID } from 'node:crypto';
+import { getFacilities, getFacilityIndex, lookupAvailability, refreshAvailabilityNow } from '../data.js';
+import { findFacility } from '../facilities.js';
+import { Logger } from '../log.js';
+import { metrics } from '../metrics.js';
+import {
+  AvailabilityEvent,
+  AvailabilitySubscription,
+  CreatedSubscription,
+  FacilityMetadata,
+  ServiceConfig,
+  WatchArea
+} from '../types.js';
+import { SubscriptionHub, WatchedFacility } from './hub.js';
+import { deliverWebhook } from './webhook.js';
+
+let sharedHub: SubscriptionHub | undefined;
+
+/**
+ * Returns the process-wide subscription hub.
+ * @returns Shared hub.
+ */
+export function getSubscriptionHub(): SubscriptionHub {
+  if (!sharedHub) {
+    sharedHub = new SubscriptionHub();
+  }
+  return sharedHub;
+}
+
+/**
+ * Path of a subscription's Server-Sent Events stream.
+ * @param id Subscription id.
+ * @returns Path, e.g. `/subscriptions/3f…/events`.
+ */
+export function eventsPathOf(id: string): string {
+  return `/subscriptions/${encodeURIComponent(id)}/events`;
+}
+
+function subscriptionError(message: 'Subscription not found' | 'Subscription limit reached', details: object): Error {
+  const error = new Error(message);
+  (error as Error & { details?: unknown }).details = details;
+  return error;
+}
+
+export interface SubscribeRequest {
+  facilityIds: string[] | null;
+  area: WatchArea | null;
+  freeSpacesBelow: number;
+  webhookUrl: string | null;
+}
+
+/**
+ * Registers a watch owned by the calling client. Its events reach the SSE stream and, when a
+ * webhook is given, are POSTed there signed with a secret generated for the subscription.
+ * @param config Service configuration.
+ * @param log Logger.
+ * @param request What to watch and where to send events.
+ * @param owner Name of the calling client; `MAX_SUBSCRIPTIONS` applies to each client.
+ * @returns The subscription with its webhook secret, which is not shown again.
+ */
+export function subscribe(
+  config: ServiceConfig,
+  log: Logger,
+  request: SubscribeRequest,
+  owner: string
+): CreatedSubscription {
+  const hub = getSubscriptionHub();
+  if (hub.list(owner).length >= config.maxSubscriptions) {
+    throw subscriptionError('Subscription limit reached', { limit: config.maxSubscriptions });
+  }
+
+  const subscription: AvailabilitySubscription = {
+    id: randomUUID(),
+    ...request,
+    createdAt: new Date().toISOString()
+  };
+  const webhookSecret = request.webhookUrl ? randomBytes(32).toString('hex') : null;
+  hub.add(subscription, webhookSecret, owner);
+  log.info('Created availability subscription', {
+    subscriptionId: subscription.id,
+    owner,
+    facilities: request.facilityIds?.length ?? null,
+    area: request.area !== null,
+    webhook: webhookSecret !== null
+  });
+  return { ...subscription, webhookSecret, eventsPath: eventsPathOf(subscription.id) };
+}
+
+/**
+ * Removes a watch and ends its event streams. Another client's subscription is reported as not
+ * found.
+ * @param log Logger.
+ * @param id Subscription id.
+ * @param owner Name of the calling client.
+ * @returns The removed subscription.
+ */
+export function unsubscribe(log: Logger, id: string, owner: string): AvailabilitySubscription {
+  const hub = getSubscriptionHub();
+  const removed = hub.ownerOf(id) === owner ? hub.remove(id) : undefined;
+  if (!removed) {
+    throw subscriptionError('Subscription not found', { subscriptionId: id });
+  }
+  log.info('Removed availability subscription', { subscriptionId: id });
+  return removed;
+}
+
+function watchedFacilities(
+  subscription: AvailabilitySubscription,
+  facilities: FacilityMetadata[],
+  inArea: (area: WatchArea) => FacilityMetadata[]
+): FacilityMetadata[] {
+  if (subscription.area) {
+    return inArea(subscription.area);
+  }
+  return (subscription.facilityIds ?? [])
+    .map((id) => findFacility(facilities, id))
+    .filter((facility): facility is FacilityMetadata => facility !== undefined);
+}
+
+/**
+ * Refreshes availability from the providers and checks every subscription against it, streaming
+ * the resulting events and starting their webhook deliveries. Does nothing without subscriptions.
+ * @param config Service configuration.
+ * @param log Logger.
+ * @param signal Abort signal for upstream requests.
+ * @returns Events raised by this poll.
+ */
+export async function pollSubscriptions(
+  config: ServiceConfig,
+  log: Logger,
+  signal?: AbortSignal
+): Promise<AvailabilityEvent[]> {
+  const hub = getSubscriptionHub();
+  if (hub.size === 0) {
+    return [];
+  }
+
+  const [facilities, facilityIndex, availability] = await Promise.all([
+    getFacilities(config, log, signal),
+    getFacilityIndex(config, log, signal),
+    refreshAvailabilityNow(config, log, signal)
+  ]);
+
+  const inArea = (area: WatchArea) =>
+    facilityIndex.withinRadius(area, area.radiusMeters).map((match) => match.item);
+  const events: AvailabilityEvent[] = [];
+  for (const subscription of hub.list()) {
+    const watched = watchedFacilities(subscription, facilities, inArea).flatMap((facility): WatchedFacility[] => {
+      const current = lookupAvailability(facility, availability.data);
+      return current ? [{ facility, availability: current }] : [];
+    });
+    const raised = hub.evaluate(subscription.id, watched);
+    raised.forEach((event) => metrics.subscriptionEvents.inc({ type: event.type }));
+
+    const secret = hub.webhookSecretOf(subscription.id);
+    if (subscription.webhookUrl && secret) {
+      const url = subscription.webhookUrl;
+      // Deliveries retry for a while; the next poll should not wait for them.
+      raised.forEach((event) => void deliverWebhook(url, secret, event, config, log));
+    }
+    events.push(...raised);
+  }
+
+  if (events.length > 0) {
+    log.info('Raised availability events', { count: events.length, subscriptions: hub.size });
+  }
+  return events;
+}
+
+/**
+ * Polls subscriptions every `SUBSCRIPTION_POLL_INTERVAL_MS`. A poll that is still running when
+ * the next one is due is not overlapped. The timer does not keep the process alive.
+ * @param config Service configuration.
+ * @param log Logger.
+ * @returns Stops the poller.
+ */
+export function startSubscriptionPoller(config: ServiceConfig, log: Logger): () => void {
+  if (config.subscriptionPollIntervalMs === 0) {
+    return () => undefined;
+  }
+
+  let polling = false;
+  const timer = setInterval(() => {
+    if (polling) {
+      return;
+    }
+    polling = true;
+    pollSubscriptions(config, log, AbortSignal.timeout(config.overallTimeoutMs))
+      .catch((error) => {
+        log.error('Subscription poll failed', { error: error instanceof Error ? error.message : String(error) });
+      })
+      .finally(() => {
+        polling = false;
+      });
+  }, config.subscriptionPollIntervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
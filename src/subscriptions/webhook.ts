@@ -0,0 +1,243 @@
+import { createHmac } from 'node:crypto';
+import dns from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+import { Logger } from '../log.js';
+import { metrics } from '../metrics.js';
+import { AvailabilityEvent, ServiceConfig } from '../types.js';
+
+export const SIGNATURE_HEADER = 'X-Signature';
+export const SIGNATURE_TIMESTAMP_HEADER = 'X-Signature-Timestamp';
+
+/**
+ * Statuses worth another attempt; any other failure, redirects included, is the receiver
+ * rejecting the event.
+ */
+const RETRY_STATUS_CODES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/** Loopback, link-local, private and other non-public ranges webhooks may not reach. */
+const PRIVATE_ADDRESSES = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(prefix, bits, 'ipv6');
+}
+
+function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return PRIVATE_ADDRESSES.check(mapped[1], 'ipv4');
+  }
+  return PRIVATE_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+/** Host name of a URL without the brackets around IPv6 literals. */
+function hostOf(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+}
+
+function isAllowedHost(host: string, config: ServiceConfig): boolean {
+  return config.webhookAllowedHosts.some((allowed) => allowed.toLowerCase() === host);
+}
+
+/**
+ * Checks a webhook URL before a subscription is created: it must use HTTPS and must not name a
+ * loopback, link-local or private address, unless its host is in `WEBHOOK_ALLOWED_HOSTS`.
+ * Host names are resolved again at delivery, see {@link deliverWebhook}.
+ * @param url Webhook URL.
+ * @param config Service configuration.
+ * @returns What is wrong with the URL, or null when it is acceptable.
+ */
+export function checkWebhookUrl(url: string, config: ServiceConfig): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'must be a valid URL';
+  }
+  const host = hostOf(parsed);
+  if (isAllowedHost(host, config)) {
+    return null;
+  }
+  if (parsed.protocol !== 'https:') {
+    return 'must use https';
+  }
+  if (host === 'localhost' || host.endsWith('.localhost') || (net.isIP(host) !== 0 && isPrivateAddress(host))) {
+    return 'must not point at a loopback, link-local or private address';
+  }
+  return null;
+}
+
+function nonPublicAddressError(host: string): Error {
+  const error = new Error('Webhook host resolves to a non-public address');
+  error.name = 'NonPublicAddressError';
+  (error as Error & { details?: unknown }).details = { host };
+  return error;
+}
+
+/**
+ * Resolves a webhook's host for the connection itself and fails when any address is not public,
+ * so the addresses checked are the ones connected to and a host cannot change its answer in
+ * between.
+ */
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      callback(nonPublicAddressError(hostname), '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+      return;
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * POSTs a webhook body once. Redirects are not followed.
+ * @returns Response status.
+ */
+function postWebhook(
+  url: URL,
+  headers: Record<string, string>,
+  body: string,
+  config: ServiceConfig
+): Promise<number> {
+  const host = hostOf(url);
+  const allowed = isAllowedHost(host, config);
+  if (!allowed && net.isIP(host) !== 0 && isPrivateAddress(host)) {
+    return Promise.reject(nonPublicAddressError(host));
+  }
+
+  return new Promise((resolve, reject) => {
+    const send = url.protocol === 'https:' ? https.request : http.request;
+    const request = send(
+      url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+        lookup: allowed ? undefined : publicLookup,
+        signal: AbortSignal.timeout(config.requestTimeoutMs)
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      }
+    );
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+}
+
+/**
+ * Signs a webhook body. Receivers recompute the HMAC over `<timestamp>.<body>` with their secret,
+ * compare it with the `X-Signature` header and reject old timestamps to stop replays.
+ * @param secret Subscription's webhook secret.
+ * @param timestamp Unix time in seconds, sent in `X-Signature-Timestamp`.
+ * @param body Exact request body.
+ * @returns Header value, e.g. `sha256=3f…`.
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * POSTs an event to a subscription's webhook, retrying network errors and retryable statuses
+ * with exponential backoff up to `WEBHOOK_MAX_ATTEMPTS`. Hosts resolving to a non-public address
+ * are refused unless allowed by `WEBHOOK_ALLOWED_HOSTS`, and redirects count as a rejection.
+ * Never throws.
+ * @param url Webhook URL.
+ * @param secret Signing secret.
+ * @param event Event to deliver.
+ * @param config Service configuration.
+ * @param log Logger.
+ * @returns Whether the receiver accepted the event.
+ */
+export async function deliverWebhook(
+  url: string,
+  secret: string,
+  event: AvailabilityEvent,
+  config: ServiceConfig,
+  log: Logger
+): Promise<boolean> {
+  const body = JSON.stringify(event);
+  const target = new URL(url);
+
+  for (let attempt = 1; attempt <= config.webhookMaxAttempts; attempt += 1) {
+    const timestamp = Math.floor(Date.now() / 1000);
+    let failure: string;
+    let retryable = true;
+    try {
+      const status = await postWebhook(
+        target,
+        {
+          'Content-Type': 'application/json',
+          [SIGNATURE_HEADER]: signPayload(secret, timestamp, body),
+          [SIGNATURE_TIMESTAMP_HEADER]: String(timestamp)
+        },
+        body,
+        config
+      );
+      if (status >= 200 && status < 300) {
+        metrics.webhookDeliveries.inc({ result: 'ok' });
+        log.debug('Delivered webhook event', { subscriptionId: event.subscriptionId, eventId: event.id, attempt });
+        return true;
+      }
+      failure = `status ${status}`;
+      retryable = RETRY_STATUS_CODES.has(status);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'NonPublicAddressError') {
+        metrics.webhookDeliveries.inc({ result: 'failed' });
+        log.warn('Refused webhook delivery to a non-public address', {
+          subscriptionId: event.subscriptionId,
+          eventId: event.id
+        });
+        return false;
+      }
+      failure = error instanceof Error ? error.message : String(error);
+    }
+
+    if (!retryable || attempt >= config.webhookMaxAttempts) {
+      metrics.webhookDeliveries.inc({ result: 'failed' });
+      log.warn('Gave up delivering webhook event', {
+        subscriptionId: event.subscriptionId,
+        eventId: event.id,
+        attempt,
+        failure
+      });
+      return false;
+    }
+
+    metrics.webhookDeliveries.inc({ result: 'retry' });
+    const delay = config.webhookRetryBaseDelayMs * 2 ** (attempt - 1);
+    log.debug('Retrying webhook delivery', { subscriptionId: event.subscriptionId, eventId: event.id, attempt, delay });
+    await sleep(delay);
+  }
+  return false;
+}
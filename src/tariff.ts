@@ -0,0 +1,311 @@
+import { forEachStockholmRun, isWithinWeeklyWindow } from './time.js';
+import { CostBreakdownItem, CostEstimate, Tariff, TariffBand } from './types.js';
+
+const ALL_DAYS = [1, 2, 3, 4, 5, 6, 7];
+const MINUTES_PER_DAY = 24 * 60;
+const MAX_ESTIMATE_MINUTES = 7 * MINUTES_PER_DAY;
+
+const DAY_NAMES: Record<string, number> = {
+  mån: 1,
+  mon: 1,
+  tis: 2,
+  tue: 2,
+  ons: 3,
+  wed: 3,
+  tor: 4,
+  thu: 4,
+  fre: 5,
+  fri: 5,
+  lör: 6,
+  sat: 6,
+  sön: 7,
+  sun: 7
+};
+
+// `\b` treats å/ä/ö as non-word characters, so Swedish words need explicit boundaries.
+const WORD_START = '(?<![a-zåäö])';
+const WORD_END = '(?![a-zåäö])';
+
+function word(pattern: string, flags?: string): RegExp {
+  return new RegExp(`${WORD_START}(?:${pattern})${WORD_END}`, flags);
+}
+
+const DAY_GROUPS: Array<[RegExp, number[]]> = [
+  [word('vardagar|vardag|weekdays?'), [1, 2, 3, 4, 5]],
+  [word('helger|helgdagar|helg|weekends?'), [6, 7]],
+  [word('alla dagar|dagligen|daily|all days|every day'), ALL_DAYS]
+];
+
+const DAY_TOKEN = '(mån|tis|ons|tor|fre|lör|sön|mon|tue|wed|thu|fri|sat|sun)[a-zåäö]*\\.?';
+const DAY_RANGE_PATTERN = new RegExp(`${DAY_TOKEN}\\s*-\\s*${DAY_TOKEN}`);
+const SINGLE_DAY_PATTERN = new RegExp(`${WORD_START}${DAY_TOKEN}`, 'g');
+const TIME_RANGE_PATTERN =
+  /(?:\bkl(?:ockan)?\.?\s*)?\b(\d{1,2})(?:[:.](\d{2}))?\s*-\s*(\d{1,2})(?:[:.](\d{2}))?\b(?!\s*(?:kr|sek))/;
+const CAP_PATTERN =
+  /(?:\b(?:max(?:imalt)?|daily max)\s*)?(\d+(?:[.,]\d+)?)\s*(?:kr|sek)\s*(?:\/|per\s+)\s*(?:dygn|dag|day|24\s*h)\b/;
+const HOURLY_PATTERN =
+  /(\d+(?:[.,]\d+)?)\s*(?:kr|sek)\s*(?:\/|per\s+)\s*(?:timme|tim|hour|hr|h|t)\b/;
+const FREE_PATTERN = word('avgiftsfri(?:tt)?|gratis|free');
+const OTHER_TIMES_PATTERN = word('övrig tid|övriga tider|other times|otherwise');
+const FILLER_PATTERN = word('kl|klockan|taxa|avgift|pris|price|rate|and|och', 'g');
+
+function parseAmount(value: string): number {
+  return Number(value.replace(',', '.'));
+}
+
+function toMinute(hours: string, minutes: string | undefined): number | null {
+  const h = Number(hours);
+  const m = minutes ? Number(minutes) : 0;
+  if (h > 24 || m > 59 || (h === 24 && m > 0)) {
+    return null;
+  }
+  return h * 60 + m;
+}
+
+function expandDayRange(from: number, to: number): number[] {
+  const days: number[] = [];
+  let day = from;
+  for (;;) {
+    days.push(day);
+    if (day === to) {
+      return days;
+    }
+    day = day === 7 ? 1 : day + 1;
+  }
+}
+
+function splitSegments(note: string): string[] {
+  return note
+    .split(/[;\n]|\.\s+(?=[a-zåäö])|,\s+(?=[a-zåäö])/i)
+    .map((segment) => segment.trim())
+    .filter((segment) => segment.length > 0);
+}
+
+interface ParsedSegment {
+  days: number[] | null;
+  startMinute: number | null;
+  endMinute: number | null;
+  ratePerHourSek: number | null;
+  dailyCapSek: number | null;
+  otherTimes: boolean;
+}
+
+function parseSegment(segment: string): ParsedSegment | null {
+  let rest = segment.toLowerCase().replace(/[–—]/g, '-');
+  const parsed: ParsedSegment = {
+    days: null,
+    startMinute: null,
+    endMinute: null,
+    ratePerHourSek: null,
+    dailyCapSek: null,
+    otherTimes: false
+  };
+
+  const cap = CAP_PATTERN.exec(rest);
+  if (cap) {
+    parsed.dailyCapSek = parseAmount(cap[1]);
+    rest = rest.replace(cap[0], ' ');
+  }
+
+  const hourly = HOURLY_PATTERN.exec(rest);
+  if (hourly) {
+    parsed.ratePerHourSek = parseAmount(hourly[1]);
+    rest = rest.replace(hourly[0], ' ');
+  } else if (FREE_PATTERN.test(rest)) {
+    parsed.ratePerHourSek = 0;
+    rest = rest.replace(FREE_PATTERN, ' ');
+  }
+
+  if (OTHER_TIMES_PATTERN.test(rest)) {
+    parsed.otherTimes = true;
+    rest = rest.replace(OTHER_TIMES_PATTERN, ' ');
+  }
+
+  for (const [pattern, days] of DAY_GROUPS) {
+    if (pattern.test(rest)) {
+      parsed.days = days;
+      rest = rest.replace(pattern, ' ');
+      break;
+    }
+  }
+
+  if (!parsed.days) {
+    const range = DAY_RANGE_PATTERN.exec(rest);
+    if (range) {
+      parsed.days = expandDayRange(DAY_NAMES[range[1]], DAY_NAMES[range[2]]);
+      rest = rest.replace(range[0], ' ');
+    } else {
+      const singles = [...rest.matchAll(SINGLE_DAY_PATTERN)];
+      if (singles.length > 0) {
+        parsed.days = singles.map((match) => DAY_NAMES[match[1]]);
+        rest = rest.replace(SINGLE_DAY_PATTERN, ' ');
+      }
+    }
+  }
+
+  const time = TIME_RANGE_PATTERN.exec(rest);
+  if (time) {
+    const start = toMinute(time[1], time[2]);
+    const end = toMinute(time[3], time[4]);
+    if (start === null || end === null || start === end) {
+      return null;
+    }
+    parsed.startMinute = start;
+    parsed.endMinute = end;
+    rest = rest.replace(time[0], ' ');
+  }
+
+  // Anything left beyond punctuation and filler words is a rule we do not understand.
+  const leftover = rest.replace(FILLER_PATTERN, ' ').replace(/[\s:.,()/-]+/g, '');
+  if (leftover.length > 0) {
+    return null;
+  }
+
+  if (parsed.ratePerHourSek === null && parsed.dailyCapSek === null) {
+    return null;
+  }
+
+  if (parsed.ratePerHourSek === null && (parsed.days || parsed.startMinute !== null || parsed.otherTimes)) {
+    return null;
+  }
+
+  return parsed;
+}
+
+/**
+ * Parses a free-text tariff note (Swedish or English) into structured rules.
+ * Returns null when any part of the note cannot be understood so callers never price on a guess.
+ * @param note Raw tariff note from the upstream feed.
+ * @returns Structured tariff or null.
+ */
+export function parseTariff(note: string | null): Tariff | null {
+  if (!note) {
+    return null;
+  }
+
+  const segments = splitSegments(note);
+  if (segments.length === 0) {
+    return null;
+  }
+
+  const bands: TariffBand[] = [];
+  let defaultRatePerHourSek: number | null = null;
+  let dailyCapSek: number | null = null;
+
+  for (const segment of segments) {
+    const parsed = parseSegment(segment);
+    if (!parsed) {
+      return null;
+    }
+
+    if (parsed.dailyCapSek !== null) {
+      if (dailyCapSek !== null) {
+        return null;
+      }
+      dailyCapSek = parsed.dailyCapSek;
+    }
+
+    if (parsed.ratePerHourSek === null) {
+      continue;
+    }
+
+    if (parsed.otherTimes || (!parsed.days && parsed.startMinute === null)) {
+      if (defaultRatePerHourSek !== null) {
+        return null;
+      }
+      defaultRatePerHourSek = parsed.ratePerHourSek;
+      continue;
+    }
+
+    bands.push({
+      label: segment,
+      days: parsed.days ?? ALL_DAYS,
+      startMinute: parsed.startMinute ?? 0,
+      endMinute: parsed.endMinute ?? MINUTES_PER_DAY,
+      ratePerHourSek: parsed.ratePerHourSek
+    });
+  }
+
+  if (bands.length === 0 && defaultRatePerHourSek === null) {
+    return null;
+  }
+
+  return { bands, defaultRatePerHourSek, dailyCapSek };
+}
+
+function roundSek(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Estimates the parking cost of a stay in Stockholm local time, pricing each run between band
+ * boundaries at once. The daily cap applies per 24 hours from arrival.
+ * @param tariff Structured tariff.
+ * @param arrival Arrival instant.
+ * @param durationMinutes Length of stay in minutes.
+ * @returns Cost estimate with breakdown, or null when part of the stay is not covered by the tariff.
+ */
+export function estimateParkingCost(
+  tariff: Tariff,
+  arrival: Date,
+  durationMinutes: number
+): CostEstimate | null {
+  if (!Number.isFinite(durationMinutes) || durationMinutes <= 0 || durationMinutes > MAX_ESTIMATE_MINUTES) {
+    return null;
+  }
+
+  const items = new Map<string, CostBreakdownItem>();
+  const windowTotals: number[] = [];
+  const boundaries = tariff.bands.flatMap((band) => [band.startMinute, band.endMinute]);
+  // A flat rate without bands applies around the clock rather than outside some other band.
+  const defaultLabel = tariff.bands.length === 0 ? 'Alla tider' : 'Övrig tid';
+  let covered = true;
+
+  for (let window = 0; covered && window * MINUTES_PER_DAY < durationMinutes; window += 1) {
+    const windowStart = new Date(arrival.getTime() + window * MINUTES_PER_DAY * 60 * 1000);
+    const windowMinutes = Math.min(MINUTES_PER_DAY, durationMinutes - window * MINUTES_PER_DAY);
+
+    forEachStockholmRun(windowStart, windowMinutes, boundaries, (local, _offset, length) => {
+      const band = tariff.bands.find((candidate) =>
+        isWithinWeeklyWindow(candidate.days, candidate.startMinute, candidate.endMinute, local)
+      );
+      const rate = band?.ratePerHourSek ?? tariff.defaultRatePerHourSek;
+      if (rate === null || rate === undefined) {
+        covered = false;
+        return false;
+      }
+
+      const label = band?.label ?? defaultLabel;
+      const item = items.get(label) ?? { label, minutes: 0, ratePerHourSek: rate, amountSek: 0 };
+      item.minutes += length;
+      item.amountSek += (rate * length) / 60;
+      items.set(label, item);
+
+      windowTotals[window] = (windowTotals[window] ?? 0) + (rate * length) / 60;
+      return true;
+    });
+  }
+
+  if (!covered) {
+    return null;
+  }
+
+  const breakdown = [...items.values()].map((item) => ({ ...item, amountSek: roundSek(item.amountSek) }));
+  let total = windowTotals.reduce((sum, value) => sum + value, 0);
+
+  if (tariff.dailyCapSek !== null) {
+    const cap = tariff.dailyCapSek;
+    const capped = windowTotals.reduce((sum, value) => sum + Math.min(value, cap), 0);
+    if (capped < total) {
+      breakdown.push({
+        label: `Max ${cap} kr/dygn`,
+        minutes: 0,
+        ratePerHourSek: 0,
+        amountSek: roundSek(capped - total)
+      });
+      total = capped;
+    }
+  }
+
+  return { amountSek: roundSek(total), breakdown };
+}
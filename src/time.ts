@@ -0,0 +1,151 @@
+const STOCKHOLM_TIME_ZONE = 'Europe/Stockholm';
+
+const WEEKDAYS: Record<string, number> = {
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+  Sun: 7
+};
+
+const formatter = new Intl.DateTimeFormat('en-GB', {
+  timeZone: STOCKHOLM_TIME_ZONE,
+  weekday: 'short',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23'
+});
+
+export interface LocalTime {
+  /** ISO weekday, 1 = Monday … 7 = Sunday. */
+  weekday: number;
+  /** Minutes since local midnight. */
+  minuteOfDay: number;
+  /** Local calendar date as `YYYY-MM-DD`. */
+  date: string;
+  /** Local calendar month, 1 = January. */
+  month: number;
+}
+
+/**
+ * Converts an instant to Stockholm wall-clock time, honouring CET/CEST transitions.
+ * @param date Instant to convert.
+ * @returns Local weekday, minute of day and calendar date.
+ */
+export function toStockholmTime(date: Date): LocalTime {
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    weekday: WEEKDAYS[parts.weekday] ?? 1,
+    minuteOfDay: Number(parts.hour) * 60 + Number(parts.minute),
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    month: Number(parts.month)
+  };
+}
+
+/**
+ * Checks whether a local time falls inside a weekly recurring window. Windows whose end is
+ * before their start run overnight, and their early-morning part belongs to the previous day.
+ * @param days ISO weekdays the window starts on.
+ * @param startMinute Window start in minutes after local midnight.
+ * @param endMinute Window end in minutes after local midnight (exclusive).
+ * @param local Local time to test.
+ * @returns True when the window covers the local time.
+ */
+export function isWithinWeeklyWindow(
+  days: number[],
+  startMinute: number,
+  endMinute: number,
+  local: Pick<LocalTime, 'weekday' | 'minuteOfDay'>
+): boolean {
+  if (startMinute < endMinute) {
+    return days.includes(local.weekday) && local.minuteOfDay >= startMinute && local.minuteOfDay < endMinute;
+  }
+  if (local.minuteOfDay >= startMinute) {
+    return days.includes(local.weekday);
+  }
+  if (local.minuteOfDay < endMinute) {
+    const previousDay = local.weekday === 1 ? 7 : local.weekday - 1;
+    return days.includes(previousDay);
+  }
+  return false;
+}
+
+/**
+ * Walks a span of time minute by minute in Stockholm local time. Local time is only recomputed
+ * once per hour, which is exact because Stockholm's UTC offset is a whole number of hours.
+ * @param start First instant.
+ * @param minutes Number of minutes to visit.
+ * @param visit Called for each minute; return false to stop early.
+ */
+export function forEachStockholmMinute(
+  start: Date,
+  minutes: number,
+  visit: (local: LocalTime, offset: number, instant: Date) => boolean | void
+): void {
+  const startMs = start.getTime();
+  let cachedHour = Number.NaN;
+  let hourStart = toStockholmTime(start);
+
+  for (let offset = 0; offset < minutes; offset += 1) {
+    const instantMs = startMs + offset * 60 * 1000;
+    const utcHour = Math.floor(instantMs / 3_600_000);
+    if (utcHour !== cachedHour) {
+      hourStart = toStockholmTime(new Date(utcHour * 3_600_000));
+      cachedHour = utcHour;
+    }
+    const instant = new Date(instantMs);
+    const local = { ...hourStart, minuteOfDay: hourStart.minuteOfDay + instant.getUTCMinutes() };
+    if (visit(local, offset, instant) === false) {
+      return;
+    }
+  }
+}
+
+/**
+ * Walks a span of time in runs over which Stockholm local time advances without crossing local
+ * midnight, a DST transition or any of the given minutes of day, so anything that only changes at
+ * those boundaries can be evaluated once per run instead of once per minute.
+ * @param start First instant.
+ * @param minutes Number of minutes to cover.
+ * @param boundaries Minutes after local midnight at which runs must end.
+ * @param visit Called for each run with its local start time, its offset from `start` and its
+ *   length in minutes; return false to stop early.
+ */
+export function forEachStockholmRun(
+  start: Date,
+  minutes: number,
+  boundaries: number[],
+  visit: (local: LocalTime, offset: number, length: number, instant: Date) => boolean | void
+): void {
+  const startMs = start.getTime();
+
+  for (let offset = 0; offset < minutes; ) {
+    const instant = new Date(startMs + offset * 60 * 1000);
+    const local = toStockholmTime(instant);
+    const nextBoundary = boundaries.reduce(
+      (next, boundary) => (boundary > local.minuteOfDay && boundary < next ? boundary : next),
+      24 * 60
+    );
+    let length = Math.min(nextBoundary - local.minuteOfDay, minutes - offset);
+
+    // The UTC offset only changes on the hour, so a run that crosses a transition ends at the next one.
+    const last = toStockholmTime(new Date(instant.getTime() + (length - 1) * 60 * 1000));
+    if (last.date !== local.date || last.minuteOfDay !== local.minuteOfDay + length - 1) {
+      length = Math.min(length, 60 - instant.getUTCMinutes());
+    }
+
+    if (visit(local, offset, length, instant) === false) {
+      return;
+    }
+    offset += length;
+  }
+}
@@ -1,14 +1,92 @@
 import Ajv, { JSONSchemaType } from 'ajv';
 import addFormats from 'ajv-formats';
 import * as sdk from '@optimizely-opal/opal-tool-ocp-sdk';
-import { getAvailability, getFacilities } from './data.js';
-import { estimateWalkMinutes, haversineDistanceMeters } from './geo.js';
+import { checkRequirements, passesRequirements } from './amenities.js';
+import { ANONYMOUS_CLIENT } from './auth.js';
+import { getAvailability, getFacilities, getFacilityIndex, getRegulations, lookupAvailability } from './data.js';
+import { findFacility, listFacilities, searchFacilities } from './facilities.js';
+import { forecastFreeSpaces } from './forecast.js';
+import { formatRecommendations, SearchTarget } from './formats.js';
+import { geocode } from './geocoding/index.js';
+import { getHistoryStore } from './history.js';
+import { observeToolCall } from './metrics.js';
+import {
+  decodePolyline,
+  distanceToPathMeters,
+  estimateWalkMinutes,
+  haversineDistanceMeters
+} from './geo.js';
+import { facilityQualityFlags } from './quality.js';
+import { evaluateStreetParking } from './regulations.js';
+import { estimateWalkingDistances } from './routing/index.js';
+import {
+  confirmSession,
+  extendSession,
+  getEnabledSessionAdapters,
+  startSession,
+  stopSession
+} from './sessions/index.js';
+import { boxAroundPath, SpatialIndex } from './spatial.js';
+import { getSubscriptionHub, subscribe, unsubscribe } from './subscriptions/index.js';
+import { checkWebhookUrl } from './subscriptions/webhook.js';
+import { checkOpeningHours } from './openingHours.js';
+import { failedItem, SpaceReservations, splitValidationErrors } from './batch.js';
+import { estimateParkingCost } from './tariff.js';
+import { withSpan } from './tracing.js';
+import { RankingOptions, resolveRankingWeights, sortRecommendations } from './rank.js';
 import { loadConfig } from './config.js';
 import { logger, Logger } from './log.js';
-import { ServiceConfig, RecommendFacilityArgs, FacilityRecommendation } from './types.js';
+import {
+  ServiceConfig,
+  RecommendFacilityArgs,
+  RecommendFacilitiesArgs,
+  BatchRecommendationResult,
+  GetFacilityArgs,
+  SearchFacilitiesArgs,
+  ListFacilitiesArgs,
+  FacilitySummary,
+  FacilityDetails,
+  FacilitySearchResult,
+  FacilityPage,
+  StartParkingSessionArgs,
+  ExtendParkingSessionArgs,
+  StopParkingSessionArgs,
+  ConfirmParkingSessionArgs,
+  ParkingSession,
+  SubscribeAvailabilityArgs,
+  UnsubscribeAvailabilityArgs,
+  AvailabilitySubscription,
+  CreatedSubscription,
+  FacilityRecommendation,
+  FormattedRecommendations,
+  FacilityMetadata,
+  AvailabilityResult,
+  GeocodeQuery,
+  LatLon,
+  ResolvedLocation,
+  StreetParkingArgs,
+  StreetSegmentResult,
+  ToolDefinition,
+  ToolInvoker,
+  VehicleRequirements
+} from './types.js';
 
-const DEFAULT_RADIUS = 1500;
-const DEFAULT_MAX_RESULTS = 5;
+// Search limits end up in the published schemas, so they are fixed when the module loads.
+const config = loadConfig();
+
+const MAX_DURATION_MINUTES = 7 * 24 * 60;
+const DEFAULT_CORRIDOR_METERS = 300;
+const MAX_WAYPOINTS = 25;
+const MAX_BATCH_REQUESTS = 10;
+const DEFAULT_SEARCH_RESULTS = 10;
+const MAX_SEARCH_RESULTS = 50;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_WATCHED_FACILITIES = 50;
+const DEFAULT_STREET_DURATION_MINUTES = 60;
+const DATA_QUALITY_FLAGS = ['availability_outdated', 'exceeds_capacity', 'timestamp_in_future'];
+const DEFAULT_STREET_RADIUS = 100;
+const DEFAULT_STREET_MAX_RESULTS = 10;
 
 const { OpalTool: OpalToolBase } = sdk as { OpalTool?: new (definition: unknown) => unknown };
 
@@ -17,56 +95,1059 @@ class FallbackTool {
   constructor(definition: unknown) {
     this.definition = definition;
   }
-}
+}
+
+const BaseTool = OpalToolBase ?? FallbackTool;
+
+const inputSchema: JSONSchemaType<RecommendFacilityArgs> = {
+  type: 'object',
+  required: [],
+  additionalProperties: false,
+  properties: {
+    userLat: {
+      type: 'number',
+      minimum: -90,
+      maximum: 90,
+      nullable: true,
+      description: 'Latitude of the user, WGS84. Searched around when no destination, address or place is given.'
+    },
+    userLon: {
+      type: 'number',
+      minimum: -180,
+      maximum: 180,
+      nullable: true,
+      description: 'Longitude of the user, WGS84.'
+    },
+    address: {
+      type: 'string',
+      minLength: 2,
+      maxLength: 200,
+      nullable: true,
+      description: 'Street address in Stockholm to park near, e.g. "Drottninggatan 53".'
+    },
+    placeName: {
+      type: 'string',
+      minLength: 2,
+      maxLength: 200,
+      nullable: true,
+      description: 'Landmark or district to park near, e.g. "Globen" or "Södermalm".'
+    },
+    destinationLat: {
+      type: 'number',
+      minimum: -90,
+      maximum: 90,
+      nullable: true,
+      description: 'Latitude of the destination, WGS84.'
+    },
+    destinationLon: {
+      type: 'number',
+      minimum: -180,
+      maximum: 180,
+      nullable: true,
+      description: 'Longitude of the destination, WGS84.'
+    },
+    radiusMeters: {
+      type: 'integer',
+      minimum: 100,
+      maximum: config.maxRadiusMeters,
+      default: config.defaultRadiusMeters,
+      nullable: true,
+      description: 'Search radius around the destination in meters.'
+    },
+    maxResults: {
+      type: 'integer',
+      minimum: 1,
+      maximum: config.maxResultsLimit,
+      default: config.defaultMaxResults,
+      nullable: true,
+      description: 'Maximum number of facilities to return.'
+    },
+    arrivalTime: {
+      type: 'string',
+      format: 'date-time',
+      nullable: true,
+      description: 'Planned arrival, ISO 8601; defaults to now. When given, free spaces are also forecast.'
+    },
+    durationMinutes: {
+      type: 'integer',
+      minimum: 1,
+      maximum: MAX_DURATION_MINUTES,
+      nullable: true,
+      description: 'Planned length of stay in minutes, used for cost estimates and opening hours.'
+    },
+    rankingProfile: {
+      type: 'string',
+      enum: ['closest', 'most_available', 'cheapest', 'balanced'],
+      nullable: true,
+      description: 'Preset weighting of the ranking factors.'
+    },
+    rankingWeights: {
+      type: 'object',
+      additionalProperties: false,
+      minProperties: 1,
+      nullable: true,
+      description: 'Custom ranking weights that replace the profile; factors left out weigh 0.',
+      properties: {
+        distance: {
+          type: 'number',
+          minimum: 0,
+          nullable: true,
+          description: 'Weight of the distance to the destination.'
+        },
+        walkTime: { type: 'number', minimum: 0, nullable: true, description: 'Weight of the walking time.' },
+        availability: {
+          type: 'number',
+          minimum: 0,
+          nullable: true,
+          description: 'Weight of the number of free spaces.'
+        },
+        freshness: {
+          type: 'number',
+          minimum: 0,
+          nullable: true,
+          description: 'Weight of how recent the availability data is.'
+        },
+        cost: { type: 'number', minimum: 0, nullable: true, description: 'Weight of the estimated cost.' }
+      }
+    },
+    searchMode: {
+      type: 'string',
+      enum: ['point', 'route'],
+      default: 'point',
+      nullable: true,
+      description: 'Search around the destination, or along a route given by waypoints or polyline.'
+    },
+    waypoints: {
+      type: 'array',
+      maxItems: MAX_WAYPOINTS,
+      nullable: true,
+      description: 'Route waypoints in travel order for route mode.',
+      items: {
+        type: 'object',
+        required: ['lat', 'lon'],
+        additionalProperties: false,
+        properties: {
+          lat: { type: 'number', minimum: -90, maximum: 90, description: 'Latitude, WGS84.' },
+          lon: { type: 'number', minimum: -180, maximum: 180, description: 'Longitude, WGS84.' }
+        }
+      }
+    },
+    polyline: {
+      type: 'string',
+      minLength: 2,
+      maxLength: 20000,
+      nullable: true,
+      description: 'Route as an encoded polyline (precision 5) for route mode.'
+    },
+    corridorMeters: {
+      type: 'integer',
+      minimum: 50,
+      maximum: 2000,
+      default: DEFAULT_CORRIDOR_METERS,
+      nullable: true,
+      description: 'Maximum distance from the route in meters in route mode.'
+    },
+    requirements: {
+      type: 'object',
+      additionalProperties: false,
+      nullable: true,
+      description: 'Vehicle and accessibility needs the facility should meet.',
+      properties: {
+        evCharging: { type: 'boolean', nullable: true, description: 'Needs an EV charger.' },
+        connectorTypes: {
+          type: 'array',
+          minItems: 1,
+          maxItems: 10,
+          items: { type: 'string', minLength: 1, maxLength: 40 },
+          nullable: true,
+          description: 'Accepted charging connectors, e.g. "Type 2" or "CCS".'
+        },
+        vehicleHeightMeters: {
+          type: 'number',
+          exclusiveMinimum: 0,
+          maximum: 5,
+          nullable: true,
+          description: 'Vehicle height in meters, checked against the height limit.'
+        },
+        accessible: { type: 'boolean', nullable: true, description: 'Needs an accessible parking space.' },
+        motorcycle: { type: 'boolean', nullable: true, description: 'Needs motorcycle parking.' },
+        bike: { type: 'boolean', nullable: true, description: 'Needs bicycle parking.' },
+        covered: { type: 'boolean', nullable: true, description: 'Needs covered parking.' }
+      }
+    },
+    strictRequirements: {
+      type: 'boolean',
+      default: false,
+      nullable: true,
+      description: 'Also drop facilities whose data cannot confirm a requirement.'
+    },
+    includeClosed: {
+      type: 'boolean',
+      default: false,
+      nullable: true,
+      description: 'Keep facilities that are closed at arrival or close during the stay.'
+    },
+    format: {
+      type: 'string',
+      enum: ['json', 'geojson', 'summary'],
+      default: 'json',
+      nullable: true,
+      description: 'Response format: a list of facilities, a GeoJSON FeatureCollection or a text summary.'
+    },
+    language: {
+      type: 'string',
+      enum: ['sv', 'en'],
+      default: 'en',
+      nullable: true,
+      description: 'Language of the text summary.'
+    }
+  }
+};
+
+const weightsSchema = {
+  type: 'object',
+  description: 'Weights the factors were combined with.',
+  required: ['distance', 'walkTime', 'availability', 'freshness', 'cost'],
+  additionalProperties: false,
+  properties: {
+    distance: { type: 'number', description: 'Weight of the distance to the destination.' },
+    walkTime: { type: 'number', description: 'Weight of the walking time.' },
+    availability: { type: 'number', description: 'Weight of the number of free spaces.' },
+    freshness: { type: 'number', description: 'Weight of how recent the availability data is.' },
+    cost: { type: 'number', description: 'Weight of the estimated cost.' }
+  }
+};
+
+const requirementStatusSchema = { type: 'string', enum: ['met', 'unmet', 'unknown'] };
+
+const amenitiesSchema = {
+  type: 'object',
+  description: 'Amenities of the facility; null where the data does not say.',
+  required: [
+    'evChargers',
+    'connectorTypes',
+    'maxHeightMeters',
+    'accessibleSpaces',
+    'motorcycleSpaces',
+    'bikeSpaces',
+    'openingHours',
+    'covered'
+  ],
+  additionalProperties: false,
+  properties: {
+    evChargers: { type: ['integer', 'null'], description: 'Number of EV charging points.' },
+    connectorTypes: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Charging connectors offered, e.g. "type2", "ccs" or "chademo".'
+    },
+    maxHeightMeters: { type: ['number', 'null'], description: 'Height limit in meters.' },
+    accessibleSpaces: { type: ['integer', 'null'], description: 'Number of accessible parking spaces.' },
+    motorcycleSpaces: { type: ['integer', 'null'], description: 'Number of motorcycle spaces.' },
+    bikeSpaces: { type: ['integer', 'null'], description: 'Number of bicycle spaces.' },
+    openingHours: { type: ['string', 'null'], description: 'Opening hours as published by the operator.' },
+    covered: { type: ['boolean', 'null'], description: 'True for garages, false for open-air lots.' }
+  }
+};
+
+const openStatusSchema = {
+  type: 'object',
+  description: 'Whether the facility is open for the requested stay.',
+  required: ['status', 'reason', 'closesAt', 'opensAt'],
+  additionalProperties: false,
+  properties: {
+    status: {
+      type: 'string',
+      enum: ['open', 'closed', 'closes_during_stay', 'unknown'],
+      description: 'Open status at arrival and during the stay.'
+    },
+    reason: { type: ['string', 'null'], description: 'Why the facility is closed or closes early.' },
+    closesAt: {
+      type: ['string', 'null'],
+      format: 'date-time',
+      description: 'When the facility closes during the stay.'
+    },
+    opensAt: {
+      type: ['string', 'null'],
+      format: 'date-time',
+      description: 'When a facility closed at arrival next opens, within a week.'
+    }
+  }
+};
+
+const dataQualitySchema = {
+  type: 'array',
+  items: { type: 'string', enum: DATA_QUALITY_FLAGS },
+  description: 'Problems found in the availability data; empty when it looks sound.'
+};
+
+const outputSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: [
+      'id',
+      'provider',
+      'name',
+      'lat',
+      'lon',
+      'distanceMeters',
+      'walkMinutes',
+      'walkMethod',
+      'dataQuality',
+      'amenities',
+      'openStatus',
+      'sourceUrl'
+    ],
+    additionalProperties: false,
+    properties: {
+      id: { type: 'string', description: 'Facility id.' },
+      provider: { type: 'string', description: 'Data provider the facility comes from.' },
+      name: { type: 'string', description: 'Facility name.' },
+      lat: { type: 'number', description: 'Latitude of the facility, WGS84.' },
+      lon: { type: 'number', description: 'Longitude of the facility, WGS84.' },
+      freeSpaces: { type: ['integer', 'null'], description: 'Free spaces right now; null when unknown.' },
+      capacity: { type: ['integer', 'null'], description: 'Total number of spaces; null when unknown.' },
+      tariffNote: { type: ['string', 'null'], description: 'Tariff as published by the operator.' },
+      zoneCode: { type: ['string', 'null'], description: 'Parking zone code, used to pay by app.' },
+      distanceMeters: { type: 'integer', description: 'Distance to the destination in meters.' },
+      walkMinutes: { type: 'integer', description: 'Walking time to the destination in minutes.' },
+      walkMethod: {
+        type: 'string',
+        enum: ['network', 'straight_line'],
+        description: 'Whether the walking time follows the street network or a straight line.'
+      },
+      lastUpdated: { type: ['string', 'null'], description: 'When the availability was last reported.' },
+      stale: {
+        type: 'boolean',
+        default: false,
+        description: 'True when the availability was served from cache because the live feed failed.'
+      },
+      dataQuality: dataQualitySchema,
+      estimatedCostSek: {
+        type: ['number', 'null'],
+        description: 'Estimated cost of the stay in SEK; null without a duration or a readable tariff.'
+      },
+      predictedFreeSpaces: {
+        type: ['integer', 'null'],
+        description: 'Forecast free spaces at the arrival time; null without history.'
+      },
+      forecastConfidence: {
+        type: ['number', 'null'],
+        minimum: 0,
+        maximum: 1,
+        description: 'Confidence of the forecast from 0 to 1.'
+      },
+      costBreakdown: {
+        type: ['array', 'null'],
+        description: 'How the estimated cost adds up, per rate.',
+        items: {
+          type: 'object',
+          required: ['label', 'minutes', 'ratePerHourSek', 'amountSek'],
+          additionalProperties: false,
+          properties: {
+            label: { type: 'string', description: 'Tariff rule the minutes were priced by.' },
+            minutes: { type: 'integer', description: 'Minutes of the stay priced at this rate.' },
+            ratePerHourSek: { type: 'number', description: 'Hourly rate in SEK.' },
+            amountSek: { type: 'number', description: 'Cost of these minutes in SEK.' }
+          }
+        }
+      },
+      detourMeters: { type: 'integer', description: 'Distance from the route in meters; route search only.' },
+      amenities: amenitiesSchema,
+      openStatus: openStatusSchema,
+      requirementChecks: {
+        type: 'object',
+        description: 'Whether each requested requirement is met; only set when some were given.',
+        additionalProperties: false,
+        properties: {
+          evCharging: { ...requirementStatusSchema, description: 'EV charging.' },
+          connectorTypes: { ...requirementStatusSchema, description: 'Charging connector.' },
+          vehicleHeightMeters: { ...requirementStatusSchema, description: 'Vehicle height.' },
+          accessible: { ...requirementStatusSchema, description: 'Accessible parking.' },
+          motorcycle: { ...requirementStatusSchema, description: 'Motorcycle parking.' },
+          bike: { ...requirementStatusSchema, description: 'Bicycle parking.' },
+          covered: { ...requirementStatusSchema, description: 'Covered parking.' }
+        }
+      },
+      ranking: {
+        type: 'object',
+        description: 'How the facility was scored.',
+        required: ['profile', 'total', 'weights', 'factors'],
+        additionalProperties: false,
+        properties: {
+          profile: { type: 'string', description: 'Ranking profile, or "custom" for caller weights.' },
+          total: { type: 'number', description: 'Weighted score; higher ranks first.' },
+          weights: weightsSchema,
+          factors: {
+            type: 'object',
+            description: 'Score of each factor from 0 to 1.',
+            required: ['distance', 'walkTime', 'availability', 'freshness', 'cost'],
+            additionalProperties: false,
+            properties: {
+              distance: { type: 'number', description: 'Distance score.' },
+              walkTime: { type: 'number', description: 'Walking time score.' },
+              availability: { type: 'number', description: 'Free spaces score.' },
+              freshness: { type: 'number', description: 'Data freshness score.' },
+              cost: { type: ['number', 'null'], description: 'Cost score; null without a cost estimate.' }
+            }
+          }
+        }
+      },
+      resolvedLocation: {
+        type: 'object',
+        description: 'Where the address or place name was resolved to; only set when one was given.',
+        required: ['query', 'label', 'lat', 'lon', 'kind', 'confidence', 'source'],
+        additionalProperties: false,
+        properties: {
+          query: { type: 'string', description: 'Address or place name as given.' },
+          label: { type: 'string', description: 'Name of the resolved location.' },
+          lat: { type: 'number', description: 'Latitude of the resolved location, WGS84.' },
+          lon: { type: 'number', description: 'Longitude of the resolved location, WGS84.' },
+          kind: {
+            type: 'string',
+            enum: ['address', 'street', 'landmark', 'district'],
+            description: 'What the query matched.'
+          },
+          confidence: { type: 'number', minimum: 0, maximum: 1, description: 'Match confidence from 0 to 1.' },
+          source: { type: 'string', description: 'Geocoder that resolved the query.' }
+        }
+      },
+      reservedSpaces: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Spaces already claimed by earlier stops of a batch.'
+      },
+      sourceUrl: { type: 'string', format: 'uri', description: 'Where the facility data comes from.' }
+    }
+  }
+};
+
+const pointSchema = {
+  type: 'object',
+  description: 'GeoJSON point.',
+  required: ['type', 'coordinates'],
+  additionalProperties: false,
+  properties: {
+    type: { type: 'string', enum: ['Point'], description: 'GeoJSON geometry type.' },
+    coordinates: {
+      type: 'array',
+      items: { type: 'number' },
+      minItems: 2,
+      maxItems: 2,
+      description: 'Longitude and latitude, in that order.'
+    }
+  }
+};
+
+const geojsonOutputSchema = {
+  type: 'object',
+  required: ['type', 'features'],
+  additionalProperties: false,
+  properties: {
+    type: { type: 'string', enum: ['FeatureCollection'], description: 'GeoJSON object type.' },
+    features: {
+      type: 'array',
+      minItems: 1,
+      description: 'The destination followed by the facilities in ranked order.',
+      items: {
+        oneOf: [
+          {
+            type: 'object',
+            required: ['type', 'geometry', 'properties'],
+            additionalProperties: false,
+            properties: {
+              type: { type: 'string', enum: ['Feature'], description: 'GeoJSON object type.' },
+              geometry: pointSchema,
+              properties: {
+                type: 'object',
+                description: 'Destination details.',
+                required: ['kind', 'label'],
+                additionalProperties: false,
+                properties: {
+                  kind: { type: 'string', enum: ['destination'], description: 'Marks the destination feature.' },
+                  label: {
+                    type: ['string', 'null'],
+                    description: 'Resolved address or place name; null when coordinates were given.'
+                  }
+                }
+              }
+            }
+          },
+          {
+            type: 'object',
+            required: ['type', 'id', 'geometry', 'properties'],
+            additionalProperties: false,
+            properties: {
+              type: { type: 'string', enum: ['Feature'], description: 'GeoJSON object type.' },
+              id: { type: 'string', description: 'Facility id.' },
+              geometry: pointSchema,
+              properties: {
+                ...outputSchema.items,
+                description: 'The facility recommendation.',
+                required: [...outputSchema.items.required, 'kind', 'rank'],
+                properties: {
+                  ...outputSchema.items.properties,
+                  // Defaults under oneOf are never applied, and strict mode rejects them.
+                  stale: { type: 'boolean', description: outputSchema.items.properties.stale.description },
+                  kind: { type: 'string', enum: ['facility'], description: 'Marks a facility feature.' },
+                  rank: { type: 'integer', minimum: 1, description: 'Position in the ranking, from 1.' }
+                }
+              }
+            }
+          }
+        ]
+      }
+    }
+  }
+};
+
+const summaryOutputSchema = {
+  type: 'object',
+  required: ['language', 'text', 'facilityIds'],
+  additionalProperties: false,
+  properties: {
+    language: { type: 'string', enum: ['sv', 'en'], description: 'Language of the text.' },
+    text: { type: 'string', minLength: 1, description: 'Summary of the recommendations to relay to the user.' },
+    facilityIds: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Ids of the facilities the summary mentions, in ranked order.'
+    }
+  }
+};
+
+/** Published for `recommendFacility`; each call is validated against the schema of its `format`. */
+const recommendOutputSchema = {
+  oneOf: [outputSchema, geojsonOutputSchema, summaryOutputSchema]
+};
+
+const batchInputSchema: JSONSchemaType<RecommendFacilitiesArgs> = {
+  type: 'object',
+  required: ['requests'],
+  additionalProperties: false,
+  properties: {
+    requests: {
+      type: 'array',
+      minItems: 1,
+      maxItems: MAX_BATCH_REQUESTS,
+      items: inputSchema,
+      description: 'Searches to run, each taking the same parameters as recommendFacility.'
+    },
+    reserveSpaces: {
+      type: 'boolean',
+      default: false,
+      nullable: true,
+      description: 'Count a space of the top facility of each search as taken for the searches after it.'
+    }
+  }
+};
+
+const batchOutputSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: ['index', 'status', 'recommendations'],
+    additionalProperties: false,
+    properties: {
+      index: { type: 'integer', minimum: 0, description: 'Position of the search in the request.' },
+      status: { type: 'string', enum: ['ok', 'error'], description: 'Whether the search succeeded.' },
+      recommendations: { ...outputSchema, description: 'Recommendations of the search; empty when it failed.' },
+      error: { type: 'string', description: 'Why the search failed.' },
+      details: { description: 'Details of the failure, e.g. the input validation errors.' }
+    }
+  }
+};
+
+const getFacilityInputSchema: JSONSchemaType<GetFacilityArgs> = {
+  type: 'object',
+  required: ['id'],
+  additionalProperties: false,
+  properties: {
+    id: { type: 'string', minLength: 1, maxLength: 200, description: 'Facility id, or the id of a merged alias.' }
+  }
+};
+
+const searchFacilitiesInputSchema: JSONSchemaType<SearchFacilitiesArgs> = {
+  type: 'object',
+  required: ['query'],
+  additionalProperties: false,
+  properties: {
+    query: { type: 'string', minLength: 2, maxLength: 100, description: 'Facility name or part of it.' },
+    maxResults: {
+      type: 'integer',
+      minimum: 1,
+      maximum: MAX_SEARCH_RESULTS,
+      default: DEFAULT_SEARCH_RESULTS,
+      nullable: true,
+      description: 'Maximum number of matches to return.'
+    }
+  }
+};
+
+const listFacilitiesInputSchema: JSONSchemaType<ListFacilitiesArgs> = {
+  type: 'object',
+  required: [],
+  additionalProperties: false,
+  properties: {
+    zoneCode: {
+      type: 'string',
+      minLength: 1,
+      maxLength: 50,
+      nullable: true,
+      description: 'Only list facilities in this parking zone.'
+    },
+    offset: {
+      type: 'integer',
+      minimum: 0,
+      default: 0,
+      nullable: true,
+      description: 'Number of facilities to skip.'
+    },
+    limit: {
+      type: 'integer',
+      minimum: 1,
+      maximum: MAX_PAGE_SIZE,
+      default: DEFAULT_PAGE_SIZE,
+      nullable: true,
+      description: 'Maximum number of facilities to return.'
+    }
+  }
+};
+
+const facilitySummaryProperties = {
+  id: { type: 'string', description: 'Facility id.' },
+  provider: { type: 'string', description: 'Data provider the facility comes from.' },
+  name: { type: 'string', description: 'Facility name.' },
+  lat: { type: 'number', description: 'Latitude of the facility, WGS84.' },
+  lon: { type: 'number', description: 'Longitude of the facility, WGS84.' },
+  zoneCode: { type: ['string', 'null'], description: 'Parking zone code, used to pay by app.' },
+  capacity: { type: ['integer', 'null'], description: 'Total number of spaces; null when unknown.' },
+  freeSpaces: { type: ['integer', 'null'], description: 'Free spaces right now; null when unknown.' },
+  lastUpdated: { type: ['string', 'null'], description: 'When the availability was last reported.' },
+  stale: {
+    type: 'boolean',
+    description: 'True when the availability was served from cache because the live feed failed.'
+  },
+  dataQuality: dataQualitySchema
+};
+
+const facilitySummaryRequired = Object.keys(facilitySummaryProperties);
+
+const facilitySummarySchema = {
+  type: 'object',
+  required: facilitySummaryRequired,
+  additionalProperties: false,
+  properties: facilitySummaryProperties
+};
+
+const getFacilityOutputSchema = {
+  type: 'object',
+  required: [...facilitySummaryRequired, 'aliasIds', 'tariffNote', 'amenities', 'openStatus', 'sourceUrl'],
+  additionalProperties: false,
+  properties: {
+    ...facilitySummaryProperties,
+    aliasIds: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Ids of facilities from other providers merged into this one.'
+    },
+    tariffNote: { type: ['string', 'null'], description: 'Tariff as published by the operator.' },
+    amenities: amenitiesSchema,
+    openStatus: openStatusSchema,
+    sourceUrl: { type: 'string', format: 'uri', description: 'Where the facility data comes from.' }
+  }
+};
+
+const searchFacilitiesOutputSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: [...facilitySummaryRequired, 'matchScore'],
+    additionalProperties: false,
+    properties: {
+      ...facilitySummaryProperties,
+      matchScore: {
+        type: 'number',
+        minimum: 0,
+        maximum: 1,
+        description: 'How well the name matches the query, from 0.5 to 1.'
+      }
+    }
+  }
+};
+
+const listFacilitiesOutputSchema = {
+  type: 'object',
+  required: ['total', 'offset', 'limit', 'facilities'],
+  additionalProperties: false,
+  properties: {
+    total: { type: 'integer', minimum: 0, description: 'Facilities matching the filter across all pages.' },
+    offset: { type: 'integer', minimum: 0, description: 'Number of facilities skipped.' },
+    limit: { type: 'integer', minimum: 1, description: 'Page size used.' },
+    facilities: { type: 'array', items: facilitySummarySchema, description: 'Facilities of this page, sorted by name.' }
+  }
+};
+
+const startSessionInputSchema: JSONSchemaType<StartParkingSessionArgs> = {
+  type: 'object',
+  required: ['adapter', 'durationMinutes'],
+  additionalProperties: false,
+  properties: {
+    adapter: {
+      type: 'string',
+      minLength: 1,
+      maxLength: 50,
+      description: 'Payment provider to start the session with.'
+    },
+    facilityId: {
+      type: 'string',
+      minLength: 1,
+      maxLength: 200,
+      nullable: true,
+      description: 'Facility to park at; its zone code is used. Give this or zoneCode.'
+    },
+    zoneCode: {
+      type: 'string',
+      minLength: 1,
+      maxLength: 50,
+      nullable: true,
+      description: 'Parking zone code to pay for. Give this or facilityId.'
+    },
+    durationMinutes: {
+      type: 'integer',
+      minimum: 1,
+      maximum: MAX_DURATION_MINUTES,
+      description: 'Length of the session in minutes.'
+    },
+    licensePlate: {
+      type: 'string',
+      pattern: '^[A-Za-z0-9 -]{2,10}$',
+      nullable: true,
+      description: 'License plate of the vehicle.'
+    }
+  }
+};
+
+const extendSessionInputSchema: JSONSchemaType<ExtendParkingSessionArgs> = {
+  type: 'object',
+  required: ['sessionId', 'additionalMinutes'],
+  additionalProperties: false,
+  properties: {
+    sessionId: { type: 'string', minLength: 1, maxLength: 100, description: 'Id of the session to extend.' },
+    additionalMinutes: {
+      type: 'integer',
+      minimum: 1,
+      maximum: MAX_DURATION_MINUTES,
+      description: 'Minutes to add to the session.'
+    }
+  }
+};
+
+const stopSessionInputSchema: JSONSchemaType<StopParkingSessionArgs> = {
+  type: 'object',
+  required: ['sessionId'],
+  additionalProperties: false,
+  properties: {
+    sessionId: { type: 'string', minLength: 1, maxLength: 100, description: 'Id of the session to stop.' }
+  }
+};
+
+const confirmSessionInputSchema: JSONSchemaType<ConfirmParkingSessionArgs> = {
+  type: 'object',
+  required: ['sessionId'],
+  additionalProperties: false,
+  properties: {
+    sessionId: {
+      type: 'string',
+      minLength: 1,
+      maxLength: 100,
+      description: 'Id of the session whose pending change the user confirmed.'
+    }
+  }
+};
+
+const sessionOutputSchema = {
+  type: 'object',
+  required: [
+    'id',
+    'adapter',
+    'facilityId',
+    'zoneCode',
+    'licensePlate',
+    'status',
+    'startedAt',
+    'endsAt',
+    'stoppedAt',
+    'externalId',
+    'deepLink',
+    'requiresConfirmation',
+    'pendingChange'
+  ],
+  additionalProperties: false,
+  properties: {
+    id: { type: 'string', description: 'Session id.' },
+    adapter: { type: 'string', description: 'Payment provider the session runs with.' },
+    facilityId: { type: ['string', 'null'], description: 'Facility the session was started for.' },
+    zoneCode: { type: 'string', description: 'Parking zone code paid for.' },
+    licensePlate: { type: ['string', 'null'], description: 'License plate of the vehicle.' },
+    status: {
+      type: 'string',
+      enum: ['pending', 'active', 'stopped', 'expired'],
+      description: 'Session status; pending until a start that requires confirmation is confirmed.'
+    },
+    startedAt: { type: 'string', format: 'date-time', description: 'When the session started.' },
+    endsAt: { type: 'string', format: 'date-time', description: 'When the paid time runs out.' },
+    stoppedAt: { type: ['string', 'null'], format: 'date-time', description: 'When the session was stopped.' },
+    externalId: { type: ['string', 'null'], description: 'Id of the session at the payment provider.' },
+    deepLink: {
+      type: ['string', 'null'],
+      format: 'uri',
+      description: 'Link that opens the payment app to confirm the pending change.'
+    },
+    requiresConfirmation: {
+      type: 'boolean',
+      description: 'True when the user must confirm the latest change in the payment app.'
+    },
+    pendingChange: {
+      type: ['object', 'null'],
+      description: 'Change awaiting confirmation; the session only changes once it is confirmed.',
+      required: ['action', 'endsAt'],
+      additionalProperties: false,
+      properties: {
+        action: { type: 'string', enum: ['start', 'extend', 'stop'], description: 'What was requested.' },
+        endsAt: {
+          type: 'string',
+          format: 'date-time',
+          description: 'When the session ends once the change is confirmed.'
+        }
+      }
+    }
+  }
+};
+
+const subscribeInputSchema: JSONSchemaType<SubscribeAvailabilityArgs> = {
+  type: 'object',
+  required: ['freeSpacesBelow'],
+  additionalProperties: false,
+  properties: {
+    facilityIds: {
+      type: 'array',
+      items: { type: 'string', minLength: 1, maxLength: 200 },
+      minItems: 1,
+      maxItems: MAX_WATCHED_FACILITIES,
+      uniqueItems: true,
+      nullable: true,
+      description: 'Facilities to watch. Give these or an area.'
+    },
+    lat: {
+      type: 'number',
+      minimum: -90,
+      maximum: 90,
+      nullable: true,
+      description: 'Latitude of the center of the watched area, WGS84.'
+    },
+    lon: {
+      type: 'number',
+      minimum: -180,
+      maximum: 180,
+      nullable: true,
+      description: 'Longitude of the center of the watched area, WGS84.'
+    },
+    radiusMeters: {
+      type: 'integer',
+      minimum: 100,
+      maximum: config.maxRadiusMeters,
+      nullable: true,
+      description: 'Radius of the watched area in meters.'
+    },
+    freeSpacesBelow: {
+      type: 'integer',
+      minimum: 1,
+      maximum: 10000,
+      description: 'Notify when free spaces drop below this number, and again when they recover.'
+    },
+    webhookUrl: {
+      type: 'string',
+      format: 'uri',
+      pattern: '^https?://',
+      maxLength: 2000,
+      nullable: true,
+      description: 'URL events are also POSTed to, signed with the returned webhookSecret.'
+    }
+  }
+};
+
+const unsubscribeInputSchema: JSONSchemaType<UnsubscribeAvailabilityArgs> = {
+  type: 'object',
+  required: ['subscriptionId'],
+  additionalProperties: false,
+  properties: {
+    subscriptionId: {
+      type: 'string',
+      minLength: 1,
+      maxLength: 100,
+      description: 'Id of the subscription to cancel.'
+    }
+  }
+};
+
+const listSubscriptionsInputSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {}
+};
+
+const subscriptionRequired = ['id', 'facilityIds', 'area', 'freeSpacesBelow', 'webhookUrl', 'createdAt'];
+
+const subscriptionProperties = {
+  id: { type: 'string', description: 'Subscription id.' },
+  facilityIds: {
+    type: ['array', 'null'],
+    items: { type: 'string' },
+    description: 'Watched facilities; null when an area is watched.'
+  },
+  area: {
+    type: ['object', 'null'],
+    description: 'Watched area; null when facilities are watched.',
+    required: ['lat', 'lon', 'radiusMeters'],
+    additionalProperties: false,
+    properties: {
+      lat: { type: 'number', description: 'Latitude of the center, WGS84.' },
+      lon: { type: 'number', description: 'Longitude of the center, WGS84.' },
+      radiusMeters: { type: 'integer', description: 'Radius in meters.' }
+    }
+  },
+  freeSpacesBelow: { type: 'integer', description: 'Free spaces threshold.' },
+  webhookUrl: { type: ['string', 'null'], format: 'uri', description: 'URL events are POSTed to.' },
+  createdAt: { type: 'string', format: 'date-time', description: 'When the subscription was created.' }
+};
+
+const subscriptionSchema = {
+  type: 'object',
+  required: subscriptionRequired,
+  additionalProperties: false,
+  properties: subscriptionProperties
+};
+
+const createdSubscriptionSchema = {
+  type: 'object',
+  required: [...subscriptionRequired, 'webhookSecret', 'eventsPath'],
+  additionalProperties: false,
+  properties: {
+    ...subscriptionProperties,
+    webhookSecret: {
+      type: ['string', 'null'],
+      description: 'HMAC-SHA256 key webhook requests are signed with; only returned here.'
+    },
+    eventsPath: { type: 'string', description: 'Path of the Server-Sent Events stream of the subscription.' }
+  }
+};
 
-const BaseTool = OpalToolBase ?? FallbackTool;
+const listSubscriptionsOutputSchema = {
+  type: 'array',
+  items: subscriptionSchema
+};
 
-const inputSchema: JSONSchemaType<RecommendFacilityArgs> = {
+const streetInputSchema: JSONSchemaType<StreetParkingArgs> = {
   type: 'object',
-  required: ['userLat', 'userLon'],
+  required: ['lat', 'lon'],
   additionalProperties: false,
   properties: {
-    userLat: { type: 'number', minimum: -90, maximum: 90 },
-    userLon: { type: 'number', minimum: -180, maximum: 180 },
-    destinationLat: { type: 'number', minimum: -90, maximum: 90, optional: true },
-    destinationLon: { type: 'number', minimum: -180, maximum: 180, optional: true },
+    lat: { type: 'number', minimum: -90, maximum: 90, description: 'Latitude to look around, WGS84.' },
+    lon: { type: 'number', minimum: -180, maximum: 180, description: 'Longitude to look around, WGS84.' },
+    time: {
+      type: 'string',
+      format: 'date-time',
+      nullable: true,
+      description: 'Start of the stay, ISO 8601; defaults to now.'
+    },
+    durationMinutes: {
+      type: 'integer',
+      minimum: 1,
+      maximum: MAX_DURATION_MINUTES,
+      default: DEFAULT_STREET_DURATION_MINUTES,
+      nullable: true,
+      description: 'Planned length of stay in minutes.'
+    },
     radiusMeters: {
       type: 'integer',
-      minimum: 100,
-      maximum: 5000,
-      default: DEFAULT_RADIUS,
-      optional: true
+      minimum: 10,
+      maximum: 500,
+      default: DEFAULT_STREET_RADIUS,
+      nullable: true,
+      description: 'Search radius in meters.'
     },
     maxResults: {
       type: 'integer',
       minimum: 1,
-      maximum: 10,
-      default: DEFAULT_MAX_RESULTS,
-      optional: true
+      maximum: 20,
+      default: DEFAULT_STREET_MAX_RESULTS,
+      nullable: true,
+      description: 'Maximum number of street segments to return.'
     }
   }
 };
 
-const outputSchema = {
+const regulationWindowSchema = {
+  type: 'object',
+  required: ['start', 'end', 'reason'],
+  additionalProperties: false,
+  properties: {
+    start: { type: 'string', format: 'date-time', description: 'Start of the window.' },
+    end: { type: 'string', format: 'date-time', description: 'End of the window.' },
+    reason: { type: 'string', description: 'Regulation that applies in the window.' }
+  }
+};
+
+const streetOutputSchema = {
   type: 'array',
   items: {
     type: 'object',
-    required: ['id', 'name', 'lat', 'lon', 'distanceMeters', 'walkMinutes', 'sourceUrl'],
+    required: [
+      'id',
+      'street',
+      'address',
+      'distanceMeters',
+      'status',
+      'reasons',
+      'maxParkingMinutes',
+      'allowedUntil',
+      'forbiddenWindows',
+      'cleaningWindows',
+      'sourceUrl'
+    ],
     additionalProperties: false,
     properties: {
-      id: { type: 'string' },
-      name: { type: 'string' },
-      lat: { type: 'number' },
-      lon: { type: 'number' },
-      freeSpaces: { type: ['integer', 'null'] },
-      capacity: { type: ['integer', 'null'] },
-      tariffNote: { type: ['string', 'null'] },
-      zoneCode: { type: ['string', 'null'] },
-      distanceMeters: { type: 'integer' },
-      walkMinutes: { type: 'integer' },
-      lastUpdated: { type: ['string', 'null'] },
-      stale: { type: 'boolean', default: false },
-      sourceUrl: { type: 'string', format: 'uri' }
+      id: { type: 'string', description: 'Street segment id.' },
+      street: { type: ['string', 'null'], description: 'Street name.' },
+      address: { type: ['string', 'null'], description: 'Address range of the segment.' },
+      distanceMeters: { type: 'integer', description: 'Distance to the segment in meters.' },
+      status: {
+        type: 'string',
+        enum: ['allowed', 'time_limited', 'forbidden'],
+        description: 'Whether the whole stay is allowed, cut short by a time limit, or not allowed.'
+      },
+      reasons: { type: 'array', items: { type: 'string' }, description: 'Regulations behind the status.' },
+      maxParkingMinutes: { type: ['integer', 'null'], description: 'Longest stay allowed in minutes.' },
+      allowedUntil: {
+        type: ['string', 'null'],
+        description: 'Last moment parking is allowed when a time limit cuts the stay short.'
+      },
+      forbiddenWindows: {
+        type: 'array',
+        items: regulationWindowSchema,
+        description: 'Times during the stay when parking is not allowed.'
+      },
+      cleaningWindows: {
+        type: 'array',
+        items: regulationWindowSchema,
+        description: 'Street cleaning during the stay.'
+      },
+      zone: { type: ['string', 'null'], description: 'Parking zone of the segment.' },
+      vehicle: { type: ['string', 'null'], description: 'Vehicle type the segment is reserved for.' },
+      citation: { type: ['string', 'null'], description: 'Local traffic regulation the rules come from.' },
+      sourceUrl: { type: 'string', format: 'uri', description: 'Where the regulation data comes from.' }
     }
   }
 };
@@ -76,27 +1157,205 @@ addFormats(ajv);
 
 const validateInput = ajv.compile(inputSchema);
 const validateOutput = ajv.compile(outputSchema);
+const validateGeoJsonOutput = ajv.compile(geojsonOutputSchema);
+const validateSummaryOutput = ajv.compile(summaryOutputSchema);
+const formatValidators = { geojson: validateGeoJsonOutput, summary: validateSummaryOutput };
+const validateBatchInput = ajv.compile(batchInputSchema);
+const validateBatchOutput = ajv.compile(batchOutputSchema);
+const validateGetFacilityInput = ajv.compile(getFacilityInputSchema);
+const validateGetFacilityOutput = ajv.compile(getFacilityOutputSchema);
+const validateSearchInput = ajv.compile(searchFacilitiesInputSchema);
+const validateSearchOutput = ajv.compile(searchFacilitiesOutputSchema);
+const validateListInput = ajv.compile(listFacilitiesInputSchema);
+const validateListOutput = ajv.compile(listFacilitiesOutputSchema);
+const validateStartSessionInput = ajv.compile(startSessionInputSchema);
+const validateExtendSessionInput = ajv.compile(extendSessionInputSchema);
+const validateStopSessionInput = ajv.compile(stopSessionInputSchema);
+const validateConfirmSessionInput = ajv.compile(confirmSessionInputSchema);
+const validateSessionOutput = ajv.compile(sessionOutputSchema);
+const validateSubscribeInput = ajv.compile(subscribeInputSchema);
+const validateUnsubscribeInput = ajv.compile(unsubscribeInputSchema);
+const validateListSubscriptionsInput = ajv.compile(listSubscriptionsInputSchema);
+const validateCreatedSubscription = ajv.compile(createdSubscriptionSchema);
+const validateSubscription = ajv.compile(subscriptionSchema);
+const validateSubscriptionList = ajv.compile(listSubscriptionsOutputSchema);
+const validateStreetInput = ajv.compile(streetInputSchema);
+const validateStreetOutput = ajv.compile(streetOutputSchema);
+
+/** Facilities and availability a search ranks against; a batch shares one across its stops. */
+interface FacilitySnapshot {
+  facilityIndex: SpatialIndex<FacilityMetadata>;
+  availability: AvailabilityResult;
+}
+
+/** Recommendations of one search and the target they were searched around. */
+interface SearchOutcome {
+  recommendations: FacilityRecommendation[];
+  target: SearchTarget;
+}
+
+interface NormalizedArgs {
+  userLat: number;
+  userLon: number;
+  destinationLat: number;
+  destinationLon: number;
+  radiusMeters: number;
+  maxResults: number;
+  arrival: Date;
+  /** True when the caller asked about a specific arrival time, which triggers forecasting. */
+  forecast: boolean;
+  durationMinutes: number | null;
+  ranking: Pick<RankingOptions, 'profile' | 'weights'>;
+  /** Path from origin to destination in route mode, null for a point search. */
+  route: LatLon[] | null;
+  corridorMeters: number;
+  requirements: VehicleRequirements | undefined;
+  strictRequirements: boolean;
+  includeClosed: boolean;
+}
 
-function normalizeArgs(args: RecommendFacilityArgs): Required<RecommendFacilityArgs> {
+/**
+ * Drops null properties, also from nested objects, so handlers can treat an optional input given
+ * as null like one left out; the input schemas accept both.
+ * @param value Validated input.
+ * @returns Copy without null properties.
+ */
+function omitNulls<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, item]) => item !== null)
+      .map(([key, item]) => [
+        key,
+        typeof item === 'object' && !Array.isArray(item) ? omitNulls(item as object) : item
+      ])
+  ) as T;
+}
+
+function invalidInput(details: unknown): Error {
+  const error = new Error('Invalid input');
+  (error as Error & { details?: unknown }).details = details;
+  return error;
+}
+
+function facilityNotFound(id: string): Error {
+  const error = new Error('Facility not found');
+  (error as Error & { details?: unknown }).details = { id };
+  return error;
+}
+
+function summarizeFacility(
+  facility: FacilityMetadata,
+  availabilityResult: AvailabilityResult,
+  maxAgeMs: number
+): FacilitySummary {
+  const availability = lookupAvailability(facility, availabilityResult.data);
+  const capacity = availability?.capacity ?? facility.capacity ?? null;
   return {
-    userLat: args.userLat,
-    userLon: args.userLon,
-    destinationLat: args.destinationLat ?? args.userLat,
-    destinationLon: args.destinationLon ?? args.userLon,
-    radiusMeters: args.radiusMeters ?? DEFAULT_RADIUS,
-    maxResults: args.maxResults ?? DEFAULT_MAX_RESULTS
+    id: facility.id,
+    provider: facility.provider,
+    name: facility.name,
+    lat: facility.lat,
+    lon: facility.lon,
+    zoneCode: facility.zoneCode,
+    capacity,
+    freeSpaces: availability?.freeSpaces ?? null,
+    lastUpdated: availability?.lastUpdated ?? null,
+    stale: availabilityResult.stale,
+    dataQuality: facilityQualityFlags(availability, capacity, maxAgeMs)
   };
 }
 
-export function sortRecommendations(results: FacilityRecommendation[]): FacilityRecommendation[] {
-  return [...results].sort((a, b) => {
-    if (a.distanceMeters !== b.distanceMeters) {
-      return a.distanceMeters - b.distanceMeters;
+/**
+ * Checks how the search location is given: coordinates, or an address or place name to geocode.
+ * @param args Validated input arguments.
+ * @returns Geocoding query, or null when coordinates were given.
+ */
+function locationQuery(args: RecommendFacilityArgs): GeocodeQuery | null {
+  if ((args.userLat === undefined) !== (args.userLon === undefined)) {
+    throw invalidInput([{ instancePath: '', message: 'userLat and userLon must be given together' }]);
+  }
+  if (args.address !== undefined && args.placeName !== undefined) {
+    throw invalidInput([{ instancePath: '/placeName', message: 'must not be combined with address' }]);
+  }
+
+  const text = args.address ?? args.placeName;
+  if (text === undefined) {
+    if (args.userLat === undefined) {
+      throw invalidInput([{ instancePath: '', message: 'requires userLat and userLon, or an address or placeName' }]);
+    }
+    return null;
+  }
+  if (args.destinationLat !== undefined || args.destinationLon !== undefined) {
+    throw invalidInput([
+      { instancePath: '/destinationLat', message: 'must not be combined with address or placeName' }
+    ]);
+  }
+  return { text, kind: args.address !== undefined ? 'address' : 'place' };
+}
+
+function buildRoute(args: RecommendFacilityArgs, destination: LatLon | null): LatLon[] {
+  if (!destination) {
+    throw invalidInput([
+      { instancePath: '', message: 'route search requires destinationLat and destinationLon, or an address or placeName' }
+    ]);
+  }
+  if (args.userLat === undefined || args.userLon === undefined) {
+    throw invalidInput([{ instancePath: '', message: 'route search requires userLat and userLon' }]);
+  }
+
+  const origin = { lat: args.userLat, lon: args.userLon };
+
+  if (args.polyline !== undefined) {
+    const decoded = decodePolyline(args.polyline);
+    if (!decoded || decoded.length < 2) {
+      throw invalidInput([{ instancePath: '/polyline', message: 'must be a valid encoded polyline with at least two points' }]);
     }
-    const freeA = a.freeSpaces ?? -1;
-    const freeB = b.freeSpaces ?? -1;
-    return freeB - freeA;
-  });
+    return [origin, ...decoded, destination];
+  }
+
+  return [origin, ...(args.waypoints ?? []), destination];
+}
+
+/**
+ * Applies defaults and resolves the search target.
+ * @param args Validated input arguments.
+ * @param resolved Where `address` or `placeName` was resolved to; it replaces the destination and,
+ * when no user coordinates were given, the user location too.
+ * @returns Normalized arguments.
+ */
+function normalizeArgs(args: RecommendFacilityArgs, resolved: LatLon | null): NormalizedArgs {
+  const ranking = resolveRankingWeights(args.rankingProfile, args.rankingWeights);
+  if (!ranking) {
+    throw invalidInput([{ instancePath: '/rankingWeights', message: 'must contain at least one positive weight' }]);
+  }
+
+  const destination =
+    resolved ??
+    (args.destinationLat !== undefined && args.destinationLon !== undefined
+      ? { lat: args.destinationLat, lon: args.destinationLon }
+      : null);
+  const route = args.searchMode === 'route' ? buildRoute(args, destination) : null;
+  // locationQuery guarantees user coordinates whenever nothing was resolved.
+  const userLat = args.userLat ?? (resolved as LatLon).lat;
+  const userLon = args.userLon ?? (resolved as LatLon).lon;
+
+  return {
+    userLat,
+    userLon,
+    destinationLat: destination?.lat ?? userLat,
+    destinationLon: destination?.lon ?? userLon,
+    radiusMeters: args.radiusMeters ?? config.defaultRadiusMeters,
+    maxResults: args.maxResults ?? config.defaultMaxResults,
+    arrival: args.arrivalTime ? new Date(args.arrivalTime) : new Date(),
+    forecast: args.arrivalTime !== undefined,
+    durationMinutes: args.durationMinutes ?? null,
+    ranking,
+    route,
+    corridorMeters: args.corridorMeters ?? DEFAULT_CORRIDOR_METERS,
+    requirements: args.requirements,
+    strictRequirements: args.strictRequirements ?? false,
+    includeClosed: args.includeClosed ?? false
+  };
 }
 
 function enforceMaxResults(results: FacilityRecommendation[], limit: number): FacilityRecommendation[] {
@@ -106,103 +1365,849 @@ function enforceMaxResults(results: FacilityRecommendation[], limit: number): Fa
   return results.slice(0, limit);
 }
 
-export class StockholmParkingTool extends BaseTool {
+/** Methods registered with the SDK; the HTTP routes, discovery document and MCP tools are built from this. */
+export const toolDefinition: ToolDefinition = {
+  name: 'stockholmParking',
+  description: 'Recommends nearby Stockholm Parkering facilities and checks street-parking rules.',
+  methods: [
+    {
+      name: 'recommendFacility',
+      description:
+        'Recommend parking facilities near the user, a destination, a street address or a named Stockholm place, or along the route between them.',
+      inputSchema,
+      outputSchema: recommendOutputSchema
+    },
+    {
+      name: 'recommendFacilities',
+      description:
+        'Recommend parking for several stops of an itinerary in one call; each stop takes the recommendFacility arguments and succeeds or fails on its own.',
+      inputSchema: batchInputSchema,
+      outputSchema: batchOutputSchema
+    },
+    {
+      name: 'getFacility',
+      description: 'Get one parking facility by id with its full metadata, live availability and current opening status.',
+      inputSchema: getFacilityInputSchema,
+      outputSchema: getFacilityOutputSchema
+    },
+    {
+      name: 'searchFacilities',
+      description:
+        'Find parking facilities by name; matching ignores case and å/ä/ö and tolerates small typos. Returns the best matches first.',
+      inputSchema: searchFacilitiesInputSchema,
+      outputSchema: searchFacilitiesOutputSchema
+    },
+    {
+      name: 'listFacilities',
+      description: 'List parking facilities alphabetically, optionally only those in one parking zone, a page at a time.',
+      inputSchema: listFacilitiesInputSchema,
+      outputSchema: listFacilitiesOutputSchema
+    },
+    {
+      name: 'startParkingSession',
+      description:
+        'Start paid parking at a facility or in a parking zone through a parking app such as EasyPark or Parkster. When the result requires confirmation, give the user the deepLink to confirm in the app and call confirmParkingSession once they have.',
+      inputSchema: startSessionInputSchema,
+      outputSchema: sessionOutputSchema
+    },
+    {
+      name: 'extendParkingSession',
+      description: 'Extend an active parking session started with startParkingSession by a number of minutes.',
+      inputSchema: extendSessionInputSchema,
+      outputSchema: sessionOutputSchema
+    },
+    {
+      name: 'stopParkingSession',
+      description: 'Stop an active parking session started with startParkingSession.',
+      inputSchema: stopSessionInputSchema,
+      outputSchema: sessionOutputSchema
+    },
+    {
+      name: 'confirmParkingSession',
+      description:
+        'Record that the user confirmed the pending start, extension or stop of a parking session in the parking app, after opening its deepLink.',
+      inputSchema: confirmSessionInputSchema,
+      outputSchema: sessionOutputSchema
+    },
+    {
+      name: 'subscribeAvailability',
+      description:
+        'Watch facilities, by id or within a radius of a point, and get an event whenever one drops below a number of free spaces or recovers. Events stream from eventsPath (Server-Sent Events) and are POSTed to webhookUrl when given.',
+      inputSchema: subscribeInputSchema,
+      outputSchema: createdSubscriptionSchema
+    },
+    {
+      name: 'unsubscribeAvailability',
+      description: 'Stop an availability watch created with subscribeAvailability.',
+      inputSchema: unsubscribeInputSchema,
+      outputSchema: subscriptionSchema
+    },
+    {
+      name: 'listSubscriptions',
+      description: "List the caller's active availability watches.",
+      inputSchema: listSubscriptionsInputSchema,
+      outputSchema: listSubscriptionsOutputSchema
+    },
+    {
+      name: 'lookupStreetParking',
+      description:
+        'Check whether street parking near a point is allowed for a planned stay, including time limits and street cleaning.',
+      inputSchema: streetInputSchema,
+      outputSchema: streetOutputSchema
+    }
+  ]
+};
+
+export class StockholmParkingTool extends BaseTool implements ToolInvoker {
+  readonly definition: ToolDefinition = toolDefinition;
   private readonly log: Logger;
   private readonly config: ServiceConfig;
+  private readonly handlers: Map<string, (args: unknown, log: Logger, client: string) => Promise<unknown>>;
 
   constructor(config: ServiceConfig, log: Logger = logger) {
-    super({
-      name: 'stockholmParking',
-      description: 'Recommends nearby Stockholm Parkering facilities.',
-      methods: [
+    super(toolDefinition);
+
+    this.log = log;
+    this.config = config;
+    this.handlers = new Map<string, (args: unknown, log: Logger, client: string) => Promise<unknown>>([
+      ['recommendFacility', (args, log) => this.recommendFacility(args, log)],
+      ['recommendFacilities', (args, log) => this.recommendFacilities(args, log)],
+      ['getFacility', (args, log) => this.getFacility(args, log)],
+      ['searchFacilities', (args, log) => this.searchFacilities(args, log)],
+      ['listFacilities', (args, log) => this.listFacilities(args, log)],
+      ['startParkingSession', (args, log) => this.startParkingSession(args, log)],
+      ['extendParkingSession', (args, log) => this.extendParkingSession(args, log)],
+      ['stopParkingSession', (args, log) => this.stopParkingSession(args, log)],
+      ['confirmParkingSession', (args, log) => this.confirmParkingSession(args, log)],
+      ['subscribeAvailability', (args, log, client) => this.subscribeAvailability(args, log, client)],
+      ['unsubscribeAvailability', (args, log, client) => this.unsubscribeAvailability(args, log, client)],
+      ['listSubscriptions', (args, log, client) => this.listSubscriptions(args, log, client)],
+      ['lookupStreetParking', (args, log) => this.lookupStreetParking(args, log)]
+    ]);
+  }
+
+  /**
+   * Calls a registered method by name, counting, timing and tracing the call.
+   * @param method Method name from {@link toolDefinition}.
+   * @param args Raw input arguments.
+   * @param log Request-scoped logger.
+   * @param client Name of the calling client.
+   * @returns The method result.
+   */
+  invoke(method: string, args: unknown, log: Logger = this.log, client: string = ANONYMOUS_CLIENT): Promise<unknown> {
+    const handler = this.handlers.get(method);
+    if (!handler) {
+      return Promise.reject(new Error(`Unknown method '${method}'`));
+    }
+    return withSpan(method, { 'tool.method': method }, () => observeToolCall(method, () => handler(args, log, client)));
+  }
+
+  private async applyForecasts(recommendations: FacilityRecommendation[], arrival: Date): Promise<void> {
+    const store = getHistoryStore(this.config);
+    const now = new Date();
+    await Promise.all(
+      recommendations.map(async (recommendation) => {
+        const history = await store.history(recommendation.id);
+        const forecast = forecastFreeSpaces(history, arrival, now, {
+          id: recommendation.id,
+          freeSpaces: recommendation.freeSpaces,
+          capacity: recommendation.capacity,
+          lastUpdated: recommendation.lastUpdated
+        });
+        recommendation.predictedFreeSpaces = forecast?.predictedFreeSpaces ?? null;
+        recommendation.forecastConfidence = forecast?.confidence ?? null;
+      })
+    );
+  }
+
+  /**
+   * Geocodes `address` or `placeName`, rejecting matches below `GEOCODE_MIN_CONFIDENCE` so the
+   * caller can ask the user instead of searching around a guess.
+   * @param query Address or place name.
+   * @param log Request-scoped logger.
+   * @param signal Abort signal for upstream requests.
+   * @returns Resolved location, echoed back in the recommendations.
+   */
+  private async resolveLocation(query: GeocodeQuery, log: Logger, signal: AbortSignal): Promise<ResolvedLocation> {
+    const match = await geocode(query, this.config, log, signal);
+    const instancePath = query.kind === 'address' ? '/address' : '/placeName';
+    if (!match) {
+      throw invalidInput([{ instancePath, message: 'could not be resolved to a location in Stockholm' }]);
+    }
+    if (match.confidence < this.config.geocodeMinConfidence) {
+      throw invalidInput([
         {
-          name: 'recommendFacility',
-          description: 'Recommend nearby parking facilities based on user or destination coordinates.',
-          inputSchema,
-          outputSchema
+          instancePath,
+          message: `could not be resolved confidently; closest match is '${match.label}' (confidence ${match.confidence})`
         }
-      ]
+      ]);
+    }
+
+    log.debug('Resolved search location', {
+      lat: match.lat,
+      lon: match.lon,
+      kind: match.kind,
+      confidence: match.confidence,
+      source: match.source
     });
+    return { query: query.text, ...match };
+  }
 
-    this.log = log;
-    this.config = config;
+  private async loadSnapshot(log: Logger, signal: AbortSignal): Promise<FacilitySnapshot> {
+    const [facilityIndex, availability] = await Promise.all([
+      getFacilityIndex(this.config, log, signal),
+      getAvailability(this.config, log, signal)
+    ]);
+    return { facilityIndex, availability };
   }
 
   /**
    * Recommend nearby parking facilities combining metadata and live availability.
    * @param rawArgs Raw input arguments.
-   * @returns List of facility recommendations.
+   * @param log Request-scoped logger.
+   * @returns Facility recommendations in the requested `format`.
    */
-  async recommendFacility(rawArgs: unknown): Promise<FacilityRecommendation[]> {
+  async recommendFacility(rawArgs: unknown, log: Logger = this.log): Promise<FormattedRecommendations> {
     if (!validateInput(rawArgs)) {
-      const error = new Error('Invalid input');
-      (error as Error & { details?: unknown }).details = validateInput.errors;
-      this.log.error('Input validation failed', { errors: validateInput.errors });
-      throw error;
+      log.warn('Input validation failed', { errors: validateInput.errors });
+      throw invalidInput(validateInput.errors);
+    }
+
+    const args = omitNulls(rawArgs as RecommendFacilityArgs);
+    const { recommendations, target } = await this.withDeadline((signal) =>
+      this.recommend(args, () => this.loadSnapshot(log, signal), log, signal)
+    );
+    const format = args.format ?? 'json';
+    const result = formatRecommendations(recommendations, format, target, args.language ?? 'en');
+
+    // The json array was validated by the search itself.
+    const validate = format === 'json' ? null : formatValidators[format];
+    if (validate && !validate(result)) {
+      log.error('Output validation failed', { format, errors: validate.errors });
+      throw new Error('Internal output validation failed');
+    }
+    return result;
+  }
+
+  /**
+   * Recommend facilities for several stops against one facilities and availability snapshot. A
+   * stop that fails reports its error in place of recommendations; the others are unaffected.
+   * @param rawArgs Raw input arguments.
+   * @param log Request-scoped logger.
+   * @returns One result per stop, in request order.
+   */
+  async recommendFacilities(rawArgs: unknown, log: Logger = this.log): Promise<BatchRecommendationResult[]> {
+    const valid = validateBatchInput(rawArgs);
+    const { batch, items } = splitValidationErrors(valid ? [] : validateBatchInput.errors ?? [], '/requests');
+    if (batch.length > 0) {
+      log.warn('Input validation failed', { errors: batch });
+      throw invalidInput(batch);
+    }
+
+    const args = rawArgs as RecommendFacilitiesArgs;
+    const reservations = args.reserveSpaces ? new SpaceReservations() : null;
+
+    const results = await this.withDeadline(async (signal) => {
+      let snapshot: Promise<FacilitySnapshot> | undefined;
+      const sharedSnapshot = () => (snapshot ??= this.loadSnapshot(log, signal));
+
+      const recommendItem = async (request: RecommendFacilityArgs, index: number): Promise<BatchRecommendationResult> => {
+        const input = omitNulls(request);
+        const itemLog = log.child({ batchIndex: index });
+        const errors = items.get(index);
+        try {
+          if (errors) {
+            itemLog.warn('Input validation failed', { errors });
+            throw invalidInput(errors);
+          }
+          if ((input.format ?? 'json') !== 'json') {
+            throw invalidInput([{ instancePath: '/format', message: 'must be json in a batch' }]);
+          }
+          const { recommendations } = await this.recommend(input, sharedSnapshot, itemLog, signal, reservations);
+          return { index, status: 'ok', recommendations };
+        } catch (error) {
+          if (!(error instanceof Error && error.message === 'Invalid input')) {
+            itemLog.error('Batch item failed', { error: error instanceof Error ? error.message : String(error) });
+          }
+          return failedItem(index, error);
+        }
+      };
+
+      if (!reservations) {
+        return Promise.all(args.requests.map(recommendItem));
+      }
+      // Each stop must see the spaces claimed by the stops before it.
+      const sequential: BatchRecommendationResult[] = [];
+      for (const [index, input] of args.requests.entries()) {
+        sequential.push(await recommendItem(input, index));
+      }
+      return sequential;
+    });
+
+    if (!validateBatchOutput(results)) {
+      log.error('Output validation failed', { errors: validateBatchOutput.errors });
+      throw new Error('Internal output validation failed');
+    }
+
+    log.info('Generated batch recommendations', {
+      stops: results.length,
+      failed: results.filter((result) => result.status === 'error').length,
+      reserveSpaces: reservations !== null
+    });
+    return results;
+  }
+
+  /**
+   * Searches, enriches and ranks facilities for one validated request.
+   * @param input Validated input arguments.
+   * @param snapshot Loads the facilities and availability to search.
+   * @param log Request-scoped logger.
+   * @param signal Abort signal for upstream requests.
+   * @param reservations Spaces claimed by earlier stops of a batch; this search claims one more.
+   * @returns Ranked recommendations, at most `maxResults`, and the search target.
+   */
+  private async recommend(
+    input: RecommendFacilityArgs,
+    snapshot: () => Promise<FacilitySnapshot>,
+    log: Logger,
+    signal: AbortSignal,
+    reservations: SpaceReservations | null = null
+  ): Promise<SearchOutcome> {
+    const query = locationQuery(input);
+    const resolvedLocation = query ? await this.resolveLocation(query, log, signal) : null;
+    const args = normalizeArgs(input, resolvedLocation);
+    log.debug('Recommending facilities', {
+      userLat: args.userLat,
+      userLon: args.userLon,
+      destinationLat: args.destinationLat,
+      destinationLon: args.destinationLon,
+      radiusMeters: args.radiusMeters,
+      maxResults: args.maxResults
+    });
+
+    const { facilityIndex, availability: availabilityResult } = await snapshot();
+
+    const targetLat = args.destinationLat;
+    const targetLon = args.destinationLon;
+    const { route } = args;
+
+    const nearby = route
+      ? facilityIndex
+          .withinBox(boxAroundPath(route, args.corridorMeters))
+          .map((facility) => ({
+            facility,
+            distanceMeters: haversineDistanceMeters(targetLat, targetLon, facility.lat, facility.lon),
+            detourMeters: distanceToPathMeters(facility.lat, facility.lon, route)
+          }))
+          .filter(({ detourMeters }) => detourMeters <= args.corridorMeters)
+      : facilityIndex
+          .withinRadius({ lat: targetLat, lon: targetLon }, args.radiusMeters)
+          .map(({ item, distanceMeters }) => ({ facility: item, distanceMeters, detourMeters: null }));
+
+    // Opening hours are the costlier check, so only candidates meeting the requirements get one.
+    const candidates = nearby
+      .map((candidate) => ({
+        ...candidate,
+        checks: checkRequirements(candidate.facility.amenities, args.requirements)
+      }))
+      .filter(({ checks }) => passesRequirements(checks, args.strictRequirements))
+      .map((candidate) => ({
+        ...candidate,
+        openStatus: checkOpeningHours(candidate.facility.openingHours, args.arrival, args.durationMinutes)
+      }))
+      .filter(
+        ({ openStatus }) => args.includeClosed || openStatus.status === 'open' || openStatus.status === 'unknown'
+      );
+
+    const walks = await estimateWalkingDistances(
+      this.config,
+      log,
+      { lat: targetLat, lon: targetLon },
+      candidates.map(({ facility }) => facility)
+    );
+
+    const enriched = candidates.map(({ facility, distanceMeters, detourMeters, checks, openStatus }, index) => {
+      const availability = lookupAvailability(facility, availabilityResult.data);
+      const capacity = availability?.capacity ?? facility.capacity ?? null;
+      const reservedSpaces = reservations?.reserved(facility.id) ?? 0;
+      const reportedFreeSpaces = availability?.freeSpaces ?? null;
+      const freeSpaces = reservations ? reservations.remaining(facility.id, reportedFreeSpaces) : reportedFreeSpaces;
+      const lastUpdated = availability?.lastUpdated ?? null;
+      const walkMinutes = estimateWalkMinutes(walks[index].distanceMeters);
+      const cost =
+        facility.tariff && args.durationMinutes !== null
+          ? estimateParkingCost(facility.tariff, args.arrival, args.durationMinutes)
+          : null;
+
+      return {
+        id: facility.id,
+        provider: facility.provider,
+        name: facility.name,
+        lat: facility.lat,
+        lon: facility.lon,
+        freeSpaces,
+        capacity,
+        tariffNote: facility.tariffNote,
+        zoneCode: facility.zoneCode,
+        distanceMeters,
+        walkMinutes,
+        walkMethod: walks[index].method,
+        lastUpdated,
+        stale: availabilityResult.stale,
+        dataQuality: facilityQualityFlags(availability, capacity, this.config.availabilityMaxAgeMs),
+        estimatedCostSek: cost?.amountSek ?? null,
+        costBreakdown: cost?.breakdown ?? null,
+        predictedFreeSpaces: null,
+        forecastConfidence: null,
+        ...(detourMeters !== null ? { detourMeters } : {}),
+        amenities: facility.amenities,
+        openStatus,
+        ...(checks ? { requirementChecks: checks } : {}),
+        ...(resolvedLocation ? { resolvedLocation } : {}),
+        ...(reservedSpaces > 0 ? { reservedSpaces } : {}),
+        sourceUrl: facility.sourceUrl
+      } satisfies FacilityRecommendation;
+    });
+
+    if (args.forecast) {
+      await this.applyForecasts(enriched, args.arrival);
+    }
+
+    const sorted = sortRecommendations(enriched, { ...args.ranking, now: new Date() });
+
+    const limited = enforceMaxResults(sorted, args.maxResults);
+    reservations?.claimTop(limited);
+
+    if (!validateOutput(limited)) {
+      log.error('Output validation failed', { errors: validateOutput.errors });
+      throw new Error('Internal output validation failed');
     }
 
-    const args = normalizeArgs(rawArgs as RecommendFacilityArgs);
+    log.info('Generated facility recommendations', {
+      count: limited.length,
+      staleAvailability: availabilityResult.stale,
+      rankingProfile: args.ranking.profile,
+      searchMode: route ? 'route' : 'point',
+      requirements: args.requirements ? Object.keys(args.requirements) : [],
+      geocoder: resolvedLocation?.source ?? null
+    });
+
+    return {
+      recommendations: limited,
+      target: { lat: targetLat, lon: targetLon, label: resolvedLocation?.label ?? null, route: route !== null }
+    };
+  }
 
+  /**
+   * Runs a call under the overall deadline; its signal aborts once `overallTimeoutMs` has passed.
+   * @param run The call, given the deadline's abort signal.
+   * @returns What the call returns.
+   */
+  private async withDeadline<T>(run: (signal: AbortSignal) => Promise<T>): Promise<T> {
     const overallController = new AbortController();
     const timeout = setTimeout(() => {
       overallController.abort(new Error('Operation timed out'));
     }, this.config.overallTimeoutMs);
 
     try {
+      return await run(overallController.signal);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * Get one facility by id with live availability.
+   * @param rawArgs Raw input arguments.
+   * @param log Request-scoped logger.
+   * @returns Facility details.
+   */
+  async getFacility(rawArgs: unknown, log: Logger = this.log): Promise<FacilityDetails> {
+    if (!validateGetFacilityInput(rawArgs)) {
+      log.warn('Input validation failed', { errors: validateGetFacilityInput.errors });
+      throw invalidInput(validateGetFacilityInput.errors);
+    }
+
+    const { id } = rawArgs as GetFacilityArgs;
+    const details = await this.withDeadline(async (signal) => {
       const [facilities, availabilityResult] = await Promise.all([
-        getFacilities(this.config, this.log, overallController.signal),
-        getAvailability(this.config, this.log, overallController.signal)
+        getFacilities(this.config, log, signal),
+        getAvailability(this.config, log, signal)
       ]);
+      const facility = findFacility(facilities, id);
+      if (!facility) {
+        throw facilityNotFound(id);
+      }
 
-      const targetLat = args.destinationLat ?? args.userLat;
-      const targetLon = args.destinationLon ?? args.userLon;
-
-      const enriched = facilities
-        .map((facility) => {
-          const availability = availabilityResult.data.get(facility.id);
-          const capacity = availability?.capacity ?? facility.capacity ?? null;
-          const freeSpaces = availability?.freeSpaces ?? null;
-          const lastUpdated = availability?.lastUpdated ?? null;
-          const distanceMeters = haversineDistanceMeters(targetLat, targetLon, facility.lat, facility.lon);
-          const walkMinutes = estimateWalkMinutes(distanceMeters);
-
-          return {
-            id: facility.id,
-            name: facility.name,
-            lat: facility.lat,
-            lon: facility.lon,
-            freeSpaces,
-            capacity,
-            tariffNote: facility.tariffNote,
-            zoneCode: facility.zoneCode,
-            distanceMeters,
-            walkMinutes,
-            lastUpdated,
-            stale: availabilityResult.stale,
-            sourceUrl: facility.sourceUrl
-          } satisfies FacilityRecommendation;
+      return {
+        ...summarizeFacility(facility, availabilityResult, this.config.availabilityMaxAgeMs),
+        aliasIds: facility.aliasIds,
+        tariffNote: facility.tariffNote,
+        amenities: facility.amenities,
+        openStatus: checkOpeningHours(facility.openingHours, new Date(), null),
+        sourceUrl: facility.sourceUrl
+      } satisfies FacilityDetails;
+    });
+
+    if (!validateGetFacilityOutput(details)) {
+      log.error('Output validation failed', { errors: validateGetFacilityOutput.errors });
+      throw new Error('Internal output validation failed');
+    }
+    return details;
+  }
+
+  /**
+   * Search facilities by name.
+   * @param rawArgs Raw input arguments.
+   * @param log Request-scoped logger.
+   * @returns Matching facilities, best match first.
+   */
+  async searchFacilities(rawArgs: unknown, log: Logger = this.log): Promise<FacilitySearchResult[]> {
+    if (!validateSearchInput(rawArgs)) {
+      log.warn('Input validation failed', { errors: validateSearchInput.errors });
+      throw invalidInput(validateSearchInput.errors);
+    }
+
+    const args = rawArgs as SearchFacilitiesArgs;
+    const results = await this.withDeadline(async (signal) => {
+      const [facilities, availabilityResult] = await Promise.all([
+        getFacilities(this.config, log, signal),
+        getAvailability(this.config, log, signal)
+      ]);
+      return searchFacilities(facilities, args.query, args.maxResults ?? DEFAULT_SEARCH_RESULTS).map(
+        ({ facility, score }): FacilitySearchResult => ({
+          ...summarizeFacility(facility, availabilityResult, this.config.availabilityMaxAgeMs),
+          matchScore: score
         })
-        .filter((facility) => facility.distanceMeters <= args.radiusMeters);
+      );
+    });
+
+    if (!validateSearchOutput(results)) {
+      log.error('Output validation failed', { errors: validateSearchOutput.errors });
+      throw new Error('Internal output validation failed');
+    }
+
+    log.info('Searched facilities', { count: results.length });
+    return results;
+  }
+
+  /**
+   * List facilities, optionally in one zone, a page at a time.
+   * @param rawArgs Raw input arguments.
+   * @param log Request-scoped logger.
+   * @returns One page of facilities and the total count.
+   */
+  async listFacilities(rawArgs: unknown, log: Logger = this.log): Promise<FacilityPage> {
+    if (!validateListInput(rawArgs)) {
+      log.warn('Input validation failed', { errors: validateListInput.errors });
+      throw invalidInput(validateListInput.errors);
+    }
+
+    const args = rawArgs as ListFacilitiesArgs;
+    const offset = args.offset ?? 0;
+    const limit = args.limit ?? DEFAULT_PAGE_SIZE;
+    const page = await this.withDeadline(async (signal) => {
+      const [facilities, availabilityResult] = await Promise.all([
+        getFacilities(this.config, log, signal),
+        getAvailability(this.config, log, signal)
+      ]);
+      const listed = listFacilities(facilities, args.zoneCode, offset, limit);
+      return {
+        total: listed.total,
+        offset,
+        limit,
+        facilities: listed.facilities.map((facility) =>
+          summarizeFacility(facility, availabilityResult, this.config.availabilityMaxAgeMs)
+        )
+      } satisfies FacilityPage;
+    });
+
+    if (!validateListOutput(page)) {
+      log.error('Output validation failed', { errors: validateListOutput.errors });
+      throw new Error('Internal output validation failed');
+    }
+
+    log.info('Listed facilities', {
+      zoneCode: args.zoneCode ?? null,
+      total: page.total,
+      count: page.facilities.length
+    });
+    return page;
+  }
+
+  private checkSession(session: ParkingSession, log: Logger): ParkingSession {
+    if (!validateSessionOutput(session)) {
+      log.error('Output validation failed', { errors: validateSessionOutput.errors });
+      throw new Error('Internal output validation failed');
+    }
+    return session;
+  }
+
+  /**
+   * Start a parking session for a facility's zone or a given zone.
+   * @param rawArgs Raw input arguments.
+   * @param log Request-scoped logger.
+   * @returns The new session.
+   */
+  async startParkingSession(rawArgs: unknown, log: Logger = this.log): Promise<ParkingSession> {
+    if (!validateStartSessionInput(rawArgs)) {
+      log.warn('Input validation failed', { errors: validateStartSessionInput.errors });
+      throw invalidInput(validateStartSessionInput.errors);
+    }
+
+    const args = omitNulls(rawArgs as StartParkingSessionArgs);
+    const adapters = getEnabledSessionAdapters(this.config);
+    const adapter = adapters.find((candidate) => candidate.id === args.adapter);
+    if (!adapter) {
+      const message =
+        adapters.length > 0
+          ? `must be one of: ${adapters.map((item) => item.id).join(', ')}`
+          : 'no session adapter is configured';
+      throw invalidInput([{ instancePath: '/adapter', message }]);
+    }
+    if ((args.facilityId === undefined) === (args.zoneCode === undefined)) {
+      throw invalidInput([{ instancePath: '', message: 'requires exactly one of facilityId and zoneCode' }]);
+    }
+
+    const session = await this.withDeadline(async (signal) => {
+      let zoneCode = args.zoneCode;
+      if (args.facilityId !== undefined) {
+        const facility = findFacility(await getFacilities(this.config, log, signal), args.facilityId);
+        if (!facility) {
+          throw facilityNotFound(args.facilityId);
+        }
+        if (!facility.zoneCode) {
+          throw invalidInput([
+            {
+              instancePath: '/facilityId',
+              message: 'facility has no zoneCode; pass the zoneCode shown at the entrance'
+            }
+          ]);
+        }
+        zoneCode = facility.zoneCode;
+      }
+
+      return startSession(
+        this.config,
+        log,
+        {
+          adapter,
+          facilityId: args.facilityId ?? null,
+          zoneCode: zoneCode as string,
+          licensePlate: args.licensePlate ? args.licensePlate.replace(/[\s-]/g, '').toUpperCase() : null,
+          durationMinutes: args.durationMinutes
+        },
+        signal
+      );
+    });
+    return this.checkSession(session, log);
+  }
+
+  /**
+   * Extend an active parking session.
+   * @param rawArgs Raw input arguments.
+   * @param log Request-scoped logger.
+   * @returns The updated session.
+   */
+  async extendParkingSession(rawArgs: unknown, log: Logger = this.log): Promise<ParkingSession> {
+    if (!validateExtendSessionInput(rawArgs)) {
+      log.warn('Input validation failed', { errors: validateExtendSessionInput.errors });
+      throw invalidInput(validateExtendSessionInput.errors);
+    }
+
+    const args = rawArgs as ExtendParkingSessionArgs;
+    const session = await this.withDeadline((signal) =>
+      extendSession(this.config, log, args.sessionId, args.additionalMinutes, signal)
+    );
+    return this.checkSession(session, log);
+  }
+
+  /**
+   * Stop an active parking session.
+   * @param rawArgs Raw input arguments.
+   * @param log Request-scoped logger.
+   * @returns The stopped session.
+   */
+  async stopParkingSession(rawArgs: unknown, log: Logger = this.log): Promise<ParkingSession> {
+    if (!validateStopSessionInput(rawArgs)) {
+      log.warn('Input validation failed', { errors: validateStopSessionInput.errors });
+      throw invalidInput(validateStopSessionInput.errors);
+    }
+
+    const args = rawArgs as StopParkingSessionArgs;
+    const session = await this.withDeadline((signal) => stopSession(this.config, log, args.sessionId, signal));
+    return this.checkSession(session, log);
+  }
+
+  /**
+   * Confirm the pending change of a parking session once the user has confirmed it in the app.
+   * @param rawArgs Raw input arguments.
+   * @param log Request-scoped logger.
+   * @returns The updated session.
+   */
+  async confirmParkingSession(rawArgs: unknown, log: Logger = this.log): Promise<ParkingSession> {
+    if (!validateConfirmSessionInput(rawArgs)) {
+      log.warn('Input validation failed', { errors: validateConfirmSessionInput.errors });
+      throw invalidInput(validateConfirmSessionInput.errors);
+    }
+
+    const args = rawArgs as ConfirmParkingSessionArgs;
+    const session = await confirmSession(this.config, log, args.sessionId);
+    return this.checkSession(session, log);
+  }
+
+  /**
+   * Watch facilities' free spaces against a threshold.
+   * @param rawArgs Raw input arguments.
+   * @param log Request-scoped logger.
+   * @param client Name of the calling client, which owns the subscription.
+   * @returns The subscription with its events path and webhook secret.
+   */
+  async subscribeAvailability(
+    rawArgs: unknown,
+    log: Logger = this.log,
+    client: string = ANONYMOUS_CLIENT
+  ): Promise<CreatedSubscription> {
+    if (!validateSubscribeInput(rawArgs)) {
+      log.warn('Input validation failed', { errors: validateSubscribeInput.errors });
+      throw invalidInput(validateSubscribeInput.errors);
+    }
+
+    const args = omitNulls(rawArgs as SubscribeAvailabilityArgs);
+    const hasPoint = args.lat !== undefined || args.lon !== undefined;
+    if ((args.facilityIds === undefined) === !hasPoint) {
+      throw invalidInput([{ instancePath: '', message: 'requires exactly one of facilityIds and lat/lon' }]);
+    }
+    if (hasPoint && (args.lat === undefined || args.lon === undefined)) {
+      throw invalidInput([{ instancePath: '', message: 'requires both lat and lon' }]);
+    }
+    const webhookProblem = args.webhookUrl ? checkWebhookUrl(args.webhookUrl, this.config) : null;
+    if (webhookProblem) {
+      throw invalidInput([{ instancePath: '/webhookUrl', message: webhookProblem }]);
+    }
+
+    if (args.facilityIds !== undefined) {
+      const facilities = await this.withDeadline((signal) => getFacilities(this.config, log, signal));
+      const unknownId = args.facilityIds.find((id) => !findFacility(facilities, id));
+      if (unknownId !== undefined) {
+        throw facilityNotFound(unknownId);
+      }
+    }
 
-      const sorted = sortRecommendations(enriched);
+    const created = subscribe(
+      this.config,
+      log,
+      {
+        facilityIds: args.facilityIds ?? null,
+        area: hasPoint
+          ? {
+              lat: args.lat as number,
+              lon: args.lon as number,
+              radiusMeters: args.radiusMeters ?? this.config.defaultRadiusMeters
+            }
+          : null,
+        freeSpacesBelow: args.freeSpacesBelow,
+        webhookUrl: args.webhookUrl ?? null
+      },
+      client
+    );
+    if (!validateCreatedSubscription(created)) {
+      log.error('Output validation failed', { errors: validateCreatedSubscription.errors });
+      throw new Error('Internal output validation failed');
+    }
+    return created;
+  }
 
-      const limited = enforceMaxResults(sorted, args.maxResults);
+  /**
+   * Stop an availability watch.
+   * @param rawArgs Raw input arguments.
+   * @param log Request-scoped logger.
+   * @param client Name of the calling client; only its own subscriptions are found.
+   * @returns The removed subscription.
+   */
+  unsubscribeAvailability(
+    rawArgs: unknown,
+    log: Logger = this.log,
+    client: string = ANONYMOUS_CLIENT
+  ): Promise<AvailabilitySubscription> {
+    if (!validateUnsubscribeInput(rawArgs)) {
+      log.warn('Input validation failed', { errors: validateUnsubscribeInput.errors });
+      return Promise.reject(invalidInput(validateUnsubscribeInput.errors));
+    }
 
-      if (!validateOutput(limited)) {
-        this.log.error('Output validation failed', { errors: validateOutput.errors });
+    return Promise.resolve().then(() => {
+      const removed = unsubscribe(log, (rawArgs as UnsubscribeAvailabilityArgs).subscriptionId, client);
+      if (!validateSubscription(removed)) {
+        log.error('Output validation failed', { errors: validateSubscription.errors });
         throw new Error('Internal output validation failed');
       }
+      return removed;
+    });
+  }
 
-      this.log.info('Generated facility recommendations', {
-        count: limited.length,
-        staleAvailability: availabilityResult.stale
-      });
+  /**
+   * List the calling client's active availability watches.
+   * @param rawArgs Raw input arguments; no arguments are taken.
+   * @param log Request-scoped logger.
+   * @param client Name of the calling client.
+   * @returns Subscriptions, oldest first, without their webhook secrets.
+   */
+  listSubscriptions(
+    rawArgs: unknown,
+    log: Logger = this.log,
+    client: string = ANONYMOUS_CLIENT
+  ): Promise<AvailabilitySubscription[]> {
+    if (!validateListSubscriptionsInput(rawArgs)) {
+      log.warn('Input validation failed', { errors: validateListSubscriptionsInput.errors });
+      return Promise.reject(invalidInput(validateListSubscriptionsInput.errors));
+    }
 
-      return limited;
-    } finally {
-      clearTimeout(timeout);
+    const subscriptions = getSubscriptionHub().list(client);
+    if (!validateSubscriptionList(subscriptions)) {
+      log.error('Output validation failed', { errors: validateSubscriptionList.errors });
+      return Promise.reject(new Error('Internal output validation failed'));
+    }
+    return Promise.resolve(subscriptions);
+  }
+
+  /**
+   * Look up street-parking regulations for the segments around a point.
+   * @param rawArgs Raw input arguments.
+   * @param log Request-scoped logger.
+   * @returns Nearby street segments with their parking status for the stay.
+   */
+  async lookupStreetParking(rawArgs: unknown, log: Logger = this.log): Promise<StreetSegmentResult[]> {
+    if (!validateStreetInput(rawArgs)) {
+      log.warn('Input validation failed', { errors: validateStreetInput.errors });
+      throw invalidInput(validateStreetInput.errors);
+    }
+
+    const args = rawArgs as StreetParkingArgs;
+    log.debug('Looking up street parking', { lat: args.lat, lon: args.lon, radiusMeters: args.radiusMeters });
+
+    const regulations = await this.withDeadline((signal) => getRegulations(this.config, log, signal));
+
+    const segments = evaluateStreetParking(regulations, {
+      lat: args.lat,
+      lon: args.lon,
+      arrival: args.time ? new Date(args.time) : new Date(),
+      durationMinutes: args.durationMinutes ?? DEFAULT_STREET_DURATION_MINUTES,
+      radiusMeters: args.radiusMeters ?? DEFAULT_STREET_RADIUS,
+      maxResults: args.maxResults ?? DEFAULT_STREET_MAX_RESULTS
+    });
+
+    if (!validateStreetOutput(segments)) {
+      log.error('Output validation failed', { errors: validateStreetOutput.errors });
+      throw new Error('Internal output validation failed');
     }
+
+    log.info('Evaluated street parking', {
+      count: segments.length,
+      allowed: segments.filter((segment) => segment.status !== 'forbidden').length
+    });
+
+    return segments;
   }
 }
 
-export default new StockholmParkingTool(loadConfig());
+export default new StockholmParkingTool(config);
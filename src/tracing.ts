@@ -0,0 +1,154 @@
+import {
+  Attributes,
+  context,
+  propagation,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  trace
+} from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { BatchSpanProcessor, NodeTracerProvider, SpanExporter } from '@opentelemetry/sdk-trace-node';
+import { Logger } from './log.js';
+import { ServiceConfig } from './types.js';
+
+const TRACER_NAME = 'stockholm-parking';
+
+let provider: NodeTracerProvider | undefined;
+
+function tracer() {
+  return trace.getTracer(TRACER_NAME);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Creates the span exporter selected by `TRACING_EXPORTER`.
+ * @param config Service configuration.
+ * @returns Exporter, or null for the default no-op setup.
+ */
+export function createSpanExporter(config: ServiceConfig): SpanExporter | null {
+  switch (config.tracingExporter) {
+    case 'otlp':
+      // Endpoint and headers come from the standard OTEL_EXPORTER_OTLP_* variables.
+      return new OTLPTraceExporter();
+    default:
+      return null;
+  }
+}
+
+/**
+ * Registers the process-wide tracer provider. Spans are always created and propagated, so trace
+ * ids can be correlated with upstream callers, but nothing leaves the process unless an exporter
+ * is configured.
+ * @param config Service configuration.
+ * @param log Logger.
+ * @param exporter Exporter to use instead of the configured one.
+ */
+export function initTracing(
+  config: ServiceConfig,
+  log: Logger,
+  exporter: SpanExporter | null = createSpanExporter(config)
+): void {
+  if (provider) {
+    return;
+  }
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ 'service.name': config.tracingServiceName }),
+    spanProcessors: exporter ? [new BatchSpanProcessor(exporter)] : []
+  });
+  provider.register();
+  log.info('Tracing initialized', { exporter: config.tracingExporter });
+}
+
+/** Flushes pending spans and unregisters the provider. */
+export async function shutdownTracing(): Promise<void> {
+  const current = provider;
+  provider = undefined;
+  if (!current) {
+    return;
+  }
+  await current.shutdown();
+  trace.disable();
+  context.disable();
+  propagation.disable();
+}
+
+/**
+ * Records an error on a span and marks it failed.
+ * @param span Span to update.
+ * @param error Error that ended the operation.
+ */
+export function recordSpanError(span: Span, error: unknown): void {
+  span.recordException(error instanceof Error ? error : new Error(errorMessage(error)));
+  span.setStatus({ code: SpanStatusCode.ERROR, message: errorMessage(error) });
+}
+
+/**
+ * Runs an operation in a new span that is active for everything the operation awaits, ending it
+ * when the operation settles.
+ * @param name Span name.
+ * @param attributes Span attributes.
+ * @param operation Operation to trace.
+ * @param kind Span kind.
+ * @returns The operation's result.
+ */
+export function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  operation: (span: Span) => Promise<T>,
+  kind: SpanKind = SpanKind.INTERNAL
+): Promise<T> {
+  return tracer().startActiveSpan(name, { kind, attributes }, async (span) => {
+    try {
+      return await operation(span);
+    } catch (error) {
+      recordSpanError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Like {@link withSpan} for an incoming request: the span continues the caller's trace when the
+ * headers carry a W3C `traceparent`.
+ * @param headers Incoming request headers.
+ * @param name Span name.
+ * @param attributes Span attributes.
+ * @param operation Request handling.
+ * @returns The operation's result.
+ */
+export function withIncomingSpan<T>(
+  headers: Record<string, string | string[] | undefined>,
+  name: string,
+  attributes: Attributes,
+  operation: (span: Span) => Promise<T>
+): Promise<T> {
+  const parent = propagation.extract(context.active(), headers);
+  return context.with(parent, () => withSpan(name, attributes, operation, SpanKind.SERVER));
+}
+
+/**
+ * Starts a span that the caller ends, for operations whose control flow does not fit a callback.
+ * @param name Span name.
+ * @param attributes Span attributes.
+ * @param kind Span kind.
+ * @returns Started span, a child of the active span.
+ */
+export function startSpan(name: string, attributes: Attributes, kind: SpanKind = SpanKind.INTERNAL): Span {
+  return tracer().startSpan(name, { kind, attributes });
+}
+
+/**
+ * Sets an attribute on the active span, if any.
+ * @param key Attribute name.
+ * @param value Attribute value.
+ */
+export function setActiveSpanAttribute(key: string, value: string | number | boolean): void {
+  trace.getActiveSpan()?.setAttribute(key, value);
+}
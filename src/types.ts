@@ -1,20 +1,229 @@
+import { CoordinatePrecision, Logger, LogLevel } from './log.js';
+
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+export type SearchMode = 'point' | 'route';
+
 export interface RecommendFacilityArgs {
-  userLat: number;
-  userLon: number;
+  /** May be omitted when `address` or `placeName` is given; the resolved location is used instead. */
+  userLat?: number;
+  userLon?: number;
+  /** Street address to search around, e.g. `Drottninggatan 50`; replaces the destination coordinates. */
+  address?: string;
+  /** Landmark, district or square to search around, e.g. `Stureplan`; replaces the destination coordinates. */
+  placeName?: string;
   destinationLat?: number;
   destinationLon?: number;
   radiusMeters?: number;
   maxResults?: number;
+  arrivalTime?: string;
+  durationMinutes?: number;
+  rankingProfile?: RankingProfile;
+  rankingWeights?: Partial<RankingWeights>;
+  searchMode?: SearchMode;
+  waypoints?: LatLon[];
+  polyline?: string;
+  corridorMeters?: number;
+  requirements?: VehicleRequirements;
+  /** When true, facilities whose data cannot confirm a requirement are dropped too. */
+  strictRequirements?: boolean;
+  /** When true, facilities closed during the stay are returned with a reason instead of being dropped. */
+  includeClosed?: boolean;
+  /** Shape of the result; `json` when omitted. */
+  format?: ResponseFormat;
+  /** Language of the `summary` text; `en` when omitted. */
+  language?: SummaryLanguage;
+}
+
+/** `json` is the recommendation array, `geojson` a FeatureCollection for maps, `summary` text to relay. */
+export type ResponseFormat = 'json' | 'geojson' | 'summary';
+
+export type SummaryLanguage = 'sv' | 'en';
+
+export interface VehicleRequirements {
+  evCharging?: boolean;
+  /** Connector types the vehicle accepts; any one of them is enough. */
+  connectorTypes?: string[];
+  vehicleHeightMeters?: number;
+  accessible?: boolean;
+  motorcycle?: boolean;
+  bike?: boolean;
+  covered?: boolean;
+}
+
+export type RequirementStatus = 'met' | 'unmet' | 'unknown';
+
+export type RequirementChecks = Partial<Record<keyof VehicleRequirements, RequirementStatus>>;
+
+export interface FacilityAmenities {
+  evChargers: number | null;
+  /** Canonical connector ids such as `type2`, `ccs` or `chademo`. */
+  connectorTypes: string[];
+  maxHeightMeters: number | null;
+  accessibleSpaces: number | null;
+  motorcycleSpaces: number | null;
+  bikeSpaces: number | null;
+  /** Opening hours as published upstream. */
+  openingHours: string | null;
+  /** True for garages, false for open-air lots and street parking. */
+  covered: boolean | null;
+}
+
+export type RankingProfile = 'closest' | 'most_available' | 'cheapest' | 'balanced';
+
+export interface RankingWeights {
+  distance: number;
+  walkTime: number;
+  availability: number;
+  freshness: number;
+  cost: number;
+}
+
+export interface RankingFactors {
+  distance: number;
+  walkTime: number;
+  availability: number;
+  freshness: number;
+  /** Null when no candidate had a cost estimate, in which case cost is left out of the total. */
+  cost: number | null;
+}
+
+export interface RankingScore {
+  profile: RankingProfile | 'custom';
+  total: number;
+  weights: RankingWeights;
+  factors: RankingFactors;
+}
+
+export interface TariffBand {
+  label: string;
+  /** ISO weekdays (1 = Monday) the band applies to. */
+  days: number[];
+  /** Start of the band in minutes after local midnight. */
+  startMinute: number;
+  /** End of the band in minutes after local midnight; lower than `startMinute` for overnight bands. */
+  endMinute: number;
+  ratePerHourSek: number;
+}
+
+export interface Tariff {
+  bands: TariffBand[];
+  defaultRatePerHourSek: number | null;
+  dailyCapSek: number | null;
+}
+
+export interface CostBreakdownItem {
+  label: string;
+  minutes: number;
+  ratePerHourSek: number;
+  amountSek: number;
+}
+
+export interface CostEstimate {
+  amountSek: number;
+  breakdown: CostBreakdownItem[];
+}
+
+export interface StreetParkingArgs {
+  lat: number;
+  lon: number;
+  time?: string;
+  durationMinutes?: number;
+  radiusMeters?: number;
+  maxResults?: number;
+}
+
+export type RegulationKind = 'allowed' | 'forbidden' | 'cleaning';
+
+export interface StreetRegulation {
+  id: string;
+  kind: RegulationKind;
+  street: string | null;
+  address: string | null;
+  path: LatLon[];
+  /** ISO weekdays the rule is in effect; all days when no time window is given. */
+  days: number[];
+  /** Start of the daily window in minutes after local midnight, or null when in effect all day. */
+  startMinute: number | null;
+  endMinute: number | null;
+  /** Months (1 = January) the rule applies in, or null for all year. */
+  months: number[] | null;
+  maxMinutes: number | null;
+  zone: string | null;
+  vehicle: string | null;
+  citation: string | null;
+  sourceUrl: string;
+}
+
+export type StreetParkingStatus = 'allowed' | 'time_limited' | 'forbidden';
+
+export interface RegulationWindow {
+  start: string;
+  end: string;
+  reason: string;
+}
+
+export interface StreetSegmentResult {
+  id: string;
+  street: string | null;
+  address: string | null;
+  distanceMeters: number;
+  status: StreetParkingStatus;
+  reasons: string[];
+  maxParkingMinutes: number | null;
+  /** When a time limit cuts the stay short, the last moment parking is allowed. */
+  allowedUntil: string | null;
+  forbiddenWindows: RegulationWindow[];
+  cleaningWindows: RegulationWindow[];
+  zone: string | null;
+  /** Vehicle type the segment is reserved for, e.g. buses or motorcycles. */
+  vehicle: string | null;
+  citation: string | null;
+  sourceUrl: string;
+}
+
+export interface OpeningRule {
+  /** ISO weekdays the rule selects. */
+  days: number[];
+  /** True when the rule also selects Swedish public holidays (`PH`). */
+  publicHolidays: boolean;
+  /** Open spans in minutes after local midnight; `endMinute` may exceed 1440 for overnight spans. Empty when closed. */
+  spans: { startMinute: number; endMinute: number }[];
+}
+
+export interface OpeningHours {
+  /** Rules in source order; for any day the last rule selecting it applies. */
+  rules: OpeningRule[];
+}
+
+export interface OpenStatus {
+  status: 'open' | 'closed' | 'closes_during_stay' | 'unknown';
+  reason: string | null;
+  /** When the facility closes during the stay. */
+  closesAt: string | null;
+  /** When a facility that is closed at arrival next opens, within a week. */
+  opensAt: string | null;
 }
 
 export interface FacilityMetadata {
   id: string;
+  /** Id of the provider adapter the facility came from. */
+  provider: string;
+  /** Ids of facilities from other providers that were merged into this one. */
+  aliasIds: string[];
   name: string;
   lat: number;
   lon: number;
   capacity: number | null;
   tariffNote: string | null;
+  tariff: Tariff | null;
   zoneCode: string | null;
+  amenities: FacilityAmenities;
+  /** Parsed from `amenities.openingHours`; null when unknown or not understood. */
+  openingHours: OpeningHours | null;
   sourceUrl: string;
 }
 
@@ -25,8 +234,12 @@ export interface FacilityAvailability {
   lastUpdated: string | null;
 }
 
+/** How `walkMinutes` was derived: shortest path over the pedestrian network, or straight-line distance. */
+export type WalkMethod = 'network' | 'straight_line';
+
 export interface FacilityRecommendation {
   id: string;
+  provider: string;
   name: string;
   lat: number;
   lon: number;
@@ -36,11 +249,490 @@ export interface FacilityRecommendation {
   zoneCode: string | null;
   distanceMeters: number;
   walkMinutes: number;
+  walkMethod: WalkMethod;
   lastUpdated: string | null;
   stale: boolean;
+  dataQuality: DataQualityFlag[];
+  estimatedCostSek: number | null;
+  costBreakdown: CostBreakdownItem[] | null;
+  predictedFreeSpaces: number | null;
+  forecastConfidence: number | null;
+  ranking?: RankingScore;
+  /** Distance from the route to the facility; only set in route search mode. */
+  detourMeters?: number;
+  amenities: FacilityAmenities;
+  openStatus: OpenStatus;
+  /** How the facility matches the requested vehicle requirements; only set when some were given. */
+  requirementChecks?: RequirementChecks;
+  /** Where `address` or `placeName` was resolved to; only set when one was given. */
+  resolvedLocation?: ResolvedLocation;
+  /** Spaces already taken by earlier stops of a batch; only set when `reserveSpaces` claimed some. */
+  reservedSpaces?: number;
   sourceUrl: string;
 }
 
+export interface GeoJsonPoint {
+  type: 'Point';
+  /** `[lon, lat]`, as GeoJSON orders them. */
+  coordinates: [number, number];
+}
+
+export interface DestinationFeature {
+  type: 'Feature';
+  geometry: GeoJsonPoint;
+  properties: {
+    kind: 'destination';
+    /** Resolved address or place name; null when coordinates were given. */
+    label: string | null;
+  };
+}
+
+export interface FacilityFeature {
+  type: 'Feature';
+  id: string;
+  geometry: GeoJsonPoint;
+  /** The recommendation with its position in the ranking, starting at 1. */
+  properties: FacilityRecommendation & { kind: 'facility'; rank: number };
+}
+
+export interface RecommendationFeatureCollection {
+  type: 'FeatureCollection';
+  /** The destination first, then the facilities in ranking order. */
+  features: (DestinationFeature | FacilityFeature)[];
+}
+
+export interface RecommendationSummary {
+  language: SummaryLanguage;
+  /** Plain text, one line per facility, that can be relayed to the user as is. */
+  text: string;
+  /** Facilities mentioned, in the order of the text, for follow-up calls such as `getFacility`. */
+  facilityIds: string[];
+}
+
+export type FormattedRecommendations =
+  | FacilityRecommendation[]
+  | RecommendationFeatureCollection
+  | RecommendationSummary;
+
+export interface GetFacilityArgs {
+  /** Facility id, or the id of a duplicate merged into it. */
+  id: string;
+}
+
+export interface SearchFacilitiesArgs {
+  /** Facility name or part of it; case, å/ä/ö and small typos do not matter. */
+  query: string;
+  maxResults?: number;
+}
+
+export interface ListFacilitiesArgs {
+  zoneCode?: string;
+  offset?: number;
+  limit?: number;
+}
+
+/** Facility metadata with its live availability, as returned by the lookup methods. */
+export interface FacilitySummary {
+  id: string;
+  provider: string;
+  name: string;
+  lat: number;
+  lon: number;
+  zoneCode: string | null;
+  capacity: number | null;
+  freeSpaces: number | null;
+  lastUpdated: string | null;
+  stale: boolean;
+  dataQuality: DataQualityFlag[];
+}
+
+export interface FacilityDetails extends FacilitySummary {
+  aliasIds: string[];
+  tariffNote: string | null;
+  amenities: FacilityAmenities;
+  openStatus: OpenStatus;
+  sourceUrl: string;
+}
+
+export interface FacilitySearchResult extends FacilitySummary {
+  /** How well the name matches the query, from 0.5 to 1. */
+  matchScore: number;
+}
+
+export interface FacilityPage {
+  /** Facilities matching the filter across all pages. */
+  total: number;
+  offset: number;
+  limit: number;
+  facilities: FacilitySummary[];
+}
+
+export interface RecommendFacilitiesArgs {
+  /** One search per stop, each taking the same arguments as `recommendFacility`. */
+  requests: RecommendFacilityArgs[];
+  /** Counts the top pick of every stop as one taken space when ranking the stops after it. */
+  reserveSpaces?: boolean;
+}
+
+/** Outcome of one stop in a batch; a failed stop carries the error instead of recommendations. */
+export interface BatchRecommendationResult {
+  index: number;
+  status: 'ok' | 'error';
+  recommendations: FacilityRecommendation[];
+  error?: string;
+  details?: unknown;
+}
+
+export interface HistoryRecord {
+  facilityId: string;
+  observedAt: string;
+  freeSpaces: number;
+  capacity: number | null;
+}
+
+export interface AvailabilityForecast {
+  predictedFreeSpaces: number;
+  /** 0 (no basis) to 1 (live observation at arrival time). */
+  confidence: number;
+  sampleCount: number;
+}
+
+export interface ProviderContext {
+  config: ServiceConfig;
+  log: Logger;
+  signal?: AbortSignal;
+  fetchJson<T>(url: string, headers?: Record<string, string>): Promise<T>;
+  fetchText(url: string): Promise<string>;
+  /** Counts records a provider could not read, for the data-quality report. */
+  reportMalformed?(feed: QualityFeed, count: number): void;
+}
+
+export interface ParkingProvider {
+  id: string;
+  fetchFacilities(context: ProviderContext): Promise<FacilityMetadata[]>;
+  /** Omitted by providers that only publish static data. */
+  fetchAvailability?(context: ProviderContext): Promise<FacilityAvailability[]>;
+}
+
+export type GeocodeQueryKind = 'address' | 'place';
+
+export interface GeocodeQuery {
+  text: string;
+  /** `address` expects a street and house number, `place` a landmark, district or street name. */
+  kind: GeocodeQueryKind;
+}
+
+export type GeocodeMatchKind = 'address' | 'street' | 'landmark' | 'district';
+
+export interface GeocodeMatch {
+  label: string;
+  lat: number;
+  lon: number;
+  kind: GeocodeMatchKind;
+  /** 0 (a guess) to 1 (exact match on a named place). */
+  confidence: number;
+  /** Id of the geocoder that produced the match. */
+  source: string;
+}
+
+export interface ResolvedLocation extends GeocodeMatch {
+  /** The address or place name as given. */
+  query: string;
+}
+
+/** One named place in the bundled gazetteer. */
+export interface GazetteerEntry {
+  name: string;
+  kind: 'street' | 'landmark' | 'district';
+  /** Other names the place is known by, e.g. English names or abbreviations. */
+  aliases?: string[];
+  /** A single point for landmarks and districts; for streets, the course from the lowest house number. */
+  path: LatLon[];
+  /** House numbers at the start and end of a street's path. */
+  numbers?: [number, number];
+}
+
+export interface Geocoder {
+  id: string;
+  /** Returns the best match, or null when nothing matched. */
+  geocode(query: GeocodeQuery, context: ProviderContext): Promise<GeocodeMatch | null>;
+}
+
+/** `pending` until a start that requires confirmation has been confirmed. */
+export type ParkingSessionStatus = 'pending' | 'active' | 'stopped' | 'expired';
+
+/** A start, extension or stop handed to the user that has not been confirmed yet. */
+export interface PendingSessionChange {
+  action: 'start' | 'extend' | 'stop';
+  /** When the session ends once the change is confirmed. */
+  endsAt: string;
+}
+
+/** A parking session started through a session adapter, as kept in local state. */
+export interface ParkingSession {
+  id: string;
+  /** Session adapter id, e.g. `easypark`. */
+  adapter: string;
+  /** Facility the session was started for; null when started for a zone. */
+  facilityId: string | null;
+  zoneCode: string;
+  licensePlate: string | null;
+  status: ParkingSessionStatus;
+  startedAt: string;
+  endsAt: string;
+  stoppedAt: string | null;
+  /** The provider's reference, when the adapter talks to the provider directly. */
+  externalId: string | null;
+  /** Opens the provider's app to confirm the latest start, extension or stop; null when not needed. */
+  deepLink: string | null;
+  /** True when the latest change only takes effect once the user confirms it in the provider's app. */
+  requiresConfirmation: boolean;
+  /** The change awaiting confirmation; the session is only updated once it is confirmed. */
+  pendingChange: PendingSessionChange | null;
+}
+
+/** What an adapter reports back for a start, extension or stop. */
+export interface SessionAdapterResult {
+  externalId: string | null;
+  deepLink: string | null;
+  requiresConfirmation: boolean;
+}
+
+export interface SessionStartRequest {
+  zoneCode: string;
+  licensePlate: string | null;
+  endsAt: Date;
+}
+
+/** Starts, extends and stops sessions with one payment provider. */
+export interface SessionAdapter {
+  id: string;
+  /** False while the configuration lacks what the adapter needs; such adapters are not offered. */
+  isConfigured?(config: ServiceConfig): boolean;
+  start(request: SessionStartRequest, context: ProviderContext): Promise<SessionAdapterResult>;
+  /** Moves the end of an active session to `endsAt`. */
+  extend(session: ParkingSession, endsAt: Date, context: ProviderContext): Promise<SessionAdapterResult>;
+  stop(session: ParkingSession, context: ProviderContext): Promise<SessionAdapterResult>;
+}
+
+export interface StartParkingSessionArgs {
+  adapter: string;
+  /** Facility to park at; its `zoneCode` is used. Give this or `zoneCode`. */
+  facilityId?: string;
+  zoneCode?: string;
+  durationMinutes: number;
+  licensePlate?: string;
+}
+
+export interface ExtendParkingSessionArgs {
+  sessionId: string;
+  additionalMinutes: number;
+}
+
+export interface StopParkingSessionArgs {
+  sessionId: string;
+}
+
+export interface ConfirmParkingSessionArgs {
+  sessionId: string;
+}
+
+/** Circle a subscription watches; every facility inside it is watched. */
+export interface WatchArea {
+  lat: number;
+  lon: number;
+  radiusMeters: number;
+}
+
+/** A watch on facilities' free spaces, notified when they fall below or climb back to a threshold. */
+export interface AvailabilitySubscription {
+  id: string;
+  /** Watched facility ids; null when an area is watched instead. */
+  facilityIds: string[] | null;
+  area: WatchArea | null;
+  /** Notify when free spaces drop below this number, and again when they are back at or above it. */
+  freeSpacesBelow: number;
+  /** Events are also POSTed here when set; they can always be read from the SSE stream. */
+  webhookUrl: string | null;
+  createdAt: string;
+}
+
+/** Returned once, when the subscription is created. */
+export interface CreatedSubscription extends AvailabilitySubscription {
+  /** HMAC-SHA256 key webhook requests are signed with; null without a webhook. */
+  webhookSecret: string | null;
+  /** Server-Sent Events stream of the subscription's events. */
+  eventsPath: string;
+}
+
+export type AvailabilityEventType = 'below_threshold' | 'recovered';
+
+export interface AvailabilityEvent {
+  /** Increasing per process; SSE clients resume after it with `Last-Event-ID`. */
+  id: string;
+  type: AvailabilityEventType;
+  subscriptionId: string;
+  facilityId: string;
+  facilityName: string;
+  freeSpaces: number;
+  capacity: number | null;
+  freeSpacesBelow: number;
+  /** When the provider last updated the count. */
+  lastUpdated: string | null;
+  emittedAt: string;
+}
+
+export interface SubscribeAvailabilityArgs {
+  /** Facilities to watch. Give these or `lat`, `lon` and optionally `radiusMeters`. */
+  facilityIds?: string[];
+  lat?: number;
+  lon?: number;
+  radiusMeters?: number;
+  freeSpacesBelow: number;
+  webhookUrl?: string;
+}
+
+export interface UnsubscribeAvailabilityArgs {
+  subscriptionId: string;
+}
+
+export interface ToolMethodDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema for the method arguments. */
+  inputSchema: object;
+  /** JSON Schema for the method result. */
+  outputSchema: object;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  methods: ToolMethodDefinition[];
+}
+
+/** A tool whose registered methods can be called by name, as transports do. */
+export interface ToolInvoker {
+  readonly definition: ToolDefinition;
+  /**
+   * `log` is the caller's request-scoped logger; the tool's own logger is used without one.
+   * `client` names the authenticated caller, which owns the subscriptions it creates; anonymous
+   * without one.
+   */
+  invoke(method: string, args: unknown, log?: Logger, client?: string): Promise<unknown>;
+}
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  storedAt: number;
+  /** Fresh until this time (epoch ms); served stale while revalidating afterwards. */
+  expiresAt: number;
+  /** Dropped from the backend after this time (epoch ms). */
+  staleUntil: number;
+}
+
+/** Storage for JSON-serializable cache entries. */
+export interface CacheBackend {
+  readonly kind: CacheBackendKind;
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+  close(): Promise<void>;
+}
+
+export type CacheBackendKind = 'memory' | 'file' | 'redis';
+
+/** `live` calls upstream, `record` also saves each response as a fixture, `replay` answers from the fixtures only. */
+export type UpstreamMode = 'live' | 'record' | 'replay';
+
+export type TracingExporterKind = 'none' | 'otlp';
+
+/** A caller allowed to use the HTTP API. */
+export interface ApiClient {
+  name: string;
+  key: string;
+  /** Overrides `RATE_LIMIT_PER_MINUTE` for this client. */
+  requestsPerMinute: number | null;
+}
+
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+export interface BreakerStatus {
+  endpoint: string;
+  state: BreakerState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  openedAt: string | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  /** Class of the last error, with the HTTP status for upstream error responses. */
+  lastError: string | null;
+}
+
+export type FeedName = 'facilities' | 'availability' | 'regulations';
+
+export interface FeedHealth {
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  /** Class of the last error, with the HTTP status for upstream error responses. */
+  lastError: string | null;
+  successCount: number;
+  errorCount: number;
+  /** Age of the cached data in ms; null when nothing is cached. */
+  cacheAgeMs: number | null;
+  cacheFresh: boolean;
+}
+
+export type HealthStatus = 'ok' | 'degraded' | 'down';
+
+export interface HealthReport {
+  status: HealthStatus;
+  checkedAt: string;
+  cacheBackend: CacheBackendKind;
+  feeds: Partial<Record<FeedName, FeedHealth>>;
+  breakers: BreakerStatus[];
+}
+
+/** Feeds whose records are checked by the data-quality rules. */
+export type QualityFeed = Extract<FeedName, 'facilities' | 'availability'>;
+
+/** Warnings about the availability shown for a facility. */
+export type DataQualityFlag = 'availability_outdated' | 'exceeds_capacity' | 'timestamp_in_future';
+
+/** Why a record was dropped from a feed. */
+export type DataQualityRejection = 'malformed' | 'outside_service_area' | 'invalid_count';
+
+/** Why a kept record is suspect. Values that cannot be used are cleared. */
+export type DataQualityIssue = DataQualityFlag | 'invalid_capacity' | 'invalid_timestamp';
+
+export interface DataQualitySample {
+  /** Record id; null when the record had none. */
+  id: string | null;
+  reason: DataQualityRejection | DataQualityIssue;
+}
+
+/** Outcome of the data-quality checks on one provider's latest load of a feed. */
+export interface FeedQuality {
+  feed: QualityFeed;
+  provider: string;
+  checkedAt: string;
+  received: number;
+  accepted: number;
+  rejected: Partial<Record<DataQualityRejection, number>>;
+  suspicious: Partial<Record<DataQualityIssue, number>>;
+  /** The first offending records, to take up with the provider. */
+  samples: DataQualitySample[];
+}
+
+export interface DataQualityReport {
+  /** `warnings` when any feed's latest load had rejected or suspicious records. */
+  status: 'ok' | 'warnings';
+  checkedAt: string;
+  feeds: FeedQuality[];
+}
+
 export interface AvailabilityResult {
   data: Map<string, FacilityAvailability>;
   stale: boolean;
@@ -48,11 +740,90 @@ export interface AvailabilityResult {
 
 export interface ServiceConfig {
   port: number;
+  /** `CONFIG_FILE` the configuration was read from, if any. */
+  configFile: string | null;
   baseUrl: string;
   facilitiesPath: string;
   availabilityPath: string;
   requestTimeoutMs: number;
+  overallTimeoutMs: number;
   availabilityTtlMs: number;
   facilitiesTtlMs: number;
-  overallTimeoutMs: number;
+  regulationsTtlMs: number;
+  /** Attempts per upstream request, including the first. */
+  upstreamMaxAttempts: number;
+  upstreamRetryStatusCodes: number[];
+  /** Delay before the first retry; doubled for each further attempt. */
+  upstreamRetryBaseDelayMs: number;
+  upstreamMode: UpstreamMode;
+  /** Directory `record` writes upstream fixtures to and `replay` reads them from. */
+  upstreamFixturesDir: string;
+  defaultRadiusMeters: number;
+  maxRadiusMeters: number;
+  defaultMaxResults: number;
+  /** Largest `maxResults` a caller may ask for. */
+  maxResultsLimit: number;
+  historyFile: string | null;
+  historyRetentionDays: number;
+  historySampleIntervalMs: number;
+  providers: string[];
+  dedupRadiusMeters: number;
+  ltfBaseUrl: string;
+  ltfApiKey: string | null;
+  ltfRegulation: string;
+  datexTableUrl: string | null;
+  datexStatusUrl: string | null;
+  geojsonFile: string | null;
+  regulationsFile: string | null;
+  ltfLookupRegulations: string[];
+  cacheBackend: CacheBackendKind;
+  cacheDir: string;
+  redisUrl: string | null;
+  cacheKeyPrefix: string;
+  cacheStaleTtlMs: number;
+  breakerFailureThreshold: number;
+  breakerResetTimeoutMs: number;
+  breakerHalfOpenMaxCalls: number;
+  tracingExporter: TracingExporterKind;
+  tracingServiceName: string;
+  logLevel: LogLevel;
+  logCoordinatePrecision: CoordinatePrecision;
+  /** Empty when authentication is disabled. */
+  apiClients: ApiClient[];
+  /** Sustained requests per minute per client; 0 disables rate limiting. */
+  rateLimitPerMinute: number;
+  rateLimitBurst: number;
+  /** Geocoder ids tried in order for `address` and `placeName` inputs. */
+  geocoders: string[];
+  /** Base URL of a Nominatim-compatible search API; required by the `nominatim` geocoder. */
+  nominatimUrl: string | null;
+  /** Matches below this confidence are rejected instead of searched around. */
+  geocodeMinConfidence: number;
+  /** OSM extract (`.osm` XML or Overpass `.json`) with the pedestrian network; unset uses straight-line walking. */
+  walkingGraphFile: string | null;
+  /** Farthest a facility or destination may be from the network to be routed over it. */
+  walkingSnapMeters: number;
+  /** Session adapter ids callers may start parking sessions with. */
+  sessionAdapters: string[];
+  /** JSON file parking sessions are kept in across restarts; null keeps them in memory only. */
+  sessionsFile: string | null;
+  /**
+   * Deep link opening EasyPark; `{zoneCode}`, `{minutes}` and `{licensePlate}` are filled in. The
+   * `easypark` adapter is unavailable while it is null.
+   */
+  easyparkLinkTemplate: string | null;
+  /** Deep link opening Parkster, with the same placeholders; `parkster` is unavailable while it is null. */
+  parksterLinkTemplate: string | null;
+  /** Availability last updated longer ago than this is flagged `availability_outdated`. */
+  availabilityMaxAgeMs: number;
+  /** How often watched facilities are checked for threshold crossings; 0 disables the poller. */
+  subscriptionPollIntervalMs: number;
+  /** Most availability subscriptions each client holds at once; 0 disables subscribing. */
+  maxSubscriptions: number;
+  /** Webhook delivery attempts per event, including the first. */
+  webhookMaxAttempts: number;
+  /** Delay before the first webhook retry; doubled for each further attempt. */
+  webhookRetryBaseDelayMs: number;
+  /** Hosts webhooks may target over plain HTTP or on private addresses, e.g. an internal receiver. */
+  webhookAllowedHosts: string[];
 }
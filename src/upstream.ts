@@ -0,0 +1,136 @@
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { Logger } from './log.js';
+import { ServiceConfig } from './types.js';
+
+/** Query parameters left out of fixture names and files, so fixtures can be shared without keys. */
+const SECRET_PARAMS = new Set(['apikey', 'api_key', 'key', 'token', 'access_token']);
+
+/** One recorded upstream response, as stored in `UPSTREAM_FIXTURES_DIR`. */
+export interface UpstreamFixture {
+  /** Request URL without secret query parameters. */
+  url: string;
+  status: number;
+  contentType: string | null;
+  recordedAt: string;
+  /** Parsed body of a JSON response; kept as JSON so fixtures are easy to read and edit. */
+  json?: unknown;
+  /** Body of any other response. */
+  body?: string;
+}
+
+function withoutSecrets(url: string): string {
+  const parsed = new URL(url);
+  for (const name of [...parsed.searchParams.keys()]) {
+    if (SECRET_PARAMS.has(name.toLowerCase())) {
+      parsed.searchParams.delete(name);
+    }
+  }
+  return parsed.toString();
+}
+
+/**
+ * File a response to a URL is recorded in: the host and path for humans, and a hash of the URL
+ * (secrets left out) so different queries to one endpoint get their own fixtures.
+ * @param url Request URL.
+ * @returns File name, e.g. `api.stockholmparkering.se-facilities-3f2a9c0b1d4e.json`.
+ */
+export function fixtureFileName(url: string): string {
+  const safe = withoutSecrets(url);
+  const { host, pathname } = new URL(safe);
+  const slug = `${host}${pathname}`
+    .replace(/[^a-zA-Z0-9.]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+  const hash = createHash('sha256').update(safe).digest('hex').slice(0, 12);
+  return `${slug}-${hash}.json`;
+}
+
+function fixtureError(url: string, file: string): Error {
+  const error = new Error(`No recorded upstream response for ${withoutSecrets(url)}`);
+  error.name = 'FixtureMissingError';
+  (error as Error & { details?: unknown }).details = { file };
+  return error;
+}
+
+async function recordResponse(
+  url: string,
+  response: Response,
+  config: ServiceConfig,
+  log: Logger
+): Promise<Response> {
+  const text = await response.text();
+  const contentType = response.headers.get('content-type');
+  const fixture: UpstreamFixture = {
+    url: withoutSecrets(url),
+    status: response.status,
+    contentType,
+    recordedAt: new Date().toISOString()
+  };
+  try {
+    fixture.json = contentType?.includes('json') ? JSON.parse(text) : undefined;
+  } catch {
+    // Malformed JSON is recorded verbatim so replay fails the same way.
+  }
+  if (fixture.json === undefined) {
+    fixture.body = text;
+  }
+
+  const file = path.join(config.upstreamFixturesDir, fixtureFileName(url));
+  await fs.mkdir(config.upstreamFixturesDir, { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`, 'utf-8');
+  log.debug('Recorded upstream response', { status: response.status, file });
+
+  return new Response(text, {
+    status: response.status,
+    headers: contentType ? { 'Content-Type': contentType } : {}
+  });
+}
+
+async function replayResponse(url: string, config: ServiceConfig, signal?: AbortSignal | null): Promise<Response> {
+  signal?.throwIfAborted();
+  const file = path.join(config.upstreamFixturesDir, fixtureFileName(url));
+  let fixture: UpstreamFixture;
+  try {
+    fixture = JSON.parse(await fs.readFile(file, 'utf-8')) as UpstreamFixture;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw fixtureError(url, file);
+    }
+    throw error;
+  }
+
+  const body = fixture.json !== undefined ? JSON.stringify(fixture.json) : fixture.body ?? '';
+  return new Response(body, {
+    status: fixture.status,
+    headers: fixture.contentType ? { 'Content-Type': fixture.contentType } : {}
+  });
+}
+
+/**
+ * Fetches an upstream URL according to `UPSTREAM_MODE`: `live` calls it, `record` calls it and
+ * saves the response under `UPSTREAM_FIXTURES_DIR`, `replay` answers from the saved response
+ * without touching the network. Error statuses are recorded and replayed like any other.
+ * @param url Request URL.
+ * @param init Request options.
+ * @param config Service configuration.
+ * @param log Logger.
+ * @returns Upstream or recorded response.
+ * @throws Error named `FixtureMissingError` when replaying a URL that was never recorded.
+ */
+export async function upstreamFetch(
+  url: string,
+  init: RequestInit,
+  config: ServiceConfig,
+  log: Logger
+): Promise<Response> {
+  switch (config.upstreamMode) {
+    case 'replay':
+      return replayResponse(url, config, init.signal);
+    case 'record':
+      return recordResponse(url, await fetch(url, init), config, log);
+    default:
+      return fetch(url, init);
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkRequirements,
+  emptyAmenities,
+  mergeAmenities,
+  normalizeAmenities,
+  passesRequirements
+} from '../src/amenities.js';
+
+describe('normalizeAmenities', () => {
+  it('reads PascalCase fields, connector aliases and heights in centimetres', () => {
+    const amenities = normalizeAmenities({
+      ChargingPoints: '12',
+      ConnectorTypes: 'Type 2, CCS2; CHAdeMO',
+      MaxHeight: 210,
+      HandicapSpaces: 4,
+      FacilityType: 'Underground garage'
+    });
+
+    expect(amenities).toEqual({
+      evChargers: 12,
+      connectorTypes: ['type2', 'ccs', 'chademo'],
+      maxHeightMeters: 2.1,
+      accessibleSpaces: 4,
+      motorcycleSpaces: null,
+      bikeSpaces: null,
+      openingHours: null,
+      covered: true
+    });
+  });
+
+  it('accepts Swedish booleans', () => {
+    expect(normalizeAmenities({ covered: 'nej' }).covered).toBe(false);
+  });
+});
+
+describe('mergeAmenities', () => {
+  it('fills missing fields from the duplicate', () => {
+    const merged = mergeAmenities(
+      { ...emptyAmenities(), evChargers: 0 },
+      { ...emptyAmenities(), evChargers: 8, connectorTypes: ['type2'], bikeSpaces: 20 }
+    );
+
+    expect(merged).toMatchObject({ evChargers: 0, connectorTypes: ['type2'], bikeSpaces: 20 });
+  });
+});
+
+describe('checkRequirements', () => {
+  const garage = { ...emptyAmenities(), evChargers: 4, connectorTypes: ['type2'], maxHeightMeters: 1.9 };
+
+  it('reports met, unmet and unknown requirements', () => {
+    expect(
+      checkRequirements(garage, {
+        evCharging: true,
+        connectorTypes: ['CCS', 'Mennekes'],
+        vehicleHeightMeters: 2.1,
+        accessible: true
+      })
+    ).toEqual({ evCharging: 'met', connectorTypes: 'met', vehicleHeightMeters: 'unmet', accessible: 'unknown' });
+  });
+
+  it('treats open-air parking as having no height limit', () => {
+    expect(checkRequirements({ ...emptyAmenities(), covered: false }, { vehicleHeightMeters: 3 })).toEqual({
+      vehicleHeightMeters: 'met'
+    });
+  });
+
+  it('returns null when nothing is requested', () => {
+    expect(checkRequirements(garage, { evCharging: false })).toBeNull();
+    expect(checkRequirements(garage, undefined)).toBeNull();
+  });
+});
+
+describe('passesRequirements', () => {
+  it('keeps unknowns unless strict', () => {
+    expect(passesRequirements({ evCharging: 'met', accessible: 'unknown' }, false)).toBe(true);
+    expect(passesRequirements({ evCharging: 'met', accessible: 'unknown' }, true)).toBe(false);
+    expect(passesRequirements({ evCharging: 'unmet' }, false)).toBe(false);
+  });
+});
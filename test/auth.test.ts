@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { authenticate, credentialOf, parseApiClients } from '../src/auth.js';
+
+describe('parseApiClients', () => {
+  it('parses named keys with optional per-client limits', () => {
+    expect(parseApiClients('opal:s3cret, dashboard:abc123:600')).toEqual([
+      { name: 'opal', key: 's3cret', requestsPerMinute: null },
+      { name: 'dashboard', key: 'abc123', requestsPerMinute: 600 }
+    ]);
+    expect(parseApiClients(undefined)).toEqual([]);
+  });
+
+  it('rejects malformed entries without echoing keys', () => {
+    expect(() => parseApiClients('opal:key,:leaked-key')).toThrow('Invalid API_KEYS entry #2');
+    expect(() => parseApiClients(':leaked-key')).not.toThrow(/leaked/);
+    expect(() => parseApiClients('opal:key:fast')).toThrow("Invalid rate limit for API client 'opal'");
+    expect(() => parseApiClients('opal:a,opal:b')).toThrow("Duplicate API client 'opal'");
+  });
+});
+
+describe('authenticate', () => {
+  const clients = parseApiClients('opal:opal-token,dashboard:dash-key');
+
+  it('reads bearer tokens and API key headers', () => {
+    expect(credentialOf({ authorization: 'Bearer opal-token' })).toBe('opal-token');
+    expect(credentialOf({ authorization: 'bearer  opal-token ' })).toBe('opal-token');
+    expect(credentialOf({ 'x-api-key': 'dash-key' })).toBe('dash-key');
+    expect(credentialOf({ authorization: 'Basic b3BhbDpvcGFs' })).toBeNull();
+    expect(credentialOf({})).toBeNull();
+  });
+
+  it('matches the configured client', () => {
+    expect(authenticate({ authorization: 'Bearer opal-token' }, clients)?.name).toBe('opal');
+    expect(authenticate({ 'x-api-key': 'dash-key' }, clients)?.name).toBe('dashboard');
+  });
+
+  it('rejects unknown and missing credentials', () => {
+    expect(authenticate({ authorization: 'Bearer opal-toke' }, clients)).toBeNull();
+    expect(authenticate({}, clients)).toBeNull();
+  });
+});
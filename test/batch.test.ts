@@ -0,0 +1,76 @@
+import Ajv from 'ajv';
+import { describe, expect, it } from 'vitest';
+import { failedItem, SpaceReservations, splitValidationErrors } from '../src/batch.js';
+import { FacilityRecommendation } from '../src/types.js';
+
+describe('splitValidationErrors', () => {
+  const validate = new Ajv({ allErrors: true }).compile({
+    type: 'object',
+    required: ['requests'],
+    additionalProperties: false,
+    properties: {
+      requests: {
+        type: 'array',
+        maxItems: 3,
+        items: { type: 'object', required: ['lat'], properties: { lat: { type: 'number' } } }
+      }
+    }
+  });
+
+  it('assigns item errors to their item with item-relative paths', () => {
+    expect(validate({ requests: [{ lat: 59.3 }, { lat: 'north' }, {}] })).toBe(false);
+    const { batch, items } = splitValidationErrors(validate.errors ?? [], '/requests');
+
+    expect(batch).toEqual([]);
+    expect([...items.keys()]).toEqual([1, 2]);
+    expect(items.get(1)?.[0]).toMatchObject({ instancePath: '/lat', keyword: 'type' });
+    expect(items.get(2)?.[0]).toMatchObject({ instancePath: '', keyword: 'required' });
+  });
+
+  it('keeps envelope errors for the whole batch', () => {
+    expect(validate({ requests: [{ lat: 1 }, { lat: 2 }, { lat: 3 }, { lat: 4 }], extra: true })).toBe(false);
+    const { batch, items } = splitValidationErrors(validate.errors ?? [], '/requests');
+
+    expect(batch.map((error) => error.keyword).sort()).toEqual(['additionalProperties', 'maxItems']);
+    expect(items.size).toBe(0);
+  });
+});
+
+describe('failedItem', () => {
+  it('reports input errors with details and hides unexpected ones', () => {
+    const invalid = Object.assign(new Error('Invalid input'), { details: [{ instancePath: '/address' }] });
+    const timedOut = Object.assign(new Error('aborted'), { name: 'AbortError' });
+
+    expect(failedItem(0, invalid)).toEqual({
+      index: 0,
+      status: 'error',
+      recommendations: [],
+      error: 'Invalid input',
+      details: [{ instancePath: '/address' }]
+    });
+    expect(failedItem(1, timedOut)).toMatchObject({ index: 1, error: 'Request timed out' });
+    expect(failedItem(2, new Error('secret internals'))).toEqual({
+      index: 2,
+      status: 'error',
+      recommendations: [],
+      error: 'Internal server error'
+    });
+  });
+});
+
+describe('SpaceReservations', () => {
+  it('claims one space per stop at its top pick', () => {
+    const reservations = new SpaceReservations();
+    const top = { id: 'p-1' } as FacilityRecommendation;
+
+    reservations.claimTop([top]);
+    reservations.claimTop([top, { id: 'p-2' } as FacilityRecommendation]);
+    reservations.claimTop([]);
+
+    expect(reservations.reserved('p-1')).toBe(2);
+    expect(reservations.reserved('p-2')).toBe(0);
+    expect(reservations.remaining('p-1', 5)).toBe(3);
+    expect(reservations.remaining('p-1', 1)).toBe(0);
+    expect(reservations.remaining('p-1', null)).toBeNull();
+  });
+});
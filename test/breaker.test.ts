@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { CircuitBreaker, errorSummary } from '../src/breaker.js';
+
+function breaker(): CircuitBreaker {
+  return new CircuitBreaker('https://api.example/availability', {
+    failureThreshold: 3,
+    resetTimeoutMs: 10_000,
+    halfOpenMaxCalls: 1
+  });
+}
+
+function fail(target: CircuitBreaker, times: number, now: number): void {
+  for (let i = 0; i < times; i += 1) {
+    expect(target.tryAcquire(now)).toBe(true);
+    target.recordFailure(new Error('boom'), now);
+  }
+}
+
+describe('CircuitBreaker', () => {
+  it('opens after consecutive failures and rejects calls until the reset timeout', () => {
+    const target = breaker();
+    fail(target, 3, 1000);
+
+    expect(target.status()).toMatchObject({ state: 'open', consecutiveFailures: 3, lastError: 'Error' });
+    expect(target.tryAcquire(5000)).toBe(false);
+  });
+
+  it('lets one probe through when half-open and closes on success', () => {
+    const target = breaker();
+    fail(target, 3, 1000);
+
+    expect(target.tryAcquire(11_000)).toBe(true);
+    expect(target.status().state).toBe('half_open');
+    expect(target.tryAcquire(11_000)).toBe(false);
+
+    target.recordSuccess(11_500);
+    expect(target.status()).toMatchObject({ state: 'closed', consecutiveFailures: 0, totalSuccesses: 1 });
+    expect(target.tryAcquire(11_600)).toBe(true);
+  });
+
+  it('reopens when the probe fails', () => {
+    const target = breaker();
+    fail(target, 3, 1000);
+    target.tryAcquire(11_000);
+    target.recordFailure(new Error('still down'), 11_000);
+
+    expect(target.status()).toMatchObject({ state: 'open', openedAt: new Date(11_000).toISOString() });
+    expect(target.tryAcquire(20_000)).toBe(false);
+  });
+
+  it('resets the failure count on success', () => {
+    const target = breaker();
+    fail(target, 2, 1000);
+    target.tryAcquire(1000);
+    target.recordSuccess(1000);
+    fail(target, 2, 1000);
+
+    expect(target.status().state).toBe('closed');
+  });
+
+  it('frees the probe slot when a probe is released without a verdict', () => {
+    const target = breaker();
+    fail(target, 3, 1000);
+    target.tryAcquire(11_000);
+    target.release();
+
+    expect(target.tryAcquire(11_000)).toBe(true);
+  });
+});
+
+describe('errorSummary', () => {
+  it('reports the error class and HTTP status but never the message', () => {
+    const upstream = Object.assign(new Error('Request failed with status 502: <html>secret</html>'), {
+      details: { status: 502 }
+    });
+
+    expect(errorSummary(upstream)).toBe('Error: HTTP 502');
+    expect(errorSummary(new TypeError('fetch failed for https://api.example/?apiKey=secret'))).toBe('TypeError');
+    expect(errorSummary('boom')).toBe('Error');
+  });
+});
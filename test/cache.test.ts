@@ -0,0 +1,203 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileCacheBackend } from '../src/cache/file.js';
+import { Cache } from '../src/cache/index.js';
+import { MemoryCacheBackend } from '../src/cache/memory.js';
+import { RedisCacheBackend } from '../src/cache/redis.js';
+import { Logger } from '../src/log.js';
+
+const silentLog: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  child: () => silentLog
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function flush(): Promise<void> {
+  return new Promise((resolve) => {
+    setTimeout(resolve, 10);
+  });
+}
+
+/** A local stand-in for a Redis server: GET, SET … PX, DEL and SCAN over RESP2. */
+function startFakeRedis(): Promise<{ server: net.Server; port: number; store: Map<string, string> }> {
+  const store = new Map<string, string>();
+  const bulk = (value: string): string => `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf-8');
+      for (;;) {
+        const match = /^\*(\d+)\r\n/.exec(buffer);
+        if (!match) {
+          return;
+        }
+        const args: string[] = [];
+        let rest = buffer.slice(match[0].length);
+        for (let i = 0; i < Number(match[1]); i += 1) {
+          const header = /^\$(\d+)\r\n/.exec(rest);
+          if (!header || rest.length < header[0].length + Number(header[1]) + 2) {
+            return;
+          }
+          args.push(rest.slice(header[0].length, header[0].length + Number(header[1])));
+          rest = rest.slice(header[0].length + Number(header[1]) + 2);
+        }
+        buffer = rest;
+
+        const [command, key, value] = args;
+        switch (command.toUpperCase()) {
+          case 'GET':
+            socket.write(store.has(key) ? bulk(store.get(key) as string) : '$-1\r\n');
+            break;
+          case 'SET':
+            store.set(key, value);
+            socket.write('+OK\r\n');
+            break;
+          case 'DEL':
+            socket.write(`:${store.delete(key) ? 1 : 0}\r\n`);
+            break;
+          case 'SCAN': {
+            const prefix = args[3].replace(/\*$/, '');
+            const keys = [...store.keys()].filter((item) => item.startsWith(prefix));
+            socket.write(`*2\r\n${bulk('0')}*${keys.length}\r\n${keys.map(bulk).join('')}`);
+            break;
+          }
+          default:
+            socket.write(`-ERR unknown command '${command}'\r\n`);
+        }
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, port: (server.address() as net.AddressInfo).port, store });
+    });
+  });
+}
+
+describe('Cache', () => {
+  it('loads on a miss and serves fresh values without reloading', async () => {
+    const cache = new Cache(new MemoryCacheBackend(), silentLog, DAY_MS);
+    let loads = 0;
+    const loader = () => Promise.resolve(++loads);
+
+    const first = await cache.getOrLoad('key', 60_000, loader);
+    expect(first).toEqual({ value: 1, stale: false, storedAt: expect.any(Number) });
+    expect(await cache.getOrLoad('key', 60_000, loader)).toEqual({ value: 1, stale: false, storedAt: first.storedAt });
+    expect(loads).toBe(1);
+  });
+
+  it('serves stale values while one background load refreshes them', async () => {
+    const cache = new Cache(new MemoryCacheBackend(), silentLog, DAY_MS);
+    await cache.set('key', 'old', -1);
+    let loads = 0;
+    const loader = () => Promise.resolve(`new-${++loads}`);
+
+    const [first, second] = await Promise.all([
+      cache.getOrLoad('key', 60_000, loader),
+      cache.getOrLoad('key', 60_000, loader)
+    ]);
+    await flush();
+
+    expect(first).toEqual({ value: 'old', stale: true, storedAt: expect.any(Number) });
+    expect(second).toEqual({ value: 'old', stale: true, storedAt: expect.any(Number) });
+    expect(await cache.getOrLoad('key', 60_000, loader)).toEqual({
+      value: 'new-1',
+      stale: false,
+      storedAt: expect.any(Number)
+    });
+    expect(loads).toBe(1);
+  });
+
+  it('keeps serving the stale value when the refresh fails', async () => {
+    const cache = new Cache(new MemoryCacheBackend(), silentLog, DAY_MS);
+    await cache.set('key', 'old', -1);
+
+    const result = await cache.getOrLoad('key', 60_000, () => Promise.reject(new Error('upstream down')));
+    await flush();
+
+    expect(result).toEqual({ value: 'old', stale: true, storedAt: expect.any(Number) });
+    expect((await cache.list()).map((info) => info.key)).toEqual(['key']);
+  });
+
+  it('propagates loader errors on a miss', async () => {
+    const cache = new Cache(new MemoryCacheBackend(), silentLog, DAY_MS);
+
+    await expect(cache.getOrLoad('key', 60_000, () => Promise.reject(new Error('upstream down')))).rejects.toThrow(
+      'upstream down'
+    );
+  });
+});
+
+describe('FileCacheBackend', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('warm-starts a new process from disk', async () => {
+    await new Cache(new FileCacheBackend(dir), silentLog, DAY_MS).set('facilities', [{ id: 'a' }], -1);
+
+    const restarted = new Cache(new FileCacheBackend(dir), silentLog, DAY_MS);
+    let loads = 0;
+    const result = await restarted.getOrLoad('facilities', 60_000, () => {
+      loads += 1;
+      return new Promise<{ id: string }[]>(() => undefined);
+    });
+
+    expect(result).toEqual({ value: [{ id: 'a' }], stale: true, storedAt: expect.any(Number) });
+    expect(loads).toBe(1);
+  });
+
+  it('lists and clears keys', async () => {
+    const cache = new Cache(new FileCacheBackend(dir), silentLog, DAY_MS);
+    await cache.set('a/b', 1, 60_000);
+    await cache.set('c', 2, 60_000);
+
+    expect((await cache.list()).map((info) => [info.key, info.fresh])).toEqual([
+      ['a/b', true],
+      ['c', true]
+    ]);
+    expect(await cache.clear('a/b')).toBe(1);
+    expect(await cache.clear()).toBe(1);
+    expect(await cache.list()).toEqual([]);
+  });
+});
+
+describe('RedisCacheBackend', () => {
+  it('stores prefixed entries with an expiry on a Redis-protocol server', async () => {
+    const { server, port, store } = await startFakeRedis();
+    const backend = new RedisCacheBackend(`redis://127.0.0.1:${port}`, 'test:', 1000);
+    const cache = new Cache(backend, silentLog, DAY_MS);
+
+    try {
+      await cache.set('availability', [{ id: 'a', freeSpaces: 3 }], 60_000);
+
+      expect([...store.keys()]).toEqual(['test:availability']);
+      expect(await cache.getOrLoad('availability', 60_000, () => Promise.resolve([]))).toEqual({
+        value: [{ id: 'a', freeSpaces: 3 }],
+        stale: false,
+        storedAt: expect.any(Number)
+      });
+      expect((await cache.list()).map((info) => info.key)).toEqual(['availability']);
+      expect(await cache.clear()).toBe(1);
+      expect(store.size).toBe(0);
+    } finally {
+      await cache.close();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,147 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { loadConfig } from '../src/config.js';
+import { createProviderContext, getAvailability } from '../src/data.js';
+import { Logger } from '../src/log.js';
+import { metrics } from '../src/metrics.js';
+import { MockUpstream } from '../src/mock/upstream.js';
+import { ServiceConfig } from '../src/types.js';
+
+const silentLog: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  child: () => silentLog
+};
+
+const AVAILABILITY_TTL_MS = 100;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await sleep(10);
+  }
+}
+
+describe('upstream requests against the mock upstream', () => {
+  const mock = new MockUpstream();
+  let baseUrl: string;
+  let config: ServiceConfig;
+
+  const fetchFacilities = () => createProviderContext(config, silentLog).fetchJson<unknown[]>(`${baseUrl}/facilities`);
+  const scenarios = () => mock.requests.map((request) => request.scenario);
+
+  beforeAll(async () => {
+    baseUrl = await mock.listen();
+    config = loadConfig({
+      SP_BASE_URL: baseUrl,
+      UPSTREAM_MAX_ATTEMPTS: '3',
+      UPSTREAM_RETRY_BASE_DELAY_MS: '1',
+      REQUEST_TIMEOUT_MS: '200',
+      AVAILABILITY_TTL_MS: String(AVAILABILITY_TTL_MS),
+      BREAKER_FAILURE_THRESHOLD: '100'
+    });
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  describe('fetchWithRetries', () => {
+    it('retries 503 responses until the upstream recovers', async () => {
+      mock.requests.length = 0;
+      mock.setScenario('unavailable', { times: 2 });
+      const retriesBefore = metrics.upstreamRetries.get({ endpoint: `${baseUrl}/facilities` });
+
+      expect(await fetchFacilities()).toHaveLength(4);
+      expect(scenarios()).toEqual(['unavailable', 'unavailable', 'ok']);
+      expect(metrics.upstreamRetries.get({ endpoint: `${baseUrl}/facilities` })).toBe(retriesBefore + 2);
+    });
+
+    it('gives up after UPSTREAM_MAX_ATTEMPTS', async () => {
+      mock.requests.length = 0;
+      mock.setScenario('unavailable');
+
+      await expect(fetchFacilities()).rejects.toThrow('Request failed with status 503');
+      expect(scenarios()).toEqual(['unavailable', 'unavailable', 'unavailable']);
+      mock.setScenario('ok');
+    });
+
+    it('retries timed-out and malformed responses', async () => {
+      mock.requests.length = 0;
+      mock.setScenario('slow', { times: 1, delayMs: 1000 });
+      expect(await fetchFacilities()).toHaveLength(4);
+
+      mock.setScenario('malformed', { times: 1 });
+      expect(await fetchFacilities()).toHaveLength(4);
+      expect(scenarios()).toEqual(['slow', 'ok', 'malformed', 'ok']);
+    });
+
+    it('keeps API keys and query strings out of retry logs and errors', async () => {
+      const warnings: unknown[] = [];
+      const log: Logger = { ...silentLog, warn: (_message, payload) => warnings.push(payload) };
+      mock.setScenario('unavailable');
+
+      await expect(
+        createProviderContext(config, log).fetchJson(`${baseUrl}/facilities?apiKey=secret&q=Drottninggatan`)
+      ).rejects.toThrow('Request failed with status 503');
+      expect(warnings).toHaveLength(2);
+      expect(warnings[0]).toMatchObject({ endpoint: `${baseUrl}/facilities` });
+      expect(JSON.stringify(warnings)).not.toMatch(/secret|Drottninggatan/);
+      mock.setScenario('ok');
+    });
+
+    it('passes a partial feed through unchanged', async () => {
+      mock.setScenario('partial', { times: 1 });
+      expect(await fetchFacilities()).toHaveLength(2);
+    });
+  });
+
+  describe('getAvailability', () => {
+    const freeSpaces = async () => {
+      const result = await getAvailability(config, silentLog);
+      return { stale: result.stale, freeSpaces: result.data.get('SP-1001')?.freeSpaces };
+    };
+
+    it('serves fresh data from the cache, then stale data while one refresh runs in the background', async () => {
+      expect(await freeSpaces()).toEqual({ stale: false, freeSpaces: 57 });
+      mock.setFreeSpaces('SP-1001', 40);
+      expect(await freeSpaces()).toEqual({ stale: false, freeSpaces: 57 });
+      expect(mock.requestCount('/availability')).toBe(1);
+
+      await sleep(AVAILABILITY_TTL_MS + 20);
+      const [first, second] = await Promise.all([freeSpaces(), freeSpaces()]);
+      expect(first).toEqual({ stale: true, freeSpaces: 57 });
+      expect(second).toEqual({ stale: true, freeSpaces: 57 });
+
+      await waitFor(() => mock.requestCount('/availability') === 2);
+      await sleep(20);
+      expect(await freeSpaces()).toEqual({ stale: false, freeSpaces: 40 });
+      expect(mock.requestCount('/availability')).toBe(2);
+    });
+
+    it('keeps serving the last good data while the upstream is down', async () => {
+      await sleep(AVAILABILITY_TTL_MS + 20);
+      mock.setScenario('unavailable', { times: 3 });
+      mock.setFreeSpaces('SP-1001', 7);
+
+      expect(await freeSpaces()).toEqual({ stale: true, freeSpaces: 40 });
+      await waitFor(() => mock.requestCount('/availability') === 5);
+      await sleep(20);
+      expect(await freeSpaces()).toEqual({ stale: true, freeSpaces: 40 });
+
+      await waitFor(() => mock.requestCount('/availability') === 6);
+      await sleep(20);
+      expect(await freeSpaces()).toEqual({ stale: false, freeSpaces: 7 });
+    });
+  });
+});
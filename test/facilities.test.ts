@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { emptyAmenities } from '../src/amenities.js';
+import { findFacility, listFacilities, searchFacilities } from '../src/facilities.js';
+import { FacilityMetadata } from '../src/types.js';
+
+function facility(partial: Partial<FacilityMetadata> & Pick<FacilityMetadata, 'id' | 'name'>): FacilityMetadata {
+  return {
+    provider: 'stockholm',
+    aliasIds: [],
+    lat: 59.33,
+    lon: 18.06,
+    capacity: null,
+    tariffNote: null,
+    tariff: null,
+    zoneCode: null,
+    amenities: emptyAmenities(),
+    openingHours: null,
+    sourceUrl: 'https://example.com',
+    ...partial
+  };
+}
+
+const FACILITIES = [
+  facility({ id: 'p-1', name: 'P-hus Hötorget', zoneCode: '2' }),
+  facility({ id: 'p-2', name: 'Östermalmshallen garage', zoneCode: '1', aliasIds: ['datex-77'] }),
+  facility({ id: 'p-3', name: 'Åhléns City', zoneCode: '1' }),
+  facility({ id: 'p-4', name: 'Garage Slussen', zoneCode: '3' }),
+  facility({ id: 'p-5', name: 'Ängby Plan', zoneCode: '1' })
+];
+
+describe('findFacility', () => {
+  it('finds facilities by id or by the id of a merged duplicate', () => {
+    expect(findFacility(FACILITIES, 'p-3')?.name).toBe('Åhléns City');
+    expect(findFacility(FACILITIES, 'datex-77')?.id).toBe('p-2');
+    expect(findFacility(FACILITIES, 'missing')).toBeUndefined();
+  });
+});
+
+describe('searchFacilities', () => {
+  it('ignores case and Swedish diacritics', () => {
+    expect(searchFacilities(FACILITIES, 'HOTORGET', 5)[0]).toMatchObject({ facility: { id: 'p-1' }, score: 0.9 });
+    expect(searchFacilities(FACILITIES, 'ahlens city', 5)[0]).toMatchObject({ facility: { id: 'p-3' }, score: 1 });
+    expect(searchFacilities(FACILITIES, 'östermalmshallen', 5)[0].facility.id).toBe('p-2');
+  });
+
+  it('tolerates typos in one word of a longer name', () => {
+    const [match] = searchFacilities(FACILITIES, 'hotorgt', 5);
+
+    expect(match.facility.id).toBe('p-1');
+    expect(match.score).toBeGreaterThan(0.6);
+  });
+
+  it('ranks matches, applies the limit and drops unrelated names', () => {
+    expect(searchFacilities(FACILITIES, 'garage', 5).map(({ facility }) => facility.id)).toEqual(['p-4', 'p-2']);
+    expect(searchFacilities(FACILITIES, 'garage', 1)).toHaveLength(1);
+    expect(searchFacilities(FACILITIES, 'Kaknästornet', 5)).toEqual([]);
+    expect(searchFacilities(FACILITIES, 'the', 5)).toEqual([]);
+  });
+});
+
+describe('listFacilities', () => {
+  it('filters by zone and pages in Swedish alphabetical order, å/ä/ö last', () => {
+    const zoneOne = listFacilities(FACILITIES, '1', 0, 10);
+
+    expect(zoneOne.total).toBe(3);
+    expect(zoneOne.facilities.map(({ name }) => name)).toEqual(['Åhléns City', 'Ängby Plan', 'Östermalmshallen garage']);
+    expect(listFacilities(FACILITIES, undefined, 3, 2)).toMatchObject({
+      total: 5,
+      facilities: [{ id: 'p-5' }, { id: 'p-2' }]
+    });
+    expect(listFacilities(FACILITIES, 'zone-9', 0, 10)).toEqual({ total: 0, facilities: [] });
+  });
+});
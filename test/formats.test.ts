@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { emptyAmenities } from '../src/amenities.js';
+import { formatRecommendations, SearchTarget, summarizeRecommendations, toFeatureCollection } from '../src/formats.js';
+import { FacilityRecommendation } from '../src/types.js';
+
+function recommendation(partial: Partial<FacilityRecommendation> & Pick<FacilityRecommendation, 'id'>): FacilityRecommendation {
+  return {
+    provider: 'stockholmParkering',
+    name: `P-hus ${partial.id}`,
+    lat: 59.33,
+    lon: 18.06,
+    freeSpaces: null,
+    capacity: null,
+    tariffNote: null,
+    zoneCode: null,
+    distanceMeters: 0,
+    walkMinutes: 0,
+    walkMethod: 'straight_line',
+    lastUpdated: null,
+    stale: false,
+    dataQuality: [],
+    estimatedCostSek: null,
+    costBreakdown: null,
+    predictedFreeSpaces: null,
+    forecastConfidence: null,
+    amenities: emptyAmenities(),
+    openStatus: { status: 'unknown', reason: null, closesAt: null, opensAt: null },
+    sourceUrl: 'https://example.com',
+    ...partial
+  };
+}
+
+const now = new Date('2026-03-02T12:00:00Z');
+const target: SearchTarget = { lat: 59.3326, lon: 18.0649, label: 'Stureplan', route: false };
+
+const recommendations = [
+  recommendation({
+    id: 'a',
+    distanceMeters: 320,
+    walkMinutes: 4,
+    freeSpaces: 42,
+    capacity: 200,
+    estimatedCostSek: 57.5,
+    lastUpdated: '2026-03-02T11:58:00Z'
+  }),
+  recommendation({
+    id: 'b',
+    distanceMeters: 1240,
+    walkMinutes: 15,
+    freeSpaces: 1,
+    tariffNote: '30 kr/tim.',
+    lastUpdated: '2026-03-02T09:00:00Z',
+    dataQuality: ['availability_outdated'],
+    openStatus: { status: 'closes_during_stay', reason: null, closesAt: '2026-03-02T14:00:00Z', opensAt: null }
+  }),
+  recommendation({ id: 'c', distanceMeters: 1500, walkMinutes: 18, stale: true })
+];
+
+describe('toFeatureCollection', () => {
+  it('puts the destination first and the facilities in ranking order as [lon, lat] points', () => {
+    const collection = toFeatureCollection(recommendations.slice(0, 2), target);
+
+    expect(collection.type).toBe('FeatureCollection');
+    expect(collection.features[0]).toEqual({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [18.0649, 59.3326] },
+      properties: { kind: 'destination', label: 'Stureplan' }
+    });
+    expect(collection.features[2]).toMatchObject({
+      id: 'b',
+      geometry: { coordinates: [18.06, 59.33] },
+      properties: { kind: 'facility', rank: 2, freeSpaces: 1, dataQuality: ['availability_outdated'] }
+    });
+  });
+});
+
+describe('summarizeRecommendations', () => {
+  it('covers distance, walk, spaces, price and caveats in English', () => {
+    const summary = summarizeRecommendations(recommendations, target, 'en', now);
+
+    expect(summary.facilityIds).toEqual(['a', 'b', 'c']);
+    expect(summary.text.split('\n')).toEqual([
+      'Found 3 parking facilities near Stureplan:',
+      '1. P-hus a: 320 m away, about 4 min walk. 42 of 200 spaces free. About 58 SEK for the stay.',
+      '2. P-hus b: 1.2 km away, about 15 min walk. 1 space free. Price: 30 kr/tim. Closes during the stay. ' +
+        'Free spaces last reported 3 h ago.',
+      '3. P-hus c: 1.5 km away, about 18 min walk. No live availability.'
+    ]);
+  });
+
+  it('localizes text and numbers in Swedish', () => {
+    const summary = summarizeRecommendations(recommendations.slice(1, 2), { ...target, route: true }, 'sv', now);
+
+    expect(summary).toEqual({
+      language: 'sv',
+      text:
+        'Hittade 1 parkering längs rutten:\n' +
+        '1. P-hus b: 1,2 km bort, cirka 15 min promenad. 1 ledig plats. Pris: 30 kr/tim. Stänger under vistelsen. ' +
+        'Lediga platser rapporterades senast för 3 tim sedan.',
+      facilityIds: ['b']
+    });
+  });
+
+  it('says so when nothing matched', () => {
+    expect(summarizeRecommendations([], target, 'sv', now).text).toBe('Inga parkeringar matchade sökningen.');
+  });
+});
+
+describe('formatRecommendations', () => {
+  it('returns the array unchanged for json', () => {
+    expect(formatRecommendations(recommendations, 'json', target, 'en')).toBe(recommendations);
+  });
+});
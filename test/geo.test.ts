@@ -1,5 +1,10 @@
 import { describe, expect, it } from 'vitest';
-import { estimateWalkMinutes, haversineDistanceMeters } from '../src/geo.js';
+import {
+  decodePolyline,
+  distanceToPathMeters,
+  estimateWalkMinutes,
+  haversineDistanceMeters
+} from '../src/geo.js';
 
 describe('haversineDistanceMeters', () => {
   it('returns zero for identical coordinates', () => {
@@ -22,3 +27,34 @@ describe('estimateWalkMinutes', () => {
     expect(estimateWalkMinutes(0)).toBe(0);
   });
 });
+
+describe('distanceToPathMeters', () => {
+  const path = [
+    { lat: 59.33, lon: 18.05 },
+    { lat: 59.33, lon: 18.07 }
+  ];
+
+  it('measures perpendicular distance to a segment', () => {
+    const distance = distanceToPathMeters(59.331, 18.06, path);
+    expect(distance).toBeGreaterThan(105);
+    expect(distance).toBeLessThan(118);
+  });
+
+  it('measures distance to the nearest endpoint beyond the segment', () => {
+    expect(distanceToPathMeters(59.33, 18.08, path)).toBe(haversineDistanceMeters(59.33, 18.08, 59.33, 18.07));
+  });
+});
+
+describe('decodePolyline', () => {
+  it('decodes the reference polyline', () => {
+    expect(decodePolyline('_p~iF~ps|U_ulLnnqC_mqNvxq`@')).toEqual([
+      { lat: 38.5, lon: -120.2 },
+      { lat: 40.7, lon: -120.95 },
+      { lat: 43.252, lon: -126.453 }
+    ]);
+  });
+
+  it('rejects truncated input', () => {
+    expect(decodePolyline('_p~iF~ps|U_ulL')).toBeNull();
+  });
+});
@@ -0,0 +1,175 @@
+import http from 'node:http';
+import net from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { loadConfig } from '../src/config.js';
+import { haversineDistanceMeters } from '../src/geo.js';
+import { normalizePlaceName, parseAddress, searchGazetteer } from '../src/geocoding/gazetteer.js';
+import { geocode } from '../src/geocoding/index.js';
+import { Logger } from '../src/log.js';
+import { ServiceConfig } from '../src/types.js';
+
+const silentLog: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  child: () => silentLog
+};
+
+interface StubRequest {
+  query: URLSearchParams;
+  userAgent: string | undefined;
+}
+
+/** A local stand-in for a Nominatim server: answers `/search` from a table keyed by `q`. */
+function startFakeNominatim(
+  answers: Record<string, unknown[] | number>
+): Promise<{ server: http.Server; url: string; requests: StubRequest[] }> {
+  const requests: StubRequest[] = [];
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    requests.push({ query: url.searchParams, userAgent: req.headers['user-agent'] });
+    const answer = url.pathname === '/search' ? (answers[url.searchParams.get('q') ?? ''] ?? []) : 404;
+    if (typeof answer === 'number') {
+      res.writeHead(answer).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(answer));
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, url: `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`, requests });
+    });
+  });
+}
+
+describe('gazetteer', () => {
+  it('normalizes diacritics, punctuation and filler words', () => {
+    expect(normalizePlaceName('near Östermalmstorg, Stockholm')).toBe('ostermalmstorg');
+    expect(parseAddress('Drottninggatan 50 B, 111 21 Stockholm')).toEqual({ street: 'drottninggatan', number: 50 });
+    expect(parseAddress('Drottninggatan')).toBeNull();
+  });
+
+  it('matches landmarks by name and alias with full confidence', () => {
+    expect(searchGazetteer({ text: 'Stureplan', kind: 'place' })).toMatchObject({
+      label: 'Stureplan',
+      kind: 'landmark',
+      confidence: 1
+    });
+    expect(searchGazetteer({ text: 'near T-Centralen', kind: 'place' })).toMatchObject({
+      label: 'Stockholm Central',
+      confidence: 1
+    });
+    expect(searchGazetteer({ text: 'Globen', kind: 'place' })?.label).toBe('Avicii Arena');
+  });
+
+  it('tolerates misspellings at lower confidence', () => {
+    const match = searchGazetteer({ text: 'Kungstradgarden', kind: 'place' });
+
+    expect(match?.label).toBe('Kungsträdgården');
+    expect(match?.confidence).toBe(1);
+    const typo = searchGazetteer({ text: 'Stureplann', kind: 'place' });
+    expect(typo?.label).toBe('Stureplan');
+    expect(typo?.confidence).toBeLessThan(1);
+    expect(typo?.confidence).toBeGreaterThan(0.75);
+  });
+
+  it('interpolates house numbers along the street', () => {
+    const start = searchGazetteer({ text: 'Drottninggatan 1', kind: 'address' });
+    const middle = searchGazetteer({ text: 'Drottninggatan 64', kind: 'address' });
+    const end = searchGazetteer({ text: 'Drottninggatan 128', kind: 'address' });
+
+    expect(middle).toMatchObject({ label: 'Drottninggatan 64', kind: 'address', confidence: 0.9 });
+    const length = haversineDistanceMeters(start!.lat, start!.lon, end!.lat, end!.lon);
+    const fromStart = haversineDistanceMeters(start!.lat, start!.lon, middle!.lat, middle!.lon);
+    expect(fromStart).toBeGreaterThan(length * 0.3);
+    expect(fromStart).toBeLessThan(length * 0.7);
+  });
+
+  it('lowers confidence for house numbers outside the known range and for whole streets', () => {
+    expect(searchGazetteer({ text: 'Drottninggatan 900', kind: 'address' })?.confidence).toBeLessThan(0.6);
+    expect(searchGazetteer({ text: 'Sveavägen', kind: 'address' })).toMatchObject({ kind: 'street', confidence: 0.7 });
+  });
+
+  it('finds nothing for unrelated text', () => {
+    expect(searchGazetteer({ text: 'zzzzzzzzzzzzzzzz', kind: 'place' })).toBeNull();
+  });
+});
+
+describe('geocode', () => {
+  let stub: Awaited<ReturnType<typeof startFakeNominatim>>;
+
+  beforeAll(async () => {
+    stub = await startFakeNominatim({
+      Kaknästornet: [
+        {
+          lat: '59.3351',
+          lon: '18.1275',
+          category: 'tourism',
+          type: 'attraction',
+          display_name: 'Kaknästornet, Mörka kroken, Gärdet, Stockholm'
+        }
+      ],
+      Slussen: 500
+    });
+  });
+
+  afterAll(() => {
+    stub.server.close();
+  });
+
+  function config(overrides: Partial<ServiceConfig>): ServiceConfig {
+    return { ...loadConfig({}), nominatimUrl: stub.url, upstreamMaxAttempts: 1, ...overrides };
+  }
+
+  it('stops at the first confident match', async () => {
+    const before = stub.requests.length;
+    const match = await geocode(
+      { text: 'Stureplan', kind: 'place' },
+      config({ geocoders: ['gazetteer', 'nominatim'] }),
+      silentLog
+    );
+
+    expect(match).toMatchObject({ label: 'Stureplan', source: 'gazetteer' });
+    expect(stub.requests.length).toBe(before);
+  });
+
+  it('falls through to Nominatim when the gazetteer is not confident', async () => {
+    const match = await geocode(
+      { text: 'Kaknästornet', kind: 'place' },
+      config({ geocoders: ['gazetteer', 'nominatim'] }),
+      silentLog
+    );
+
+    expect(match).toEqual({
+      label: 'Kaknästornet, Mörka kroken, Gärdet, Stockholm',
+      lat: 59.3351,
+      lon: 18.1275,
+      kind: 'landmark',
+      confidence: 0.85,
+      source: 'nominatim'
+    });
+    const request = stub.requests[stub.requests.length - 1];
+    expect(request.query.get('format')).toBe('jsonv2');
+    expect(request.query.get('bounded')).toBe('1');
+    expect(request.userAgent).toBe('stockholm-parking-opal-tool');
+  });
+
+  it('throws a geocoder failure only when nothing matched', async () => {
+    await expect(
+      geocode({ text: 'Slussen', kind: 'place' }, config({ geocoders: ['nominatim'] }), silentLog)
+    ).rejects.toThrow('status 500');
+
+    const fallback = await geocode(
+      { text: 'Slussen', kind: 'place' },
+      config({ geocoders: ['nominatim', 'gazetteer'] }),
+      silentLog
+    );
+    expect(fallback?.source).toBe('gazetteer');
+  });
+
+  it('requires a Nominatim URL when the nominatim geocoder is enabled', () => {
+    expect(() => loadConfig({ GEOCODERS: 'gazetteer,nominatim' })).toThrow(/nominatimUrl \(NOMINATIM_URL\) is required/);
+  });
+});
@@ -0,0 +1,127 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { forecastFreeSpaces } from '../src/forecast.js';
+import { AvailabilityHistoryStore, IndexedHistoryRecord } from '../src/history.js';
+import { Logger } from '../src/log.js';
+import { FacilityAvailability } from '../src/types.js';
+
+const silentLog: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  child: () => silentLog
+};
+
+function snapshot(freeSpaces: number, lastUpdated: string | null = null): Map<string, FacilityAvailability> {
+  return new Map([['a', { id: 'a', freeSpaces, capacity: 100, lastUpdated }]]);
+}
+
+/** Builds a week-by-week synthetic history with a fixed free-space count per Stockholm hour. */
+function syntheticHistory(weeks: number, freeAt: (weekday: number, hour: number) => number): IndexedHistoryRecord[] {
+  const records: IndexedHistoryRecord[] = [];
+  // Monday 2024-04-01 00:00 Stockholm (CEST).
+  const start = Date.parse('2024-03-31T22:00:00Z');
+  for (let week = 0; week < weeks; week += 1) {
+    for (let weekday = 1; weekday <= 7; weekday += 1) {
+      for (let hour = 0; hour < 24; hour += 1) {
+        const observedAtMs = start + (((week * 7 + weekday - 1) * 24 + hour) * 60 + 30) * 60 * 1000;
+        records.push({
+          facilityId: 'a',
+          observedAt: new Date(observedAtMs).toISOString(),
+          observedAtMs,
+          freeSpaces: freeAt(weekday, hour),
+          capacity: 100,
+          weekday,
+          hour
+        });
+      }
+    }
+  }
+  return records;
+}
+
+describe('AvailabilityHistoryStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'history-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('appends snapshots to the file and reloads them', async () => {
+    const file = path.join(dir, 'history.jsonl');
+    const options = { file, retentionDays: 28, sampleIntervalMs: 0 };
+    const store = new AvailabilityHistoryStore(options, silentLog);
+
+    await store.record(snapshot(10, '2024-05-15T10:00:00Z'), new Date('2024-05-15T10:00:30Z'));
+    await store.record(snapshot(8, '2024-05-15T10:05:00Z'), new Date('2024-05-15T10:05:30Z'));
+
+    const lines = (await readFile(file, 'utf-8')).trim().split('\n');
+    expect(lines).toHaveLength(2);
+
+    const reloaded = new AvailabilityHistoryStore(options, silentLog);
+    expect((await reloaded.history('a')).map((record) => record.freeSpaces)).toEqual([10, 8]);
+  });
+
+  it('skips repeated readings and samples within the interval', async () => {
+    const store = new AvailabilityHistoryStore({ file: null, retentionDays: 28, sampleIntervalMs: 60_000 }, silentLog);
+
+    expect(await store.record(snapshot(10, '2024-05-15T10:00:00Z'), new Date('2024-05-15T10:00:00Z'))).toBe(1);
+    expect(await store.record(snapshot(9, '2024-05-15T10:00:30Z'), new Date('2024-05-15T10:00:30Z'))).toBe(0);
+    expect(await store.record(snapshot(10, '2024-05-15T10:00:00Z'), new Date('2024-05-15T10:02:00Z'))).toBe(0);
+  });
+
+  it('prunes records outside the retention window and compacts the file', async () => {
+    const file = path.join(dir, 'history.jsonl');
+    const store = new AvailabilityHistoryStore({ file, retentionDays: 7, sampleIntervalMs: 0 }, silentLog);
+
+    await store.record(snapshot(10, '2024-05-01T10:00:00Z'), new Date('2024-05-01T10:00:00Z'));
+    await store.record(snapshot(5, '2024-05-15T10:00:00Z'), new Date('2024-05-15T10:00:00Z'));
+
+    expect((await store.history('a')).map((record) => record.freeSpaces)).toEqual([5]);
+    expect((await readFile(file, 'utf-8')).trim().split('\n')).toHaveLength(1);
+  });
+});
+
+describe('forecastFreeSpaces', () => {
+  // Busy on weekday mornings, quiet otherwise.
+  const history = syntheticHistory(4, (weekday, hour) => (weekday <= 5 && hour >= 8 && hour < 12 ? 5 : 60));
+  const now = new Date('2024-04-29T06:00:00Z');
+
+  it('predicts from the same weekday and hour', () => {
+    // Tuesday 2024-04-30 09:15 Stockholm.
+    const forecast = forecastFreeSpaces(history, new Date('2024-04-30T07:15:00Z'), now);
+
+    expect(forecast?.predictedFreeSpaces).toBe(5);
+    expect(forecast?.sampleCount).toBe(4);
+    expect(forecast?.confidence).toBeGreaterThan(0.4);
+  });
+
+  it('distinguishes weekends', () => {
+    // Saturday 2024-05-04 09:15 Stockholm.
+    expect(forecastFreeSpaces(history, new Date('2024-05-04T07:15:00Z'), now)?.predictedFreeSpaces).toBe(60);
+  });
+
+  it('leans on the live reading for imminent arrivals', () => {
+    const current = { id: 'a', freeSpaces: 40, capacity: 100, lastUpdated: null };
+    const forecast = forecastFreeSpaces(history, new Date(now.getTime() + 5 * 60 * 1000), now, current);
+
+    // Monday 08:05 Stockholm is a busy hour historically, but the live reading dominates.
+    expect(forecast?.predictedFreeSpaces).toBeGreaterThan(30);
+    expect(forecast?.predictedFreeSpaces).toBeLessThan(40);
+    expect(forecast?.confidence).toBeGreaterThan(0.9);
+  });
+
+  it('returns null without history, even with a live reading', () => {
+    const current = { id: 'a', freeSpaces: 40, capacity: 100, lastUpdated: null };
+
+    expect(forecastFreeSpaces([], new Date('2024-04-30T07:15:00Z'), now)).toBeNull();
+    expect(forecastFreeSpaces([], new Date('2024-04-30T07:15:00Z'), now, current)).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+import { Writable } from 'node:stream';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { configureLogging, logger, redactCoordinates, setLogOutput } from '../src/log.js';
+
+describe('redactCoordinates', () => {
+  it('rounds coordinates at any depth', () => {
+    const payload = {
+      userLat: 59.329323,
+      userLon: 18.068581,
+      waypoints: [{ lat: 59.334591, lon: 18.06324 }],
+      radiusMeters: 500
+    };
+
+    expect(redactCoordinates(payload, 3)).toEqual({
+      userLat: 59.329,
+      userLon: 18.069,
+      waypoints: [{ lat: 59.335, lon: 18.063 }],
+      radiusMeters: 500
+    });
+  });
+
+  it('removes coordinates and polylines when redacting', () => {
+    expect(redactCoordinates({ destinationLat: 59.3, latitude: 59.3, polyline: '_p~iF~ps|U', zoneCode: 'A' }, 'redact')).toEqual({
+      destinationLat: '[redacted]',
+      latitude: '[redacted]',
+      polyline: '[redacted]',
+      zoneCode: 'A'
+    });
+  });
+
+  it('leaves payloads untouched at full precision and ignores look-alike keys', () => {
+    const payload = { lat: 59.329323, salon: 2, relation: 1.23456 };
+    expect(redactCoordinates(payload, 'full')).toBe(payload);
+    expect(redactCoordinates(payload, 2)).toEqual({ lat: 59.33, salon: 2, relation: 1.23456 });
+  });
+});
+
+describe('logger', () => {
+  let lines: Record<string, unknown>[];
+
+  beforeEach(() => {
+    lines = [];
+    setLogOutput(
+      new Writable({
+        write(chunk: Buffer, _encoding, callback) {
+          lines.push(JSON.parse(chunk.toString('utf-8')) as Record<string, unknown>);
+          callback();
+        }
+      })
+    );
+  });
+
+  afterEach(() => {
+    setLogOutput(process.stdout);
+    configureLogging({ level: 'info', coordinatePrecision: 3 });
+  });
+
+  it('drops lines below the configured level', () => {
+    configureLogging({ level: 'warn', coordinatePrecision: 3 });
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+
+    expect(lines.map((line) => line.level)).toEqual(['warn', 'error']);
+  });
+
+  it('adds child fields to every line and redacts payload coordinates', () => {
+    const log = logger.child({ requestId: 'req-1' }).child({ method: 'recommendFacility' });
+    log.info('Recommending facilities', { userLat: 59.329323 });
+
+    expect(lines[0]).toMatchObject({
+      level: 'info',
+      message: 'Recommending facilities',
+      requestId: 'req-1',
+      method: 'recommendFacility',
+      userLat: 59.329
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { buildDiscoveryDocument } from '../src/discovery.js';
+import { Logger } from '../src/log.js';
+import { handleMcpPayload, JsonRpcResponse } from '../src/mcp.js';
+import { ToolDefinition, ToolInvoker } from '../src/types.js';
+
+const silentLog: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  child: () => silentLog
+};
+
+const definition: ToolDefinition = {
+  name: 'stockholmParking',
+  description: 'Parking tool',
+  methods: [
+    {
+      name: 'echo',
+      description: 'Returns its input',
+      inputSchema: {
+        type: 'object',
+        required: ['text'],
+        properties: {
+          text: { type: 'string', description: 'Text to echo' },
+          count: { type: ['integer', 'null'] }
+        }
+      },
+      outputSchema: { type: 'object' }
+    }
+  ]
+};
+
+const tool: ToolInvoker = {
+  definition,
+  invoke: (method, args) => {
+    if ((args as { text?: unknown }).text === undefined) {
+      const error = new Error('Invalid input');
+      (error as Error & { details?: unknown }).details = [{ message: "must have required property 'text'" }];
+      return Promise.reject(error);
+    }
+    return Promise.resolve({ method, args });
+  }
+};
+
+function call(payload: unknown): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+  return handleMcpPayload(payload, tool, silentLog);
+}
+
+describe('buildDiscoveryDocument', () => {
+  it('lists every registered method with its parameters and schemas', () => {
+    const [entry] = buildDiscoveryDocument(definition).functions;
+
+    expect(entry).toMatchObject({ name: 'echo', endpoint: '/echo', http_method: 'POST' });
+    expect(entry.parameters).toEqual([
+      { name: 'text', type: 'string', description: 'Text to echo', required: true },
+      { name: 'count', type: 'integer', description: '', required: false }
+    ]);
+    expect(entry.input_schema).toBe(definition.methods[0].inputSchema);
+  });
+});
+
+describe('handleMcpPayload', () => {
+  it('negotiates the protocol version on initialize', async () => {
+    const response = await call({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2024-11-05' } });
+
+    expect(response).toMatchObject({
+      id: 1,
+      result: { protocolVersion: '2024-11-05', serverInfo: { name: 'stockholmParking' }, capabilities: { tools: {} } }
+    });
+  });
+
+  it('lists tools from the tool definition', async () => {
+    const response = (await call({ jsonrpc: '2.0', id: 2, method: 'tools/list' })) as JsonRpcResponse;
+
+    expect(response.result).toEqual({
+      tools: [{ name: 'echo', description: 'Returns its input', inputSchema: definition.methods[0].inputSchema }]
+    });
+  });
+
+  it('calls tools and reports invalid input as a tool error', async () => {
+    const ok = (await call({
+      jsonrpc: '2.0',
+      id: 3,
+      method: 'tools/call',
+      params: { name: 'echo', arguments: { text: 'hej' } }
+    })) as JsonRpcResponse;
+    const invalid = (await call({
+      jsonrpc: '2.0',
+      id: 4,
+      method: 'tools/call',
+      params: { name: 'echo', arguments: {} }
+    })) as JsonRpcResponse;
+
+    expect(ok.result).toEqual({
+      content: [{ type: 'text', text: JSON.stringify({ method: 'echo', args: { text: 'hej' } }) }],
+      isError: false
+    });
+    expect(invalid.result).toMatchObject({ isError: true, content: [{ text: expect.stringContaining('Invalid input') }] });
+  });
+
+  it('returns JSON-RPC errors for unknown methods and tools', async () => {
+    const responses = (await call([
+      { jsonrpc: '2.0', id: 5, method: 'resources/list' },
+      { jsonrpc: '2.0', id: 6, method: 'tools/call', params: { name: 'nope' } },
+      { jsonrpc: '2.0', method: 'notifications/initialized' }
+    ])) as JsonRpcResponse[];
+
+    expect(responses.map((response) => [response.id, response.error?.code])).toEqual([
+      [5, -32601],
+      [6, -32602]
+    ]);
+  });
+
+  it('does not answer notifications', async () => {
+    expect(await call({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { checkOpeningHours, parseOpeningHours, swedishPublicHolidays } from '../src/openingHours.js';
+
+const OFFICE_HOURS = parseOpeningHours('Mo-Fr 08:00-18:00; Sa 10:00-16:00; Su,PH off');
+
+describe('swedishPublicHolidays', () => {
+  it('includes movable holidays', () => {
+    const holidays = swedishPublicHolidays(2024);
+
+    expect([...holidays]).toEqual(
+      expect.arrayContaining(['2024-03-29', '2024-04-01', '2024-05-09', '2024-05-19', '2024-06-22', '2024-11-02'])
+    );
+    expect(holidays.has('2024-12-24')).toBe(false);
+  });
+});
+
+describe('parseOpeningHours', () => {
+  it('parses weekday selectors, public holidays and closed days', () => {
+    expect(OFFICE_HOURS?.rules).toEqual([
+      { days: [1, 2, 3, 4, 5], publicHolidays: false, spans: [{ startMinute: 480, endMinute: 1080 }] },
+      { days: [6], publicHolidays: false, spans: [{ startMinute: 600, endMinute: 960 }] },
+      { days: [7], publicHolidays: true, spans: [] }
+    ]);
+  });
+
+  it('returns null for unsupported syntax', () => {
+    expect(parseOpeningHours('sunrise-sunset')).toBeNull();
+    expect(parseOpeningHours('')).toBeNull();
+  });
+});
+
+describe('checkOpeningHours', () => {
+  it('flags facilities closing before the stay ends', () => {
+    expect(checkOpeningHours(OFFICE_HOURS, new Date('2024-05-15T17:00:00+02:00'), 120)).toEqual({
+      status: 'closes_during_stay',
+      reason: 'Closes before the stay ends',
+      closesAt: '2024-05-15T16:00:00.000Z',
+      opensAt: null
+    });
+  });
+
+  it('treats public holidays as closed and reports the next opening', () => {
+    expect(checkOpeningHours(OFFICE_HOURS, new Date('2024-05-09T12:00:00+02:00'), null)).toMatchObject({
+      status: 'closed',
+      opensAt: '2024-05-10T06:00:00.000Z'
+    });
+  });
+
+  it('carries overnight spans into the next day', () => {
+    const nightClub = parseOpeningHours('Fr-Sa 22:00-03:00');
+
+    expect(checkOpeningHours(nightClub, new Date('2024-05-18T01:00:00+02:00'), 60).status).toBe('open');
+    expect(checkOpeningHours(nightClub, new Date('2024-05-20T01:00:00+02:00'), 60).status).toBe('closed');
+  });
+
+  it('follows the spring daylight saving change', () => {
+    const hours = parseOpeningHours('Su 01:00-04:00');
+
+    // 01:30 CET; the clocks jump from 02:00 to 03:00, so 04:00 CEST is only 90 minutes later.
+    expect(checkOpeningHours(hours, new Date('2024-03-31T00:30:00Z'), 120)).toMatchObject({
+      status: 'closes_during_stay',
+      closesAt: '2024-03-31T02:00:00.000Z'
+    });
+  });
+
+  it('follows the autumn daylight saving change', () => {
+    const hours = parseOpeningHours('Su 01:00-04:00');
+
+    // 02:30 CEST; the clocks fall back from 03:00 to 02:00, so 04:00 CET is 150 minutes later.
+    expect(checkOpeningHours(hours, new Date('2024-10-27T00:30:00Z'), 240)).toMatchObject({
+      status: 'closes_during_stay',
+      closesAt: '2024-10-27T03:00:00.000Z'
+    });
+  });
+
+  it('looks up to a week ahead for the next opening', () => {
+    const weekly = parseOpeningHours('Mo 08:00-09:00');
+
+    expect(checkOpeningHours(weekly, new Date('2024-05-13T10:00:00+02:00'), 60)).toMatchObject({
+      status: 'closed',
+      opensAt: '2024-05-20T06:00:00.000Z'
+    });
+  });
+
+  it('reports unknown hours without filtering', () => {
+    expect(checkOpeningHours(null, new Date(), 60).status).toBe('unknown');
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import { emptyAmenities } from '../src/amenities.js';
+import { loadConfig } from '../src/config.js';
+import { Logger } from '../src/log.js';
+import { datexProvider } from '../src/providers/datex.js';
+import { getEnabledProviders, mergeFacilities } from '../src/providers/index.js';
+import { ltfProvider } from '../src/providers/ltf.js';
+import { stockholmParkeringProvider } from '../src/providers/stockholmParkering.js';
+import { FacilityMetadata, ProviderContext, ServiceConfig } from '../src/types.js';
+
+const silentLog: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  child: () => silentLog
+};
+
+function context(overrides: Partial<ServiceConfig>, responses: Record<string, unknown>): ProviderContext {
+  const respond = (url: string): unknown => {
+    const match = Object.keys(responses).find((key) => url.includes(key));
+    if (!match) {
+      throw new Error(`Unexpected URL ${url}`);
+    }
+    return responses[match];
+  };
+  return {
+    config: { ...loadConfig(), ...overrides },
+    log: silentLog,
+    fetchJson: <T>(url: string) => Promise.resolve(respond(url) as T),
+    fetchText: (url: string) => Promise.resolve(String(respond(url)))
+  };
+}
+
+function facility(partial: Partial<FacilityMetadata> & Pick<FacilityMetadata, 'id' | 'provider'>): FacilityMetadata {
+  return {
+    aliasIds: [],
+    name: 'Facility',
+    lat: 59.33,
+    lon: 18.06,
+    capacity: null,
+    tariffNote: null,
+    tariff: null,
+    zoneCode: null,
+    amenities: emptyAmenities(),
+    openingHours: null,
+    sourceUrl: 'https://example.com',
+    ...partial
+  };
+}
+
+const DATEX_TABLE = `<?xml version="1.0" encoding="UTF-8"?>
+<d2:d2LogicalModel xmlns:d2="http://datex2.eu/schema/2/2_0">
+  <d2:payloadPublication>
+    <d2:genericPublicationExtension>
+      <d2:parkingTablePublication>
+        <d2:parkingTable>
+          <d2:parkingRecord id="P-42" version="1">
+            <d2:parkingName><d2:values>
+              <d2:value lang="en">Central Garage</d2:value>
+              <d2:value lang="sv">Centralgaraget</d2:value>
+            </d2:values></d2:parkingName>
+            <d2:parkingNumberOfSpaces>320</d2:parkingNumberOfSpaces>
+            <d2:parkingLocation><d2:pointByCoordinates><d2:pointCoordinates>
+              <d2:latitude>59.3310</d2:latitude>
+              <d2:longitude>18.0590</d2:longitude>
+            </d2:pointCoordinates></d2:pointByCoordinates></d2:parkingLocation>
+          </d2:parkingRecord>
+        </d2:parkingTable>
+      </d2:parkingTablePublication>
+    </d2:genericPublicationExtension>
+  </d2:payloadPublication>
+</d2:d2LogicalModel>`;
+
+const DATEX_STATUS = `<?xml version="1.0" encoding="UTF-8"?>
+<d2LogicalModel>
+  <payloadPublication>
+    <parkingRecordStatus>
+      <parkingRecordReference id="P-42" version="1" />
+      <parkingStatusOriginTime>2024-05-15T10:00:00+02:00</parkingStatusOriginTime>
+      <parkingOccupancy><parkingNumberOfVacantSpaces>57</parkingNumberOfVacantSpaces></parkingOccupancy>
+    </parkingRecordStatus>
+  </payloadPublication>
+</d2LogicalModel>`;
+
+describe('stockholmParkeringProvider', () => {
+  it('maps the current feed including nested positions', async () => {
+    const ctx = context({}, {
+      '/facilities': [
+        { Id: 7, Name: 'Garage Nord', Position: { Lat: '59.34', Lon: '18.05' }, Capacity: 100 },
+        { id: 'broken', name: 'No position' }
+      ]
+    });
+
+    const facilities = await stockholmParkeringProvider.fetchFacilities(ctx);
+
+    expect(facilities).toHaveLength(1);
+    expect(facilities[0]).toMatchObject({ id: '7', provider: 'stockholmParkering', lat: 59.34, capacity: 100 });
+  });
+});
+
+describe('datexProvider', () => {
+  const ctx = context(
+    { datexTableUrl: 'https://datex.example/table', datexStatusUrl: 'https://datex.example/status' },
+    { '/table': DATEX_TABLE, '/status': DATEX_STATUS }
+  );
+
+  it('maps parking records from a table publication', async () => {
+    const [record] = await datexProvider.fetchFacilities(ctx);
+
+    expect(record).toMatchObject({
+      id: 'datex:P-42',
+      name: 'Centralgaraget',
+      lat: 59.331,
+      lon: 18.059,
+      capacity: 320
+    });
+  });
+
+  it('maps vacant spaces from a status publication', async () => {
+    expect(await datexProvider.fetchAvailability?.(ctx)).toEqual([
+      { id: 'datex:P-42', freeSpaces: 57, capacity: null, lastUpdated: '2024-05-15T10:00:00+02:00' }
+    ]);
+  });
+});
+
+describe('ltfProvider', () => {
+  it('turns regulation segments into street facilities at their midpoint', async () => {
+    const ctx = context({ ltfApiKey: 'key' }, {
+      '/ptillaten/all': {
+        type: 'FeatureCollection',
+        features: [
+          {
+            type: 'Feature',
+            geometry: { type: 'LineString', coordinates: [[18.05, 59.33], [18.07, 59.33]] },
+            properties: { FEATURE_OBJECT_ID: 1001, EXTENT_NO: 2, ADDRESS: 'Drottninggatan 50', PARKING_RATE: 'taxa 2' }
+          }
+        ]
+      }
+    });
+
+    const [segment] = await ltfProvider.fetchFacilities(ctx);
+
+    expect(segment).toMatchObject({ id: 'ltf:1001-2', name: 'Drottninggatan 50', capacity: null, tariff: null });
+    expect(segment.lon).toBeCloseTo(18.06, 5);
+  });
+
+  it('requires an API key', async () => {
+    await expect(ltfProvider.fetchFacilities(context({ ltfApiKey: null }, {}))).rejects.toThrow('LTF_API_KEY');
+  });
+});
+
+describe('getEnabledProviders', () => {
+  it('rejects unknown provider ids', () => {
+    expect(() => getEnabledProviders({ ...loadConfig(), providers: ['nope'] })).toThrow("Unknown provider 'nope'");
+  });
+});
+
+describe('mergeFacilities', () => {
+  it('merges nearby facilities across providers and fills missing fields', () => {
+    const merged = mergeFacilities(
+      [
+        [facility({ id: '1', provider: 'stockholmParkering', capacity: null })],
+        [
+          facility({ id: 'datex:P-42', provider: 'datex', lat: 59.3301, capacity: 320 }),
+          facility({ id: 'datex:P-43', provider: 'datex', lat: 59.34 })
+        ]
+      ],
+      30
+    );
+
+    expect(merged.map((item) => item.id)).toEqual(['1', 'datex:P-43']);
+    expect(merged[0]).toMatchObject({ capacity: 320, aliasIds: ['datex:P-42'] });
+  });
+
+  it('keeps nearby facilities from the same provider apart', () => {
+    const merged = mergeFacilities(
+      [[facility({ id: 'ltf:1', provider: 'ltf' }), facility({ id: 'ltf:2', provider: 'ltf', lat: 59.3301 })]],
+      30
+    );
+
+    expect(merged).toHaveLength(2);
+  });
+});
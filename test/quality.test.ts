@@ -0,0 +1,139 @@
+import http from 'node:http';
+import net from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { loadConfig } from '../src/config.js';
+import { getAvailability, getFacilities } from '../src/data.js';
+import { Logger } from '../src/log.js';
+import { metrics } from '../src/metrics.js';
+import { facilityQualityFlags, getDataQualityReport } from '../src/quality.js';
+import { ServiceConfig } from '../src/types.js';
+
+const silentLog: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  child: () => silentLog
+};
+
+const MINUTE = 60 * 1000;
+const ago = (ms: number) => new Date(Date.now() - ms).toISOString();
+
+/** A Stockholm Parkering feed with one clean facility and one example of each problem. */
+const FACILITIES_FIXTURE = [
+  { id: 'SP-1', name: 'P-hus Centrum', lat: 59.3326, lon: 18.0649, capacity: 200 },
+  { id: 'SP-2', name: 'P-hus Null Island', lat: 0, lon: 0, capacity: 50 },
+  { id: 'SP-3', name: 'P-hus Swapped', lat: 18.0649, lon: 59.3326 },
+  { id: 'SP-4', name: 'P-hus Söder', lat: 59.315, lon: 18.072, capacity: -5 },
+  { name: 'No id', lat: 59.33, lon: 18.06 },
+  'not a record'
+];
+
+function availabilityFixture(): unknown[] {
+  return [
+    { id: 'SP-1', freeSpaces: 250, capacity: 200, lastUpdated: ago(MINUTE) },
+    { id: 'SP-4', freeSpaces: -3, lastUpdated: ago(MINUTE) },
+    { id: 'SP-5', freeSpaces: 10, lastUpdated: ago(8 * 24 * 60 * MINUTE) },
+    { id: 'SP-6', freeSpaces: 5, lastUpdated: 'yesterday' },
+    { id: 'SP-7', freeSpaces: 5, lastUpdated: new Date(Date.now() + 60 * MINUTE).toISOString() },
+    { id: 'SP-8', freeSpaces: 12.5 },
+    { freeSpaces: 3 }
+  ];
+}
+
+describe('feed data-quality checks', () => {
+  let server: http.Server;
+  let config: ServiceConfig;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const body = req.url === '/facilities' ? FACILITIES_FIXTURE : availabilityFixture();
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    config = loadConfig({
+      SP_BASE_URL: `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`,
+      UPSTREAM_MAX_ATTEMPTS: '1'
+    });
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it('drops misplaced and unreadable facilities and clears invalid capacities', async () => {
+    const facilities = await getFacilities(config, silentLog);
+
+    expect(facilities.map((facility) => [facility.id, facility.capacity])).toEqual([
+      ['SP-1', 200],
+      ['SP-4', null]
+    ]);
+    expect(getDataQualityReport().feeds.find((feed) => feed.feed === 'facilities')).toMatchObject({
+      provider: 'stockholmParkering',
+      received: 6,
+      accepted: 2,
+      rejected: { malformed: 2, outside_service_area: 2 },
+      suspicious: { invalid_capacity: 1 },
+      samples: [
+        { id: 'SP-2', reason: 'outside_service_area' },
+        { id: 'SP-3', reason: 'outside_service_area' },
+        { id: 'SP-4', reason: 'invalid_capacity' }
+      ]
+    });
+  });
+
+  it('drops invalid counts and flags suspicious availability', async () => {
+    const availability = await getAvailability(config, silentLog);
+
+    expect([...availability.data.keys()]).toEqual(['SP-1', 'SP-5', 'SP-6', 'SP-7']);
+    expect(availability.data.get('SP-6')?.lastUpdated).toBeNull();
+    expect(getDataQualityReport()).toMatchObject({ status: 'warnings' });
+    expect(getDataQualityReport().feeds.find((feed) => feed.feed === 'availability')).toMatchObject({
+      received: 7,
+      accepted: 4,
+      rejected: { malformed: 1, invalid_count: 2 },
+      suspicious: {
+        exceeds_capacity: 1,
+        availability_outdated: 1,
+        invalid_timestamp: 1,
+        timestamp_in_future: 1
+      }
+    });
+    expect(
+      metrics.dataQualityRecords.get({
+        feed: 'availability',
+        provider: 'stockholmParkering',
+        result: 'rejected',
+        reason: 'invalid_count'
+      })
+    ).toBe(2);
+  });
+});
+
+describe('facilityQualityFlags', () => {
+  const now = new Date('2026-03-02T12:00:00Z');
+  const maxAgeMs = 30 * MINUTE;
+
+  const availability = (freeSpaces: number, lastUpdated: string | null) => ({
+    id: 'a',
+    freeSpaces,
+    capacity: null,
+    lastUpdated
+  });
+
+  it('flags outdated, future and over-capacity availability', () => {
+    expect(facilityQualityFlags(availability(120, '2026-03-02T11:00:00Z'), 100, maxAgeMs, now)).toEqual([
+      'availability_outdated',
+      'exceeds_capacity'
+    ]);
+    expect(facilityQualityFlags(availability(5, '2026-03-02T13:00:00Z'), 100, maxAgeMs, now)).toEqual([
+      'timestamp_in_future'
+    ]);
+  });
+
+  it('reports nothing for fresh counts or unknown availability', () => {
+    expect(facilityQualityFlags(availability(5, '2026-03-02T11:55:00Z'), 100, maxAgeMs, now)).toEqual([]);
+    expect(facilityQualityFlags(availability(5, null), null, maxAgeMs, now)).toEqual([]);
+    expect(facilityQualityFlags(undefined, 100, maxAgeMs, now)).toEqual([]);
+  });
+});
@@ -1,9 +1,11 @@
 import { describe, expect, it } from 'vitest';
-import { sortRecommendations } from '../src/tool.js';
+import { emptyAmenities } from '../src/amenities.js';
+import { RANKING_PROFILES, resolveRankingWeights, sortRecommendations } from '../src/rank.js';
 import { FacilityRecommendation } from '../src/types.js';
 
 function recommendation(partial: Partial<FacilityRecommendation> & Pick<FacilityRecommendation, 'id'>): FacilityRecommendation {
   return {
+    provider: 'stockholmParkering',
     name: 'Facility',
     lat: 0,
     lon: 0,
@@ -13,8 +15,16 @@ function recommendation(partial: Partial<FacilityRecommendation> & Pick<Facility
     zoneCode: null,
     distanceMeters: 0,
     walkMinutes: 0,
+    walkMethod: 'straight_line',
     lastUpdated: null,
     stale: false,
+    dataQuality: [],
+    estimatedCostSek: null,
+    costBreakdown: null,
+    predictedFreeSpaces: null,
+    forecastConfidence: null,
+    amenities: emptyAmenities(),
+    openStatus: { status: 'unknown', reason: null, closesAt: null, opensAt: null },
     sourceUrl: 'https://example.com',
     ...partial
   };
@@ -40,4 +50,77 @@ describe('sortRecommendations', () => {
 
     expect(items.map((item) => item.id)).toEqual(['b', 'a', 'c']);
   });
+
+  it('prefers an available lot slightly further away over a full one', () => {
+    const items = sortRecommendations([
+      recommendation({ id: 'full', distanceMeters: 50, walkMinutes: 1, freeSpaces: 0, capacity: 300 }),
+      recommendation({ id: 'open', distanceMeters: 60, walkMinutes: 1, freeSpaces: 200, capacity: 300 })
+    ]);
+
+    expect(items.map((item) => item.id)).toEqual(['open', 'full']);
+  });
+
+  it('ranks purely by proximity with the closest profile', () => {
+    const items = sortRecommendations(
+      [
+        recommendation({ id: 'full', distanceMeters: 50, walkMinutes: 1, freeSpaces: 0, capacity: 300 }),
+        recommendation({ id: 'open', distanceMeters: 60, walkMinutes: 1, freeSpaces: 200, capacity: 300 })
+      ],
+      { profile: 'closest', weights: RANKING_PROFILES.closest }
+    );
+
+    expect(items.map((item) => item.id)).toEqual(['full', 'open']);
+  });
+
+  it('prefers the cheaper lot with the cheapest profile and reports factor scores', () => {
+    const items = sortRecommendations(
+      [
+        recommendation({ id: 'pricey', distanceMeters: 100, estimatedCostSek: 90 }),
+        recommendation({ id: 'cheap', distanceMeters: 300, estimatedCostSek: 30 })
+      ],
+      { profile: 'cheapest', weights: RANKING_PROFILES.cheapest }
+    );
+
+    expect(items.map((item) => item.id)).toEqual(['cheap', 'pricey']);
+    expect(items[0].ranking?.factors.cost).toBe(1);
+    expect(items[1].ranking?.factors.cost).toBeCloseTo(0.333, 3);
+  });
+
+  it('leaves cost out of the score when no candidate has an estimate', () => {
+    const [item] = sortRecommendations([recommendation({ id: 'a' })]);
+
+    expect(item.ranking?.factors.cost).toBeNull();
+    expect(item.ranking?.profile).toBe('balanced');
+  });
+
+  it('penalizes outdated and stale availability', () => {
+    const now = new Date('2024-05-15T12:00:00Z');
+    const items = sortRecommendations(
+      [
+        recommendation({ id: 'old', lastUpdated: '2024-05-15T10:00:00Z' }),
+        recommendation({ id: 'stale', lastUpdated: '2024-05-15T11:58:00Z', stale: true }),
+        recommendation({ id: 'fresh', lastUpdated: '2024-05-15T11:58:00Z' })
+      ],
+      { profile: 'custom', weights: { distance: 0, walkTime: 0, availability: 0, freshness: 1, cost: 0 }, now }
+    );
+
+    expect(items.map((item) => [item.id, item.ranking?.factors.freshness])).toEqual([
+      ['fresh', 1],
+      ['stale', 0.5],
+      ['old', 0]
+    ]);
+  });
+});
+
+describe('resolveRankingWeights', () => {
+  it('uses explicit weights instead of the profile', () => {
+    expect(resolveRankingWeights('closest', { cost: 2 })).toEqual({
+      profile: 'custom',
+      weights: { distance: 0, walkTime: 0, availability: 0, freshness: 0, cost: 2 }
+    });
+  });
+
+  it('rejects weights that are all zero', () => {
+    expect(resolveRankingWeights(undefined, { distance: 0 })).toBeNull();
+  });
 });
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { RateLimiter } from '../src/rateLimit.js';
+
+describe('RateLimiter', () => {
+  it('allows a burst and then rejects with the time until the next token', () => {
+    const limiter = new RateLimiter(3);
+    const decisions = [0, 1, 2, 3].map(() => limiter.take('opal', 60, 0));
+
+    expect(decisions.map((decision) => decision.allowed)).toEqual([true, true, true, false]);
+    expect(decisions[2].remaining).toBe(0);
+    expect(decisions[3].retryAfterMs).toBe(1000);
+  });
+
+  it('refills at the sustained rate up to the burst size', () => {
+    const limiter = new RateLimiter(2);
+    limiter.take('opal', 60, 0);
+    limiter.take('opal', 60, 0);
+
+    expect(limiter.take('opal', 60, 500).allowed).toBe(false);
+    expect(limiter.take('opal', 60, 1000).allowed).toBe(true);
+    expect(limiter.take('opal', 60, 60_000)).toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  it('charges requests that cost several tokens all or nothing', () => {
+    const limiter = new RateLimiter(3);
+
+    expect(limiter.take('opal', 60, 0, 2)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(limiter.take('opal', 60, 0, 2)).toMatchObject({ allowed: false, retryAfterMs: 1000 });
+    expect(limiter.take('opal', 60, 0).allowed).toBe(true);
+  });
+
+  it('keeps separate buckets per client', () => {
+    const limiter = new RateLimiter(1);
+
+    expect(limiter.take('opal', 60, 0).allowed).toBe(true);
+    expect(limiter.take('opal', 60, 0).allowed).toBe(false);
+    expect(limiter.take('dashboard', 60, 0).allowed).toBe(true);
+  });
+});
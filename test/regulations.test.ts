@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateStreetParking, parseRegulationFeatures } from '../src/regulations.js';
+import { StreetRegulation } from '../src/types.js';
+
+const SOURCE = 'https://openparking.stockholm.se/LTF-Tolken/v1';
+
+function line(properties: Record<string, unknown>, coordinates: number[][]): unknown {
+  return { type: 'Feature', geometry: { type: 'LineString', coordinates }, properties };
+}
+
+const DROTTNINGGATAN = [[18.05, 59.33], [18.06, 59.33]];
+
+const regulations: StreetRegulation[] = [
+  ...parseRegulationFeatures(
+    {
+      type: 'FeatureCollection',
+      features: [
+        line(
+          {
+            FEATURE_OBJECT_ID: 1001,
+            EXTENT_NO: 1,
+            STREET_NAME: 'Drottninggatan',
+            ADDRESS: 'Drottninggatan 50',
+            START_WEEKDAY: 'måndag',
+            END_WEEKDAY: 'fredag',
+            START_TIME: 800,
+            END_TIME: 1800,
+            MAX_HOURS: 2,
+            PARKING_RATE: 'taxa 2'
+          },
+          DROTTNINGGATAN
+        ),
+        line({ FEATURE_OBJECT_ID: 'no-geometry' }, [])
+      ]
+    },
+    'ptillaten',
+    SOURCE
+  ),
+  ...parseRegulationFeatures(
+    {
+      type: 'FeatureCollection',
+      features: [
+        line(
+          {
+            FEATURE_OBJECT_ID: 2001,
+            STREET_NAME: 'Drottninggatan',
+            START_WEEKDAY: 'tisdag',
+            START_TIME: 0,
+            END_TIME: 600,
+            START_MONTH: 4,
+            END_MONTH: 11
+          },
+          DROTTNINGGATAN
+        )
+      ]
+    },
+    'servicedagar',
+    SOURCE
+  ),
+  ...parseRegulationFeatures(
+    {
+      type: 'FeatureCollection',
+      features: [
+        line(
+          { FEATURE_OBJECT_ID: 3001, STREET_NAME: 'Kungsgatan', CITATION: 'Stoppförbud' },
+          [[18.055, 59.3305], [18.055, 59.331]]
+        )
+      ]
+    },
+    'fstop',
+    SOURCE
+  )
+];
+
+function lookup(arrival: string, durationMinutes: number) {
+  return evaluateStreetParking(regulations, {
+    lat: 59.3301,
+    lon: 18.055,
+    arrival: new Date(arrival),
+    durationMinutes,
+    radiusMeters: 100,
+    maxResults: 10
+  });
+}
+
+describe('parseRegulationFeatures', () => {
+  it('maps LTF properties into weekly rules', () => {
+    expect(regulations.map((regulation) => regulation.id)).toEqual([
+      'ptillaten:1001-1',
+      'servicedagar:2001',
+      'fstop:3001'
+    ]);
+    expect(regulations[0]).toMatchObject({
+      kind: 'allowed',
+      days: [1, 2, 3, 4, 5],
+      startMinute: 480,
+      endMinute: 1080,
+      maxMinutes: 120,
+      zone: 'taxa 2'
+    });
+    expect(regulations[1]).toMatchObject({ kind: 'cleaning', days: [2], months: [4, 5, 6, 7, 8, 9, 10, 11] });
+  });
+
+  it('rejects data that is not a FeatureCollection', () => {
+    expect(() => parseRegulationFeatures([], 'ptillaten', SOURCE)).toThrow('FeatureCollection');
+  });
+});
+
+describe('evaluateStreetParking', () => {
+  it('cuts a weekday stay short at the time limit', () => {
+    const [segment] = lookup('2024-05-15T10:00:00+02:00', 180);
+
+    expect(segment).toMatchObject({
+      id: 'ptillaten:1001-1',
+      status: 'time_limited',
+      allowedUntil: '2024-05-15T10:00:00.000Z',
+      maxParkingMinutes: 120
+    });
+  });
+
+  it('forbids an overnight stay that runs into street cleaning', () => {
+    const [segment] = lookup('2024-05-13T23:00:00+02:00', 8 * 60);
+
+    expect(segment.status).toBe('forbidden');
+    expect(segment.cleaningWindows[0]).toEqual({
+      start: '2024-05-13T22:00:00.000Z',
+      end: '2024-05-14T04:00:00.000Z',
+      reason: 'Street cleaning'
+    });
+  });
+
+  it('ignores cleaning outside its season and time limits on weekends', () => {
+    const [segment] = lookup('2024-12-07T12:00:00+01:00', 6 * 60);
+
+    expect(segment).toMatchObject({ status: 'allowed', allowedUntil: null, cleaningWindows: [] });
+  });
+
+  it('reports stopping bans as forbidden around the clock', () => {
+    const segment = lookup('2024-12-07T12:00:00+01:00', 30).find((item) => item.id === 'fstop:3001');
+
+    expect(segment).toMatchObject({ status: 'forbidden', reasons: [expect.stringContaining('Stoppförbud')] });
+  });
+});
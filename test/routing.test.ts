@@ -0,0 +1,139 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { loadConfig } from '../src/config.js';
+import { Logger } from '../src/log.js';
+import { WalkingGraph } from '../src/routing/graph.js';
+import { estimateWalkingDistances } from '../src/routing/index.js';
+import { isWalkable, parseOsmXml, parseOverpassJson } from '../src/routing/osm.js';
+
+const silentLog: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  child: () => silentLog
+};
+
+/**
+ * Two quays 111 m apart across water, joined only by a bridge about 570 m to the east. A motorway
+ * offers a direct crossing that pedestrians may not use.
+ */
+const CANAL_OSM = `<?xml version="1.0" encoding="UTF-8"?>
+<osm version="0.6">
+  <node id="1" lat="59.3200" lon="18.0700"/>
+  <node id="2" lat="59.3200" lon="18.0800"/>
+  <node id="3" lat="59.3210" lon="18.0800"/>
+  <node id="4" lat="59.3210" lon="18.0700"/>
+  <node id="5" lat="59.3200" lon="18.0701"/>
+  <node id="6" lat="59.3210" lon="18.0701"/>
+  <way id="10">
+    <nd ref="1"/><nd ref="2"/>
+    <tag k="highway" v="footway"/>
+  </way>
+  <way id="11">
+    <nd ref="2"/><nd ref="3"/>
+    <tag k="highway" v="footway"/><tag k="bridge" v="yes"/>
+  </way>
+  <way id="12">
+    <nd ref="3"/><nd ref="4"/>
+    <tag k="highway" v="residential"/>
+  </way>
+  <way id="13">
+    <nd ref="5"/><nd ref="6"/>
+    <tag k="highway" v="motorway"/>
+  </way>
+  <way id="14">
+    <nd ref="4"/><nd ref="99"/>
+    <tag k="highway" v="footway"/>
+  </way>
+</osm>`;
+
+describe('OSM extract parsing', () => {
+  it('keeps only ways pedestrians may use', () => {
+    expect(isWalkable({ highway: 'footway' })).toBe(true);
+    expect(isWalkable({ highway: 'motorway' })).toBe(false);
+    expect(isWalkable({ highway: 'trunk', foot: 'yes' })).toBe(true);
+    expect(isWalkable({ highway: 'residential', access: 'private' })).toBe(false);
+    expect(isWalkable({ highway: 'cycleway', foot: 'no' })).toBe(false);
+    expect(isWalkable({ building: 'yes' })).toBe(false);
+  });
+
+  it('reads OSM XML, dropping unwalkable ways and references to missing nodes', () => {
+    const network = parseOsmXml(CANAL_OSM);
+
+    expect(network.ways).toEqual([
+      ['1', '2'],
+      ['2', '3'],
+      ['3', '4']
+    ]);
+    expect([...network.nodes.keys()].sort()).toEqual(['1', '2', '3', '4']);
+  });
+
+  it('reads Overpass JSON', () => {
+    const network = parseOverpassJson(
+      JSON.stringify({
+        elements: [
+          { type: 'node', id: 1, lat: 59.32, lon: 18.07 },
+          { type: 'node', id: 2, lat: 59.321, lon: 18.07 },
+          { type: 'way', id: 3, nodes: [1, 2], tags: { highway: 'pedestrian' } }
+        ]
+      })
+    );
+
+    expect(network.ways).toEqual([['1', '2']]);
+    expect(network.nodes.get('2')).toEqual({ lat: 59.321, lon: 18.07 });
+  });
+});
+
+describe('WalkingGraph', () => {
+  const graph = new WalkingGraph(parseOsmXml(CANAL_OSM));
+
+  it('snaps points to the nearest node within the limit', () => {
+    expect(graph.nearestNode({ lat: 59.32001, lon: 18.07 }, 50)).toMatchObject({ node: 0 });
+    expect(graph.nearestNode({ lat: 59.33, lon: 18.07 }, 50)).toBeNull();
+  });
+
+  it('finds shortest distances over the network up to a limit', () => {
+    const distances = graph.distancesFrom(0, 5000);
+
+    expect(distances.get(0)).toBe(0);
+    expect(distances.get(3)).toBeGreaterThan(1200);
+    expect(distances.get(3)).toBeLessThan(1300);
+    expect(graph.distancesFrom(0, 600).has(3)).toBe(false);
+  });
+});
+
+describe('estimateWalkingDistances', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'walking-'));
+    await fs.writeFile(path.join(dir, 'canal.osm'), CANAL_OSM);
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('uses straight-line distance without a graph', async () => {
+    const [walk] = await estimateWalkingDistances(loadConfig({}), silentLog, { lat: 59.321, lon: 18.07 }, [
+      { lat: 59.32, lon: 18.07 }
+    ]);
+
+    expect(walk).toEqual({ distanceMeters: 111, method: 'straight_line' });
+  });
+
+  it('routes around water over the bridge and falls back for points off the network', async () => {
+    const config = { ...loadConfig({}), walkingGraphFile: path.join(dir, 'canal.osm'), walkingSnapMeters: 50 };
+    const [acrossWater, offNetwork] = await estimateWalkingDistances(config, silentLog, { lat: 59.321, lon: 18.07 }, [
+      { lat: 59.32, lon: 18.07 },
+      { lat: 59.33, lon: 18.07 }
+    ]);
+
+    expect(acrossWater.method).toBe('network');
+    expect(acrossWater.distanceMeters).toBeGreaterThan(1200);
+    expect(offNetwork).toEqual({ distanceMeters: 1001, method: 'straight_line' });
+  });
+});
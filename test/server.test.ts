@@ -0,0 +1,76 @@
+import http from 'node:http';
+import { AddressInfo, createServer } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { MockUpstream } from '../src/mock/upstream.js';
+
+vi.mock('@optimizely-opal/opal-tool-ocp-sdk', () => ({ OpalTool: undefined }));
+
+/** Finds a port nothing listens on; the server only takes its port from the configuration. */
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+function toolCall(id: number): object {
+  return {
+    jsonrpc: '2.0',
+    id,
+    method: 'tools/call',
+    params: { name: 'getFacility', arguments: { id: 'SP-1001' } }
+  };
+}
+
+describe('HTTP server', () => {
+  const mock = new MockUpstream();
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const port = await freePort();
+    Object.assign(process.env, {
+      PORT: String(port),
+      SP_BASE_URL: await mock.listen(),
+      RATE_LIMIT_PER_MINUTE: '1',
+      RATE_LIMIT_BURST: '3'
+    });
+    server = (await import('../src/index.js')).default;
+    if (!server.listening) {
+      await new Promise((resolve) => server.once('listening', resolve));
+    }
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    for (const name of ['PORT', 'SP_BASE_URL', 'RATE_LIMIT_PER_MINUTE', 'RATE_LIMIT_BURST']) {
+      delete process.env[name];
+    }
+    await new Promise((resolve) => server.close(resolve));
+    await mock.close();
+  });
+
+  it('charges every tool call of an MCP batch against the rate limit', async () => {
+    const post = (payload: unknown): Promise<Response> =>
+      fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      });
+
+    const tooLarge = await post([1, 2, 3, 4].map(toolCall));
+    expect(tooLarge.status).toBe(429);
+    expect(tooLarge.headers.get('retry-after')).not.toBeNull();
+
+    const fits = await post([1, 2].map(toolCall));
+    expect(fits.status).toBe(200);
+    expect(await fits.json()).toHaveLength(2);
+
+    // Admitting the rejected batch and the two calls used up the burst.
+    expect((await post(toolCall(3))).status).toBe(429);
+  });
+});
@@ -0,0 +1,192 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { loadConfig } from '../src/config.js';
+import { createProviderContext } from '../src/data.js';
+import { Logger } from '../src/log.js';
+import { metrics } from '../src/metrics.js';
+import { easyparkAdapter, fillLinkTemplate } from '../src/sessions/deepLink.js';
+import {
+  confirmSession,
+  extendSession,
+  getEnabledSessionAdapters,
+  startSession,
+  stopSession
+} from '../src/sessions/index.js';
+import { mockSessionAdapter } from '../src/sessions/mock.js';
+import { SessionStore } from '../src/sessions/store.js';
+import { ParkingSession } from '../src/types.js';
+
+const silentLog: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  child: () => silentLog
+};
+
+const config = loadConfig({
+  SESSION_ADAPTERS: 'mock,easypark',
+  EASYPARK_LINK_TEMPLATE: 'https://e.example/park?zone={zoneCode}&minutes={minutes}&plate={licensePlate}'
+});
+
+describe('session adapters', () => {
+  it('resolves the configured adapters and rejects unknown ids', () => {
+    expect(getEnabledSessionAdapters(config).map((adapter) => adapter.id)).toEqual(['mock', 'easypark']);
+    expect(getEnabledSessionAdapters({ ...config, easyparkLinkTemplate: null }).map((adapter) => adapter.id)).toEqual([
+      'mock'
+    ]);
+    expect(() => getEnabledSessionAdapters({ ...config, sessionAdapters: ['parkomat'] })).toThrow(
+      /Unknown session adapter 'parkomat'/
+    );
+  });
+
+  it('fills deep-link templates with encoded values', () => {
+    const link = fillLinkTemplate('app://park?zone={zoneCode}&m={minutes}&x={unknown}', {
+      zoneCode: 'Taxa 3',
+      minutes: 90
+    });
+
+    expect(link).toBe('app://park?zone=Taxa%203&m=90&x={unknown}');
+  });
+
+  it('leaves out link parameters without a value', () => {
+    const template = 'app://park?zone={zoneCode}&minutes={minutes}&plate={licensePlate}';
+
+    expect(fillLinkTemplate(template, { zoneCode: '2', minutes: null, licensePlate: null })).toBe('app://park?zone=2');
+  });
+
+  it('hands deep-link changes to the user for confirmation', async () => {
+    const template = 'https://e.example/p/{zoneCode}/{minutes}';
+    const context = createProviderContext({ ...config, easyparkLinkTemplate: template }, silentLog);
+    const result = await easyparkAdapter.start(
+      { zoneCode: '2', licensePlate: null, endsAt: new Date(Date.now() + 60 * 60_000) },
+      context
+    );
+
+    expect(result).toEqual({ externalId: null, deepLink: 'https://e.example/p/2/60', requiresConfirmation: true });
+  });
+});
+
+describe('parking session flow with a deep-link adapter', () => {
+  it('keeps every change pending until the user confirms it', async () => {
+    const started = await startSession(config, silentLog, {
+      adapter: easyparkAdapter,
+      facilityId: null,
+      zoneCode: '2',
+      licensePlate: null,
+      durationMinutes: 60
+    });
+
+    expect(started).toMatchObject({ status: 'pending', requiresConfirmation: true, pendingChange: { action: 'start' } });
+    expect(started.deepLink).toBe('https://e.example/park?zone=2&minutes=60');
+    await expect(stopSession(config, silentLog, started.id)).rejects.toThrow('Session is not active');
+
+    const active = await confirmSession(config, silentLog, started.id);
+    expect(active).toMatchObject({ status: 'active', deepLink: null, requiresConfirmation: false, pendingChange: null });
+    expect(Date.parse(active.endsAt) - Date.parse(active.startedAt)).toBe(60 * 60_000);
+
+    const extending = await extendSession(config, silentLog, started.id, 30);
+    expect(extending.endsAt).toBe(active.endsAt);
+    expect(extending.pendingChange).toMatchObject({ action: 'extend' });
+    const extended = await confirmSession(config, silentLog, started.id);
+    expect(Date.parse(extended.endsAt) - Date.parse(active.endsAt)).toBe(30 * 60_000);
+
+    const stopping = await stopSession(config, silentLog, started.id);
+    expect(stopping).toMatchObject({ status: 'active', stoppedAt: null, pendingChange: { action: 'stop' } });
+    expect(stopping.deepLink).toBe('https://e.example/park?zone=2');
+    const stopped = await confirmSession(config, silentLog, started.id);
+    expect(stopped.status).toBe('stopped');
+    expect(stopped.stoppedAt).not.toBeNull();
+
+    await expect(confirmSession(config, silentLog, started.id)).rejects.toThrow('Session has no pending change');
+  });
+});
+
+describe('parking session flow with the mock adapter', () => {
+  it('starts, extends and stops a session', async () => {
+    const started = await startSession(config, silentLog, {
+      adapter: mockSessionAdapter,
+      facilityId: 'p-1',
+      zoneCode: '2',
+      licensePlate: 'ABC123',
+      durationMinutes: 60
+    });
+
+    expect(started).toMatchObject({
+      adapter: 'mock',
+      facilityId: 'p-1',
+      zoneCode: '2',
+      status: 'active',
+      stoppedAt: null,
+      deepLink: null,
+      requiresConfirmation: false,
+      pendingChange: null
+    });
+    expect(started.externalId).toMatch(/^mock-\d+$/);
+    expect(Date.parse(started.endsAt) - Date.parse(started.startedAt)).toBe(60 * 60_000);
+
+    const extended = await extendSession(config, silentLog, started.id, 30);
+    expect(Date.parse(extended.endsAt) - Date.parse(started.endsAt)).toBe(30 * 60_000);
+
+    const stopped = await stopSession(config, silentLog, started.id);
+    expect(stopped).toMatchObject({ id: started.id, status: 'stopped', externalId: started.externalId });
+    expect(stopped.stoppedAt).not.toBeNull();
+
+    await expect(stopSession(config, silentLog, started.id)).rejects.toThrow('Session is not active');
+    await expect(extendSession(config, silentLog, 'missing', 10)).rejects.toThrow('Session not found');
+    expect(metrics.parkingSessionChanges.get({ adapter: 'mock', action: 'extend', result: 'ok' })).toBeGreaterThan(0);
+  });
+
+  it('stores nothing when the provider rejects a start', async () => {
+    await expect(
+      startSession(config, silentLog, {
+        adapter: mockSessionAdapter,
+        facilityId: null,
+        zoneCode: 'FAIL',
+        licensePlate: null,
+        durationMinutes: 15
+      })
+    ).rejects.toThrow('Mock provider rejected the session');
+    expect(metrics.parkingSessionChanges.get({ adapter: 'mock', action: 'start', result: 'error' })).toBe(1);
+  });
+});
+
+describe('SessionStore', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sessions-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const session: ParkingSession = {
+    id: 's-1',
+    adapter: 'mock',
+    facilityId: null,
+    zoneCode: '3',
+    licensePlate: null,
+    status: 'active',
+    startedAt: '2026-03-02T08:00:00.000Z',
+    endsAt: '2026-03-02T09:00:00.000Z',
+    stoppedAt: null,
+    externalId: 'mock-1',
+    deepLink: null,
+    requiresConfirmation: false,
+    pendingChange: null
+  };
+
+  it('keeps sessions across restarts and reports them expired after their end', async () => {
+    const file = path.join(dir, 'nested', 'sessions.json');
+    await new SessionStore(file, silentLog).save(session);
+
+    const reloaded = new SessionStore(file, silentLog);
+    expect(await reloaded.get('s-1', new Date('2026-03-02T08:30:00Z'))).toEqual(session);
+    expect(await reloaded.get('s-1', new Date('2026-03-02T09:00:00Z'))).toMatchObject({ status: 'expired' });
+    expect(await reloaded.get('s-2')).toBeUndefined();
+  });
+});
@@ -0,0 +1,106 @@
+import { performance } from 'node:perf_hooks';
+import { describe, expect, it } from 'vitest';
+import { haversineDistanceMeters } from '../src/geo.js';
+import { boxAroundPath, SpatialIndex } from '../src/spatial.js';
+import { LatLon } from '../src/types.js';
+
+interface Point extends LatLon {
+  id: number;
+}
+
+/** Deterministic points spread over greater Stockholm (about 40 × 30 km). */
+function syntheticPoints(count: number): Point[] {
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1_103_515_245 + 12_345) % 2_147_483_648;
+    return seed / 2_147_483_648;
+  };
+  return Array.from({ length: count }, (_, id) => ({ id, lat: 59.2 + random() * 0.27, lon: 17.8 + random() * 0.7 }));
+}
+
+function linearWithinRadius(points: Point[], center: LatLon, radiusMeters: number): number[] {
+  return points
+    .filter((point) => haversineDistanceMeters(center.lat, center.lon, point.lat, point.lon) <= radiusMeters)
+    .map((point) => point.id)
+    .sort((a, b) => a - b);
+}
+
+function linearNearest(points: Point[], center: LatLon, k: number): number[] {
+  return points
+    .map((point) => ({ id: point.id, distance: haversineDistanceMeters(center.lat, center.lon, point.lat, point.lon) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, k)
+    .map((entry) => entry.distance);
+}
+
+describe('SpatialIndex', () => {
+  const points = syntheticPoints(2_000);
+  const index = new SpatialIndex(points);
+  const center = { lat: 59.3293, lon: 18.0686 };
+
+  it('returns the same points as a scan for radius queries, nearest first', () => {
+    for (const radius of [0, 150, 1_000, 5_000]) {
+      const matches = index.withinRadius(center, radius);
+
+      const ids = matches.map(({ item }) => item.id).sort((a, b) => a - b);
+      const distances = matches.map(({ distanceMeters }) => distanceMeters);
+
+      expect(ids).toEqual(linearWithinRadius(points, center, radius));
+      expect(distances).toEqual([...distances].sort((a, b) => a - b));
+    }
+  });
+
+  it('returns the k nearest points, honouring a distance limit', () => {
+    for (const query of [center, { lat: 59.2, lon: 17.8 }, { lat: 60.5, lon: 15 }]) {
+      expect(index.nearest(query, 7).map(({ distanceMeters }) => distanceMeters)).toEqual(
+        linearNearest(points, query, 7)
+      );
+    }
+    expect(index.nearest(center, 5, 1)).toEqual([]);
+    expect(index.nearest(center, 0)).toEqual([]);
+    expect(new SpatialIndex<Point>([]).nearest(center, 3)).toEqual([]);
+  });
+
+  it('finds points in a box around a path', () => {
+    const box = boxAroundPath(
+      [
+        { lat: 59.3, lon: 18.0 },
+        { lat: 59.35, lon: 18.1 }
+      ],
+      500
+    );
+    const inside = index.withinBox(box).map((point) => point.id);
+    const expected = points
+      .filter(({ lat, lon }) => lat >= box.south && lat <= box.north && lon >= box.west && lon <= box.east)
+      .map((point) => point.id);
+
+    expect(inside.sort((a, b) => a - b)).toEqual(expected);
+    expect(box.south).toBeLessThan(59.3);
+    expect(box.east).toBeGreaterThan(18.1);
+  });
+});
+
+describe('SpatialIndex benchmark', () => {
+  it('answers radius queries over 50k points much faster than a linear scan', () => {
+    const points = syntheticPoints(50_000);
+    const queries = syntheticPoints(60).map(({ lat, lon }) => ({ lat, lon }));
+    const index = new SpatialIndex(points);
+
+    let startedAt = performance.now();
+    const scanned = queries.map((query) => linearWithinRadius(points, query, 1_000));
+    const linearMs = performance.now() - startedAt;
+
+    startedAt = performance.now();
+    const indexed = queries.map((query) =>
+      index
+        .withinRadius(query, 1_000)
+        .map(({ item }) => item.id)
+        .sort((a, b) => a - b)
+    );
+    const indexedMs = performance.now() - startedAt;
+
+    expect(indexed).toEqual(scanned);
+    // Each query reads at most 9 of about 950 cells; a conservative margin keeps this stable on slow CI.
+    expect(indexedMs * 5).toBeLessThan(linearMs);
+  });
+});
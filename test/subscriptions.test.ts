@@ -0,0 +1,305 @@
+import http from 'node:http';
+import net from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { loadConfig } from '../src/config.js';
+import { Logger } from '../src/log.js';
+import { metrics } from '../src/metrics.js';
+import { SubscriptionHub, WatchedFacility } from '../src/subscriptions/hub.js';
+import { getSubscriptionHub, pollSubscriptions, subscribe, unsubscribe } from '../src/subscriptions/index.js';
+import { checkWebhookUrl, deliverWebhook, signPayload } from '../src/subscriptions/webhook.js';
+import { AvailabilityEvent, AvailabilitySubscription, FacilityMetadata } from '../src/types.js';
+
+const silentLog: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  child: () => silentLog
+};
+
+function facility(id: string, lat: number, lon: number): FacilityMetadata {
+  return {
+    id,
+    provider: 'stockholmParkering',
+    aliasIds: [],
+    name: `P-hus ${id}`,
+    lat,
+    lon,
+    capacity: 100,
+    tariffNote: null,
+    tariff: null,
+    zoneCode: null,
+    amenities: {},
+    openingHours: null,
+    sourceUrl: 'https://example.test/facilities'
+  } as FacilityMetadata;
+}
+
+function watched(item: FacilityMetadata, freeSpaces: number | null): WatchedFacility {
+  return { facility: item, availability: { id: item.id, freeSpaces, capacity: 100, lastUpdated: null } };
+}
+
+const subscription: AvailabilitySubscription = {
+  id: 'sub-1',
+  facilityIds: ['a', 'b'],
+  area: null,
+  freeSpacesBelow: 10,
+  webhookUrl: null,
+  createdAt: '2026-03-02T08:00:00.000Z'
+};
+
+function listen(server: http.Server): Promise<string> {
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve(`http://127.0.0.1:${(server.address() as net.AddressInfo).port}`);
+    });
+  });
+}
+
+describe('SubscriptionHub', () => {
+  const a = facility('a', 59.33, 18.06);
+  const b = facility('b', 59.34, 18.07);
+
+  it('raises one event per threshold crossing', () => {
+    const hub = new SubscriptionHub();
+    hub.add(subscription, null, 'app');
+
+    const first = hub.evaluate('sub-1', [watched(a, 25), watched(b, 4)]);
+    expect(first).toHaveLength(1);
+    expect(first[0]).toMatchObject({ type: 'below_threshold', facilityId: 'b', freeSpaces: 4, freeSpacesBelow: 10 });
+
+    expect(hub.evaluate('sub-1', [watched(a, 20), watched(b, 3)])).toEqual([]);
+    expect(hub.evaluate('sub-1', [watched(a, 9), watched(b, null)]).map((event) => event.type)).toEqual([
+      'below_threshold'
+    ]);
+    expect(hub.evaluate('sub-1', [watched(a, 9), watched(b, 10)])).toMatchObject([
+      { type: 'recovered', facilityId: 'b', freeSpaces: 10 }
+    ]);
+  });
+
+  it('replays missed events to reconnecting listeners and closes them on removal', () => {
+    const hub = new SubscriptionHub();
+    hub.add(subscription, null, 'app');
+    const [missed] = hub.evaluate('sub-1', [watched(a, 1)]);
+    const [seen] = hub.evaluate('sub-1', [watched(a, 50)]);
+
+    const received: AvailabilityEvent[] = [];
+    let closed = false;
+    const stop = hub.listen(
+      'sub-1',
+      { onEvent: (event) => received.push(event), onClose: () => (closed = true) },
+      missed.id
+    );
+    expect(received).toEqual([seen]);
+
+    hub.evaluate('sub-1', [watched(a, 2)]);
+    expect(received.map((event) => event.type)).toEqual(['recovered', 'below_threshold']);
+
+    expect(hub.remove('sub-1')).toEqual(subscription);
+    expect(closed).toBe(true);
+    expect(stop).not.toBeNull();
+    expect(hub.listen('sub-1', { onEvent: () => undefined, onClose: () => undefined })).toBeNull();
+  });
+});
+
+describe('webhook delivery', () => {
+  const event: AvailabilityEvent = {
+    id: '7',
+    type: 'below_threshold',
+    subscriptionId: 'sub-1',
+    facilityId: 'a',
+    facilityName: 'P-hus a',
+    freeSpaces: 3,
+    capacity: 100,
+    freeSpacesBelow: 10,
+    lastUpdated: null,
+    emittedAt: '2026-03-02T08:00:00.000Z'
+  };
+  const config = loadConfig({
+    WEBHOOK_MAX_ATTEMPTS: '3',
+    WEBHOOK_RETRY_BASE_DELAY_MS: '1',
+    WEBHOOK_ALLOWED_HOSTS: '127.0.0.1'
+  });
+  const received: { signature: string; timestamp: string; body: string }[] = [];
+  let failuresLeft = 0;
+  let rejectWith: number | null = null;
+  let server: http.Server;
+  let base: string;
+  let url: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        if (req.url === '/moved') {
+          res.writeHead(307, { Location: '/hook' }).end();
+          return;
+        }
+        if (rejectWith !== null) {
+          res.writeHead(rejectWith).end();
+          return;
+        }
+        if (failuresLeft > 0) {
+          failuresLeft -= 1;
+          res.writeHead(503).end();
+          return;
+        }
+        received.push({
+          signature: String(req.headers['x-signature']),
+          timestamp: String(req.headers['x-signature-timestamp']),
+          body: Buffer.concat(chunks).toString('utf-8')
+        });
+        res.writeHead(204).end();
+      });
+    });
+    base = await listen(server);
+    url = `${base}/hook`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it('signs the body and retries retryable statuses', async () => {
+    failuresLeft = 2;
+    expect(await deliverWebhook(url, 'secret', event, config, silentLog)).toBe(true);
+
+    const [delivery] = received;
+    expect(JSON.parse(delivery.body)).toEqual(event);
+    expect(delivery.signature).toBe(signPayload('secret', Number(delivery.timestamp), delivery.body));
+    expect(delivery.signature).not.toBe(signPayload('other', Number(delivery.timestamp), delivery.body));
+    expect(metrics.webhookDeliveries.get({ result: 'retry' })).toBe(2);
+  });
+
+  it('gives up at once on a rejection and after the last attempt', async () => {
+    rejectWith = 410;
+    expect(await deliverWebhook(url, 'secret', event, config, silentLog)).toBe(false);
+    rejectWith = 500;
+    expect(await deliverWebhook(url, 'secret', event, config, silentLog)).toBe(false);
+
+    expect(metrics.webhookDeliveries.get({ result: 'failed' })).toBe(2);
+    expect(metrics.webhookDeliveries.get({ result: 'retry' })).toBe(4);
+  });
+
+  it('does not follow or retry a redirect', async () => {
+    received.length = 0;
+    rejectWith = null;
+
+    expect(await deliverWebhook(`${base}/moved`, 'secret', event, config, silentLog)).toBe(false);
+    expect(received).toEqual([]);
+    expect(metrics.webhookDeliveries.get({ result: 'failed' })).toBe(3);
+    expect(metrics.webhookDeliveries.get({ result: 'retry' })).toBe(4);
+  });
+
+  it('refuses to deliver to a loopback host that is not allowed', async () => {
+    received.length = 0;
+    rejectWith = null;
+    const strict = loadConfig({ WEBHOOK_MAX_ATTEMPTS: '3', WEBHOOK_RETRY_BASE_DELAY_MS: '1' });
+    const port = new URL(url).port;
+
+    expect(await deliverWebhook(url, 'secret', event, strict, silentLog)).toBe(false);
+    // Names are checked when the connection resolves them, against the addresses it connects to.
+    expect(await deliverWebhook(`http://localhost:${port}/hook`, 'secret', event, strict, silentLog)).toBe(false);
+    expect(received).toEqual([]);
+    expect(metrics.webhookDeliveries.get({ result: 'retry' })).toBe(4);
+  });
+});
+
+describe('checkWebhookUrl', () => {
+  const config = loadConfig({ WEBHOOK_ALLOWED_HOSTS: 'hooks.internal' });
+
+  it('accepts public https URLs and allowed hosts', () => {
+    expect(checkWebhookUrl('https://hooks.example/parking', config)).toBeNull();
+    expect(checkWebhookUrl('http://hooks.internal:8080/parking', config)).toBeNull();
+  });
+
+  it('rejects plain http and internal addresses', () => {
+    expect(checkWebhookUrl('http://hooks.example/parking', config)).toBe('must use https');
+    for (const url of [
+      'https://127.0.0.1:3000/',
+      'https://localhost/',
+      'https://169.254.169.254/latest/meta-data',
+      'https://10.1.2.3/',
+      'https://192.168.0.10/',
+      'https://[::1]/',
+      'https://[::ffff:127.0.0.1]/',
+      'https://[fd00::1]/',
+      'https://2130706433/'
+    ]) {
+      expect(checkWebhookUrl(url, config), url).toBe('must not point at a loopback, link-local or private address');
+    }
+  });
+});
+
+describe('subscription polling', () => {
+  let freeSpaces = 30;
+  let server: http.Server;
+  let config: ReturnType<typeof loadConfig>;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const body =
+        req.url === '/facilities'
+          ? [
+              { id: 'near', name: 'P-hus Near', lat: 59.3326, lon: 18.0649 },
+              { id: 'far', name: 'P-hus Far', lat: 59.36, lon: 18.1 }
+            ]
+          : [
+              { id: 'near', freeSpaces },
+              { id: 'far', freeSpaces: 0 }
+            ];
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+    });
+    config = loadConfig({ SP_BASE_URL: await listen(server), UPSTREAM_MAX_ATTEMPTS: '1' });
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it('refreshes availability on every poll and raises events for facilities in the area', async () => {
+    const created = subscribe(
+      config,
+      silentLog,
+      {
+        facilityIds: null,
+        area: { lat: 59.3326, lon: 18.0649, radiusMeters: 500 },
+        freeSpacesBelow: 10,
+        webhookUrl: null
+      },
+      'app'
+    );
+    expect(created).toMatchObject({ webhookSecret: null, eventsPath: `/subscriptions/${created.id}/events` });
+
+    expect(await pollSubscriptions(config, silentLog)).toEqual([]);
+    freeSpaces = 5;
+    expect(await pollSubscriptions(config, silentLog)).toMatchObject([
+      { type: 'below_threshold', subscriptionId: created.id, facilityId: 'near', freeSpaces: 5 }
+    ]);
+
+    unsubscribe(silentLog, created.id, 'app');
+    expect(() => unsubscribe(silentLog, created.id, 'app')).toThrow('Subscription not found');
+  });
+
+  it('caps the number of subscriptions', () => {
+    const request = { facilityIds: ['near'], area: null, freeSpacesBelow: 5, webhookUrl: 'https://hooks.example/p' };
+    expect(() => subscribe({ ...config, maxSubscriptions: 0 }, silentLog, request, 'app')).toThrow(
+      'Subscription limit reached'
+    );
+    expect(subscribe(config, silentLog, request, 'app').webhookSecret).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("keeps each client's subscriptions and limit to itself", () => {
+    const request = { facilityIds: ['near'], area: null, freeSpacesBelow: 5, webhookUrl: null };
+    const single = { ...config, maxSubscriptions: 1 };
+    const fleet = subscribe(single, silentLog, request, 'fleet');
+    expect(() => subscribe(single, silentLog, request, 'fleet')).toThrow('Subscription limit reached');
+    const valet = subscribe(single, silentLog, request, 'valet');
+
+    expect(getSubscriptionHub().list('fleet').map((subscription) => subscription.id)).toEqual([fleet.id]);
+    expect(() => unsubscribe(silentLog, fleet.id, 'valet')).toThrow('Subscription not found');
+    expect(unsubscribe(silentLog, fleet.id, 'fleet').id).toBe(fleet.id);
+    expect(unsubscribe(silentLog, valet.id, 'valet').id).toBe(valet.id);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { estimateParkingCost, parseTariff } from '../src/tariff.js';
+
+describe('parseTariff', () => {
+  it('parses weekday bands, other times and a daily cap', () => {
+    const tariff = parseTariff('Mån-fre 07-19: 30 kr/tim; övrig tid 15 kr/tim. Max 250 kr/dygn');
+
+    expect(tariff).not.toBeNull();
+    expect(tariff?.bands).toHaveLength(1);
+    expect(tariff?.bands[0]).toMatchObject({
+      days: [1, 2, 3, 4, 5],
+      startMinute: 7 * 60,
+      endMinute: 19 * 60,
+      ratePerHourSek: 30
+    });
+    expect(tariff?.defaultRatePerHourSek).toBe(15);
+    expect(tariff?.dailyCapSek).toBe(250);
+  });
+
+  it('parses English weekend rules and decimal rates', () => {
+    const tariff = parseTariff('Weekdays 8:00-18:00 22,50 SEK/hour, weekends free');
+
+    expect(tariff?.bands.map((band) => band.ratePerHourSek)).toEqual([22.5, 0]);
+    expect(tariff?.bands[1].days).toEqual([6, 7]);
+  });
+
+  it('returns null for notes it does not fully understand', () => {
+    expect(parseTariff('Boende 10 kr/tim, besökare 20 kr/tim')).toBeNull();
+    expect(parseTariff('Se skylt på plats')).toBeNull();
+    expect(parseTariff(null)).toBeNull();
+  });
+});
+
+describe('estimateParkingCost', () => {
+  const tariff = parseTariff('Mån-fre 07-19: 30 kr/tim; övrig tid 15 kr/tim. Max 250 kr/dygn');
+
+  it('prices a stay that crosses a band boundary', () => {
+    // Wednesday 2024-05-15 17:00 local time (CEST).
+    const estimate = estimateParkingCost(tariff!, new Date('2024-05-15T15:00:00Z'), 180);
+
+    expect(estimate?.amountSek).toBe(75);
+    expect(estimate?.breakdown).toEqual([
+      { label: 'Mån-fre 07-19: 30 kr/tim', minutes: 120, ratePerHourSek: 30, amountSek: 60 },
+      { label: 'Övrig tid', minutes: 60, ratePerHourSek: 15, amountSek: 15 }
+    ]);
+  });
+
+  it('applies the daily cap', () => {
+    const estimate = estimateParkingCost(tariff!, new Date('2024-05-15T05:00:00Z'), 24 * 60);
+
+    expect(estimate?.amountSek).toBe(250);
+    expect(estimate?.breakdown.at(-1)?.label).toBe('Max 250 kr/dygn');
+  });
+
+  it('prices a multi-day stay across a DST change', () => {
+    // Friday 2024-03-29 18:00 CET to Monday 2024-04-01 19:00 CEST; clocks go forward on Sunday.
+    const uncapped = parseTariff('Mån-fre 07-19: 30 kr/tim; övrig tid 15 kr/tim');
+    const estimate = estimateParkingCost(uncapped!, new Date('2024-03-29T17:00:00Z'), 72 * 60);
+
+    expect(estimate?.amountSek).toBe(1275);
+    expect(estimate?.breakdown).toEqual([
+      { label: 'Mån-fre 07-19: 30 kr/tim', minutes: 13 * 60, ratePerHourSek: 30, amountSek: 390 },
+      { label: 'Övrig tid', minutes: 59 * 60, ratePerHourSek: 15, amountSek: 885 }
+    ]);
+  });
+
+  it('labels a flat rate without bands as applying at all times', () => {
+    const flat = parseTariff('20 kr/tim');
+    const estimate = estimateParkingCost(flat!, new Date('2024-05-15T15:00:00Z'), 90);
+
+    expect(estimate?.breakdown).toEqual([{ label: 'Alla tider', minutes: 90, ratePerHourSek: 20, amountSek: 30 }]);
+  });
+
+  it('returns null when the stay is not covered by any rule', () => {
+    const weekdaysOnly = parseTariff('Vardagar 9-17 20 kr/tim');
+
+    // Saturday 2024-05-18 10:00 local time.
+    expect(estimateParkingCost(weekdaysOnly!, new Date('2024-05-18T08:00:00Z'), 60)).toBeNull();
+  });
+});
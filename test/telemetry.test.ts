@@ -0,0 +1,111 @@
+import { InMemorySpanExporter } from '@opentelemetry/sdk-trace-node';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Logger } from '../src/log.js';
+import { Counter, Histogram, metrics, observeToolCall, renderMetrics, resetMetrics } from '../src/metrics.js';
+import { initTracing, shutdownTracing, withIncomingSpan, withSpan } from '../src/tracing.js';
+import { ServiceConfig } from '../src/types.js';
+
+const silentLog: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  child: () => silentLog
+};
+
+const config = { tracingExporter: 'none', tracingServiceName: 'test' } as ServiceConfig;
+
+/** Keeps finished spans after the provider shuts down, which is when batched spans are flushed. */
+class RetainingSpanExporter extends InMemorySpanExporter {
+  override shutdown(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+function invalidInput(): Error {
+  const error = new Error('Invalid input');
+  (error as Error & { details?: unknown }).details = [];
+  return error;
+}
+
+describe('metrics', () => {
+  beforeEach(() => {
+    resetMetrics();
+  });
+
+  it('renders counters with escaped labels', () => {
+    const counter = new Counter('test_total', 'Test counter.', ['key']);
+    counter.inc({ key: 'a"b' });
+    counter.inc({ key: 'a"b' }, 2);
+
+    expect(counter.render()).toBe(['# HELP test_total Test counter.', '# TYPE test_total counter', 'test_total{key="a\\"b"} 3'].join('\n'));
+  });
+
+  it('renders cumulative histogram buckets', () => {
+    const histogram = new Histogram('test_seconds', 'Test histogram.', ['method'], [0.1, 1]);
+    histogram.observe({ method: 'm' }, 0.05);
+    histogram.observe({ method: 'm' }, 0.5);
+    histogram.observe({ method: 'm' }, 3);
+
+    const lines = histogram.render().split('\n');
+    expect(lines).toContain('test_seconds_bucket{method="m",le="0.1"} 1');
+    expect(lines).toContain('test_seconds_bucket{method="m",le="1"} 2');
+    expect(lines).toContain('test_seconds_bucket{method="m",le="+Inf"} 3');
+    expect(lines).toContain('test_seconds_sum{method="m"} 3.55');
+    expect(lines).toContain('test_seconds_count{method="m"} 3');
+  });
+
+  it('counts tool calls by outcome and validation failures', async () => {
+    await observeToolCall('recommendFacility', () => Promise.resolve([]));
+    await expect(observeToolCall('recommendFacility', () => Promise.reject(invalidInput()))).rejects.toThrow(
+      'Invalid input'
+    );
+    await expect(observeToolCall('recommendFacility', () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+
+    expect(metrics.toolRequests.get({ method: 'recommendFacility', outcome: 'ok' })).toBe(1);
+    expect(metrics.toolRequests.get({ method: 'recommendFacility', outcome: 'invalid' })).toBe(1);
+    expect(metrics.toolRequests.get({ method: 'recommendFacility', outcome: 'error' })).toBe(1);
+    expect(metrics.validationFailures.get({ method: 'recommendFacility' })).toBe(1);
+    expect(renderMetrics()).toContain('sthlm_parking_tool_request_duration_seconds_count{method="recommendFacility"} 3');
+  });
+});
+
+describe('tracing', () => {
+  let exporter: RetainingSpanExporter;
+
+  beforeEach(() => {
+    exporter = new RetainingSpanExporter();
+    initTracing(config, silentLog, exporter);
+  });
+
+  afterEach(async () => {
+    await shutdownTracing();
+  });
+
+  it('nests spans started inside an active span', async () => {
+    await withSpan('recommendFacility', {}, () => withSpan('getFacilities', {}, () => Promise.resolve()));
+    await shutdownTracing();
+
+    const spans = exporter.getFinishedSpans();
+    const parent = spans.find((span) => span.name === 'recommendFacility');
+    const child = spans.find((span) => span.name === 'getFacilities');
+    expect(parent).toBeDefined();
+    expect(child?.parentSpanContext?.spanId).toBe(parent?.spanContext().spanId);
+    expect(child?.spanContext().traceId).toBe(parent?.spanContext().traceId);
+  });
+
+  it('continues an incoming W3C trace and records errors', async () => {
+    const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+    await expect(
+      withIncomingSpan({ traceparent: `00-${traceId}-00f067aa0ba902b7-01` }, 'POST /recommendFacility', {}, () =>
+        Promise.reject(new Error('boom'))
+      )
+    ).rejects.toThrow('boom');
+    await shutdownTracing();
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.spanContext().traceId).toBe(traceId);
+    expect(span.parentSpanContext?.spanId).toBe('00f067aa0ba902b7');
+    expect(span.status).toMatchObject({ code: 2, message: 'boom' });
+  });
+});
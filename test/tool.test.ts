@@ -0,0 +1,79 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { buildDiscoveryDocument } from '../src/discovery.js';
+import { Logger } from '../src/log.js';
+import { MockUpstream } from '../src/mock/upstream.js';
+import type { StockholmParkingTool } from '../src/tool.js';
+import { FacilityRecommendation } from '../src/types.js';
+
+// Only the SDK base class is replaced; the schemas, Ajv and handlers are the ones the server loads.
+vi.mock('@optimizely-opal/opal-tool-ocp-sdk', () => ({ OpalTool: undefined }));
+
+/**
+ * Lists the paths of schema properties without a description, in nested objects, items and
+ * alternatives too.
+ */
+function undescribedProperties(schema: unknown, path: string): string[] {
+  if (typeof schema !== 'object' || schema === null) {
+    return [];
+  }
+  const { properties, items, oneOf } = schema as { properties?: object; items?: unknown; oneOf?: unknown[] };
+  const missing = Object.entries(properties ?? {}).flatMap(([name, property]) => {
+    const description = (property as { description?: unknown }).description;
+    const own = typeof description === 'string' && description.trim() !== '' ? [] : [`${path}.${name}`];
+    return [...own, ...undescribedProperties(property, `${path}.${name}`)];
+  });
+  return [
+    ...missing,
+    ...undescribedProperties(items, `${path}[]`),
+    ...(oneOf ?? []).flatMap((alternative, index) => undescribedProperties(alternative, `${path}|${index}`))
+  ];
+}
+
+const silentLog: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  child: () => silentLog
+};
+
+describe('StockholmParkingTool', () => {
+  const mock = new MockUpstream();
+  let tool: StockholmParkingTool;
+
+  beforeAll(async () => {
+    // The tool reads its configuration when the module loads.
+    process.env.SP_BASE_URL = await mock.listen();
+    tool = (await import('../src/tool.js')).default;
+  });
+
+  afterAll(async () => {
+    delete process.env.SP_BASE_URL;
+    await mock.close();
+  });
+
+  it('compiles its schemas and answers recommendFacility', async () => {
+    const result = (await tool.invoke(
+      'recommendFacility',
+      { userLat: 59.3326, userLon: 18.0649, radiusMeters: 1000, arrivalTime: null, rankingProfile: 'closest' },
+      silentLog
+    )) as FacilityRecommendation[];
+
+    expect(result.map((recommendation) => recommendation.id)).toEqual(['SP-1001', 'SP-1002']);
+    expect(result[0]).toMatchObject({ name: 'P-hus Gallerian', freeSpaces: 57, capacity: 420 });
+  });
+
+  it('publishes a description for every parameter and schema property', () => {
+    const { functions } = buildDiscoveryDocument(tool.definition);
+
+    expect(functions.flatMap((entry) => entry.parameters.filter((parameter) => parameter.description === ''))).toEqual(
+      []
+    );
+    expect(
+      functions.flatMap((entry) => [
+        ...undescribedProperties(entry.input_schema, `${entry.name} input`),
+        ...undescribedProperties(entry.output_schema, `${entry.name} output`)
+      ])
+    ).toEqual([]);
+  });
+});
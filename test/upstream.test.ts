@@ -0,0 +1,90 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { loadConfig } from '../src/config.js';
+import { createProviderContext } from '../src/data.js';
+import { Logger } from '../src/log.js';
+import { MockUpstream } from '../src/mock/upstream.js';
+import { fixtureFileName, UpstreamFixture } from '../src/upstream.js';
+
+const silentLog: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  child: () => silentLog
+};
+
+describe('fixtureFileName', () => {
+  it('names fixtures by endpoint and query, leaving API keys out', () => {
+    const name = fixtureFileName('https://openparking.stockholm.se/LTF-Tolken/v1/ptillaten/all?outputFormat=json&apiKey=a');
+
+    expect(name).toMatch(/^openparking\.stockholm\.se-LTF-Tolken-v1-ptillaten-all-[0-9a-f]{12}\.json$/);
+    expect(fixtureFileName('https://openparking.stockholm.se/LTF-Tolken/v1/ptillaten/all?outputFormat=json&apiKey=b')).toBe(
+      name
+    );
+    expect(fixtureFileName('https://openparking.stockholm.se/LTF-Tolken/v1/ptillaten/all?outputFormat=xml')).not.toBe(name);
+  });
+});
+
+describe('record and replay', () => {
+  let mock: MockUpstream;
+  let baseUrl: string;
+  let dir: string;
+
+  const configFor = (mode: string) =>
+    loadConfig({
+      SP_BASE_URL: baseUrl,
+      UPSTREAM_MODE: mode,
+      UPSTREAM_FIXTURES_DIR: dir,
+      UPSTREAM_MAX_ATTEMPTS: '1',
+      BREAKER_FAILURE_THRESHOLD: '100'
+    });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'upstream-fixtures-'));
+    mock = new MockUpstream();
+    baseUrl = await mock.listen();
+  });
+
+  afterEach(async () => {
+    await mock.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('records responses without secrets and replays them with the upstream gone', async () => {
+    const url = `${baseUrl}/availability?apiKey=secret`;
+    const recorded = await createProviderContext(configFor('record'), silentLog).fetchJson<unknown[]>(url);
+    expect(recorded).toHaveLength(4);
+
+    const [file] = await readdir(dir);
+    const fixture = JSON.parse(await readFile(path.join(dir, file), 'utf-8')) as UpstreamFixture;
+    expect(fixture).toMatchObject({ url: `${baseUrl}/availability`, status: 200, json: recorded });
+    expect(JSON.stringify(fixture)).not.toContain('secret');
+
+    await mock.close();
+    const replayed = await createProviderContext(configFor('replay'), silentLog).fetchJson<unknown[]>(url);
+    expect(replayed).toEqual(recorded);
+    expect(mock.requestCount('/availability')).toBe(1);
+  });
+
+  it('replays recorded failures as failures', async () => {
+    mock.setScenario('unavailable');
+    await expect(
+      createProviderContext(configFor('record'), silentLog).fetchJson(`${baseUrl}/facilities`)
+    ).rejects.toThrow('status 503');
+
+    await expect(
+      createProviderContext(configFor('replay'), silentLog).fetchJson(`${baseUrl}/facilities`)
+    ).rejects.toThrow('status 503: Service Unavailable');
+    expect(mock.requestCount('/facilities')).toBe(1);
+  });
+
+  it('fails a replayed request that was never recorded', async () => {
+    await expect(
+      createProviderContext(configFor('replay'), silentLog).fetchJson(`${baseUrl}/facilities`)
+    ).rejects.toThrow(`No recorded upstream response for ${baseUrl}/facilities`);
+    expect(mock.requests).toEqual([]);
+  });
+});